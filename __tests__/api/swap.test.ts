@@ -1,43 +1,104 @@
 /**
- * Tests for swap API endpoint
+ * @jest-environment node
+ *
+ * Tests for swap API endpoint; route handlers need the fetch Request globals jsdom lacks
  */
 
 import { NextRequest } from 'next/server';
+import { Transaction } from '@iota/iota-sdk/transactions';
 import { POST } from '@/app/api/swap/route';
-import { createMockRequest, mockPools, mockPoolReserves } from '@/lib/testing/test-utils';
-
-// Mock dependencies
-jest.mock('@iota/iota-sdk/client', () => ({
-  IotaClient: jest.fn().mockImplementation(() => ({
-    getObject: jest.fn().mockResolvedValue({
-      data: {
-        content: {
-          dataType: 'moveObject',
-          fields: {
-            reserve_a: { fields: { value: mockPoolReserves.reserveA.toString() } },
-            reserve_b: { fields: { value: mockPoolReserves.reserveB.toString() } },
-            lp_supply: mockPoolReserves.lpSupply.toString(),
-            fee_data: mockPoolReserves.feeData,
-            volume_data: mockPoolReserves.volumeData,
-          },
-        },
-      },
-    }),
-  })),
-  getFullnodeUrl: jest.fn().mockReturnValue('https://api.testnet.iota.cafe'),
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { rateLimiter } from '@/lib/security';
+import { NetworkError } from '@/lib/errors';
+import { createMockRequest, mockPoolReserves } from '@/lib/testing/api-test-utils';
+
+const SENDER = '0x' + '1'.repeat(64);
+const POOL_ID = '0x' + 'a1'.repeat(32);
+const GAS_COIN_ID = '0x' + 'c1'.repeat(32);
+const INPUT_COIN_ID = '0x' + 'c2'.repeat(32);
+const DIGEST = '4vJ9JU1bJJE96FWSJKvHsmmFADCg4gpZQff4P3bkLKi'; // 32 bytes of 0x01, base58
+
+const pool = (poolId: string, coinTypeA: string, coinTypeB: string, overrides: Partial<PoolInfo> = {}): PoolInfo => ({
+  poolId,
+  coinTypeA,
+  coinTypeB,
+  reserveA: mockPoolReserves.reserveA,
+  reserveB: mockPoolReserves.reserveB,
+  lpSupply: mockPoolReserves.lpSupply,
+  feePercentage: 18,
+  ...overrides,
+});
+
+const coin = (coinObjectId: string, balance: string) => ({
+  coinType: '0x2::iota::IOTA',
+  coinObjectId,
+  balance,
+  version: '1',
+  digest: DIGEST,
+  previousTransaction: DIGEST,
+});
+
+const struct = (address: string, module: string, name: string) => ({ Struct: { address, module, name, typeArguments: [] } });
+
+// Just enough RPC for `build` to select coins and resolve its transaction
+const mockClient = {
+  getCoins: jest.fn(),
+  getReferenceGasPrice: jest.fn(),
+  multiGetObjects: jest.fn(),
+  getNormalizedMoveFunction: jest.fn(),
+};
+
+jest.mock('@/lib/iota/client', () => ({
+  getIotaClient: () => mockClient,
 }));
 
-jest.mock('@/config/iota.config', () => ({
-  SUPPORTED_COINS: {
-    IOTA: { type: '0x2::iota::IOTA' },
-    stIOTA: { type: '0x2::stiota::STIOTA' },
-    vUSD: { type: '0x2::vusd::VUSD' },
-  },
-}));
+// Real IOTA_CONFIG (package IDs, defaults) with the test token types
+jest.mock('@/config/iota.config', () => {
+  const actual = jest.requireActual('@/config/iota.config');
+  return {
+    ...actual,
+    SUPPORTED_COINS: {
+      IOTA: { ...actual.SUPPORTED_COINS.IOTA, type: '0x2::iota::IOTA' },
+      stIOTA: { ...actual.SUPPORTED_COINS.stIOTA, type: '0x2::stiota::STIOTA' },
+      vUSD: { ...actual.SUPPORTED_COINS.vUSD, type: '0x2::vusd::VUSD' },
+    },
+  };
+});
 
 describe('Swap API', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    // Every request comes from the same unknown client, so each test starts a fresh window
+    rateLimiter.reset();
+    jest.spyOn(PoolService, 'getAllPools').mockResolvedValue([pool(POOL_ID, '0x2::iota::IOTA', '0x2::stiota::STIOTA')]);
+
+    mockClient.getCoins.mockResolvedValue({
+      data: [coin(GAS_COIN_ID, '10000000000'), coin(INPUT_COIN_ID, '1000000000')],
+      hasNextPage: false,
+      nextCursor: null,
+    });
+    mockClient.getReferenceGasPrice.mockResolvedValue(1000n);
+    mockClient.multiGetObjects.mockImplementation(async ({ ids }: { ids: string[] }) =>
+      ids.map(objectId => ({
+        data: {
+          objectId,
+          version: '2',
+          digest: DIGEST,
+          owner: objectId === POOL_ID ? { Shared: { initial_shared_version: '1' } } : { AddressOwner: SENDER },
+        },
+      }))
+    );
+    mockClient.getNormalizedMoveFunction.mockResolvedValue({
+      parameters: [
+        { MutableReference: struct('0x1', 'simple_dex', 'Pool') },
+        struct('0x2', 'coin', 'Coin'),
+        { MutableReference: struct('0x2', 'tx_context', 'TxContext') },
+      ],
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
   });
 
   describe('POST /api/swap', () => {
@@ -47,7 +108,7 @@ describe('Swap API', () => {
         params: {
           inputToken: '0x2::iota::IOTA',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '100000000000', // 100 IOTA in smallest units
+          inputAmount: '5000000', // 0.005 IOTA in smallest units
         },
       };
 
@@ -60,17 +121,41 @@ describe('Swap API', () => {
       expect(data.data).toBeDefined();
       expect(data.data.outputAmount).toBeDefined();
       expect(data.data.priceImpact).toBeDefined();
-      expect(data.data.poolId).toBeDefined();
-      expect(data.data.reserves).toBeDefined();
+      expect(data.data.routes[0].poolIds).toBeDefined();
+    });
+
+    it('should quote pairs without a direct pool on the route build executes', async () => {
+      jest.spyOn(PoolService, 'getAllPools').mockResolvedValue([
+        pool('0xa1', '0x2::iota::IOTA', '0x2::stiota::STIOTA'),
+        pool('0xa2', '0x2::iota::IOTA', '0x2::vusd::VUSD'),
+      ]);
+
+      const requestBody = {
+        action: 'estimate',
+        params: {
+          inputToken: '0x2::stiota::STIOTA',
+          outputToken: '0x2::vusd::VUSD',
+          inputAmount: '5000000',
+        },
+      };
+
+      const request = createMockRequest('POST', requestBody);
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.data.routes).toEqual([
+        { path: ['0x2::stiota::STIOTA', '0x2::iota::IOTA', '0x2::vusd::VUSD'], percentage: 100, poolIds: ['0xa1', '0xa2'] },
+      ]);
     });
 
-    it('should return transaction params for valid execute request', async () => {
+    it('should return 400 for the removed execute action', async () => {
       const requestBody = {
         action: 'execute',
         params: {
           inputToken: '0x2::iota::IOTA',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '100000000000',
+          inputAmount: '5000000',
           minOutputAmount: '99000000000',
         },
       };
@@ -79,11 +164,9 @@ describe('Swap API', () => {
       const response = await POST(request);
       const data = await response.json();
 
-      expect(response.status).toBe(200);
-      expect(data.success).toBe(true);
-      expect(data.data.transactionParams).toBeDefined();
-      expect(data.data.transactionParams.target).toContain('simple_dex::swap_');
-      expect(data.data.transactionParams.poolId).toBeDefined();
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+      expect(data.error.message).toContain('Unsupported action');
     });
 
     it('should return 400 for invalid JSON', async () => {
@@ -106,7 +189,7 @@ describe('Swap API', () => {
         params: {
           inputToken: '0x2::iota::IOTA',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '100000000000',
+          inputAmount: '5000000',
         },
       };
 
@@ -125,7 +208,7 @@ describe('Swap API', () => {
         params: {
           inputToken: 'invalid-token',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '100000000000',
+          inputAmount: '5000000',
         },
       };
 
@@ -170,13 +253,115 @@ describe('Swap API', () => {
       expect(data.error.message).toContain('Unsupported action');
     });
 
+    it('should return 400 for build request without a valid sender', async () => {
+      const requestBody = {
+        action: 'build',
+        params: {
+          inputToken: '0x2::iota::IOTA',
+          outputToken: '0x2::stiota::STIOTA',
+          inputAmount: '5000000',
+          sender: '0x123',
+        },
+      };
+
+      const request = createMockRequest('POST', requestBody);
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+      expect(data.error.message).toContain('sender');
+    });
+
+    it('should return 400 for build request with an expired quote', async () => {
+      const requestBody = {
+        action: 'build',
+        params: {
+          inputToken: '0x2::iota::IOTA',
+          outputToken: '0x2::stiota::STIOTA',
+          inputAmount: '5000000',
+          sender: '0x' + '1'.repeat(64),
+          expiresAt: Date.now() - 1000,
+        },
+      };
+
+      const request = createMockRequest('POST', requestBody);
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+      expect(data.error.message).toContain('Quote expired');
+    });
+
+    it('should return 400 for build request with a non-integer minimum output', async () => {
+      const requestBody = {
+        action: 'build',
+        params: {
+          inputToken: '0x2::iota::IOTA',
+          outputToken: '0x2::stiota::STIOTA',
+          inputAmount: '5000000',
+          minOutputAmount: '4.9e6',
+          sender: '0x' + '1'.repeat(64),
+        },
+      };
+
+      const request = createMockRequest('POST', requestBody);
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+      expect(data.error.message).toContain('minOutputAmount');
+    });
+
+    it('should return 400 for build request with a fractional input amount', async () => {
+      const requestBody = {
+        action: 'build',
+        params: {
+          inputToken: '0x2::iota::IOTA',
+          outputToken: '0x2::stiota::STIOTA',
+          inputAmount: '1.5',
+          sender: '0x' + '1'.repeat(64),
+        },
+      };
+
+      const request = createMockRequest('POST', requestBody);
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+      expect(data.error.message).toContain('inputAmount');
+    });
+
+    it('should return 400 for exact output estimate with a fractional output amount', async () => {
+      const requestBody = {
+        action: 'estimate',
+        params: {
+          tradeType: 'exactOutput',
+          inputToken: '0x2::iota::IOTA',
+          outputToken: '0x2::stiota::STIOTA',
+          outputAmount: '2.5',
+        },
+      };
+
+      const request = createMockRequest('POST', requestBody);
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.success).toBe(false);
+      expect(data.error.message).toContain('outputAmount');
+    });
+
     it('should include security headers in response', async () => {
       const requestBody = {
         action: 'estimate',
         params: {
           inputToken: '0x2::iota::IOTA',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '100000000000',
+          inputAmount: '5000000',
         },
       };
 
@@ -194,7 +379,7 @@ describe('Swap API', () => {
         params: {
           inputToken: '0x2::iota::IOTA',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '100000000000',
+          inputAmount: '5000000',
         },
       };
 
@@ -213,12 +398,17 @@ describe('Swap API', () => {
     });
 
     it('should validate price impact limits', async () => {
+      // Half the pool's reserve in one trade, past the price impact limit on every split
+      jest.spyOn(PoolService, 'getAllPools').mockResolvedValue([
+        pool(POOL_ID, '0x2::iota::IOTA', '0x2::stiota::STIOTA', { reserveA: 10000000n, reserveB: 10000000n }),
+      ]);
+
       const requestBody = {
         action: 'estimate',
         params: {
           inputToken: '0x2::iota::IOTA',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '500000000000000', // Very large amount to cause high price impact
+          inputAmount: '5000000',
         },
       };
 
@@ -228,24 +418,52 @@ describe('Swap API', () => {
 
       expect(response.status).toBe(400);
       expect(data.success).toBe(false);
-      expect(data.error.message).toContain('price impact');
+      expect(data.error.message).toContain('Not enough liquidity');
+    });
+
+    it('should build a swap transaction ready for the sender to sign', async () => {
+      const requestBody = {
+        action: 'build',
+        params: {
+          inputToken: '0x2::iota::IOTA',
+          outputToken: '0x2::stiota::STIOTA',
+          inputAmount: '5000000',
+          sender: SENDER,
+        },
+      };
+
+      const request = createMockRequest('POST', requestBody);
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.success).toBe(true);
+      expect(BigInt(data.data.minimumReceived)).toBeLessThan(BigInt(data.data.outputAmount));
+      expect(data.data.routes).toEqual([
+        { path: ['0x2::iota::IOTA', '0x2::stiota::STIOTA'], percentage: 100, poolIds: [POOL_ID] },
+      ]);
+
+      const tx = Transaction.from(data.data.transactionBytes);
+      const { sender, commands, gasData } = tx.getData();
+      expect(sender).toBe(SENDER);
+      expect(gasData.budget).toBe(data.data.gasBudget);
+      const calls = commands.flatMap(command => (command.MoveCall ? [command.MoveCall.function] : []));
+      expect(calls).toEqual(['swap_a_to_b_internal']);
+      // The input is split off a coin other than the gas coin
+      expect(gasData.payment?.map(ref => ref.objectId)).toEqual([GAS_COIN_ID]);
     });
   });
 
   describe('Error Handling', () => {
     it('should handle network errors gracefully', async () => {
-      // Mock network error
-      const IotaClient = require('@iota/iota-sdk/client').IotaClient;
-      IotaClient.mockImplementation(() => ({
-        getObject: jest.fn().mockRejectedValue(new Error('Network error')),
-      }));
+      jest.spyOn(PoolService, 'getAllPools').mockRejectedValue(new NetworkError('Failed to fetch pool reserves'));
 
       const requestBody = {
         action: 'estimate',
         params: {
           inputToken: '0x2::iota::IOTA',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '100000000000',
+          inputAmount: '5000000',
         },
       };
 
@@ -259,20 +477,14 @@ describe('Swap API', () => {
     });
 
     it('should handle timeout errors', async () => {
-      // Mock slow response
-      const IotaClient = require('@iota/iota-sdk/client').IotaClient;
-      IotaClient.mockImplementation(() => ({
-        getObject: jest.fn().mockImplementation(() => 
-          new Promise(resolve => setTimeout(resolve, 15000)) // Longer than 10s timeout
-        ),
-      }));
+      jest.spyOn(PoolService, 'getAllPools').mockRejectedValue(new NetworkError('Pool discovery timeout'));
 
       const requestBody = {
         action: 'estimate',
         params: {
           inputToken: '0x2::iota::IOTA',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '100000000000',
+          inputAmount: '5000000',
         },
       };
 
@@ -293,7 +505,7 @@ describe('Swap API', () => {
         params: {
           inputToken: '0x2::iota::IOTA',
           outputToken: '0x2::stiota::STIOTA',
-          inputAmount: '100000000000',
+          inputAmount: '5000000',
         },
       };
 
@@ -0,0 +1,107 @@
+/**
+ * Tests for input coin selection
+ */
+
+import { CoinStruct } from '@iota/iota-sdk/client';
+import { Transaction } from '@iota/iota-sdk/transactions';
+import { CoinSource, getAllCoins, selectCoins, prepareCoinInput } from '@/lib/iota/coin-selection';
+import { ErrorCode } from '@/lib/errors';
+
+const OWNER = '0x' + '1'.repeat(64);
+const IOTA = '0x2::iota::IOTA';
+const VUSD = '0x4::vusd::VUSD';
+
+const createCoin = (index: number, balance: bigint, coinType = VUSD): CoinStruct => ({
+  coinType,
+  coinObjectId: '0x' + index.toString(16).padStart(64, '0'),
+  balance: balance.toString(),
+  digest: '11111111111111111111111111111111',
+  version: '1',
+  previousTransaction: '11111111111111111111111111111111',
+});
+
+// Serves the coins two per page, like an RPC node with a small page size
+const createSource = (coins: CoinStruct[]) => {
+  const getCoins = jest.fn(async ({ cursor }: { cursor?: string | null }) => {
+    const start = cursor ? Number(cursor) : 0;
+    const end = start + 2;
+    return {
+      data: coins.slice(start, end),
+      hasNextPage: end < coins.length,
+      nextCursor: end < coins.length ? String(end) : null,
+    };
+  });
+  return { getCoins } as unknown as CoinSource & { getCoins: jest.Mock };
+};
+
+const commandsOf = (tx: Transaction) => tx.getData().commands;
+
+describe('coin selection', () => {
+  it('should follow the cursor through every page', async () => {
+    const coins = [1, 2, 3, 4, 5].map(index => createCoin(index, 10n));
+    const source = createSource(coins);
+
+    await expect(getAllCoins(source, OWNER, VUSD)).resolves.toHaveLength(5);
+    expect(source.getCoins).toHaveBeenCalledTimes(3);
+  });
+
+  it('should pick the smallest single coin that covers the amount', () => {
+    const selection = selectCoins([createCoin(1, 500n), createCoin(2, 120n), createCoin(3, 80n)], 100n);
+
+    expect(selection?.coins.map(coin => coin.balance)).toEqual(['120']);
+  });
+
+  it('should use the fewest large coins when no single coin is enough', () => {
+    const dust = [4, 5, 6, 7].map(index => createCoin(index, 1n));
+    const selection = selectCoins([...dust, createCoin(1, 60n), createCoin(2, 50n), createCoin(3, 10n)], 100n);
+
+    expect(selection?.coins.map(coin => coin.balance)).toEqual(['60', '50']);
+    expect(selection?.total).toBe(110n);
+  });
+
+  it('should return null when the coins cannot cover the amount', () => {
+    expect(selectCoins([createCoin(1, 40n), createCoin(2, 50n)], 100n)).toBeNull();
+  });
+
+  it('should merge and split non-IOTA coins without touching the gas coin', async () => {
+    const source = createSource([createCoin(1, 60n), createCoin(2, 50n), createCoin(3, 10n)]);
+    const tx = new Transaction();
+
+    await prepareCoinInput(source, tx, { owner: OWNER, coinType: VUSD, amount: 100n });
+
+    const commands = commandsOf(tx);
+    expect(commands[0]?.MergeCoins?.sources).toHaveLength(1);
+    expect(commands[1]?.SplitCoins?.coin.$kind).not.toBe('GasCoin');
+  });
+
+  it('should keep the largest IOTA coin for gas when the others cover the input', async () => {
+    const coins = [createCoin(1, 5000000000n, IOTA), createCoin(2, 2000000000n, IOTA)];
+    const tx = new Transaction();
+
+    await prepareCoinInput(createSource(coins), tx, { owner: OWNER, coinType: IOTA, amount: 1000000000n });
+
+    const split = commandsOf(tx)[0]?.SplitCoins;
+    expect(split?.coin.$kind).toBe('Input');
+    expect(tx.getData().inputs[0]?.UnresolvedObject?.objectId).toBe(coins[1]?.coinObjectId);
+  });
+
+  it('should split the gas coin when only it holds enough IOTA', async () => {
+    const tx = new Transaction();
+
+    await prepareCoinInput(createSource([createCoin(1, 5000000000n, IOTA)]), tx, {
+      owner: OWNER,
+      coinType: IOTA,
+      amount: 1000000000n,
+    });
+
+    expect(commandsOf(tx)[0]?.SplitCoins?.coin.$kind).toBe('GasCoin');
+  });
+
+  it('should reject inputs the balance cannot cover', async () => {
+    const tx = new Transaction();
+
+    await expect(
+      prepareCoinInput(createSource([createCoin(1, 50n)]), tx, { owner: OWNER, coinType: VUSD, amount: 100n })
+    ).rejects.toMatchObject({ code: ErrorCode.INSUFFICIENT_BALANCE });
+  });
+});
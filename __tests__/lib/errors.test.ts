@@ -16,8 +16,15 @@ import {
   parseError,
   getErrorSeverity,
   ErrorSeverity,
+  MoveAbortError,
+  parseMoveAbort,
+  decodeMoveAbort,
+  getErrorMessage,
 } from '@/lib/errors';
 
+const moveAbort = (module: string, functionName: string, code: number) =>
+  `MoveAbort(MoveLocation { module: ModuleId { address: 0x1a2b, name: Identifier("${module}") }, function: 3, instruction: 21, function_name: Some("${functionName}") }, ${code}) in command 1`;
+
 describe('Error System', () => {
   describe('AppError', () => {
     it('should create an error with all properties', () => {
@@ -202,4 +209,55 @@ describe('Error System', () => {
       expect(getErrorSeverity(error)).toBe(ErrorSeverity.LOW);
     });
   });
-});
\ No newline at end of file
+
+  describe('Move abort decoding', () => {
+    it('should parse module, function and code from a MoveAbort', () => {
+      expect(parseMoveAbort(moveAbort('simple_dex', 'swap_a_to_b', 3))).toEqual({
+        module: 'simple_dex',
+        abortCode: 3,
+        functionName: 'swap_a_to_b',
+        constant: 'E_INSUFFICIENT_RESERVES',
+      });
+      expect(parseMoveAbort('InsufficientGas')).toBeNull();
+    });
+
+    it('should map known abort codes per module', () => {
+      expect(decodeMoveAbort(moveAbort('simple_dex', 'swap_a_to_b', 3))?.code).toBe(ErrorCode.INSUFFICIENT_LIQUIDITY);
+      expect(decodeMoveAbort(moveAbort('dca', 'execute_order', 8))?.code).toBe(ErrorCode.INTERVAL_NOT_ELAPSED);
+      expect(decodeMoveAbort(moveAbort('limit_order', 'place_buy_order', 6))?.code).toBe(ErrorCode.INVALID_ORDER_EXPIRY);
+      expect(decodeMoveAbort(moveAbort('fixed_swap', 'swap', 1))?.code).toBe(ErrorCode.INSUFFICIENT_LIQUIDITY);
+    });
+
+    it('should treat a zero or overflowing simple_dex output as an invalid amount', () => {
+      expect(decodeMoveAbort(moveAbort('simple_dex', 'swap_a_to_b_internal', 2))?.code).toBe(ErrorCode.INVALID_AMOUNT);
+    });
+
+    it('should decode a failed minimum-out split as exceeded slippage', () => {
+      const error = decodeMoveAbort('InsufficientCoinBalance in command 3', 3);
+
+      expect(error?.code).toBe(ErrorCode.SLIPPAGE_EXCEEDED);
+      expect(error?.abort.constant).toBe('InsufficientCoinBalance');
+      // A merged input is split at command 1, a balance problem rather than the guard
+      expect(decodeMoveAbort('InsufficientCoinBalance in command 1', 3)).toBeNull();
+      expect(decodeMoveAbort('InsufficientCoinBalance in command 3')).toBeNull();
+    });
+
+    it('should fall back to a generic contract error for unknown codes', () => {
+      const error = decodeMoveAbort(moveAbort('dca', 'execute_order', 99));
+
+      expect(error).toBeInstanceOf(MoveAbortError);
+      expect(error?.code).toBe(ErrorCode.CONTRACT_CALL_FAILED);
+      expect(error?.message).toBe('dca aborted with code 99');
+    });
+
+    it('should decode aborts in parseError and getErrorMessage', () => {
+      const parsed = parseError(new Error(moveAbort('limit_order', 'place_sell_order', 8)));
+
+      expect(parsed).toBeInstanceOf(MoveAbortError);
+      expect(parsed.code).toBe(ErrorCode.ORDER_BOOK_FULL);
+      expect(getErrorMessage(moveAbort('dca', 'execute_order', 8))).toBe('The next DCA order is not due yet');
+      expect(getErrorMessage('Plain failure')).toBe('Plain failure');
+      expect(getErrorMessage(undefined, 'Fallback')).toBe('Fallback');
+    });
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Tests for order book depth, order funding and time in force
+ */
+
+import {
+  buildOrderBookSnapshot,
+  checkTimeInForce,
+  formatOrderPrice,
+  getOrderFunding,
+  invertOrder,
+  LimitOrderService,
+  parseOrderAmount,
+  RestingOrder,
+  simulateMatch,
+  toOrderPrice,
+} from '@/lib/services/limit-order-service';
+import { SUPPORTED_COINS } from '@/config/iota.config';
+
+const NOW = 1700000000000;
+
+const order = (price: bigint, amount: bigint, overrides: Partial<RestingOrder> = {}): RestingOrder => ({
+  price,
+  amount,
+  filledAmount: 0n,
+  expireAt: NOW + 60000,
+  ...overrides,
+});
+
+describe('Order book depth', () => {
+  it('should scale Move prices by the token decimals', () => {
+    // 0.28 vUSD (6 decimals) per IOTA (9 decimals) is 280 vUSD base units per 1e6 IOTA base units
+    expect(formatOrderPrice(280n, 9, 6)).toBe('0.28');
+    expect(formatOrderPrice(1000000n, 9, 9)).toBe('1');
+  });
+
+  it('should aggregate unfilled amounts by price level, best price first', () => {
+    const snapshot = buildOrderBookSnapshot(
+      [order(270n, 2000000000n), order(280n, 1000000000n, { filledAmount: 400000000n }), order(270n, 500000000n)],
+      [order(300n, 1000000000n), order(290n, 3000000000n)],
+      9,
+      6,
+      NOW
+    );
+
+    expect(snapshot.bids).toEqual([
+      { price: '0.28', amount: '0.6', orders: 1 },
+      { price: '0.27', amount: '2.5', orders: 2 },
+    ]);
+    expect(snapshot.asks.map(level => level.price)).toEqual(['0.29', '0.3']);
+    expect(snapshot.spread).toBe('0.01');
+  });
+
+  it('should leave out expired and fully filled orders', () => {
+    const snapshot = buildOrderBookSnapshot(
+      [order(280n, 1000000000n, { expireAt: NOW }), order(270n, 1000000000n, { filledAmount: 1000000000n })],
+      [order(290n, 1000000000n)],
+      9,
+      6,
+      NOW
+    );
+
+    expect(snapshot.bids).toEqual([]);
+    expect(snapshot.asks).toHaveLength(1);
+    expect(snapshot.spread).toBe('0');
+  });
+});
+
+describe('Order funding', () => {
+  it('should parse amounts and prices exactly', () => {
+    expect(parseOrderAmount('0.3', 6)).toBe(300000n);
+    expect(parseOrderAmount('1.123456789123', 9)).toBe(1123456789n);
+    expect(toOrderPrice('0.28', 9, 6)).toBe(280n);
+    expect(() => parseOrderAmount('1e3', 9)).toThrow();
+  });
+
+  it('should lock the quote cost of a buy and the base amount of a sell', () => {
+    // 2.5 IOTA at 0.28 vUSD costs 0.7 vUSD
+    expect(getOrderFunding(true, 2500000000n, 280n)).toBe(700000n);
+    expect(getOrderFunding(false, 2500000000n, 280n)).toBe(2500000000n);
+  });
+
+  it('should flip an order onto a book listing the pair the other way round', () => {
+    // Buying 2 stIOTA at 0.5 IOTA each is selling 1 IOTA at 2 stIOTA each
+    expect(invertOrder({ isBuy: true, amount: 2000000000n, price: 500000n })).toEqual({
+      isBuy: false,
+      amount: 1000000000n,
+      price: 2000000n,
+    });
+  });
+});
+
+describe('Time in force', () => {
+  // Asks in book order, best first
+  const asks = [order(290n, 1000000000n), order(295n, 2000000000n, { filledAmount: 500000000n }), order(310n, 5000000000n)];
+  const buy = (price: bigint, amount: bigint) => ({ isBuy: true, price, amount });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should fill against crossing makers until the first that does not cross', () => {
+    expect(simulateMatch(buy(300n, 5000000000n), asks, NOW)).toBe(2500000000n);
+    expect(simulateMatch(buy(300n, 1200000000n), asks, NOW)).toBe(1200000000n);
+    expect(simulateMatch(buy(280n, 1000000000n), asks, NOW)).toBe(0n);
+  });
+
+  it('should skip expired makers', () => {
+    const stale = [order(280n, 1000000000n, { expireAt: NOW - 1 }), ...asks];
+    expect(simulateMatch(buy(285n, 1000000000n), stale, NOW)).toBe(0n);
+  });
+
+  it('should reject IOC, FOK and post-only orders that break their rule against the book', () => {
+    expect(() => checkTimeInForce(buy(300n, 5000000000n), 'ioc', 2500000000n)).not.toThrow();
+    expect(() => checkTimeInForce(buy(280n, 1000000000n), 'ioc', 0n)).toThrow();
+    expect(() => checkTimeInForce(buy(300n, 5000000000n), 'fok', 2500000000n)).toThrow();
+    expect(() => checkTimeInForce(buy(300n, 1200000000n), 'fok', 1200000000n)).not.toThrow();
+    expect(() => checkTimeInForce(buy(300n, 1000000000n), 'post-only', 1000000000n)).toThrow();
+    expect(() => checkTimeInForce(buy(280n, 1000000000n), 'post-only', 0n)).not.toThrow();
+  });
+
+  describe('immediate orders', () => {
+    const BOOK_ID = '0x' + 'b'.repeat(64);
+    const SENDER = '0x' + '1'.repeat(64);
+    const params = {
+      baseTokenType: SUPPORTED_COINS.IOTA.type,
+      quoteTokenType: SUPPORTED_COINS.stIOTA.type,
+      orderType: 'buy' as const,
+      amount: '5',
+      price: '0.0003',
+      expiryDuration: 24 * 60 * 60 * 1000,
+    };
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(NOW);
+      jest.spyOn(LimitOrderService.getInstance() as any, 'getOrderBookDepth').mockResolvedValue({
+        orderBookId: BOOK_ID,
+        baseTokenType: SUPPORTED_COINS.IOTA.type,
+        quoteTokenType: SUPPORTED_COINS.stIOTA.type,
+        buyOrders: [],
+        sellOrders: asks,
+      });
+    });
+
+    it('should preview the whole IOC with the part the book fills now', async () => {
+      const preview = await LimitOrderService.previewOrder({ ...params, timeInForce: 'ioc' });
+
+      expect(preview).toEqual({ amount: 5000000000n, fillable: 2500000000n });
+    });
+
+    it('should place an IOC through the entry that refunds its remainder in the same call', async () => {
+      jest.spyOn((LimitOrderService.getInstance() as any).client, 'getCoins').mockResolvedValue({
+        data: [{ coinObjectId: '0x' + 'c'.repeat(64), balance: '10000000000', version: '1', digest: '' }],
+        hasNextPage: false,
+        nextCursor: null,
+      });
+
+      const tx = await LimitOrderService.createOrder({ ...params, timeInForce: 'ioc' }, SENDER);
+
+      const { commands, inputs } = tx.getData();
+      const call = commands.find(command => command.MoveCall)?.MoveCall;
+      expect(call?.function).toBe('place_buy_order_ioc');
+      const fillOrKill = call!.arguments[4];
+      const input = fillOrKill?.$kind === 'Input' ? inputs[fillOrKill.Input] : undefined;
+      expect(input?.Pure?.bytes).toBe(Buffer.from([0]).toString('base64'));
+    });
+  });
+});
+
+describe('Order cancellation', () => {
+  it('should cancel on the order book by order ID with the book pair as type arguments', async () => {
+    const orderId = '0x' + 'c'.repeat(64);
+    const orderBookId = '0x' + 'b'.repeat(64);
+
+    const tx = await LimitOrderService.cancelOrder({
+      id: orderId,
+      orderBookId,
+      baseTokenType: SUPPORTED_COINS.IOTA.type,
+      quoteTokenType: SUPPORTED_COINS.stIOTA.type,
+    });
+
+    const { commands, inputs } = tx.getData();
+    const call = commands[0]?.MoveCall;
+    expect(call?.function).toBe('cancel_order');
+    expect(call?.typeArguments).toEqual([SUPPORTED_COINS.IOTA.type, SUPPORTED_COINS.stIOTA.type]);
+
+    const [book, id] = call!.arguments.map(argument => (argument.$kind === 'Input' ? inputs[argument.Input] : undefined));
+    expect(book?.UnresolvedObject?.objectId).toBe(orderBookId);
+    expect(Buffer.from(id!.Pure!.bytes, 'base64').toString('hex')).toBe(orderId.slice(2));
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for resolving an LP token's pool
+ */
+
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { LPPoolResolver } from '@/lib/services/lp-pool-resolver';
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { IOTA_CONFIG } from '@/config/iota.config';
+import { transactionCache } from '@/lib/cache';
+
+const POOL_ID = '0x' + 'a'.repeat(64);
+const IOTA = '0x2::iota::IOTA';
+const USDC = '0x5::usdc::USDC';
+
+const pool = (overrides: Partial<PoolInfo> = {}): PoolInfo => ({
+  poolId: POOL_ID,
+  coinTypeA: IOTA,
+  coinTypeB: USDC,
+  reserveA: 1000000n,
+  reserveB: 4000000n,
+  lpSupply: 2000000n,
+  feePercentage: 180,
+  ...overrides,
+});
+
+const lpToken = (index: number) => ({
+  objectId: '0x' + index.toString(16).padStart(64, '0'),
+  coinTypeA: IOTA,
+  coinTypeB: USDC,
+});
+
+const mockMintingTransaction = (objectChanges: unknown[]) => {
+  const client = getSafeIotaClient().getRawClient();
+  return jest.spyOn(client, 'queryTransactionBlocks').mockResolvedValue({
+    data: [{ digest: 'mint', objectChanges }],
+    hasNextPage: false,
+    nextCursor: null,
+  } as any);
+};
+
+describe('LP pool resolver', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    transactionCache.clear();
+  });
+
+  it('should resolve the pool of the token pair through discovery', async () => {
+    jest.spyOn(PoolService, 'findPool').mockResolvedValue(pool());
+    const query = mockMintingTransaction([]);
+
+    expect(await LPPoolResolver.resolve(lpToken(1))).toMatchObject({ poolId: POOL_ID });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to the pool the minting transaction changed and register it', async () => {
+    jest.spyOn(PoolService, 'findPool').mockResolvedValue(null);
+    const register = jest.spyOn(PoolService, 'registerPool').mockImplementation(() => {});
+    jest.spyOn(PoolService, 'getPoolInfo').mockResolvedValue(pool());
+    mockMintingTransaction([
+      { type: 'created', objectId: lpToken(2).objectId, objectType: `${IOTA_CONFIG.packages.core}::simple_dex::LPToken<${IOTA}, ${USDC}>` },
+      { type: 'mutated', objectId: POOL_ID, objectType: `${IOTA_CONFIG.packages.core}::simple_dex::Pool<${IOTA}, ${USDC}>` },
+    ]);
+
+    expect(await LPPoolResolver.resolve(lpToken(2))).toMatchObject({ poolId: POOL_ID });
+    expect(register).toHaveBeenCalledWith(POOL_ID, IOTA, USDC);
+  });
+
+  it('should not take a pool of the reversed pair for the token', async () => {
+    jest.spyOn(PoolService, 'findPool').mockResolvedValue(pool({ coinTypeA: USDC, coinTypeB: IOTA }));
+    mockMintingTransaction([]);
+
+    expect(await LPPoolResolver.resolve(lpToken(3))).toBeNull();
+  });
+});
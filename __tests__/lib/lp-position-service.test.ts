@@ -0,0 +1,168 @@
+/**
+ * Tests for LP position analytics
+ */
+
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { LPPositionService, calculatePosition, combineDeposits, PositionEntry } from '@/lib/services/lp-position-service';
+import { LPPoolResolver } from '@/lib/services/lp-pool-resolver';
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { IOTA_CONFIG } from '@/config/iota.config';
+import { transactionCache } from '@/lib/cache';
+
+const POOL_ID = '0x' + 'a'.repeat(64);
+const LP_TOKEN_ID = '0x' + 'b'.repeat(64);
+const OTHER_LP_TOKEN_ID = '0x' + 'c'.repeat(64);
+const SPLIT_LP_TOKEN_ID = '0x' + 'd'.repeat(64);
+
+const pool = (overrides: Partial<PoolInfo> = {}): PoolInfo => ({
+  poolId: POOL_ID,
+  coinTypeA: '0x2::iota::IOTA',
+  coinTypeB: '0x5::usdc::USDC',
+  reserveA: 1000000n,
+  reserveB: 4000000n,
+  lpSupply: 2000000n,
+  feePercentage: 180,
+  feesA: 0n,
+  feesB: 0n,
+  ...overrides,
+});
+
+const entry: PositionEntry = {
+  digest: 'mint',
+  timestampMs: null,
+  lpAmount: 500000n,
+  amountA: 500000n,
+  amountB: 500000n,
+  reserveA: 1000000n,
+  reserveB: 1000000n,
+  feesA: 100n,
+  feesB: 0n,
+};
+
+describe('LP positions', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    transactionCache.clear();
+  });
+
+  it('should value a position by its share of the reserves', () => {
+    const position = calculatePosition(pool(), 500000n, null);
+
+    expect(position.share).toBe(0.25);
+    expect(position.amountA).toBe(250000n);
+    expect(position.amountB).toBe(1000000n);
+    expect(position.priceRatio).toBeNull();
+  });
+
+  it('should credit the position with its share of the fee growth since entry', () => {
+    const position = calculatePosition(pool({ feesA: 4100n, feesB: 800n }), 500000n, entry);
+
+    expect(position.feesEarnedA).toBe(1000n);
+    expect(position.feesEarnedB).toBe(200n);
+    // Price of A in B went from 1 to 4
+    expect(position.priceRatio).toBe(4);
+  });
+
+  it('should scale the deposits to the LP still held and average their fee baselines', () => {
+    const combined = combineDeposits([
+      { ...entry, digest: 'second', timestampMs: 2000, lpAmount: 300000n, amountA: 100000n, amountB: 400000n, feesA: 400n },
+      { ...entry, digest: 'first', timestampMs: 1000, lpAmount: 100000n, amountA: 300000n, amountB: 500000n, feesA: 0n },
+    ], 200000n);
+
+    expect(combined).toMatchObject({
+      digest: 'first',
+      timestampMs: 1000,
+      lpAmount: 200000n,
+      amountA: 200000n,
+      amountB: 450000n,
+      reserveA: 400000n,
+      reserveB: 900000n,
+      feesA: 300n,
+    });
+    expect(combineDeposits([], 200000n)).toBeNull();
+  });
+
+  it('should rebuild the entry of a joined LP token from the deposits it descends from', async () => {
+    const client = getSafeIotaClient().getRawClient();
+    const poolType = `${IOTA_CONFIG.packages.core}::simple_dex::Pool<0x2::iota::IOTA, 0x5::usdc::USDC>`;
+    const lpType = `${IOTA_CONFIG.packages.core}::simple_dex::LPToken<0x2::iota::IOTA, 0x5::usdc::USDC>`;
+    const change = (type: string, objectType: string, objectId: string, version: string) => ({ type, objectType, objectId, version });
+    const lpInput = (objectId: string, version: string) => ({ type: 'object', objectType: 'immOrOwnedObject', objectId, version, digest: '' });
+    const transaction = (digest: string, timestampMs: string, objectChanges: object[], inputs: object[] = []) => ({
+      digest,
+      timestampMs,
+      objectChanges,
+      transaction: { data: { transaction: { kind: 'ProgrammableTransaction', inputs, transactions: [] } } },
+    });
+
+    // create mints the held token, add mints another that join merges into it, split takes part off
+    const transactions: Record<string, object> = {
+      create: transaction('create', '1000', [change('created', poolType, POOL_ID, '3'), change('created', lpType, LP_TOKEN_ID, '3')]),
+      add: transaction('add', '2000', [change('mutated', poolType, POOL_ID, '7'), change('created', lpType, OTHER_LP_TOKEN_ID, '7')]),
+      join: transaction(
+        'join',
+        '3000',
+        [change('mutated', lpType, LP_TOKEN_ID, '9'), change('deleted', lpType, OTHER_LP_TOKEN_ID, '9')],
+        [lpInput(LP_TOKEN_ID, '3'), lpInput(OTHER_LP_TOKEN_ID, '7')]
+      ),
+      split: transaction(
+        'split',
+        '4000',
+        [change('mutated', lpType, LP_TOKEN_ID, '10'), change('created', lpType, SPLIT_LP_TOKEN_ID, '10')],
+        [lpInput(LP_TOKEN_ID, '9')]
+      ),
+    };
+    const writtenBy: Record<string, string> = {
+      [`${LP_TOKEN_ID}@3`]: 'create',
+      [`${OTHER_LP_TOKEN_ID}@7`]: 'add',
+      [`${LP_TOKEN_ID}@9`]: 'join',
+    };
+
+    jest.spyOn(client, 'getOwnedObjects').mockResolvedValue({
+      data: [{ data: { objectId: LP_TOKEN_ID, type: lpType, previousTransaction: 'split', content: { dataType: 'moveObject', type: lpType, fields: { amount: '1500000' } } } }],
+      hasNextPage: false,
+      nextCursor: null,
+    } as any);
+    jest.spyOn(LPPoolResolver, 'resolve').mockResolvedValue(pool());
+    const getTransactionBlock = jest.spyOn(client, 'getTransactionBlock').mockImplementation(async ({ digest }: { digest: string }) => transactions[digest] as any);
+    jest.spyOn(client, 'tryGetPastObject').mockImplementation(async ({ id, version }: { id: string; version: number }) => ({
+      status: 'VersionFound',
+      details: { previousTransaction: writtenBy[`${id}@${version}`], content: { dataType: 'moveObject', fields: { amount: '1000000' } } },
+    }) as any);
+    const getPoolInfoAt = jest.spyOn(PoolService, 'getPoolInfoAt').mockImplementation(async (_poolId: string, version: string) =>
+      version === '3'
+        ? pool({ reserveA: 1000000n, reserveB: 1000000n, lpSupply: 1000000n })
+        : pool({ reserveA: 2000000n, reserveB: 8000000n, lpSupply: 2000000n, feesA: 400n })
+    );
+
+    const [position] = await LPPositionService.getInstance().getPositions('0x1');
+
+    // Only the token's own history is read, each transaction once
+    expect(getTransactionBlock.mock.calls.map(([{ digest }]: [{ digest: string }]) => digest).sort()).toEqual(['add', 'create', 'join', 'split']);
+    expect(getPoolInfoAt.mock.calls.map(([, version]: [string, string]) => version).sort()).toEqual(['3', '7']);
+    // 1.5M of the 2M LP minted is still held
+    expect(position?.entry).toMatchObject({
+      digest: 'create',
+      timestampMs: 1000,
+      lpAmount: 1500000n,
+      amountA: 1500000n,
+      amountB: 3750000n,
+      feesA: 200n,
+    });
+    expect(position?.priceRatio).toBe(1.6);
+
+    // Walked transactions are cached by digest
+    await LPPositionService.getInstance().getPositions('0x1');
+    expect(getTransactionBlock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not count a transaction that mints LP without touching the pool as a deposit', async () => {
+    const lpType = `${IOTA_CONFIG.packages.core}::simple_dex::LPToken<0x2::iota::IOTA, 0x5::usdc::USDC>`;
+    const split = {
+      digest: 'split',
+      objectChanges: [{ type: 'created', objectType: lpType, objectId: SPLIT_LP_TOKEN_ID, version: '10' }],
+    } as any;
+
+    expect(await LPPositionService.getInstance().getDeposit(split, pool())).toBeNull();
+  });
+});
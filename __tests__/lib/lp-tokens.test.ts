@@ -0,0 +1,50 @@
+/**
+ * Tests for LP token merging and splitting
+ */
+
+import { Transaction } from '@iota/iota-sdk/transactions';
+import { LPTokenRef, LPTokenTypeArguments, mergeLPTokens, prepareLPTokenInput } from '@/lib/iota/lp-tokens';
+import { ErrorCode } from '@/lib/errors';
+
+const TYPE_ARGUMENTS: LPTokenTypeArguments = ['0x2::iota::IOTA', '0x4::vusd::VUSD'];
+
+const createToken = (index: number, amount: bigint): LPTokenRef => ({
+  objectId: '0x' + index.toString(16).padStart(64, '0'),
+  amount,
+});
+
+const callsOf = (tx: Transaction) =>
+  tx.getData().commands.flatMap(command => (command.MoveCall ? [command.MoveCall.function] : []));
+
+describe('LP tokens', () => {
+  it('should join every token into the largest one', () => {
+    const tokens = [createToken(1, 100n), createToken(2, 500n), createToken(3, 200n)];
+    const tx = new Transaction();
+
+    mergeLPTokens(tx, TYPE_ARGUMENTS, tokens);
+
+    expect(callsOf(tx)).toEqual(['join_lp_token', 'join_lp_token']);
+    expect(tx.getData().inputs[0]?.UnresolvedObject?.objectId).toBe(tokens[1]?.objectId);
+  });
+
+  it('should use the merged token as is when the whole position is spent', () => {
+    const tx = new Transaction();
+
+    prepareLPTokenInput(tx, TYPE_ARGUMENTS, [createToken(1, 100n), createToken(2, 200n)], 300n);
+
+    expect(callsOf(tx)).toEqual(['join_lp_token']);
+  });
+
+  it('should split the exact amount off the merged token', () => {
+    const tx = new Transaction();
+
+    prepareLPTokenInput(tx, TYPE_ARGUMENTS, [createToken(1, 100n), createToken(2, 200n)], 250n);
+
+    expect(callsOf(tx)).toEqual(['join_lp_token', 'split_lp_token']);
+  });
+
+  it('should reject an amount above the tokens held', () => {
+    expect(() => prepareLPTokenInput(new Transaction(), TYPE_ARGUMENTS, [createToken(1, 100n)], 101n))
+      .toThrow(expect.objectContaining({ code: ErrorCode.INSUFFICIENT_BALANCE }));
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for event-sourced limit order history
+ */
+
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { buildOrderHistory, OrderBookRef, OrderEvent, OrderHistoryService } from '@/lib/services/order-history-service';
+import { poolCache, transactionCache } from '@/lib/cache';
+
+const OWNER = '0x' + '1'.repeat(64);
+const OTHER = '0x' + '2'.repeat(64);
+const NOW = 1700000000000;
+
+const books = new Map<string, OrderBookRef>([
+  ['place-1', { orderBookId: '0xbook', baseTokenType: '0x2::iota::IOTA', quoteTokenType: '0x4::vusd::VUSD', feeRate: 30 }],
+  ['place-2', { orderBookId: '0xbook', baseTokenType: '0x2::iota::IOTA', quoteTokenType: '0x4::vusd::VUSD', feeRate: 30 }],
+]);
+
+const placed = (digest: string, orderId: string, owner: string, isBuy: boolean, timestampMs: number): OrderEvent => ({
+  kind: 'placed',
+  digest,
+  timestampMs,
+  orderId,
+  owner,
+  isBuy,
+  price: 280n,
+  amount: 1000000000n,
+  expireAt: NOW + 60000,
+});
+
+describe('Order history', () => {
+  it('should fold fills into the filled amount, average price and fees', () => {
+    const events: OrderEvent[] = [
+      placed('place-1', 'buy', OWNER, true, 1000),
+      placed('place-2', 'sell', OTHER, false, 2000),
+      { kind: 'filled', digest: 'place-2', timestampMs: 2000, orderId: 'sell', amount: 400000000n, price: 280n },
+      { kind: 'filled', digest: 'place-2', timestampMs: 2000, orderId: 'buy', amount: 400000000n, price: 280n },
+      { kind: 'trade', digest: 'place-2', timestampMs: 2000, buyOrderId: 'buy', sellOrderId: 'sell' },
+    ];
+
+    const [order, ...rest] = buildOrderHistory(events, OWNER, books, NOW);
+
+    expect(rest).toHaveLength(0);
+    expect(order).toMatchObject({
+      id: 'buy',
+      orderType: 'buy',
+      filledAmount: '400000000',
+      remainingAmount: '600000000',
+      avgFillPrice: '280',
+      feePaid: '1200000', // 0.3% of the base bought
+      status: 'partial',
+      isActive: true,
+    });
+    expect(order?.fills[0]).toMatchObject({ fillValue: '112000', counterpartyOrderId: 'sell' });
+  });
+
+  it('should tell filled, cancelled and expired orders apart', () => {
+    const events: OrderEvent[] = [
+      placed('place-1', 'filled', OWNER, false, 1000),
+      { kind: 'filled', digest: 'x', timestampMs: 1500, orderId: 'filled', amount: 1000000000n, price: 300n },
+      placed('place-1', 'cancelled', OWNER, false, 2000),
+      { kind: 'cancelled', digest: 'y', timestampMs: 2500, orderId: 'cancelled' },
+      placed('place-2', 'expired', OWNER, true, 3000),
+    ];
+
+    const orders = buildOrderHistory(events, OWNER, books, NOW + 60000);
+
+    expect(orders.map(order => [order.id, order.status])).toEqual([
+      ['expired', 'expired'],
+      ['cancelled', 'cancelled'],
+      ['filled', 'filled'],
+    ]);
+    expect(orders[2]).toMatchObject({ filledAt: 1500, feePaid: '900', avgFillPrice: '300' });
+  });
+});
+
+describe('Order history scans', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    poolCache.clear();
+    transactionCache.clear();
+  });
+
+  it('should share one event scan between overlapping requests', async () => {
+    const client = getSafeIotaClient().getRawClient();
+    const queryEvents = jest.spyOn(client, 'queryEvents').mockResolvedValue({
+      data: [{
+        id: { txDigest: 'place-1', eventSeq: '0' },
+        type: '0x9::limit_order::OrderPlacedEvent',
+        timestampMs: '1000',
+        parsedJson: { order_id: 'buy', owner: OWNER, is_buy: true, price: '280', amount: '1000000000', expire_at: String(Date.now() + 3600000) },
+      }],
+      hasNextPage: false,
+      nextCursor: { txDigest: 'place-1', eventSeq: '0' },
+    } as any);
+    jest.spyOn(client, 'getTransactionBlock').mockResolvedValue({
+      digest: 'place-1',
+      objectChanges: [{ type: 'mutated', objectId: '0xbook', objectType: '0x9::limit_order::OrderBook<0x2::iota::IOTA, 0x4::vusd::VUSD>' }],
+    } as any);
+    jest.spyOn(client, 'getObject').mockResolvedValue({
+      data: { content: { dataType: 'moveObject', fields: { fee_rate: '30' } } },
+    } as any);
+
+    const [open, all] = await Promise.all([
+      OrderHistoryService.getOrderHistory(OWNER, { filter: 'open' }),
+      OrderHistoryService.getOrderHistory(OWNER, { filter: 'all' }),
+    ]);
+
+    expect(queryEvents).toHaveBeenCalledTimes(1);
+    expect(open.orders).toHaveLength(1);
+    expect(all.orders).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for on-chain pool discovery
+ */
+
+import { IotaTransactionBlockResponse } from '@iota/iota-sdk/client';
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { PoolDiscoveryService, getCreatedPoolId, getPairKey } from '@/lib/services/pool-discovery';
+import { poolCache } from '@/lib/cache';
+
+const IOTA = '0x2::iota::IOTA';
+const USDC = '0x5::usdc::USDC';
+const WETH = '0x6::weth::WETH';
+const SENDER = '0x' + '1'.repeat(64);
+const POOL_ID = '0x' + 'a'.repeat(64);
+const LP_TOKEN_ID = '0x' + 'b'.repeat(64);
+
+const emptyPage = { data: [], hasNextPage: false, nextCursor: null };
+
+const createPoolTransaction = (poolId: string, coinTypeA: string, coinTypeB: string) => ({
+  digest: poolId,
+  objectChanges: [
+    { type: 'created', objectId: LP_TOKEN_ID, objectType: `0x1::simple_dex::LPToken<${coinTypeA}, ${coinTypeB}>` },
+    { type: 'created', objectId: poolId, objectType: `0x1::simple_dex::Pool<${coinTypeA}, ${coinTypeB}>` },
+  ],
+});
+
+describe('pool discovery', () => {
+  const client = getSafeIotaClient().getRawClient();
+
+  beforeEach(() => {
+    poolCache.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should read the new pool ID from the object changes', () => {
+    const response = createPoolTransaction(POOL_ID, IOTA, USDC) as unknown as IotaTransactionBlockResponse;
+
+    expect(getCreatedPoolId(response)).toBe(POOL_ID);
+  });
+
+  it('should fall back to the shared object in the effects', () => {
+    const response = {
+      digest: 'digest',
+      effects: {
+        created: [
+          { owner: { AddressOwner: SENDER }, reference: { objectId: LP_TOKEN_ID } },
+          { owner: { Shared: { initial_shared_version: '1' } }, reference: { objectId: POOL_ID } },
+        ],
+      },
+    } as unknown as IotaTransactionBlockResponse;
+
+    expect(getCreatedPoolId(response)).toBe(POOL_ID);
+  });
+
+  it('should use one key for both orders and address formats of a pair', () => {
+    expect(getPairKey(IOTA, USDC)).toBe(getPairKey(USDC, '0x' + '0'.repeat(63) + '2::iota::IOTA'));
+  });
+
+  it('should find pools from creation events and transactions', async () => {
+    jest.spyOn(client, 'queryEvents').mockResolvedValue({
+      data: [{ parsedJson: { pool_id: '0xe1', coin_type_a: '0000000000000000000000000000000000000000000000000000000000000002::iota::IOTA', coin_type_b: '0000000000000000000000000000000000000000000000000000000000000005::usdc::USDC' } }],
+      hasNextPage: false,
+      nextCursor: { txDigest: 'e1', eventSeq: '0' },
+    } as any);
+    jest.spyOn(client, 'queryTransactionBlocks').mockResolvedValue({
+      data: [createPoolTransaction('0xt1', USDC, WETH)],
+      hasNextPage: false,
+      nextCursor: 't1',
+    } as any);
+
+    await PoolDiscoveryService.discoverPools();
+
+    await expect(PoolDiscoveryService.findPool(USDC, IOTA)).resolves.toMatchObject({ poolId: '0xe1', source: 'event' });
+    await expect(PoolDiscoveryService.findPool(WETH, USDC)).resolves.toMatchObject({
+      poolId: '0xt1',
+      coinTypeA: USDC,
+      coinTypeB: WETH,
+      source: 'transaction',
+    });
+  });
+
+  it('should keep the first pool seen for a pair and resume from the last cursor', async () => {
+    const queryEvents = jest.spyOn(client, 'queryEvents').mockResolvedValue(emptyPage as any);
+    jest.spyOn(client, 'queryTransactionBlocks').mockResolvedValue({
+      data: [createPoolTransaction('0xt2', IOTA, USDC)],
+      hasNextPage: false,
+      nextCursor: 't2',
+    } as any);
+
+    await PoolDiscoveryService.discoverPools();
+
+    await expect(PoolDiscoveryService.findPool(IOTA, USDC)).resolves.toMatchObject({ poolId: '0xe1' });
+    expect(queryEvents.mock.calls[0]?.[0].cursor).toEqual({ txDigest: 'e1', eventSeq: '0' });
+  });
+
+  it('should return registered pools before the next scan', async () => {
+    const queryEvents = jest.spyOn(client, 'queryEvents').mockResolvedValue(emptyPage as any);
+    jest.spyOn(client, 'queryTransactionBlocks').mockResolvedValue(emptyPage as any);
+
+    PoolDiscoveryService.register(POOL_ID, IOTA, WETH);
+
+    await expect(PoolDiscoveryService.findPool(WETH, IOTA)).resolves.toMatchObject({ poolId: POOL_ID, source: 'registered' });
+    expect(queryEvents).not.toHaveBeenCalled();
+  });
+
+  it('should keep the pools it has when a scan fails', async () => {
+    jest.spyOn(client, 'queryEvents').mockRejectedValue(new Error('RPC unavailable'));
+    jest.spyOn(client, 'queryTransactionBlocks').mockRejectedValue(new Error('RPC unavailable'));
+
+    const pools = await PoolDiscoveryService.discoverPools();
+
+    expect(pools.map(pool => pool.poolId)).toEqual(expect.arrayContaining(['0xe1', '0xt1', POOL_ID]));
+  });
+});
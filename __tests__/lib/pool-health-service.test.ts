@@ -0,0 +1,77 @@
+/**
+ * Tests for pool health assessment
+ */
+
+import { assessPoolHealth, PoolHealthReadings } from '@/lib/services/pool-health-service';
+import { PoolInfo } from '@/lib/services/pool-service';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = 1700000000000;
+
+const pool: PoolInfo = {
+  poolId: '0x' + 'a'.repeat(64),
+  coinTypeA: '0x2::iota::IOTA',
+  coinTypeB: '0x4::vusd::VUSD',
+  reserveA: 4000000n,
+  reserveB: 1000000n,
+  lpSupply: 2000000n,
+  feePercentage: 180,
+};
+
+const readings = (overrides: Partial<PoolHealthReadings> = {}): PoolHealthReadings => ({
+  isHealthy: true,
+  spotPrice: 4000000n,
+  cachedPriceA: 4000000n,
+  cachedPriceB: 250000n,
+  lastUpdateMs: NOW - HOUR,
+  ...overrides,
+});
+
+describe('Pool health', () => {
+  it('should report a pool priced at market as healthy', () => {
+    const health = assessPoolHealth(pool, readings(), 4, NOW);
+
+    expect(health.status).toBe('healthy');
+    expect(health.spotPrice).toBe(4);
+    expect(health.externalPriceDivergence).toBe(0);
+    expect(health.reserveImbalance).toBe(0);
+    expect(health.issues).toEqual([]);
+  });
+
+  it('should flag cached prices that disagree with the spot price', () => {
+    // Cached at 3 decimals, as create_pool used to
+    const health = assessPoolHealth(pool, readings({ cachedPriceA: 4000n }), null, NOW);
+
+    expect(health.status).toBe('degraded');
+    expect(health.cachedPriceDivergence).toBeCloseTo(0.999);
+    expect(health.issues.map(issue => issue.code)).toEqual(['cached-price-divergence']);
+  });
+
+  it('should mark a pool far from the market price as unhealthy', () => {
+    // The market values B at 2 A, the pool at 4 A
+    const health = assessPoolHealth(pool, readings(), 2, NOW);
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.externalPriceDivergence).toBe(1);
+    expect(health.reserveImbalance).toBeCloseTo(1 / 3);
+    expect(health.issues.map(issue => [issue.code, issue.severity])).toEqual([
+      ['external-price-divergence', 'critical'],
+      ['reserve-imbalance', 'critical'],
+    ]);
+  });
+
+  it('should report an old last update for information only', () => {
+    const health = assessPoolHealth(pool, readings({ lastUpdateMs: NOW - 72 * HOUR }), null, NOW);
+
+    expect(health.status).toBe('healthy');
+    expect(health.stalenessMs).toBe(72 * HOUR);
+    expect(health.issues).toEqual([expect.objectContaining({ code: 'stale-price', severity: 'info' })]);
+  });
+
+  it('should mark a pool the chain reports unhealthy', () => {
+    const health = assessPoolHealth({ ...pool, reserveB: 0n }, readings({ isHealthy: false, spotPrice: 0n }), 4, NOW);
+
+    expect(health.status).toBe('unhealthy');
+    expect(health.issues.map(issue => issue.code)).toEqual(['empty-pool']);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Tests for pool creation
+ */
+
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { SUPPORTED_COINS } from '@/config/iota.config';
+import { ErrorCode } from '@/lib/errors';
+
+const IOTA = SUPPORTED_COINS.IOTA.type;
+const VUSD = SUPPORTED_COINS.vUSD.type;
+const SENDER = '0x' + '1'.repeat(64);
+const POOL_ID = '0x' + 'a'.repeat(64);
+
+const existingPool: PoolInfo = {
+  poolId: POOL_ID,
+  coinTypeA: IOTA,
+  coinTypeB: VUSD,
+  reserveA: 1000000000000n,
+  reserveB: 280000000n,
+  lpSupply: 1000000000n,
+  feePercentage: 18,
+};
+
+describe('PoolService pool creation', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should reject a pair that already has a pool', async () => {
+    const service = PoolService.getInstance();
+    jest.spyOn(service, 'findPool').mockResolvedValue(existingPool);
+
+    await expect(
+      service.createPool({ coinTypeA: IOTA, coinTypeB: VUSD, amountA: 10000000000n, amountB: 10000000n }, SENDER)
+    ).rejects.toMatchObject({ code: ErrorCode.POOL_ALREADY_EXISTS });
+  });
+
+  it('should enforce the minimum liquidity in each token\'s decimals', async () => {
+    const service = PoolService.getInstance();
+    jest.spyOn(service, 'findPool').mockResolvedValue(null);
+
+    // 1 vUSD is 1000000 base units at 6 decimals
+    await expect(
+      service.createPool({ coinTypeA: IOTA, coinTypeB: VUSD, amountA: 10000000000n, amountB: 999999n }, SENDER)
+    ).rejects.toMatchObject({ code: ErrorCode.INSUFFICIENT_LIQUIDITY });
+  });
+
+  it('should reject initial amounts whose product overflows a u64', async () => {
+    const service = PoolService.getInstance();
+    jest.spyOn(service, 'findPool').mockResolvedValue(null);
+
+    // 10 IOTA against 10 stIOTA is 1e10 * 1e10, past create_pool's sqrt(amount_a * amount_b)
+    await expect(
+      service.createPool({ coinTypeA: IOTA, coinTypeB: SUPPORTED_COINS.stIOTA.type, amountA: 10000000000n, amountB: 10000000000n }, SENDER)
+    ).rejects.toMatchObject({ code: ErrorCode.INVALID_INPUT });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for pool volume, fee and APR windows
+ */
+
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { PoolStatsService, PoolSnapshot, calculateWindowStats } from '@/lib/services/pool-stats-service';
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+
+const POOL_ID = '0x' + 'a'.repeat(64);
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+
+const pool = (overrides: Partial<PoolInfo> = {}): PoolInfo => ({
+  poolId: POOL_ID,
+  coinTypeA: '0x2::iota::IOTA',
+  coinTypeB: '0x5::usdc::USDC',
+  reserveA: 1000000n,
+  reserveB: 4000000n,
+  lpSupply: 2000000n,
+  feePercentage: 180,
+  totalVolumeA: 0n,
+  totalVolumeB: 0n,
+  feesA: 0n,
+  feesB: 0n,
+  ...overrides,
+});
+
+const snapshot = (overrides: Partial<PoolSnapshot> = {}): PoolSnapshot => ({
+  version: '1',
+  timestampMs: NOW - DAY,
+  reserveA: 1000000n,
+  reserveB: 4000000n,
+  volumeA: 0n,
+  volumeB: 0n,
+  feesA: 0n,
+  feesB: 0n,
+  ...overrides,
+});
+
+// A transaction that changed the pool, producing `version`
+const poolTransaction = (digest: string, timestampMs: number, version: string) => ({
+  digest,
+  timestampMs: String(timestampMs),
+  effects: {
+    mutated: [{ owner: { Shared: { initial_shared_version: '1' } }, reference: { objectId: POOL_ID, version } }],
+  },
+});
+
+describe('pool stats', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should take the accumulator growth since the snapshot and annualize the fees', () => {
+    const stats = calculateWindowStats(
+      pool({ totalVolumeA: 5000n, totalVolumeB: 800n, feesA: 300n, feesB: 400n }),
+      snapshot({ volumeA: 1000n, feesA: 100n }),
+      NOW
+    );
+
+    expect(stats.volumeA).toBe(4000n);
+    expect(stats.volumeB).toBe(800n);
+    expect(stats.feesA).toBe(200n);
+    expect(stats.durationMs).toBe(DAY);
+    // 200 A + 400 B (100 A at 1:4) over 2,000,000 A of value, for a day
+    expect(stats.feeApr).toBeCloseTo((300 / 2000000) * 365);
+  });
+
+  it('should start each window at the pool version current when it began', async () => {
+    const client = getSafeIotaClient().getRawClient();
+    jest.spyOn(client, 'queryTransactionBlocks').mockResolvedValue({
+      data: [
+        poolTransaction('recent', NOW - DAY / 2, '9'),
+        poolTransaction('days-ago', NOW - 3 * DAY, '5'),
+        poolTransaction('created', NOW - 10 * DAY, '2'),
+      ],
+      hasNextPage: false,
+      nextCursor: null,
+    } as any);
+    const getPoolInfoAt = jest.spyOn(PoolService, 'getPoolInfoAt').mockImplementation(async (_poolId: string, version: string) =>
+      pool({ feesA: BigInt(version) })
+    );
+
+    const snapshots = await PoolStatsService.getInstance().getWindowSnapshots(POOL_ID, NOW);
+
+    expect(snapshots['24h']).toMatchObject({ version: '5', feesA: 5n });
+    expect(snapshots['7d']).toMatchObject({ version: '2', timestampMs: NOW - 10 * DAY });
+    // The pool is younger than 30 days, the window starts at its creation
+    expect(snapshots['30d']).toMatchObject({ version: '2' });
+    expect(getPoolInfoAt).not.toHaveBeenCalledWith(POOL_ID, '9');
+  });
+});
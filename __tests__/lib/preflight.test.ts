@@ -0,0 +1,117 @@
+/**
+ * Tests for the transaction dry-run pre-flight
+ */
+
+import { IotaClient } from '@iota/iota-sdk/client';
+import { Transaction } from '@iota/iota-sdk/transactions';
+import { dryRunTransaction, formatPreflightSummary } from '@/lib/iota/preflight';
+import { ErrorCode } from '@/lib/errors';
+import { PoolService } from '@/lib/services/pool-service';
+import { SwapRouter } from '@/lib/services/swap-router';
+
+const SENDER = '0x' + '1'.repeat(64);
+const OTHER = '0x' + '2'.repeat(64);
+const IOTA = '0x2::iota::IOTA';
+
+const createTransaction = () =>
+  ({
+    setSenderIfNotSet: jest.fn(),
+    build: jest.fn().mockResolvedValue(new Uint8Array([1, 2, 3])),
+  }) as unknown as Transaction;
+
+const createClient = (status: { status: 'success' | 'failure'; error?: string }) =>
+  ({
+    dryRunTransactionBlock: jest.fn().mockResolvedValue({
+      effects: {
+        status,
+        gasUsed: {
+          computationCost: '1000000',
+          storageCost: '3000000',
+          storageRebate: '1000000',
+          computationCostBurned: '1000000',
+          nonRefundableStorageFee: '0',
+        },
+      },
+      balanceChanges: [
+        { owner: { AddressOwner: SENDER }, coinType: IOTA, amount: '-1003000000' },
+        { owner: { AddressOwner: OTHER }, coinType: IOTA, amount: '5' },
+      ],
+    }),
+  }) as unknown as IotaClient;
+
+describe('dryRunTransaction', () => {
+  it('should report the sender balance changes and net gas', async () => {
+    const result = await dryRunTransaction(createClient({ status: 'success' }), createTransaction(), SENDER);
+
+    expect(result.success).toBe(true);
+    expect(result.error).toBeNull();
+    expect(result.gasEstimate).toBe(3000000n);
+    expect(result.balanceChanges).toHaveLength(1);
+    expect(result.balanceChanges[0]?.amount).toBe(-1003000000n);
+    expect(formatPreflightSummary(result)).toContain('IOTA');
+  });
+
+  it('should map a simple_dex slippage abort to SLIPPAGE_EXCEEDED', async () => {
+    const abort =
+      'MoveAbort(MoveLocation { module: ModuleId { address: 0xabc, name: Identifier("simple_dex") }, function: 4, instruction: 30, function_name: Some("swap_a_to_b") }, 5) in command 1';
+    const result = await dryRunTransaction(
+      createClient({ status: 'failure', error: abort }),
+      createTransaction(),
+      SENDER
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ErrorCode.SLIPPAGE_EXCEEDED);
+  });
+
+  it('should map a full order book to ORDER_BOOK_FULL', async () => {
+    const abort =
+      'MoveAbort(MoveLocation { module: ModuleId { address: 0xabc, name: Identifier("limit_order") }, function: 2, instruction: 12, function_name: Some("place_buy_order") }, 8) in command 0';
+    const result = await dryRunTransaction(
+      createClient({ status: 'failure', error: abort }),
+      createTransaction(),
+      SENDER
+    );
+
+    expect(result.error?.code).toBe(ErrorCode.ORDER_BOOK_FULL);
+  });
+
+  it('should only read a shortfall in the recorded guard split as the minimum not being met', async () => {
+    jest.spyOn(PoolService, 'getAllPools').mockResolvedValue([
+      { poolId: '0xa1', coinTypeA: IOTA, coinTypeB: '0x3::cert::CERT', reserveA: 10n ** 15n, reserveB: 10n ** 15n, lpSupply: 10n ** 12n, feePercentage: 18 },
+    ]);
+    const route = await SwapRouter.getBestRoute(IOTA, '0x3::cert::CERT', 1000000000n, 0.5);
+
+    // Coin selection merges the input at command 0 and splits it at command 1
+    const tx = new Transaction();
+    tx.mergeCoins(tx.gas, [tx.object('0x' + 'c'.repeat(64))]);
+    const coinIn = tx.splitCoins(tx.gas, [1000000000n])[0]!;
+    SwapRouter.getInstance().appendRouteToTransaction(tx, route, coinIn, SENDER);
+    jest.spyOn(tx, 'build').mockResolvedValue(new Uint8Array([1, 2, 3]));
+
+    const guard = await dryRunTransaction(
+      createClient({ status: 'failure', error: 'InsufficientCoinBalance in command 3' }),
+      tx,
+      SENDER
+    );
+    const input = await dryRunTransaction(
+      createClient({ status: 'failure', error: 'InsufficientCoinBalance in command 1' }),
+      tx,
+      SENDER
+    );
+
+    expect(guard.error?.code).toBe(ErrorCode.SLIPPAGE_EXCEEDED);
+    expect(input.error?.code).toBe(ErrorCode.INSUFFICIENT_BALANCE);
+    jest.restoreAllMocks();
+  });
+
+  it('should return build failures instead of throwing', async () => {
+    const tx = createTransaction();
+    (tx.build as jest.Mock).mockRejectedValue(new Error('InsufficientCoinBalance in command 0'));
+
+    const result = await dryRunTransaction(createClient({ status: 'success' }), tx, SENDER);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ErrorCode.INSUFFICIENT_BALANCE);
+  });
+});
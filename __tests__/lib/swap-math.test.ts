@@ -0,0 +1,132 @@
+/**
+ * Tests for the shared swap quoting math
+ *
+ * Golden vectors are computed with simple_dex's integer arithmetic: fee = in * 18 / 1000,
+ * out = (in - fee) * reserve_out / (reserve_in + in - fee), all rounded down in u128.
+ */
+
+import {
+  getAmountOut,
+  getAmountIn,
+  getFeeAmount,
+  quoteExactInput,
+  quoteExactOutput,
+  applySlippage,
+  applyMaxSlippage,
+  getPriceImpact,
+  getPriceImpactLevel,
+  getPairedLiquidityAmount,
+  quoteZapIn,
+  quoteZapOut,
+  sqrt,
+} from '@/lib/utils/swap-math';
+
+// [amountIn, reserveIn, reserveOut, fee, amountOut]
+const EXACT_INPUT_VECTORS: [bigint, bigint, bigint, bigint, bigint][] = [
+  [1000000000n, 1000000000000000n, 1000000000000000n, 18000000n, 981999035n],
+  [55n, 1000000n, 1000000n, 0n, 54n], // Fee rounds down to zero below 56 units
+  [56n, 1000000n, 1000000n, 1n, 54n],
+  [1000000000n, 1000000000000000n, 280000000000n, 18000000n, 274959n],
+  [123456789n, 987654321000n, 12345678900n, 2222222n, 1515246n],
+  [5000000000000n, 10000000000000000n, 3000000000000000n, 90000000000n, 1472277111938n], // Product needs u128
+  [1n, 10n, 10n, 0n, 0n],
+];
+
+// [amountOut, reserveIn, reserveOut, amountIn]
+const EXACT_OUTPUT_VECTORS: [bigint, bigint, bigint, bigint][] = [
+  [1000000000n, 1000000000000000n, 1000000000000000n, 1018330958n],
+  [1000000n, 1000000000000000n, 280000000000n, 3636905628n],
+  [999n, 1000000n, 1000000n, 1018n], // math::get_amount_in gives 1019 here
+];
+
+describe('swap math', () => {
+  it('should match simple_dex on every exact-input vector', () => {
+    for (const [amountIn, reserveIn, reserveOut, fee, amountOut] of EXACT_INPUT_VECTORS) {
+      expect(getFeeAmount(amountIn)).toBe(fee);
+      expect(getAmountOut(amountIn, reserveIn, reserveOut)).toBe(amountOut);
+    }
+  });
+
+  it('should find the smallest input for every exact-output vector', () => {
+    for (const [amountOut, reserveIn, reserveOut, amountIn] of EXACT_OUTPUT_VECTORS) {
+      expect(getAmountIn(amountOut, reserveIn, reserveOut)).toBe(amountIn);
+      expect(getAmountOut(amountIn, reserveIn, reserveOut)).toBeGreaterThanOrEqual(amountOut);
+      expect(getAmountOut(amountIn - 1n, reserveIn, reserveOut)).toBeLessThan(amountOut);
+    }
+  });
+
+  it('should report the fee and impact alongside the amounts', () => {
+    const quote = quoteExactInput(1000000000n, 1000000000000000n, 1000000000000000n);
+
+    expect(quote).toMatchObject({ amountIn: 1000000000n, amountOut: 981999035n, feeAmount: 18000000n });
+    expect(quote.feePercent).toBeCloseTo(1.8);
+    expect(quote.priceImpact).toBeLessThan(0.001);
+    expect(quoteExactOutput(999n, 1000000n, 1000000n).feeAmount).toBe(18n);
+  });
+
+  it('should measure impact as execution price against spot price, without the fee', () => {
+    // 10% of the input reserve: after the fee 98.2 units meet a 1000/1000 pool
+    const impact = getPriceImpact(100000000n, getAmountOut(100000000n, 1000000000n, 1000000000n), 1000000000n, 1000000000n);
+
+    expect(impact).toBeCloseTo((98200000 / 1098200000) * 100, 3);
+  });
+
+  it('should grade price impact against the thresholds', () => {
+    const thresholds = { warning: 1, confirm: 5, max: 15 };
+
+    expect(getPriceImpactLevel(0.5, thresholds)).toBe('low');
+    expect(getPriceImpactLevel(2, thresholds)).toBe('warning');
+    expect(getPriceImpactLevel(8, thresholds)).toBe('confirm');
+    expect(getPriceImpactLevel(20, thresholds)).toBe('blocked');
+  });
+
+  it('should reject outputs at or above the reserve', () => {
+    expect(() => getAmountIn(1000000n, 1000000n, 1000000n)).toThrow('Output amount exceeds pool reserves');
+  });
+
+  it('should reject swaps that overflow the u64 reserve', () => {
+    expect(() => getAmountOut(1000n, 2n ** 64n - 10n, 1000n)).toThrow(RangeError);
+  });
+
+  it('should bound amounts by the slippage tolerance', () => {
+    expect(applySlippage(1000000n, 0.5)).toBe(995000n);
+    expect(applyMaxSlippage(1000000n, 0.5)).toBe(1005000n);
+  });
+
+  it('should pair liquidity at the reserve ratio without lowering the minted LP', () => {
+    const [reserveA, reserveB, supply] = [3000000000n, 7000001n, 144913n];
+    const amountA = 1000000000n;
+    const amountB = getPairedLiquidityAmount(amountA, reserveA, reserveB);
+
+    expect(amountB).toBe(2333334n);
+    expect((amountB * supply) / reserveB).toBeGreaterThanOrEqual((amountA * supply) / reserveA);
+    expect(getPairedLiquidityAmount(amountB, reserveB, reserveA)).toBe(1000000143n);
+  });
+
+  it('should round the first deposit\'s square root down without losing precision', () => {
+    const root = 4294967295n;
+
+    expect(sqrt(root * root)).toBe(root);
+    // A float square root rounds this one up to `root`
+    expect(sqrt(root * root - 1n)).toBe(root - 1n);
+    expect([0n, 1n, 3n, 4n].map(sqrt)).toEqual([0n, 1n, 1n, 2n]);
+  });
+
+  it('should swap just enough of a zap deposit to match the pool ratio', () => {
+    const [reserveA, reserveB, supply] = [10000000000n, 25000000n, 500000000n];
+    const quote = quoteZapIn(1000000000n, reserveA, reserveB, supply);
+
+    expect(quote).toEqual({ swapAmount: 492522117n, swapOutput: 1153358n, lpAmount: 24182817n });
+    // The kept input would mint 24182835, within dust of the swap output's side
+    expect(((1000000000n - quote.swapAmount) * supply) / (reserveA + quote.swapAmount) - quote.lpAmount).toBeLessThan(100n);
+  });
+
+  it('should zap out to one token by swapping the other side of the withdrawal', () => {
+    expect(quoteZapOut(100000000n, 10000000000n, 25000000n, 500000000n)).toEqual({
+      amountOut: 3576876756n,
+      swapAmount: 5000000n,
+      swapOutput: 1576876756n,
+    });
+    expect(() => quoteZapOut(500000000n, 10000000000n, 25000000n, 500000000n)).toThrow('last liquidity');
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Tests for multi-hop swap routing
+ */
+
+import { Transaction } from '@iota/iota-sdk/transactions';
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { SwapRouter, QUOTE_TTL_MS, isQuoteExpired, getMinimumOutCommand } from '@/lib/services/swap-router';
+
+const IOTA = '0x2::iota::IOTA';
+const STIOTA = '0x3::cert::CERT';
+const VUSD = '0x4::vusd::VUSD';
+
+const createPool = (poolId: string, coinTypeA: string, coinTypeB: string, reserveA: bigint, reserveB: bigint): PoolInfo => ({
+  poolId,
+  coinTypeA,
+  coinTypeB,
+  reserveA,
+  reserveB,
+  lpSupply: 1000000000000n,
+  feePercentage: 18,
+});
+
+const pools = {
+  iotaStiota: createPool('0xa1', IOTA, STIOTA, 1000000000000000n, 1000000000000000n),
+  iotaVusd: createPool('0xa2', IOTA, VUSD, 1000000000000000n, 280000000000n),
+};
+
+describe('SwapRouter', () => {
+  beforeEach(() => {
+    jest.spyOn(PoolService, 'getAllPools').mockResolvedValue([pools.iotaStiota, pools.iotaVusd]);
+  });
+
+  it('should route through an intermediate token when no direct pool exists', async () => {
+    const route = await SwapRouter.getBestRoute(STIOTA, VUSD, 1000000000n, 0.5);
+
+    expect(route.path).toEqual([STIOTA, IOTA, VUSD]);
+    expect(route.hops).toHaveLength(2);
+    const [first, second] = route.hops;
+    expect(first?.isAToB).toBe(false);
+    expect(second?.isAToB).toBe(true);
+    expect(second?.amountIn).toBe(first?.amountOut);
+    expect(route.outputAmount).toBe(second?.amountOut);
+    expect(route.minimumReceived).toBeLessThan(route.outputAmount);
+  });
+
+  it('should quote each hop with the pool fee math', async () => {
+    const route = await SwapRouter.getBestRoute(IOTA, STIOTA, 1000000000n, 0);
+
+    // 1 IOTA, 1.8% fee: 982000000 in after fee against equal reserves
+    const expected = (982000000n * 1000000000000000n) / (1000000000000000n + 982000000n);
+    expect(route.outputAmount).toBe(expected);
+    expect(route.path).toEqual([IOTA, STIOTA]);
+  });
+
+  it('should match coin types whatever address form they are written in', async () => {
+    const longIota = '0x' + '0'.repeat(63) + '2::iota::IOTA';
+    const route = await SwapRouter.getBestRoute(STIOTA, longIota, 1000000000n, 0);
+
+    expect(route.hops).toHaveLength(1);
+    expect(route.hops[0]?.isAToB).toBe(false);
+  });
+
+  it('should prefer the route with the higher output', async () => {
+    const direct = createPool('0xa3', STIOTA, VUSD, 1000000000000n, 1000000n);
+    jest.spyOn(PoolService, 'getAllPools').mockResolvedValue([pools.iotaStiota, pools.iotaVusd, direct]);
+
+    const routes = await SwapRouter.getRoutes(STIOTA, VUSD, 1000000000n, 0.5);
+
+    expect(routes).toHaveLength(2);
+    const [best, worst] = routes;
+    expect(best!.outputAmount).toBeGreaterThan(worst!.outputAmount);
+    expect(best!.hops).toHaveLength(2);
+  });
+
+  it('should throw when no path connects the tokens', async () => {
+    jest.spyOn(PoolService, 'getAllPools').mockResolvedValue([pools.iotaStiota]);
+
+    await expect(SwapRouter.getBestRoute(STIOTA, VUSD, 1000000000n)).rejects.toThrow('No pool found');
+  });
+
+  it('should chain the coin-returning swap calls for multi-hop routes', async () => {
+    const route = await SwapRouter.getBestRoute(STIOTA, VUSD, 1000000000n, 0.5);
+    const tx = new Transaction();
+    const coinIn = tx.splitCoins(tx.gas, [1000000000n])[0]!;
+
+    SwapRouter.getInstance().appendRouteToTransaction(tx, route, coinIn, '0x' + '1'.repeat(64));
+
+    const commands = tx.getData().commands;
+    const calls = commands.flatMap(command => (command.MoveCall ? [command.MoveCall.function] : []));
+    expect(calls).toEqual(['swap_b_to_a_internal', 'swap_a_to_b_internal']);
+    expect(commands[commands.length - 1]?.TransferObjects).toBeDefined();
+  });
+
+  it('should guard direct routes with the same minimum-out check', async () => {
+    const route = await SwapRouter.getBestRoute(IOTA, STIOTA, 1000000000n, 0.5);
+    const tx = new Transaction();
+    const coinIn = tx.splitCoins(tx.gas, [1000000000n])[0]!;
+
+    SwapRouter.getInstance().appendRouteToTransaction(tx, route, coinIn, '0x' + '1'.repeat(64));
+
+    const commands = tx.getData().commands;
+    const calls = commands.flatMap(command => (command.MoveCall ? [command.MoveCall.function] : []));
+    expect(calls).toEqual(['swap_a_to_b_internal']);
+    const guard = commands.slice(-3);
+    expect(guard[0]?.SplitCoins?.amounts).toHaveLength(1);
+    expect(guard[1]?.MergeCoins).toBeDefined();
+    expect(guard[2]?.TransferObjects).toBeDefined();
+    // Recorded so a shortfall there reads as the minimum not being met
+    expect(getMinimumOutCommand(tx)).toBe(commands.length - 3);
+  });
+
+  describe('quote expiry', () => {
+    it('should stamp quotes with the configured deadline', async () => {
+      const before = Date.now();
+      const split = await SwapRouter.getSplitRoute(IOTA, STIOTA, 1000000000n, 0.5);
+
+      expect(QUOTE_TTL_MS).toBe(20 * 60 * 1000);
+      expect(split.issuedAt).toBeGreaterThanOrEqual(before);
+      expect(split.expiresAt).toBe(split.issuedAt + QUOTE_TTL_MS);
+      expect(split.legs[0]?.route.expiresAt).toBe(split.expiresAt);
+    });
+
+    it('should treat quotes past their expiry as stale', async () => {
+      const route = await SwapRouter.getBestRoute(IOTA, STIOTA, 1000000000n, 0.5);
+
+      expect(isQuoteExpired(route)).toBe(false);
+      expect(isQuoteExpired(route, route.expiresAt - 1)).toBe(false);
+      expect(isQuoteExpired(route, route.expiresAt)).toBe(true);
+    });
+  });
+
+  describe('exact output', () => {
+    it('should quote the smallest input that delivers the requested output', () => {
+      const quote = PoolService.calculateExactOutputQuote(pools.iotaStiota, 1000000000n, true, 0.5);
+      const forward = PoolService.calculateSwapQuote(pools.iotaStiota, quote.inputAmount, true, 0);
+      const short = PoolService.calculateSwapQuote(pools.iotaStiota, quote.inputAmount - 2n, true, 0);
+
+      expect(forward.outputAmount).toBeGreaterThanOrEqual(1000000000n);
+      expect(short.outputAmount).toBeLessThan(1000000000n);
+      expect(quote.maximumSold).toBeGreaterThan(quote.inputAmount);
+    });
+
+    it('should reject outputs the pool cannot provide', () => {
+      expect(() => PoolService.calculateExactOutputQuote(pools.iotaVusd, 280000000000n, true)).toThrow(
+        'Output amount exceeds pool reserves'
+      );
+    });
+
+    it('should derive the input for a multi-hop route backwards', async () => {
+      const route = await SwapRouter.getExactOutputRoute(STIOTA, VUSD, 1000000n, 0.5);
+
+      expect(route.path).toEqual([STIOTA, IOTA, VUSD]);
+      expect(route.minimumReceived).toBe(1000000n);
+      expect(route.outputAmount).toBeGreaterThanOrEqual(1000000n);
+      expect(route.maximumSold).toBeGreaterThan(route.inputAmount);
+    });
+  });
+
+  describe('split routing', () => {
+    // Shallow pools: 2e12 stIOTA moves either path alone past the 15% price impact limit
+    const shallow = {
+      iotaStiota: createPool('0xb1', IOTA, STIOTA, 10000000000000n, 10000000000000n),
+      iotaVusd: createPool('0xb2', IOTA, VUSD, 10000000000000n, 2800000000000n),
+      stiotaVusd: createPool('0xb3', STIOTA, VUSD, 10000000000000n, 2800000000000n),
+    };
+    const largeInput = 2000000000000n;
+
+    beforeEach(() => {
+      jest.spyOn(PoolService, 'getAllPools').mockResolvedValue(Object.values(shallow));
+    });
+
+    it('should fill a trade too large for any single path across several', async () => {
+      await expect(SwapRouter.getRoutes(STIOTA, VUSD, largeInput, 0.5)).resolves.toHaveLength(0);
+
+      const split = await SwapRouter.getSplitRoute(STIOTA, VUSD, largeInput, 0.5);
+
+      expect(split.legs).toHaveLength(2);
+      expect(split.legs.reduce((sum, leg) => sum + leg.percentage, 0)).toBeCloseTo(100);
+      expect(split.legs.reduce((sum, leg) => sum + leg.route.inputAmount, 0n)).toBe(largeInput);
+      expect(split.outputAmount).toBe(split.legs.reduce((sum, leg) => sum + leg.route.outputAmount, 0n));
+      expect(split.minimumReceived).toBeLessThan(split.outputAmount);
+    });
+
+    it('should keep small trades on a single route', async () => {
+      const split = await SwapRouter.getSplitRoute(STIOTA, VUSD, 1000000n, 0.5);
+
+      expect(split.legs).toHaveLength(1);
+      expect(split.legs[0]?.percentage).toBe(100);
+      expect(split.legs[0]?.route.hops).toHaveLength(1);
+    });
+
+    it('should reject trades no combination of routes can fill', async () => {
+      await expect(SwapRouter.getSplitRoute(STIOTA, VUSD, 5000000000000n, 0.5)).rejects.toThrow(
+        'Not enough liquidity across available routes'
+      );
+    });
+
+    it('should split the input coin and merge the leg outputs in one transaction', async () => {
+      const split = await SwapRouter.getSplitRoute(STIOTA, VUSD, largeInput, 0.5);
+      const tx = new Transaction();
+      const coinIn = tx.splitCoins(tx.gas, [largeInput])[0]!;
+
+      SwapRouter.getInstance().appendSplitRouteToTransaction(tx, split, coinIn, '0x' + '1'.repeat(64));
+
+      const commands = tx.getData().commands;
+      const calls = commands.flatMap(command => (command.MoveCall ? [command.MoveCall.function] : []));
+      expect(calls.every(call => call.endsWith('_internal'))).toBe(true);
+      expect(calls).toHaveLength(3);
+      expect(commands.filter(command => command.MergeCoins)).toHaveLength(2);
+      expect(commands[commands.length - 1]?.TransferObjects).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests for the token registry
+ */
+
+import { SUPPORTED_COINS } from '@/config/iota.config';
+import { getCoinMetadata } from '@/lib/services/coin-metadata';
+import { PoolDiscoveryService } from '@/lib/services/pool-discovery';
+import { TokenRegistry, getTokenByType, getTokenBySymbol } from '@/lib/services/token-registry';
+import { getPriceForType } from '@/lib/services/price-feed';
+
+// Relative path: jest.mock does not go through the @/ alias
+jest.mock('../../lib/services/coin-metadata', () => ({
+  getCoinMetadata: jest.fn(),
+}));
+
+const FAKE_IOTA = '0x7::fake::IOTA';
+const USDC = '0x5::usdc::USDC';
+
+const metadataFor = (symbol: string, decimals: number) => ({
+  id: '0x0',
+  decimals,
+  name: symbol,
+  symbol,
+  description: '',
+  iconUrl: null,
+});
+
+describe('token registry', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should start with the curated tokens as verified', () => {
+    expect(getTokenByType(SUPPORTED_COINS.vUSD.type)).toMatchObject({
+      symbol: 'vUSD',
+      decimals: 6,
+      verification: 'verified',
+      source: 'curated',
+    });
+  });
+
+  it('should find a token whatever the address format', () => {
+    expect(getTokenByType('0x' + '0'.repeat(63) + '2::iota::IOTA')?.symbol).toBe('IOTA');
+    expect(getTokenByType('not a type')).toBeUndefined();
+  });
+
+  it('should add the tokens of discovered pools as unverified', async () => {
+    jest.spyOn(PoolDiscoveryService, 'discoverPools').mockResolvedValue([
+      { poolId: '0xa1', coinTypeA: SUPPORTED_COINS.IOTA.type, coinTypeB: USDC, source: 'event' },
+    ]);
+    (getCoinMetadata as jest.Mock).mockResolvedValueOnce(metadataFor('USDC', 6));
+
+    await TokenRegistry.refresh();
+
+    expect(getTokenByType(USDC)).toMatchObject({ symbol: 'USDC', decimals: 6, verification: 'unverified', source: 'pool' });
+    expect(getCoinMetadata).toHaveBeenCalledTimes(1);
+  });
+
+  it('should prefer the verified token when symbols collide', async () => {
+    (getCoinMetadata as jest.Mock).mockResolvedValueOnce(metadataFor('IOTA', 9));
+
+    await TokenRegistry.loadToken(FAKE_IOTA);
+
+    expect(getTokenBySymbol('IOTA')?.type).toBe(SUPPORTED_COINS.IOTA.type);
+    expect(TokenRegistry.getTokens()[0]?.verification).toBe('verified');
+  });
+
+  it('should not lend a verified token\'s price to an unverified namesake', async () => {
+    (getCoinMetadata as jest.Mock).mockResolvedValueOnce(metadataFor('IOTA', 9));
+    await TokenRegistry.loadToken(FAKE_IOTA);
+    const prices = { IOTA: { symbol: 'IOTA', price: 0.28, change24h: 0, volume24h: 0, marketCap: 0 } };
+
+    expect(getPriceForType(prices, SUPPORTED_COINS.IOTA.type)).toBe(0.28);
+    expect(getPriceForType(prices, FAKE_IOTA)).toBeUndefined();
+  });
+});
@@ -1,30 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getTokenBySymbol } from '@/lib/services/token-registry';
 
 const COINGECKO_API = 'https://api.coingecko.com/api/v3';
 
-// ONLY 3 SUPPORTED TOKENS
-const TOKEN_MAPPINGS: Record<string, string> = {
-  'IOTA': 'iota',
-  'stIOTA': 'iota', // Use IOTA price for stIOTA
-  'vUSD': 'usd-coin', // vUSD is pegged to USD
-};
-
-const SUPPORTED_TOKENS = ['IOTA', 'stIOTA', 'vUSD'];
+// CoinGecko IDs come from the token registry, only curated tokens carry one
+const getCoingeckoId = (symbol: string) => getTokenBySymbol(symbol)?.coingeckoId;
 
 export async function GET(request: NextRequest) {
   try {
     const searchParams = request.nextUrl.searchParams;
     const requestedSymbols = searchParams.get('symbols')?.split(',').filter(s => s.trim()) || [];
 
-    // Filter to only supported tokens
-    const symbols = requestedSymbols.filter(symbol => SUPPORTED_TOKENS.includes(symbol));
+    // Filter to tokens in the registry
+    const symbols = requestedSymbols.filter(symbol => !!getTokenBySymbol(symbol));
 
     if (symbols.length === 0) {
       return NextResponse.json({}, { status: 200 });
     }
 
     // Get unique coin IDs to fetch
-    const uniqueCoinIds = [...new Set(symbols.map(symbol => TOKEN_MAPPINGS[symbol]).filter(Boolean))];
+    const uniqueCoinIds = [...new Set(symbols.map(getCoingeckoId).filter(Boolean))];
     const coinIds = uniqueCoinIds.join(',');
 
     // Initialize prices object
@@ -44,7 +39,7 @@ export async function GET(request: NextRequest) {
 
         // Map prices for each requested symbol
         for (const symbol of symbols) {
-          const coinId = TOKEN_MAPPINGS[symbol];
+          const coinId = getCoingeckoId(symbol);
           
           if (coinId && data[coinId]) {
             // Special handling for vUSD - always $1
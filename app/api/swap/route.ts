@@ -1,22 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { IOTA_CONFIG, getTokenByType, MODULE_NAMES } from '@/config/iota.config';
+import { Transaction } from '@iota/iota-sdk/transactions';
+import { toB64 } from '@iota/iota-sdk/utils';
+import { IOTA_CONFIG } from '@/config/iota.config';
+import { TokenRegistry } from '@/lib/services/token-registry';
 import { 
   AppError, 
   ErrorCode, 
   ValidationError, 
-  NetworkError, 
-  PoolError,
   TransactionError,
   parseError,
-  createPoolNotFoundError
+  createPoolNotFoundError,
+  createQuoteExpiredError,
+  createValidationError
 } from '@/lib/errors';
-import { validateSwapRequest, validators } from '@/lib/validation';
+import { validateSwapRequest, validateSwapExactOutputRequest, isValidAddress, isValidBaseUnitAmount } from '@/lib/validation';
 import { withTradingSecurity } from '@/lib/middleware/security';
-import { PoolService } from '@/lib/services/pool-service';
+import { SwapRouter, SplitLeg, isQuoteExpired } from '@/lib/services/swap-router';
+import { getIotaClient } from '@/lib/iota/client';
+import { prepareCoinInput } from '@/lib/iota/coin-selection';
 import { log, measurePerformance } from '@/lib/logging';
 
-// Production-ready pool service - instantiated per request to avoid server-side issues
-
 // Standardized API response format
 interface ApiResponse<T = any> {
   success: boolean;
@@ -51,6 +54,24 @@ function createErrorResponse(error: AppError): NextResponse {
   return NextResponse.json(response, { status: error.statusCode });
 }
 
+const SWAP_GAS_BUDGET = 100000000n; // 0.1 IOTA, same budget the swap hook sets
+
+// Amount params are base units; anything BigInt would throw on is a validation error
+function parseBaseUnits(field: string, value: unknown): bigint {
+  if (!isValidBaseUnitAmount(value)) {
+    throw createValidationError(field, value, 'a non-negative integer string in base units');
+  }
+  return BigInt(value);
+}
+
+// The pools each share of the input goes through, as estimate and build report them
+const toRouteSummaries = (legs: readonly SplitLeg[]) =>
+  legs.map(leg => ({
+    path: leg.route.path,
+    percentage: leg.percentage,
+    poolIds: leg.route.hops.map(hop => hop.pool.poolId),
+  }));
+
 const handleSwapRequest = async (request: NextRequest) => {
   try {
     // Parse and validate request body
@@ -76,6 +97,61 @@ const handleSwapRequest = async (request: NextRequest) => {
         const timer = measurePerformance('SwapAPI.estimate');
         
         try {
+          const tradeType = params.tradeType ?? 'exactInput';
+          if (tradeType !== 'exactInput' && tradeType !== 'exactOutput') {
+            throw new ValidationError(`Unsupported trade type: ${tradeType}`);
+          }
+
+          if (tradeType === 'exactOutput') {
+            const validation = validateSwapExactOutputRequest(params);
+            if (!validation.isValid) {
+              throw validation.errors[0];
+            }
+
+            const { inputToken, outputToken, outputAmount, slippage } = validation.data!;
+
+            const amountOut = parseBaseUnits('outputAmount', outputAmount);
+            if (amountOut <= 0n) {
+              throw new ValidationError('Output amount must be greater than zero');
+            }
+
+            const inputTokenInfo = await TokenRegistry.loadToken(inputToken);
+            const outputTokenInfo = await TokenRegistry.loadToken(outputToken);
+
+            if (!inputTokenInfo || !outputTokenInfo) {
+              throw createPoolNotFoundError(inputToken, outputToken);
+            }
+
+            // Inverse quote over direct and multi-hop paths: input required to receive exactly amountOut
+            const route = await SwapRouter.getExactOutputRoute(
+              inputToken,
+              outputToken,
+              amountOut,
+              slippage || IOTA_CONFIG.defaults.slippage
+            );
+
+            log.business('Exact output swap estimate calculated', {
+              inputToken: inputTokenInfo.symbol,
+              outputToken: outputTokenInfo.symbol,
+              inputAmount: route.inputAmount.toString(),
+              outputAmount: amountOut.toString(),
+              priceImpact: route.priceImpact,
+            });
+
+            return createSuccessResponse({
+              tradeType,
+              inputAmount: route.inputAmount.toString(),
+              outputAmount: route.outputAmount.toString(),
+              maximumSold: route.maximumSold.toString(),
+              priceImpact: route.priceImpact,
+              feePercent: route.feePercent,
+              routes: toRouteSummaries([{ route, percentage: 100 }]),
+              slippageTolerance: slippage || IOTA_CONFIG.defaults.slippage,
+              issuedAt: route.issuedAt,
+              expiresAt: route.expiresAt,
+            });
+          }
+
           // Validate swap parameters
           const validation = validateSwapRequest(params);
           if (!validation.isValid) {
@@ -83,10 +159,16 @@ const handleSwapRequest = async (request: NextRequest) => {
           }
 
           const { inputToken, outputToken, inputAmount, slippage } = validation.data!;
+
+          // Convert input amount
+          const amountIn = parseBaseUnits('inputAmount', inputAmount);
+          if (amountIn <= 0n) {
+            throw new ValidationError('Input amount must be greater than zero');
+          }
           
           // Get token information
-          const inputTokenInfo = getTokenByType(inputToken);
-          const outputTokenInfo = getTokenByType(outputToken);
+          const inputTokenInfo = await TokenRegistry.loadToken(inputToken);
+          const outputTokenInfo = await TokenRegistry.loadToken(outputToken);
           
           if (!inputTokenInfo || !outputTokenInfo) {
             throw createPoolNotFoundError(inputToken, outputToken);
@@ -98,27 +180,11 @@ const handleSwapRequest = async (request: NextRequest) => {
             inputAmount 
           });
 
-          // Find pool using production-ready service
-          const poolService = PoolService.getInstance();
-          const pool = await poolService.findPool(inputToken, outputToken);
-          if (!pool) {
-            throw createPoolNotFoundError(inputToken, outputToken);
-          }
-
-          // Convert input amount
-          const amountIn = BigInt(inputAmount);
-          if (amountIn <= 0n) {
-            throw new ValidationError('Input amount must be greater than zero');
-          }
-
-          // Determine swap direction
-          const isAToB = pool.coinTypeA === inputToken;
-          
-          // Calculate swap quote using production service
-          const quote = poolService.calculateSwapQuote(
-            pool,
+          // Quoted on the same split route `build` executes
+          const route = await SwapRouter.getSplitRoute(
+            inputToken,
+            outputToken,
             amountIn,
-            isAToB,
             slippage || IOTA_CONFIG.defaults.slippage
           );
 
@@ -126,22 +192,20 @@ const handleSwapRequest = async (request: NextRequest) => {
             inputToken: inputTokenInfo.symbol,
             outputToken: outputTokenInfo.symbol,
             inputAmount: amountIn.toString(),
-            outputAmount: quote.outputAmount.toString(),
-            priceImpact: quote.priceImpact,
+            outputAmount: route.outputAmount.toString(),
+            priceImpact: route.priceImpact,
           });
 
           return createSuccessResponse({
-            outputAmount: quote.outputAmount.toString(),
-            priceImpact: quote.priceImpact,
-            minimumReceived: quote.minimumReceived.toString(),
-            route: [inputToken, outputToken],
-            poolId: pool.poolId,
-            reserves: {
-              in: (isAToB ? pool.reserveA : pool.reserveB).toString(),
-              out: (isAToB ? pool.reserveB : pool.reserveA).toString(),
-            },
-            fee: pool.feePercentage,
+            tradeType,
+            outputAmount: route.outputAmount.toString(),
+            priceImpact: route.priceImpact,
+            feePercent: route.feePercent,
+            minimumReceived: route.minimumReceived.toString(),
+            routes: toRouteSummaries(route.legs),
             slippageTolerance: slippage || IOTA_CONFIG.defaults.slippage,
+            issuedAt: route.issuedAt,
+            expiresAt: route.expiresAt,
           });
           
         } finally {
@@ -149,85 +213,90 @@ const handleSwapRequest = async (request: NextRequest) => {
         }
       }
 
-      case 'execute': {
-        const timer = measurePerformance('SwapAPI.execute');
-        
+      case 'build': {
+        const timer = measurePerformance('SwapAPI.build');
+
         try {
-          // Validate execute parameters
-          const executeValidation = validators.swap.validate({
-            inputToken: params.inputToken,
-            outputToken: params.outputToken,
-            inputAmount: params.inputAmount,
-          });
-          
-          if (!executeValidation.isValid) {
-            throw executeValidation.errors[0];
+          const buildValidation = validateSwapRequest(params);
+          if (!buildValidation.isValid) {
+            throw buildValidation.errors[0];
           }
 
-          const { inputToken, outputToken, inputAmount } = executeValidation.data!;
-          const { minOutputAmount } = params;
-          
-          // Get token information
-          const inputTokenInfo = getTokenByType(inputToken);
-          const outputTokenInfo = getTokenByType(outputToken);
-          
-          if (!inputTokenInfo || !outputTokenInfo) {
-            throw createPoolNotFoundError(inputToken, outputToken);
+          const { inputToken, outputToken, inputAmount, slippage } = buildValidation.data!;
+          const { sender, minOutputAmount, expiresAt } = params;
+
+          if (!isValidAddress(sender)) {
+            throw createValidationError('sender', sender, 'a 0x-prefixed 32-byte address');
           }
-          
-          // Validate minOutputAmount if provided
-          if (minOutputAmount && BigInt(minOutputAmount) <= 0n) {
-            throw new ValidationError('Minimum output amount must be greater than zero');
+
+          if (expiresAt !== undefined) {
+            if (typeof expiresAt !== 'number') {
+              throw new ValidationError('expiresAt must be a timestamp in milliseconds');
+            }
+            if (isQuoteExpired({ expiresAt })) {
+              throw createQuoteExpiredError(expiresAt);
+            }
           }
-          
-          // Find pool
-          const poolService = PoolService.getInstance();
-          const pool = await poolService.findPool(inputToken, outputToken);
-          if (!pool) {
-            throw createPoolNotFoundError(inputToken, outputToken);
+
+          const amountIn = parseBaseUnits('inputAmount', inputAmount);
+          if (amountIn <= 0n) {
+            throw new ValidationError('Input amount must be greater than zero');
           }
+          const requestedMinimum = minOutputAmount !== undefined ? parseBaseUnits('minOutputAmount', minOutputAmount) : undefined;
+
+          // Same routing as the swap hook: best split across direct and multi-hop paths
+          const route = await SwapRouter.getSplitRoute(
+            inputToken,
+            outputToken,
+            amountIn,
+            slippage || IOTA_CONFIG.defaults.slippage
+          );
 
-          // Verify pool has liquidity
-          if (pool.reserveA <= 0n || pool.reserveB <= 0n) {
-            throw new PoolError(
-              ErrorCode.INSUFFICIENT_LIQUIDITY,
-              'Pool has no liquidity for execution'
+          // An explicit minimum (e.g. from an earlier estimate) is enforced instead of the fresh one
+          const minimumReceived = requestedMinimum ?? route.minimumReceived;
+          if (route.outputAmount < minimumReceived) {
+            throw new TransactionError(
+              ErrorCode.SLIPPAGE_EXCEEDED,
+              'Current output is below the requested minimum, request a new estimate',
+              { outputAmount: route.outputAmount.toString(), minOutputAmount: minimumReceived.toString() }
             );
           }
 
-          // Determine swap direction and function
-          const isAToB = pool.coinTypeA === inputToken;
-          const swapFunction = isAToB ? 'swap_a_to_b' : 'swap_b_to_a';
+          const tx = new Transaction();
+          tx.setSender(sender);
 
-          log.business('Swap execution prepared', {
-            inputToken: inputTokenInfo.symbol,
-            outputToken: outputTokenInfo.symbol,
-            inputAmount,
-            poolId: pool.poolId,
-            swapFunction,
+          const coinIn = await prepareCoinInput(getIotaClient(), tx, {
+            owner: sender,
+            coinType: inputToken,
+            amount: amountIn,
+            gasBudget: SWAP_GAS_BUDGET,
+          });
+          SwapRouter.getInstance().appendSplitRouteToTransaction(tx, { ...route, minimumReceived }, coinIn, sender);
+          tx.setGasBudget(SWAP_GAS_BUDGET);
+
+          const transactionBytes = await tx.build({ client: getIotaClient() });
+
+          log.business('Swap transaction built', {
+            inputToken,
+            outputToken,
+            inputAmount: amountIn.toString(),
+            outputAmount: route.outputAmount.toString(),
+            legs: route.legs.length,
+            sender,
           });
 
-          // Return transaction parameters for frontend to build and execute
           return createSuccessResponse({
-            transactionParams: {
-              target: `${IOTA_CONFIG.packages.core}::${MODULE_NAMES.DEX}::${swapFunction}`,
-              poolId: pool.poolId,
-              coinTypeA: pool.coinTypeA,
-              coinTypeB: pool.coinTypeB,
-              inputAmount,
-              minOutputAmount: minOutputAmount || '0',
-              isReverse: !isAToB,
-              moduleCall: {
-                packageId: IOTA_CONFIG.packages.core,
-                module: MODULE_NAMES.DEX,
-                function: swapFunction,
-                typeArguments: [pool.coinTypeA, pool.coinTypeB],
-              },
-            },
-            message: 'Transaction parameters prepared successfully',
-            estimatedGas: '10000000', // Estimated gas for swap
+            transactionBytes: toB64(transactionBytes),
+            outputAmount: route.outputAmount.toString(),
+            minimumReceived: minimumReceived.toString(),
+            priceImpact: route.priceImpact,
+            feePercent: route.feePercent,
+            routes: toRouteSummaries(route.legs),
+            gasBudget: SWAP_GAS_BUDGET.toString(),
+            issuedAt: route.issuedAt,
+            expiresAt: expiresAt ?? route.expiresAt,
           });
-          
+
         } finally {
           timer.end();
         }
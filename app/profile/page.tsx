@@ -13,14 +13,17 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Search, Copy, ExternalLink, Wallet, Droplets, FileText, TrendingUp, BarChart3, Plus } from 'lucide-react'
 import { useAllBalances } from '@/hooks/use-wallet-balance'
 import { useTokenPrices } from '@/hooks/use-token-price'
+import { getPriceForType } from '@/lib/services/price-feed'
 import { formatBalance, formatTokenAmount, formatNumber } from '@/lib/utils/format'
 import Image from 'next/image'
 import { toast } from 'sonner'
 import { getMultipleCoinMetadata } from '@/lib/services/coin-metadata'
 import { CoinIcon } from '@/components/coin-icon'
-import { useLPTokens } from '@/hooks/use-lp-tokens'
-import { usePoolInfo } from '@/hooks/use-pool-info'
-import { SUPPORTED_COINS } from '@/config/iota.config'
+import { useLPPositions } from '@/hooks/use-lp-positions'
+import { useOrderHistory } from '@/hooks/use-order-history'
+import { OrderHistoryFilter } from '@/lib/services/order-history-service'
+import { formatOrderPrice } from '@/lib/services/limit-order-service'
+import { getTokenByType } from '@/lib/services/token-registry'
 import Link from 'next/link'
 
 interface EnrichedBalance {
@@ -36,6 +39,16 @@ interface EnrichedBalance {
   usdValue?: number
 }
 
+const ORDERS_PAGE_SIZE = 10
+
+const ORDER_STATUS_STYLES: Record<string, string> = {
+  pending: 'text-cyan-400',
+  partial: 'text-yellow-400',
+  filled: 'text-green-400',
+  cancelled: 'text-gray-400',
+  expired: 'text-gray-500',
+}
+
 export default function ProfilePage() {
   const account = useCurrentAccount()
   const { balances: rawBalances, isLoading: isLoadingBalances } = useAllBalances()
@@ -96,12 +109,12 @@ export default function ProfilePage() {
   // Update balances with prices - memoized to prevent infinite re-renders
   const balancesWithPrices = useMemo(() => {
     return enrichedBalances.map(balance => {
-      const price = prices[balance.symbol]
-      const usdValue = price ? parseFloat(balance.balance) * price.price : undefined
+      const priceUsd = getPriceForType(prices, balance.coinType)
+      const usdValue = priceUsd ? parseFloat(balance.balance) * priceUsd : undefined
       return {
         ...balance,
-        priceUsd: price?.price,
-        priceChange24h: price?.change24h,
+        priceUsd,
+        priceChange24h: priceUsd !== undefined ? prices[balance.symbol]?.change24h : undefined,
         usdValue,
       }
     })
@@ -120,25 +133,13 @@ export default function ProfilePage() {
     return `${address.slice(0, 6)}...${address.slice(-4)}`
   }
 
-  // Get LP tokens and pool info
-  const { lpTokens, isLoading: isLoadingLP } = useLPTokens()
-  const { poolInfo, isLoading: isLoadingPool } = usePoolInfo(
-    SUPPORTED_COINS.IOTA.type,
-    SUPPORTED_COINS.stIOTA.type
-  )
-  
-  // Calculate liquidity value - memoized
-  const liquidityValue = useMemo(() => {
-    return lpTokens.length > 0 && poolInfo && poolInfo.lpSupply > 0
-      ? lpTokens.reduce((total, token) => {
-          const share = BigInt(token.amount) * BigInt(10000) / poolInfo.lpSupply
-          const iotaAmount = (poolInfo.reserveA * share) / BigInt(10000)
-          const stIotaAmount = (poolInfo.reserveB * share) / BigInt(10000)
-          const valueInUsd = (Number(iotaAmount + stIotaAmount) / 1e9) * 0.28 // Assuming $0.28 per IOTA
-          return total + valueInUsd
-        }, 0)
-      : 0
-  }, [lpTokens, poolInfo])
+  // Get LP positions with their value, fees and impermanent loss
+  const { positions: lpPositions, totalValueUsd: liquidityValue, isLoading: isLoadingLP } = useLPPositions()
+
+  // Limit orders rebuilt from the order book's events
+  const [orderFilter, setOrderFilter] = useState<OrderHistoryFilter>('open')
+  const [orderPage, setOrderPage] = useState(0)
+  const { orders, total: totalOrders, hasMore: hasMoreOrders, isLoading: isLoadingOrders } = useOrderHistory(orderFilter, orderPage, ORDERS_PAGE_SIZE)
 
   const portfolioStats = useMemo(() => ({
     walletHoldings: balancesWithPrices.reduce((sum, b) => sum + (b.usdValue || 0), 0),
@@ -436,7 +437,7 @@ export default function ProfilePage() {
               <div className="text-center py-8 text-gray-400">
                 Loading liquidity positions...
               </div>
-            ) : lpTokens.length === 0 ? (
+            ) : lpPositions.length === 0 ? (
               <div className="text-center py-12">
                 <Droplets className="w-12 h-12 mx-auto mb-4 text-gray-500" />
                 <p className="text-gray-400 mb-4">No liquidity positions found</p>
@@ -450,34 +451,25 @@ export default function ProfilePage() {
               </div>
             ) : (
               <div className="space-y-4">
-                {lpTokens.map((token) => {
-                  const share = poolInfo && poolInfo.lpSupply > 0
-                    ? (BigInt(token.amount) * BigInt(10000) / poolInfo.lpSupply)
-                    : BigInt(0)
-                  const iotaAmount = poolInfo
-                    ? (poolInfo.reserveA * share) / BigInt(10000)
-                    : BigInt(0)
-                  const stIotaAmount = poolInfo
-                    ? (poolInfo.reserveB * share) / BigInt(10000)
-                    : BigInt(0)
-                  const valueInUsd = (Number(iotaAmount + stIotaAmount) / 1e9) * 0.28
-                  const poolShare = Number(share) / 100
+                {lpPositions.map((position) => {
+                  const { tokenA, tokenB } = position
+                  const formatUsd = (value: number) => `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`
                   
                   return (
-                    <div key={token.id} className="p-4 bg-white/5 rounded-lg border border-white/10 hover:border-cyan-500/30 transition-all">
+                    <div key={position.poolId} className="p-4 bg-white/5 rounded-lg border border-white/10 hover:border-cyan-500/30 transition-all">
                       <div className="flex items-center justify-between mb-3">
                         <div className="flex items-center gap-3">
                           <div className="flex -space-x-2">
-                            <CoinIcon symbol="IOTA" size={32} />
-                            <CoinIcon symbol="stIOTA" size={32} />
+                            <CoinIcon symbol={tokenA.symbol} iconUrl={tokenA.iconUrl ?? null} size={32} />
+                            <CoinIcon symbol={tokenB.symbol} iconUrl={tokenB.iconUrl ?? null} size={32} />
                           </div>
                           <div>
-                            <h3 className="text-white font-medium">IOTA/stIOTA Pool</h3>
-                            <p className="text-sm text-gray-400">Pool Share: <span className="text-cyan-400">{poolShare.toFixed(2)}%</span></p>
+                            <h3 className="text-white font-medium">{tokenA.symbol}/{tokenB.symbol} Pool</h3>
+                            <p className="text-sm text-gray-400">Pool Share: <span className="text-cyan-400">{(position.share * 100).toFixed(2)}%</span></p>
                           </div>
                         </div>
                         <div className="text-right">
-                          <p className="text-lg font-bold text-white mono">${valueInUsd.toFixed(2)}</p>
+                          <p className="text-lg font-bold text-white mono">${position.valueUsd.toFixed(2)}</p>
                           <p className="text-sm text-gray-400">Total Value</p>
                         </div>
                       </div>
@@ -485,15 +477,40 @@ export default function ProfilePage() {
                       <div className="grid grid-cols-3 gap-4 mb-4">
                         <div>
                           <p className="text-xs text-gray-400">LP Tokens</p>
-                          <p className="font-medium text-white mono">{formatBalance(token.amount, 9, 4)}</p>
+                          <p className="font-medium text-white mono">{formatBalance(position.lpAmount, 9, 4)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-400">{tokenA.symbol}</p>
+                          <p className="font-medium text-white mono">{formatBalance(position.amountA, tokenA.decimals, 4)}</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-400">{tokenB.symbol}</p>
+                          <p className="font-medium text-white mono">{formatBalance(position.amountB, tokenB.decimals, 4)}</p>
+                        </div>
+                      </div>
+                      
+                      <div className="grid grid-cols-4 gap-4 mb-4">
+                        <div>
+                          <p className="text-xs text-gray-400">Value if Held</p>
+                          <p className="font-medium text-white mono">
+                            {position.entryValueUsd !== null ? `$${position.entryValueUsd.toFixed(2)}` : '—'}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-400">Fees Earned</p>
+                          <p className="font-medium text-green-400 mono">${position.feesEarnedUsd.toFixed(2)}</p>
                         </div>
                         <div>
-                          <p className="text-xs text-gray-400">IOTA</p>
-                          <p className="font-medium text-white mono">{formatBalance(iotaAmount.toString(), 9, 4)}</p>
+                          <p className="text-xs text-gray-400">Impermanent Loss</p>
+                          <p className="font-medium text-yellow-400 mono">
+                            {position.impermanentLoss !== null ? `${(position.impermanentLoss * 100).toFixed(2)}%` : '—'}
+                          </p>
                         </div>
                         <div>
-                          <p className="text-xs text-gray-400">stIOTA</p>
-                          <p className="font-medium text-white mono">{formatBalance(stIotaAmount.toString(), 9, 4)}</p>
+                          <p className="text-xs text-gray-400">PnL vs HODL</p>
+                          <p className={`font-medium mono ${(position.pnlVsHodlUsd ?? 0) < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                            {position.pnlVsHodlUsd !== null ? formatUsd(position.pnlVsHodlUsd) : '—'}
+                          </p>
                         </div>
                       </div>
                       
@@ -539,17 +556,119 @@ export default function ProfilePage() {
               </Button>
             </div>
             
-            <div className="text-center py-12">
-              <FileText className="w-12 h-12 mx-auto mb-4 text-gray-500" />
-              <p className="text-gray-400 mb-4">No active limit orders</p>
-              <Button
-                asChild
-                variant="outline"
-                className="border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/10"
-              >
-                <Link href="/limit">Create Your First Order</Link>
-              </Button>
+            <div className="flex gap-2 mb-4">
+              {(['open', 'closed', 'all'] as const).map(filter => (
+                <Button
+                  key={filter}
+                  size="sm"
+                  variant={orderFilter === filter ? 'default' : 'outline'}
+                  className={orderFilter === filter ? 'bg-cyan-500/20 text-cyan-400' : 'border-white/10 text-gray-400'}
+                  onClick={() => { setOrderFilter(filter); setOrderPage(0) }}
+                >
+                  {filter.charAt(0).toUpperCase() + filter.slice(1)}
+                </Button>
+              ))}
             </div>
+
+            {isLoadingOrders ? (
+              <div className="text-center py-12 text-gray-400">Loading orders...</div>
+            ) : orders.length === 0 ? (
+              <div className="text-center py-12">
+                <FileText className="w-12 h-12 mx-auto mb-4 text-gray-500" />
+                <p className="text-gray-400 mb-4">{orderFilter === 'open' ? 'No active limit orders' : 'No limit orders'}</p>
+                <Button
+                  asChild
+                  variant="outline"
+                  className="border-cyan-500/30 text-cyan-400 hover:bg-cyan-500/10"
+                >
+                  <Link href="/limit">Create Your First Order</Link>
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {orders.map(order => {
+                  const base = getTokenByType(order.baseTokenType)
+                  const quote = getTokenByType(order.quoteTokenType)
+                  const baseSymbol = base?.symbol ?? order.baseTokenType.split('::').pop()
+                  const quoteSymbol = quote?.symbol ?? order.quoteTokenType.split('::').pop()
+                  const baseDecimals = base?.decimals ?? 9
+                  const quoteDecimals = quote?.decimals ?? 9
+                  const filledPercent = Number((BigInt(order.filledAmount) * 10000n) / BigInt(order.amount)) / 100
+
+                  return (
+                    <div key={order.id} className="p-4 rounded-lg bg-black/40 border border-white/10">
+                      <div className="flex items-center justify-between mb-3">
+                        <div>
+                          <h3 className="text-white font-medium">
+                            <span className={order.orderType === 'buy' ? 'text-green-400' : 'text-red-400'}>
+                              {order.orderType === 'buy' ? 'Buy' : 'Sell'}
+                            </span>{' '}
+                            {formatBalance(order.amount, baseDecimals, 4)} {baseSymbol}
+                          </h3>
+                          <p className="text-sm text-gray-400">
+                            at {formatOrderPrice(BigInt(order.price), baseDecimals, quoteDecimals)} {quoteSymbol}
+                          </p>
+                        </div>
+                        <span className={`text-sm font-medium capitalize ${ORDER_STATUS_STYLES[order.status]}`}>{order.status}</span>
+                      </div>
+
+                      <div className="grid grid-cols-4 gap-4">
+                        <div>
+                          <p className="text-xs text-gray-400">Filled</p>
+                          <p className="font-medium text-white mono">{filledPercent.toFixed(2)}%</p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-400">Avg. Price</p>
+                          <p className="font-medium text-white mono">
+                            {order.avgFillPrice !== '0' ? formatOrderPrice(BigInt(order.avgFillPrice), baseDecimals, quoteDecimals) : '—'}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-400">Fees</p>
+                          <p className="font-medium text-white mono">
+                            {order.orderType === 'buy'
+                              ? `${formatBalance(order.feePaid, baseDecimals, 4)} ${baseSymbol}`
+                              : `${formatBalance(order.feePaid, quoteDecimals, 4)} ${quoteSymbol}`}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-xs text-gray-400">{order.isActive ? 'Expires' : 'Placed'}</p>
+                          <p className="font-medium text-white mono text-sm">
+                            {new Date(order.isActive ? order.expiresAt : order.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                      </div>
+                    </div>
+                  )
+                })}
+
+                <div className="flex items-center justify-between pt-2">
+                  <span className="text-sm text-gray-400">
+                    {orderPage * ORDERS_PAGE_SIZE + 1}-{orderPage * ORDERS_PAGE_SIZE + orders.length} of {totalOrders}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-white/10 text-gray-400"
+                      disabled={orderPage === 0}
+                      onClick={() => setOrderPage(page => page - 1)}
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="border-white/10 text-gray-400"
+                      disabled={!hasMoreOrders}
+                      onClick={() => setOrderPage(page => page + 1)}
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            )}
           </Card>
         </TabsContent>
         
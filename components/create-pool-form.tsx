@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, PlusCircle } from 'lucide-react';
+import { useCurrentAccount } from '@iota/dapp-kit';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { TokenDropdown } from '@/components/token-dropdown';
+import { IOTA_CONFIG, SUPPORTED_COINS } from '@/config/iota.config';
+import { formatBalance, parseTokenAmount } from '@/lib/utils/format';
+import { fitsInitialDeposit } from '@/lib/utils/swap-math';
+import { useCreatePool } from '@/hooks/use-create-pool';
+import { TokenInfo } from '@/lib/services/token-registry';
+import { toast } from 'sonner';
+
+type Token = Pick<TokenInfo, 'type' | 'symbol' | 'name' | 'decimals' | 'iconUrl'>;
+
+// Base units of a typed amount, or null while the input isn't a number yet
+const toBaseUnits = (amount: string, decimals: number): bigint | null => {
+  try {
+    return parseTokenAmount(amount, decimals);
+  } catch {
+    return null;
+  }
+};
+
+export function CreatePoolForm() {
+  const currentAccount = useCurrentAccount();
+  const [tokenA, setTokenA] = useState<Token>(SUPPORTED_COINS.IOTA);
+  const [tokenB, setTokenB] = useState<Token>(SUPPORTED_COINS.vUSD);
+  const [amountA, setAmountA] = useState('');
+  const [amountB, setAmountB] = useState('');
+  const { createPool, isCreating } = useCreatePool();
+
+  // The configured minimum is in IOTA base units, one whole token of each side
+  const minimumLiquidity = formatBalance(IOTA_CONFIG.limits.minPoolLiquidity.toString(), SUPPORTED_COINS.IOTA.decimals);
+
+  // create_pool aborts when the product of the two deposits in base units leaves u64
+  const baseA = amountA ? toBaseUnits(amountA, tokenA.decimals) : null;
+  const baseB = amountB ? toBaseUnits(amountB, tokenB.decimals) : null;
+  const depositTooLarge = baseA !== null && baseB !== null && !fitsInitialDeposit(baseA, baseB);
+
+  const handleCreate = async () => {
+    if (!amountA || !amountB) {
+      toast.error('Please enter both amounts');
+      return;
+    }
+    if (depositTooLarge) {
+      toast.error('Initial amounts are too large for the pool to mint its first LP tokens');
+      return;
+    }
+
+    const result = await createPool({ tokenA, tokenB, amountA, amountB });
+
+    if (result.success) {
+      setAmountA('');
+      setAmountB('');
+      window.dispatchEvent(new Event('pool-cache-refresh'));
+    }
+  };
+
+  return (
+    <Card className="bg-black/40 border-white/10">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-xl font-bold text-white">Create a Pool</CardTitle>
+        <p className="text-sm text-gray-400">
+          Seed a new pair with initial reserves. The amounts you deposit set the starting price.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {[
+          { token: tokenA, other: tokenB, setToken: setTokenA, amount: amountA, setAmount: setAmountA },
+          { token: tokenB, other: tokenA, setToken: setTokenB, amount: amountB, setAmount: setAmountB },
+        ].map(({ token, other, setToken, amount, setAmount }) => (
+          <div key={token.type} className="flex items-center gap-3 p-3 bg-black/20 rounded-lg">
+            <Input
+              type="number"
+              placeholder="0.0"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="flex-1 bg-transparent border-0 text-2xl font-mono text-white focus-visible:ring-0"
+            />
+            <TokenDropdown
+              selectedToken={token}
+              onSelect={setToken}
+              excludeToken={other}
+            />
+          </div>
+        ))}
+
+        <p className="text-xs text-gray-500">
+          Minimum {minimumLiquidity} {tokenA.symbol} and {minimumLiquidity} {tokenB.symbol}. Pairs that already have a pool are rejected.
+        </p>
+
+        {depositTooLarge && (
+          <p className="text-xs text-red-400">
+            These amounts are too large to seed a pool: {tokenA.symbol} times {tokenB.symbol} in base units must stay within a u64. Lower one of them.
+          </p>
+        )}
+
+        <Button
+          className="w-full bg-cyan-500 hover:bg-cyan-400 text-black font-semibold"
+          onClick={handleCreate}
+          disabled={!currentAccount || isCreating || !amountA || !amountB || depositTooLarge}
+        >
+          {isCreating ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Creating Pool...
+            </>
+          ) : !currentAccount ? (
+            'Connect Wallet'
+          ) : (
+            <>
+              <PlusCircle className="w-4 h-4 mr-2" />
+              Create Pool
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
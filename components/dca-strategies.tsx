@@ -25,6 +25,7 @@ import { useDCAV2 } from '@/hooks/use-dca-v2';
 import { DCAService, DCAStrategy } from '@/lib/services/dca-service';
 import { formatTokenAmount } from '@/lib/utils/format';
 import { SUPPORTED_COINS } from '@/config/iota.config';
+import { getTokenByType } from '@/lib/services/token-registry';
 import { CoinIcon } from '@/components/coin-icon';
 
 interface DCAStrategyCardProps {
@@ -45,12 +46,8 @@ function DCAStrategyCard({
   const [isLoading, setIsLoading] = useState(false);
   
   // Get token info from strategy types
-  const sourceToken = Object.values(SUPPORTED_COINS).find(
-    coin => coin.type === strategy.sourceTokenType
-  ) || SUPPORTED_COINS.IOTA;
-  const targetToken = Object.values(SUPPORTED_COINS).find(
-    coin => coin.type === strategy.targetTokenType
-  ) || SUPPORTED_COINS.stIOTA;
+  const sourceToken = getTokenByType(strategy.sourceTokenType) || SUPPORTED_COINS.IOTA;
+  const targetToken = getTokenByType(strategy.targetTokenType) || SUPPORTED_COINS.stIOTA;
   
   const progress = DCAService.getProgress(strategy);
   const nextExecution = new Date(strategy.nextExecutionTime);
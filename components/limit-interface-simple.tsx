@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { ArrowUpDown, Info, Loader2, TrendingUp, Calendar } from 'lucide-react';
 import { useCurrentAccount } from '@iota/dapp-kit';
 import { Button } from '@/components/ui/button';
@@ -16,12 +16,14 @@ import {
 } from '@/components/ui/select';
 import { useTokenPrice } from '@/hooks/use-token-price';
 import { useWalletBalance } from '@/hooks/use-wallet-balance';
-import { formatTokenAmount } from '@/lib/utils/format';
+import { formatBalance, formatTokenAmount } from '@/lib/utils/format';
 import { SUPPORTED_COINS } from '@/config/iota.config';
 import { toast } from 'sonner';
 import { TokenSelector } from '@/components/token-selector';
 import { CoinIcon } from '@/components/coin-icon';
 import { useLimitOrder } from '@/hooks/use-limit-order';
+import { OrderBookDepth } from '@/components/order-book-depth';
+import { CreateLimitOrderParams, LimitOrderService, OrderPreview, TimeInForce, getOrderFunding, parseOrderAmount, toOrderPrice } from '@/lib/services/limit-order-service';
 
 interface Token {
   symbol: string;
@@ -40,6 +42,13 @@ const EXPIRY_OPTIONS = [
   { value: '4320', label: '6 Months' },
 ];
 
+const TIME_IN_FORCE_OPTIONS: { value: TimeInForce; label: string; description: string }[] = [
+  { value: 'gtc', label: 'GTC', description: 'Rests on the book until filled, cancelled or expired' },
+  { value: 'ioc', label: 'IOC', description: 'Fills what it can right away, the unfilled part is refunded in the same transaction' },
+  { value: 'fok', label: 'FOK', description: 'Fills completely right away or the transaction fails and nothing is traded' },
+  { value: 'post-only', label: 'Post Only', description: 'Is not placed if any of it would fill now' },
+];
+
 export function LimitInterface() {
   const currentAccount = useCurrentAccount();
   const isConnected = !!currentAccount;
@@ -57,24 +66,41 @@ export function LimitInterface() {
   const [expiry, setExpiry] = useState('168'); // Default 7 days
   const [orderType, setOrderType] = useState<'buy' | 'sell'>('buy');
   const [isMarketPrice, setIsMarketPrice] = useState(false);
+  const [timeInForce, setTimeInForce] = useState<TimeInForce>('gtc');
   
   // Token selectors
   const [showTokenSelect, setShowTokenSelect] = useState<'input' | 'output' | null>(null);
   
   // Loading state
   const [isCreating, setIsCreating] = useState(false);
+  const [preview, setPreview] = useState<OrderPreview | null>(null);
 
   // Fetch token prices and balances
   const { price: inputPrice } = useTokenPrice(inputToken.symbol);
   const { price: outputPrice } = useTokenPrice(outputToken.symbol);
-  const { formatted: inputBalanceFormatted } = useWalletBalance(inputToken.type);
-  const { formatted: outputBalanceFormatted } = useWalletBalance(outputToken.type);
+  const { balance: inputBalance, formatted: inputBalanceFormatted } = useWalletBalance(inputToken.type);
+  const { balance: outputBalance, formatted: outputBalanceFormatted } = useWalletBalance(outputToken.type);
 
   // Calculate values
   const amountNum = parseFloat(amount || '0');
   const priceNum = parseFloat(price || '0');
   const totalValue = amountNum * priceNum;
 
+  // A buy locks the quote it pays, a sell the base it sells; checked against the wallet before signing
+  const fundingToken = orderType === 'buy' ? outputToken : inputToken;
+  const requiredFunding = useMemo(() => {
+    try {
+      return getOrderFunding(
+        orderType === 'buy',
+        parseOrderAmount(amount, inputToken.decimals),
+        toOrderPrice(price, inputToken.decimals, outputToken.decimals)
+      );
+    } catch {
+      return 0n;
+    }
+  }, [orderType, amount, price, inputToken.decimals, outputToken.decimals]);
+  const hasInsufficientBalance = isConnected && requiredFunding > BigInt(orderType === 'buy' ? outputBalance : inputBalance);
+
   // Get market price for default
   const marketPrice = inputPrice && outputPrice ? inputPrice.price / outputPrice.price : 0;
 
@@ -105,6 +131,29 @@ export function LimitInterface() {
     }
   };
 
+  const buildOrderParams = (): CreateLimitOrderParams => ({
+    baseTokenType: inputToken.type,
+    quoteTokenType: outputToken.type,
+    orderType,
+    amount, // Service will handle decimal conversion
+    price, // Quote per base, the service converts it to the book's precision and orientation
+    expiryDuration: parseInt(expiry) * 60 * 60 * 1000,
+    timeInForce,
+  });
+
+  // IOC and FOK orders never rest, show how much of them the live book fills
+  const isImmediate = timeInForce === 'ioc' || timeInForce === 'fok';
+  useEffect(() => {
+    setPreview(null);
+    if (!isImmediate || !(parseFloat(amount) > 0) || !(parseFloat(price) > 0)) return;
+
+    let cancelled = false;
+    LimitOrderService.previewOrder(buildOrderParams())
+      .then((result) => { if (!cancelled) setPreview(result); })
+      .catch(() => { if (!cancelled) setPreview(null); });
+    return () => { cancelled = true; };
+  }, [isImmediate, inputToken.type, outputToken.type, orderType, amount, price, expiry, timeInForce]);
+
   const handleCreateLimitOrder = async () => {
     if (!isConnected) {
       toast.error('Please connect your wallet');
@@ -121,22 +170,21 @@ export function LimitInterface() {
       return;
     }
 
+    if (hasInsufficientBalance) {
+      toast.error(`Insufficient ${fundingToken.symbol} balance`);
+      return;
+    }
+
     setIsCreating(true);
     try {
-      const expiryHours = parseInt(expiry);
-      const expireAt = Date.now() + (expiryHours * 60 * 60 * 1000);
-      
-      const params = {
-        sourceTokenType: orderType === 'buy' ? outputToken.type : inputToken.type,
-        targetTokenType: orderType === 'buy' ? inputToken.type : outputToken.type,
-        amount: amount, // Service will handle decimal conversion
-        price: price, // Service will handle price precision
-        isBuy: orderType === 'buy',
-        expireAt,
-        orderBookId: 'auto', // Will be created automatically if needed
-        sourceDecimals: orderType === 'buy' ? outputToken.decimals : inputToken.decimals,
-        targetDecimals: orderType === 'buy' ? inputToken.decimals : outputToken.decimals,
-      };
+      const params = buildOrderParams();
+
+      if (isImmediate) {
+        // The book may have moved since the last preview
+        const placed = await LimitOrderService.previewOrder(params);
+        setPreview(placed);
+        toast.info(`${formatBalance(placed.fillable, inputToken.decimals, 6)} ${inputToken.symbol} fills at the current book, the rest is refunded`);
+      }
 
       console.log('🎯 Creating limit order:', orderType, `${amount} ${inputToken.symbol} at ${price} ${outputToken.symbol}`);
       const result = await placeLimitOrder(params);
@@ -308,7 +356,7 @@ export function LimitInterface() {
               Expires in
               <Info className="w-3 h-3" />
             </div>
-            <Select value={expiry} onValueChange={setExpiry}>
+            <Select value={expiry} onValueChange={setExpiry} disabled={timeInForce === 'ioc' || timeInForce === 'fok'}>
               <SelectTrigger className="bg-transparent border-white/20 text-white">
                 <SelectValue />
               </SelectTrigger>
@@ -324,6 +372,13 @@ export function LimitInterface() {
         </Card>
       </div>
 
+      {/* Order Book */}
+      <OrderBookDepth
+        baseToken={inputToken}
+        quoteToken={outputToken}
+        onSelectPrice={(levelPrice) => {setPrice(levelPrice); setIsMarketPrice(false);}}
+      />
+
       {/* Order Type Toggle */}
       <Card className="bg-black/40 border-white/10 rounded-2xl">
         <CardContent className="p-4">
@@ -345,6 +400,27 @@ export function LimitInterface() {
               Sell {inputToken.symbol}
             </Button>
           </div>
+          <div className="flex items-center gap-1 bg-white/5 rounded-lg p-1 mt-2">
+            {TIME_IN_FORCE_OPTIONS.map((option) => (
+              <Button
+                key={option.value}
+                variant={timeInForce === option.value ? 'default' : 'ghost'}
+                size="sm"
+                className={`flex-1 h-7 text-xs ${timeInForce === option.value ? 'bg-blue-500 text-white' : 'text-white hover:bg-white/10'}`}
+                onClick={() => setTimeInForce(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+          <div className="text-xs text-gray-500 mt-2">
+            {TIME_IN_FORCE_OPTIONS.find((option) => option.value === timeInForce)?.description}
+          </div>
+          {isImmediate && preview && (
+            <div className="text-xs text-cyan-400 mt-1">
+              Fills {formatBalance(preview.fillable, inputToken.decimals, 6)} of {formatBalance(preview.amount, inputToken.decimals, 6)} {inputToken.symbol} at the current book
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -353,13 +429,15 @@ export function LimitInterface() {
         <Button
           className="w-full bg-blue-500 hover:bg-blue-400 text-white py-4 rounded-xl font-semibold text-lg"
           onClick={handleCreateLimitOrder}
-          disabled={isCreating || !amount || !price || parseFloat(amount) <= 0 || parseFloat(price) <= 0}
+          disabled={isCreating || hasInsufficientBalance || !amount || !price || parseFloat(amount) <= 0 || parseFloat(price) <= 0}
         >
           {isCreating ? (
             <>
               <Loader2 className="w-4 h-4 mr-2 animate-spin" />
               Creating Limit Order...
             </>
+          ) : hasInsufficientBalance ? (
+            `Insufficient ${fundingToken.symbol} balance`
           ) : (
             `Place ${orderType} Order`
           )}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Area, AreaChart, XAxis, YAxis } from 'recharts';
+import { Loader2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from '@/components/ui/chart';
+import { useOrderBook } from '@/hooks/use-order-book';
+import { OrderBookLevel } from '@/lib/services/limit-order-service';
+import { getTokenByType, isSameCoinType } from '@/lib/services/token-registry';
+import { formatTokenAmount } from '@/lib/utils/format';
+
+interface Token {
+  symbol: string;
+  type: string;
+}
+
+interface OrderBookDepthProps {
+  baseToken: Token;
+  quoteToken: Token;
+  onSelectPrice: (price: string) => void; // Quote per base, in the caller's orientation
+}
+
+const LADDER_LEVELS = 8;
+
+const chartConfig = {
+  bids: { label: 'Bids', color: '#22c55e' },
+  asks: { label: 'Asks', color: '#ef4444' },
+} satisfies ChartConfig;
+
+interface DepthPoint {
+  price: number;
+  bids?: number;
+  asks?: number;
+}
+
+// Cumulative amount at each level, walking away from the best price
+const withTotals = (levels: readonly OrderBookLevel[]) => {
+  let total = 0;
+  return levels.map(level => {
+    total += parseFloat(level.amount);
+    return { ...level, total };
+  });
+};
+
+export function OrderBookDepth({ baseToken, quoteToken, onSelectPrice }: OrderBookDepthProps) {
+  const { info, snapshot, isLoading } = useOrderBook(baseToken.type, quoteToken.type);
+
+  // The book may list the pair the other way round, its prices are then inverted for the form
+  const isInverted = !!info && !isSameCoinType(info.baseTokenType, baseToken.type);
+  const bookBase = info ? getTokenByType(info.baseTokenType)?.symbol ?? baseToken.symbol : baseToken.symbol;
+  const bookQuote = info ? getTokenByType(info.quoteTokenType)?.symbol ?? quoteToken.symbol : quoteToken.symbol;
+
+  const bids = useMemo(() => withTotals(snapshot?.bids ?? []), [snapshot]);
+  const asks = useMemo(() => withTotals(snapshot?.asks ?? []), [snapshot]);
+
+  const depth = useMemo<DepthPoint[]>(() => [
+    ...bids.map(level => ({ price: parseFloat(level.price), bids: level.total })).reverse(),
+    ...asks.map(level => ({ price: parseFloat(level.price), asks: level.total })),
+  ], [bids, asks]);
+
+  const selectPrice = (price: string) => {
+    // Plain decimal notation, the price input takes no exponents
+    onSelectPrice(
+      isInverted ? (1 / parseFloat(price)).toLocaleString('en-US', { useGrouping: false, maximumSignificantDigits: 6 }) : price
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <Card className="bg-black/40 border-white/10 rounded-2xl">
+        <CardContent className="p-4 flex justify-center">
+          <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!snapshot || (bids.length === 0 && asks.length === 0)) {
+    return (
+      <Card className="bg-black/40 border-white/10 rounded-2xl">
+        <CardContent className="p-4 text-center text-sm text-gray-500">
+          {snapshot ? 'No open orders' : 'No order book for this pair'}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const renderLevel = (level: OrderBookLevel & { total: number }, side: 'bid' | 'ask') => (
+    <button
+      key={`${side}-${level.price}`}
+      onClick={() => selectPrice(level.price)}
+      className="grid grid-cols-3 w-full px-2 py-0.5 text-xs mono hover:bg-white/10 rounded"
+    >
+      <span className={`text-left ${side === 'bid' ? 'text-green-400' : 'text-red-400'}`}>{level.price}</span>
+      <span className="text-right text-gray-300">{formatTokenAmount(level.amount, 4)}</span>
+      <span className="text-right text-gray-500">{formatTokenAmount(level.total, 4)}</span>
+    </button>
+  );
+
+  return (
+    <Card className="bg-black/40 border-white/10 rounded-2xl">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-400 font-medium">Order Book</span>
+          <span className="text-xs text-gray-500">{bookBase}/{bookQuote}</span>
+        </div>
+
+        <ChartContainer config={chartConfig} className="h-32 w-full">
+          <AreaChart data={depth} margin={{ top: 4, right: 0, bottom: 0, left: 0 }}>
+            <XAxis dataKey="price" type="number" domain={['dataMin', 'dataMax']} hide />
+            <YAxis hide />
+            <ChartTooltip content={<ChartTooltipContent labelKey="price" />} />
+            <Area dataKey="bids" type="stepAfter" stroke="var(--color-bids)" fill="var(--color-bids)" fillOpacity={0.2} connectNulls={false} />
+            <Area dataKey="asks" type="stepBefore" stroke="var(--color-asks)" fill="var(--color-asks)" fillOpacity={0.2} connectNulls={false} />
+          </AreaChart>
+        </ChartContainer>
+
+        <div>
+          <div className="grid grid-cols-3 px-2 pb-1 text-xs text-gray-500">
+            <span>Price ({bookQuote})</span>
+            <span className="text-right">Amount ({bookBase})</span>
+            <span className="text-right">Total</span>
+          </div>
+          {asks.slice(0, LADDER_LEVELS).reverse().map(level => renderLevel(level, 'ask'))}
+          <div className="px-2 py-1 text-xs text-gray-500 border-y border-white/5 my-1">
+            Spread: {snapshot.spread} {bookQuote}
+          </div>
+          {bids.slice(0, LADDER_LEVELS).map(level => renderLevel(level, 'bid'))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,11 +3,29 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { PoolService } from '@/lib/services/pool-service';
-import { SUPPORTED_COINS } from '@/config/iota.config';
+import { PoolHealthService, PoolHealth } from '@/lib/services/pool-health-service';
+import { getTokenByType } from '@/lib/services/token-registry';
+import { SUPPORTED_COINS, CONFIGURED_POOLS } from '@/config/iota.config';
+
+interface PoolHealthRow {
+  pair: string;
+  health: PoolHealth | null;
+  error?: string;
+}
+
+const STATUS_COLORS = {
+  healthy: 'text-green-400',
+  degraded: 'text-yellow-400',
+  unhealthy: 'text-red-400',
+};
+
+const formatFraction = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(2)}%`);
 
 export function PoolDebug() {
   const [result, setResult] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
+  const [healthRows, setHealthRows] = useState<PoolHealthRow[]>([]);
+  const [isCheckingHealth, setIsCheckingHealth] = useState(false);
 
   const testPoolDiscovery = async () => {
     setIsLoading(true);
@@ -47,6 +65,24 @@ export function PoolDebug() {
     }
   };
 
+  const checkPoolHealth = async () => {
+    setIsCheckingHealth(true);
+
+    const rows: PoolHealthRow[] = [];
+    for (const { coinTypeA, coinTypeB } of CONFIGURED_POOLS) {
+      const pair = `${getTokenByType(coinTypeA)?.symbol ?? coinTypeA}/${getTokenByType(coinTypeB)?.symbol ?? coinTypeB}`;
+      try {
+        const pool = await PoolService.findPool(coinTypeA, coinTypeB);
+        rows.push({ pair, health: pool ? await PoolHealthService.getPoolHealth(pool) : null });
+      } catch (error) {
+        rows.push({ pair, health: null, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    setHealthRows(rows);
+    setIsCheckingHealth(false);
+  };
+
   const clearCache = () => {
     PoolService.clearCache();
     setResult('Pool cache cleared. Try testing pool discovery again.');
@@ -64,10 +100,48 @@ export function PoolDebug() {
         <Button onClick={testPoolDiscovery} disabled={isLoading}>
           {isLoading ? 'Testing...' : 'Test Pool Discovery'}
         </Button>
+        <Button onClick={checkPoolHealth} disabled={isCheckingHealth}>
+          {isCheckingHealth ? 'Checking...' : 'Check Pool Health'}
+        </Button>
         <Button onClick={clearCache} variant="outline">
           Clear Cache
         </Button>
       </div>
+      {healthRows.length > 0 && (
+        <div className="mb-4 space-y-2">
+          {healthRows.map(({ pair, health, error }) => (
+            <div key={pair} className="bg-black p-3 rounded text-xs text-gray-300">
+              <div className="flex justify-between mb-1">
+                <span className="text-white font-medium">{pair}</span>
+                {health ? (
+                  <span className={STATUS_COLORS[health.status]}>{health.status}</span>
+                ) : (
+                  <span className="text-gray-500">{error ?? 'no pool'}</span>
+                )}
+              </div>
+              {health && (
+                <>
+                  <div className="grid grid-cols-2 gap-x-4">
+                    <span>On-chain healthy: {health.isHealthy ? 'yes' : 'no'}</span>
+                    <span>Spot price: {health.spotPrice.toPrecision(6)}</span>
+                    <span>Cached price: {health.cachedPrice.toPrecision(6)}</span>
+                    <span>Cached vs spot: {formatFraction(health.cachedPriceDivergence)}</span>
+                    <span>Market price: {health.externalPrice?.toPrecision(6) ?? '-'}</span>
+                    <span>Spot vs market: {formatFraction(health.externalPriceDivergence)}</span>
+                    <span>Reserve imbalance: {formatFraction(health.reserveImbalance)}</span>
+                    <span>Last update: {new Date(health.lastUpdateMs).toLocaleString()}</span>
+                  </div>
+                  {health.issues.map(issue => (
+                    <div key={issue.code} className={issue.severity === 'critical' ? 'text-red-400' : issue.severity === 'warning' ? 'text-yellow-400' : 'text-gray-500'}>
+                      {issue.severity}: {issue.message}
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
       {result && (
         <pre className="bg-black text-green-400 p-3 rounded text-xs overflow-auto max-h-96">
           {result}
@@ -3,55 +3,104 @@
 import { useState } from 'react';
 import { Plus, Info, Loader2 } from 'lucide-react';
 import { useCurrentAccount } from '@iota/dapp-kit';
+import { isValidIotaAddress } from '@iota/iota-sdk/utils';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useWalletBalance } from '@/hooks/use-wallet-balance';
-import { formatBalance, formatTokenAmount } from '@/lib/utils/format';
+import { formatBalance, parseTokenAmount } from '@/lib/utils/format';
+import { getPairedLiquidityAmount, sqrt } from '@/lib/utils/swap-math';
 import { SUPPORTED_COINS } from '@/config/iota.config';
 import { toast } from 'sonner';
 import { CoinIcon } from '@/components/coin-icon';
+import { TokenDropdown } from '@/components/token-dropdown';
 import { useAddLiquidity } from '@/hooks/use-add-liquidity';
 import { useRemoveLiquidityV2 } from '@/hooks/use-remove-liquidity-v2';
 import { usePoolInfo } from '@/hooks/use-pool-info';
 import { useLPTokens } from '@/hooks/use-lp-tokens';
+import { useLPTokenActions } from '@/hooks/use-lp-token-actions';
 import { PoolService } from '@/lib/services/pool-service';
+import { getPairKey } from '@/lib/services/pool-discovery';
+import { TokenInfo, isSameCoinType } from '@/lib/services/token-registry';
 import { useTokenPrices } from '@/hooks/use-token-price';
+import { usePoolStats } from '@/hooks/use-pool-stats';
+import { StatsWindow } from '@/lib/services/pool-stats-service';
 
-export function PoolInterface() {
+type Token = Pick<TokenInfo, 'type' | 'symbol' | 'name' | 'decimals' | 'iconUrl'>;
+
+interface PoolInterfaceProps {
+  initialTokenA?: Token;
+  initialTokenB?: Token;
+}
+
+const LP_DECIMALS = 9;
+const GAS_RESERVE = 200000000n; // Keep 0.2 IOTA for gas when depositing IOTA
+const REMOVE_PERCENTAGES = [25, 50, 75, 100];
+
+// Full precision amount for an input field, without trailing zeros
+const toInputAmount = (amount: bigint, decimals: number) =>
+  formatBalance(amount, decimals, decimals).replace(/(\.\d*?)0+$/, '$1').replace(/\.$/, '');
+
+export function PoolInterface({
+  initialTokenA = SUPPORTED_COINS.IOTA,
+  initialTokenB = SUPPORTED_COINS.vUSD,
+}: PoolInterfaceProps) {
   const currentAccount = useCurrentAccount();
   const isConnected = !!currentAccount;
-  
-  const [iotaAmount, setIotaAmount] = useState('');
-  const [stIotaAmount, setStIotaAmount] = useState('');
+
+  const [tokenA, setTokenA] = useState<Token>(initialTokenA);
+  const [tokenB, setTokenB] = useState<Token>(initialTokenB);
+  const [amountA, setAmountA] = useState('');
+  const [amountB, setAmountB] = useState('');
   const [activeTab, setActiveTab] = useState<'add' | 'remove'>('add');
-  const [selectedLPToken, setSelectedLPToken] = useState<string>('');
-  const [removePercentage, setRemovePercentage] = useState('100');
-  
+  const [removeAmount, setRemoveAmount] = useState(''); // LP tokens, drawn from every LP object of the pool
+  const [recipient, setRecipient] = useState(''); // Transfer the amount instead of removing it
+  const [zapSide, setZapSide] = useState<'A' | 'B' | null>(null); // Deposit only this token
+  const [receiveSide, setReceiveSide] = useState<'A' | 'B' | null>(null); // Withdraw to only this token
+
   // Get wallet balances
-  const { balance: iotaBalance, formatted: iotaFormatted } = useWalletBalance(SUPPORTED_COINS.IOTA.type);
-  const { balance: stIotaBalance, formatted: stIotaFormatted } = useWalletBalance(SUPPORTED_COINS.stIOTA.type);
-  
+  const { balance: balanceA } = useWalletBalance(tokenA.type);
+  const { balance: balanceB } = useWalletBalance(tokenB.type);
+
   // Get pool info
-  const { poolInfo, isLoading: isLoadingPool } = usePoolInfo(
-    SUPPORTED_COINS.IOTA.type,
-    SUPPORTED_COINS.stIOTA.type
-  );
-  
+  const { poolInfo, isLoading: isLoadingPool } = usePoolInfo(tokenA.type, tokenB.type);
+
+  // The pool stores its pair in type order, which may be the reverse of the picked order
+  const isReversed = !!poolInfo && !isSameCoinType(poolInfo.coinTypeA, tokenA.type);
+  const pick = (a: bigint | undefined, b: bigint | undefined): [bigint, bigint] =>
+    isReversed ? [b ?? 0n, a ?? 0n] : [a ?? 0n, b ?? 0n];
+  const [reserveA, reserveB] = pick(poolInfo?.reserveA, poolInfo?.reserveB);
+  const [feesA, feesB] = pick(poolInfo?.feesA, poolInfo?.feesB);
+  const hasReserves = reserveA > 0n && reserveB > 0n;
+
   // Add/Remove liquidity hooks
-  const { addLiquidity, isLoading: isAdding } = useAddLiquidity();
+  const { addLiquidity, zapIn, isLoading: isAdding } = useAddLiquidity();
   const { removeLiquidity, isRemoving } = useRemoveLiquidityV2();
-  
-  // Get LP tokens
-  const { lpTokens, isLoading: isLoadingLP } = useLPTokens();
-  
-  // Get token prices
-  const { prices: tokenPrices } = useTokenPrices(['IOTA', 'stIOTA']);
-  const iotaPrice = tokenPrices?.IOTA?.price || 0.28;
-  const stIotaPrice = tokenPrices?.stIOTA?.price || iotaPrice; // stIOTA typically tracks IOTA price
-  
+  const { mergeLPTokens, splitLPToken, isPending: isManagingLP } = useLPTokenActions();
+
+  // The wallet's LP tokens for this pair, as one position
+  const { positions, isLoading: isLoadingLP } = useLPTokens();
+  const pairKey = getPairKey(tokenA.type, tokenB.type);
+  const position = positions.find(p => getPairKey(p.coinTypeA, p.coinTypeB) === pairKey);
+  const positionAmount = position ? BigInt(position.amount) : 0n;
+  const removeLPAmount = removeAmount ? parseTokenAmount(removeAmount, LP_DECIMALS) : 0n;
+  const isRemoveAmountValid = removeLPAmount > 0n && removeLPAmount <= positionAmount;
+
+  // Get token prices, tokens without a price feed count as zero
+  const { prices: tokenPrices } = useTokenPrices([tokenA.symbol, tokenB.symbol]);
+  const priceA = tokenPrices?.[tokenA.symbol]?.price || 0;
+  const priceB = tokenPrices?.[tokenB.symbol]?.price || 0;
+  const toUsd = (a: bigint, b: bigint) =>
+    (Number(a) / 10 ** tokenA.decimals * priceA) + (Number(b) / 10 ** tokenB.decimals * priceB);
+
+  // Trailing volume and yield; the stats are in the pool's order, so they are picked like the reserves
+  const { windows: stats } = usePoolStats(poolInfo);
+  const windowVolumeUsd = (window: StatsWindow) => {
+    const [volumeA, volumeB] = pick(stats[window]?.volumeA, stats[window]?.volumeB);
+    return toUsd(volumeA, volumeB);
+  };
+
   // Refresh pool info after adding liquidity
   const refreshPoolInfo = () => {
     // Clear pool cache and dispatch refresh events
@@ -61,87 +110,100 @@ export function PoolInterface() {
       window.dispatchEvent(new Event('pool-cache-refresh'));
     }, 1000);
   };
-  
+
+  // Swap and LP for a single-token deposit, null until there is a quotable amount
+  const getZapQuote = () => {
+    if (!zapSide || !poolInfo || !hasReserves) return null;
+
+    const [token, amount] = zapSide === 'A' ? [tokenA, amountA] : [tokenB, amountB];
+    const amountIn = amount ? parseTokenAmount(amount, token.decimals) : 0n;
+    if (amountIn === 0n) return null;
+
+    try {
+      return PoolService.calculateZapInQuote(poolInfo, token.type, amountIn);
+    } catch {
+      return null;
+    }
+  };
+  const zapQuote = getZapQuote();
+
+  // LP minted for the entered amounts, as add_liquidity computes it
+  const calculateLPAmount = (): bigint => {
+    if (zapSide) return zapQuote?.lpAmount ?? 0n;
+    if (!amountA || !amountB) return 0n;
+
+    const amountABig = parseTokenAmount(amountA, tokenA.decimals);
+    const amountBBig = parseTokenAmount(amountB, tokenB.decimals);
+
+    if (!poolInfo || poolInfo.lpSupply === 0n || !hasReserves) {
+      // First liquidity provider - geometric mean: sqrt(amount_a * amount_b), rounded down as simple_dex does
+      return sqrt(amountABig * amountBBig);
+    }
+
+    const lpFromA = (amountABig * poolInfo.lpSupply) / reserveA;
+    const lpFromB = (amountBBig * poolInfo.lpSupply) / reserveB;
+    return lpFromA < lpFromB ? lpFromA : lpFromB;
+  };
+
   // Calculate pool share
   const calculatePoolShare = () => {
-    if (!poolInfo || !iotaAmount || !stIotaAmount) return '0.00';
-    
-    const iotaAmountBig = BigInt(Math.floor(parseFloat(iotaAmount || '0') * 1e9));
-    const stIotaAmountBig = BigInt(Math.floor(parseFloat(stIotaAmount || '0') * 1e9));
-    
-    if (poolInfo.lpSupply === BigInt(0)) {
-      // First liquidity provider gets 100%
-      return '100.00';
-    }
-    
-    // Calculate share based on IOTA amount
-    const totalValue = poolInfo.reserveA + iotaAmountBig;
-    const share = (iotaAmountBig * BigInt(10000)) / totalValue;
+    const lpAmount = calculateLPAmount();
+    if (lpAmount === 0n) return '0.00';
+
+    const totalSupply = (poolInfo?.lpSupply ?? 0n) + lpAmount;
+    const share = (lpAmount * 10000n) / totalSupply;
     return (Number(share) / 100).toFixed(2);
   };
-  
-  // Calculate LP tokens
-  const calculateLPTokens = () => {
-    if (!poolInfo || !iotaAmount || !stIotaAmount) return '0';
-    
-    const iotaAmountBig = BigInt(Math.floor(parseFloat(iotaAmount || '0') * 1e9));
-    const stIotaAmountBig = BigInt(Math.floor(parseFloat(stIotaAmount || '0') * 1e9));
-    
-    if (poolInfo.lpSupply === BigInt(0)) {
-      // First liquidity provider - use geometric mean: sqrt(amount_a * amount_b)
-      const product = iotaAmountBig * stIotaAmountBig;
-      // Simple sqrt approximation for bigint
-      const sqrt = (n: bigint) => {
-        if (n === 0n) return 0n;
-        let x = n;
-        let y = (x + 1n) / 2n;
-        while (y < x) {
-          x = y;
-          y = (x + n / x) / 2n;
-        }
-        return x;
-      };
-      return formatBalance(sqrt(product).toString(), 9, 4);
-    }
-    
-    // For existing pool, calculate proportionally
-    const lpAmount = (iotaAmountBig * poolInfo.lpSupply) / poolInfo.reserveA;
-    return formatBalance(lpAmount.toString(), 9, 4);
+
+  const handleSelectTokenA = (token: Token) => {
+    setTokenA(token);
+    setAmountA('');
+    setAmountB('');
+    setRemoveAmount('');
+    setZapSide(null);
+    setReceiveSide(null);
   };
-  
+
+  const handleSelectTokenB = (token: Token) => {
+    setTokenB(token);
+    setAmountA('');
+    setAmountB('');
+    setRemoveAmount('');
+    setZapSide(null);
+    setReceiveSide(null);
+  };
+
+  const handleSelectZapSide = (side: 'A' | 'B' | null) => {
+    setZapSide(side);
+    setAmountA('');
+    setAmountB('');
+  };
+
   const handleAddLiquidity = async () => {
-    if (!iotaAmount || !stIotaAmount) {
-      toast.error('Please enter both amounts');
+    const zapAmount = zapSide === 'A' ? amountA : amountB;
+    if (zapSide ? !zapAmount : !amountA || !amountB) {
+      toast.error(zapSide ? 'Please enter an amount' : 'Please enter both amounts');
       return;
     }
-    
+
     if (!currentAccount) {
       toast.error('Please connect your wallet');
       return;
     }
-    
+
     try {
-      const result = await addLiquidity({
-        tokenA: {
-          type: SUPPORTED_COINS.IOTA.type,
-          symbol: 'IOTA',
-          decimals: 9,
-        },
-        tokenB: {
-          type: SUPPORTED_COINS.stIOTA.type,
-          symbol: 'stIOTA',
-          decimals: 9,
-        },
-        amountA: iotaAmount,
-        amountB: stIotaAmount,
-      });
-      
+      const result = zapSide
+        ? await zapIn({
+            tokenIn: zapSide === 'A' ? tokenA : tokenB,
+            tokenOther: zapSide === 'A' ? tokenB : tokenA,
+            amount: zapAmount,
+          })
+        : await addLiquidity({ tokenA, tokenB, amountA, amountB });
+
       if (result.success) {
-        setIotaAmount('');
-        setStIotaAmount('');
-        
-        // Transaction successful, clear cache to refresh pool data
-        
+        setAmountA('');
+        setAmountB('');
+
         // Refresh pool cache to ensure swap can find the pool
         setTimeout(() => {
           PoolService.clearCache();
@@ -152,109 +214,116 @@ export function PoolInterface() {
       console.error('Add liquidity error:', error);
     }
   };
-  
+
   const handleRemoveLiquidity = async () => {
-    if (!selectedLPToken) {
-      toast.error('Please select an LP token');
+    if (!position || !isRemoveAmountValid) {
+      toast.error('Please enter an LP amount up to your position');
       return;
     }
-    
-    const lpToken = lpTokens.find(t => t.id === selectedLPToken);
-    if (!lpToken) return;
-    
-    // The contract burns the entire LP token, so we use the full amount
-    const lpAmount = lpToken.amount;
-    
+
+    // The LP token's type arguments are the pool's order
     const result = await removeLiquidity({
-      lpTokenId: selectedLPToken,
-      coinTypeA: SUPPORTED_COINS.IOTA.type,
-      coinTypeB: SUPPORTED_COINS.stIOTA.type,
-      amount: lpAmount,
+      lpTokens: position.tokens,
+      coinTypeA: position.coinTypeA,
+      coinTypeB: position.coinTypeB,
+      amount: removeLPAmount.toString(),
+      ...(receiveSide && { outputCoinType: receiveSide === 'A' ? tokenA.type : tokenB.type }),
     });
-    
+
     if (result.success) {
-      setSelectedLPToken('');
-      setRemovePercentage('100');
+      setRemoveAmount('');
       // Refresh pool info and LP tokens
       setTimeout(refreshPoolInfo, 2000);
     }
   };
-  
-  const handleIotaChange = (value: string) => {
-    setIotaAmount(value);
-    
-    // Auto-calculate proportional amount for stIOTA
-    if (value) {
-      // For IOTA/stIOTA pair, always use 1:1 ratio as they have equivalent value
-      // This ensures fair pricing regardless of any existing imbalanced pools
-      setStIotaAmount(value);
-    } else {
-      setStIotaAmount('');
+
+  const handleTransferLP = async () => {
+    if (!position || !isRemoveAmountValid) {
+      toast.error('Please enter an LP amount up to your position');
+      return;
     }
-  };
-  
-  const handleStIotaChange = (value: string) => {
-    setStIotaAmount(value);
-    
-    // Auto-calculate proportional amount for IOTA
-    if (value) {
-      // For IOTA/stIOTA pair, always use 1:1 ratio as they have equivalent value
-      // This ensures fair pricing regardless of any existing imbalanced pools
-      setIotaAmount(value);
-    } else {
-      setIotaAmount('');
+    if (!isValidIotaAddress(recipient)) {
+      toast.error('Please enter a valid recipient address');
+      return;
     }
-  };
-  
-  const handleMaxIota = () => {
-    if (iotaFormatted) {
-      const balance = parseFloat(iotaFormatted);
-      const gasReserve = 0.2; // Reserve 0.2 IOTA for gas to be safe
-      const maxAmount = Math.max(0, balance - gasReserve);
-      if (maxAmount > 0) {
-        handleIotaChange(maxAmount.toFixed(6));
-      } else {
-        toast.error('Insufficient IOTA balance (need at least 0.2 IOTA for gas reserves)');
-      }
+
+    const result = await splitLPToken(position, removeLPAmount, recipient);
+    if (result.success) {
+      setRemoveAmount('');
+      setRecipient('');
     }
   };
-  
-  const handleMaxStIota = () => {
-    if (stIotaFormatted) {
-      handleStIotaChange(stIotaFormatted);
+
+  const handleRemovePercentage = (percentage: number) => {
+    setRemoveAmount(toInputAmount((positionAmount * BigInt(percentage)) / 100n, LP_DECIMALS));
+  };
+
+  // Typing one side fills the other at the current reserve ratio; a new pool takes both as typed
+  const handleAmountChange = (side: 'A' | 'B', value: string) => {
+    const [setAmount, setPairedAmount] = side === 'A' ? [setAmountA, setAmountB] : [setAmountB, setAmountA];
+    const [token, pairedToken] = side === 'A' ? [tokenA, tokenB] : [tokenB, tokenA];
+    const [reserve, pairedReserve] = side === 'A' ? [reserveA, reserveB] : [reserveB, reserveA];
+
+    setAmount(value);
+    if (!hasReserves || zapSide) return;
+
+    const amount = value ? parseTokenAmount(value, token.decimals) : 0n;
+    setPairedAmount(
+      amount > 0n
+        ? toInputAmount(getPairedLiquidityAmount(amount, reserve, pairedReserve), pairedToken.decimals)
+        : ''
+    );
+  };
+
+  const handleMax = (side: 'A' | 'B') => {
+    const token = side === 'A' ? tokenA : tokenB;
+    const balance = BigInt(side === 'A' ? balanceA : balanceB);
+    const isIota = isSameCoinType(token.type, SUPPORTED_COINS.IOTA.type);
+    const maxAmount = isIota ? balance - GAS_RESERVE : balance;
+
+    if (maxAmount > 0n) {
+      handleAmountChange(side, toInputAmount(maxAmount, token.decimals));
+    } else if (isIota) {
+      toast.error('Insufficient IOTA balance (need at least 0.2 IOTA for gas reserves)');
     }
   };
-  
+
   // Calculate total LP value in USD
-  const totalLPValue = lpTokens.length > 0 && poolInfo && poolInfo.lpSupply > 0
-    ? lpTokens.reduce((total, token) => {
-        const share = BigInt(token.amount) * BigInt(10000) / poolInfo.lpSupply;
-        const iotaAmount = (poolInfo.reserveA * share) / BigInt(10000);
-        const stIotaAmount = (poolInfo.reserveB * share) / BigInt(10000);
-        const valueInUsd = (Number(iotaAmount) / 1e9 * iotaPrice) + (Number(stIotaAmount) / 1e9 * stIotaPrice);
-        return total + valueInUsd;
-      }, 0)
+  const totalLPValue = positionAmount > 0n && poolInfo && poolInfo.lpSupply > 0
+    ? toUsd((reserveA * positionAmount) / poolInfo.lpSupply, (reserveB * positionAmount) / poolInfo.lpSupply)
     : 0;
-  
+
+  const inputs = [
+    { side: 'A' as const, token: tokenA, other: tokenB, amount: amountA, balance: balanceA, onSelect: handleSelectTokenA },
+    { side: 'B' as const, token: tokenB, other: tokenA, amount: amountB, balance: balanceB, onSelect: handleSelectTokenB },
+  ].filter(input => !zapSide || input.side === zapSide);
+
+  // Single-token modes only apply to a pool with liquidity
+  const sideOptions = [
+    { side: null, label: 'Both tokens' },
+    { side: 'A' as const, label: `Only ${tokenA.symbol}` },
+    { side: 'B' as const, label: `Only ${tokenB.symbol}` },
+  ];
+
   return (
     <div className="space-y-4">
       {/* Pool Stats */}
       <Card className="bg-black/40 border-white/10">
         <CardHeader className="pb-2 pt-4">
-          <CardTitle className="text-xl font-bold text-white">IOTA / stIOTA Pool</CardTitle>
+          <CardTitle className="text-xl font-bold text-white">{tokenA.symbol} / {tokenB.symbol} Pool</CardTitle>
           {!poolInfo && !isLoadingPool && (
             <p className="text-sm text-yellow-400 mt-1">No pool exists yet. Be the first to create one!</p>
           )}
         </CardHeader>
         <CardContent className="py-2 px-4">
           {/* Pool Ratio and Spot Price */}
-          {poolInfo && poolInfo.reserveA > 0 && poolInfo.reserveB > 0 && (
+          {hasReserves && poolInfo && (
             <div className="mb-4 p-3 bg-black/20 rounded-lg">
               <div className="grid grid-cols-2 gap-4">
                 <div>
                   <p className="text-xs text-gray-500 mb-1">Pool Ratio</p>
                   <p className="text-sm text-white font-medium">
-                    1 IOTA = {formatBalance((poolInfo.reserveB * BigInt(1e9) / poolInfo.reserveA).toString(), 9, 6)} stIOTA
+                    1 {tokenA.symbol} = {formatBalance((reserveB * 10n ** BigInt(tokenA.decimals) / reserveA).toString(), tokenB.decimals, 6)} {tokenB.symbol}
                   </p>
                 </div>
                 <div>
@@ -266,17 +335,15 @@ export function PoolInterface() {
               </div>
             </div>
           )}
-          
+
           <div className="grid grid-cols-2 gap-2">
             <div className="space-y-0.5">
               <p className="text-sm text-gray-400">Total Value Locked</p>
               <p className="text-2xl font-bold text-white font-mono">
                 {isLoadingPool ? (
                   <span className="animate-pulse">Loading...</span>
-                ) : poolInfo && (poolInfo.reserveA > 0 || poolInfo.reserveB > 0) ? (
-                  `$${((Number(poolInfo.reserveA) / 1e9 * iotaPrice) + (Number(poolInfo.reserveB) / 1e9 * stIotaPrice)).toFixed(2)}`
                 ) : (
-                  '$0.00'
+                  `$${toUsd(reserveA, reserveB).toFixed(2)}`
                 )}
               </p>
             </div>
@@ -285,72 +352,42 @@ export function PoolInterface() {
               <p className="text-2xl font-bold text-white font-mono">
                 {isLoadingPool ? (
                   <span className="animate-pulse">Loading...</span>
-                ) : poolInfo && (poolInfo.totalVolumeA || poolInfo.totalVolumeB) ? (
-                  `$${((Number(poolInfo.totalVolumeA || 0) / 1e9 * iotaPrice) + (Number(poolInfo.totalVolumeB || 0) / 1e9 * stIotaPrice)).toFixed(2)}`
                 ) : (
-                  '$0.00'
+                  `$${windowVolumeUsd('24h').toFixed(2)}`
                 )}
               </p>
+              <p className="text-xs text-gray-500 font-mono">
+                7d ${windowVolumeUsd('7d').toFixed(2)} · 30d ${windowVolumeUsd('30d').toFixed(2)}
+              </p>
             </div>
             <div className="space-y-0.5">
               <p className="text-sm text-gray-400">Pool Reserves</p>
               <div className="space-y-0.5">
-                <div className="flex items-center gap-2">
-                  <CoinIcon symbol="IOTA" size={16} />
-                  <span className="text-white">
-                    {isLoadingPool ? (
-                      <span className="animate-pulse">Loading...</span>
-                    ) : poolInfo && poolInfo.reserveA > 0 ? (
-                      <><span className="font-mono">{formatBalance(poolInfo.reserveA.toString(), 9, 2)}</span> IOTA</>
-                    ) : (
-                      <span className="font-mono">0.00 IOTA</span>
-                    )}
-                  </span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <CoinIcon symbol="stIOTA" size={16} />
-                  <span className="text-white">
-                    {isLoadingPool ? (
-                      <span className="animate-pulse">Loading...</span>
-                    ) : poolInfo && poolInfo.reserveB > 0 ? (
-                      <><span className="font-mono">{formatBalance(poolInfo.reserveB.toString(), 9, 2)}</span> stIOTA</>
-                    ) : (
-                      <span className="font-mono">0.00 stIOTA</span>
-                    )}
-                  </span>
-                </div>
+                {[
+                  { token: tokenA, reserve: reserveA },
+                  { token: tokenB, reserve: reserveB },
+                ].map(({ token, reserve }) => (
+                  <div key={token.type} className="flex items-center gap-2">
+                    <CoinIcon symbol={token.symbol} iconUrl={token.iconUrl ?? null} size={16} />
+                    <span className="text-white">
+                      {isLoadingPool ? (
+                        <span className="animate-pulse">Loading...</span>
+                      ) : (
+                        <><span className="font-mono">{formatBalance(reserve.toString(), token.decimals, 2)}</span> {token.symbol}</>
+                      )}
+                    </span>
+                  </div>
+                ))}
               </div>
             </div>
             <div className="space-y-0.5">
-              <p className="text-sm text-gray-400">APR</p>
+              <p className="text-sm text-gray-400">Fee APR (7d)</p>
               <p className="text-2xl font-bold text-green-400 font-mono">
-                {(() => {
-                  if (!poolInfo || poolInfo.reserveA === BigInt(0) || poolInfo.reserveB === BigInt(0)) return '0.00%';
-                  
-                  // Calculate TVL in USD
-                  const tvlUSD = (Number(poolInfo.reserveA) / 1e9 * iotaPrice) + (Number(poolInfo.reserveB) / 1e9 * stIotaPrice);
-                  
-                  if (tvlUSD === 0) return '0.00%';
-                  
-                  // Calculate total fees collected in USD
-                  const totalFeesUSD = (Number(poolInfo.feesA || 0) / 1e9 * iotaPrice) + (Number(poolInfo.feesB || 0) / 1e9 * stIotaPrice);
-                  
-                  // If pool has been active and has fees, calculate APR based on actual performance
-                  if (totalFeesUSD > 0) {
-                    // Assume pool has been active for at least 1 day to extrapolate
-                    // This is a simple estimation - in production you'd track pool creation time
-                    const estimatedDaysActive = Math.max(1, totalFeesUSD / (tvlUSD * 0.0001)); // Rough estimate
-                    const dailyReturn = totalFeesUSD / (tvlUSD * estimatedDaysActive);
-                    const annualReturn = dailyReturn * 365;
-                    const apr = annualReturn * 100;
-                    
-                    // Cap APR at reasonable levels
-                    return apr > 0 && apr < 1000 ? `${apr.toFixed(2)}%` : '0.00%';
-                  }
-                  
-                  // No fees collected yet
-                  return '0.00%';
-                })()}
+                {stats['7d']?.feeAprPercent != null ? `${stats['7d'].feeAprPercent.toFixed(2)}%` : '-'}
+              </p>
+              <p className="text-xs text-gray-500 font-mono">
+                APY {stats['7d']?.apyPercent != null ? `${stats['7d'].apyPercent.toFixed(2)}%` : '-'}
+                {' · '}24h APR {stats['24h']?.feeAprPercent != null ? `${stats['24h'].feeAprPercent.toFixed(2)}%` : '-'}
               </p>
             </div>
             <div className="space-y-0.5">
@@ -360,30 +397,32 @@ export function PoolInterface() {
             <div className="space-y-0.5">
               <p className="text-sm text-gray-400">Accumulated Fees</p>
               <div className="space-y-0.5">
-                <div className="flex items-center gap-2">
-                  <CoinIcon symbol="IOTA" size={16} />
-                  <span className="text-white font-mono">
-                    {poolInfo && poolInfo.feesA ? formatBalance(poolInfo.feesA.toString(), 9, 4) : '0.0000'} IOTA
-                  </span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <CoinIcon symbol="stIOTA" size={16} />
-                  <span className="text-white font-mono">
-                    {poolInfo && poolInfo.feesB ? formatBalance(poolInfo.feesB.toString(), 9, 4) : '0.0000'} stIOTA
-                  </span>
-                </div>
+                {[
+                  { token: tokenA, fees: feesA },
+                  { token: tokenB, fees: feesB },
+                ].map(({ token, fees }) => (
+                  <div key={token.type} className="flex items-center gap-2">
+                    <CoinIcon symbol={token.symbol} iconUrl={token.iconUrl ?? null} size={16} />
+                    <span className="text-white font-mono">
+                      {formatBalance(fees.toString(), token.decimals, 4)} {token.symbol}
+                    </span>
+                  </div>
+                ))}
                 <div className="pt-1 text-xs text-gray-400">
-                  Total: ${poolInfo && (poolInfo.feesA || poolInfo.feesB) ? 
-                    ((Number(poolInfo.feesA || 0) / 1e9 * iotaPrice) + (Number(poolInfo.feesB || 0) / 1e9 * stIotaPrice)).toFixed(2) : 
-                    '0.00'
-                  } USD
+                  Total: ${toUsd(feesA, feesB).toFixed(2)} USD
                 </div>
               </div>
             </div>
+            {totalLPValue > 0 && (
+              <div className="space-y-0.5">
+                <p className="text-sm text-gray-400">Your Liquidity</p>
+                <p className="text-2xl font-bold text-white font-mono">${totalLPValue.toFixed(2)}</p>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
-      
+
       {/* Add/Remove Liquidity */}
       <Card className="bg-black/40 border-white/10">
         <CardContent className="p-6">
@@ -396,127 +435,124 @@ export function PoolInterface() {
                 Remove Liquidity
               </TabsTrigger>
             </TabsList>
-            
+
             <TabsContent value="add" className="space-y-4 mt-6">
               {/* Pool Status */}
-              {!poolInfo && (
+              {!poolInfo && !isLoadingPool && (
                 <div className="bg-yellow-500/10 border border-yellow-500/20 rounded-lg p-4 mb-4">
                   <p className="text-yellow-400 text-sm">
-                    No IOTA/stIOTA pool exists yet. You'll be creating the first pool with 0.3% swap fee.
+                    No {tokenA.symbol}/{tokenB.symbol} pool exists yet. Your deposit creates it, and the amounts you enter set the starting price.
                   </p>
                 </div>
               )}
-              
+
               {/* Pool Ratio Info */}
-              <div className="bg-black/20 border border-white/10 rounded-lg p-3 mb-4">
-                <div className="flex items-center justify-between text-sm">
-                  <span className="text-gray-400">Current Pool Ratio</span>
-                  <span className="text-white font-medium">
-                    1 IOTA : 1 stIOTA
-                  </span>
+              {hasReserves && (
+                <div className="bg-black/20 border border-white/10 rounded-lg p-3 mb-4">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-400">Current Pool Ratio</span>
+                    <span className="text-white font-medium">
+                      {formatBalance(reserveA.toString(), tokenA.decimals, 2)} {tokenA.symbol} : {formatBalance(reserveB.toString(), tokenB.decimals, 2)} {tokenB.symbol}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {zapSide
+                      ? 'Part of your deposit is swapped to match this ratio; leftover dust is returned'
+                      : 'The paired amount is filled in at this ratio'}
+                  </div>
                 </div>
-                <div className="text-xs text-gray-500 mt-1">
-                  1:1 ratio for equivalent value tokens
+              )}
+
+              {/* Deposit Mode */}
+              {hasReserves && (
+                <div className="grid grid-cols-3 gap-2">
+                  {sideOptions.map(({ side, label }) => (
+                    <Button
+                      key={label}
+                      variant="ghost"
+                      size="sm"
+                      className={zapSide === side ? 'bg-cyan-500/20 text-cyan-400' : 'bg-white/5 text-gray-400'}
+                      onClick={() => handleSelectZapSide(side)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
                 </div>
-              </div>
-              
-              {/* IOTA Input */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <label className="text-sm text-gray-400">IOTA Amount</label>
-                  {isConnected && (
-                    <div className="flex items-center gap-2 text-gray-400 text-xs">
-                      <span>Balance: <span className="font-mono">{iotaFormatted || '0'}</span></span>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="text-xs h-auto p-0 text-cyan-400 hover:text-cyan-300"
-                        onClick={handleMaxIota}
-                      >
-                        MAX
-                      </Button>
+              )}
+
+              {inputs.map(({ side, token, other, amount, balance, onSelect }, index) => (
+                <div key={side} className="space-y-4">
+                  {index > 0 && (
+                    <div className="flex justify-center">
+                      <Plus className="w-5 h-5 text-gray-400" />
                     </div>
                   )}
-                </div>
-                <div className="relative">
-                  <Input
-                    placeholder="0.0"
-                    value={iotaAmount}
-                    onChange={(e) => handleIotaChange(e.target.value)}
-                    className="bg-white/5 border-white/10 text-white pr-20 font-mono"
-                    type="number"
-                    min="0"
-                    step="any"
-                  />
-                  <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center gap-2">
-                    <CoinIcon symbol="IOTA" size={20} />
-                    <span className="text-white font-medium">IOTA</span>
-                  </div>
-                </div>
-              </div>
-              
-              <div className="flex justify-center">
-                <Plus className="w-5 h-5 text-gray-400" />
-              </div>
-              
-              {/* stIOTA Input */}
-              <div className="space-y-2">
-                <div className="flex items-center justify-between">
-                  <label className="text-sm text-gray-400">stIOTA Amount</label>
-                  {isConnected && (
-                    <div className="flex items-center gap-2 text-gray-400 text-xs">
-                      <span>Balance: <span className="font-mono">{stIotaFormatted || '0'}</span></span>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        className="text-xs h-auto p-0 text-cyan-400 hover:text-cyan-300"
-                        onClick={handleMaxStIota}
-                      >
-                        MAX
-                      </Button>
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm text-gray-400">{token.symbol} Amount</label>
+                      {isConnected && (
+                        <div className="flex items-center gap-2 text-gray-400 text-xs">
+                          <span>Balance: <span className="font-mono">{formatBalance(balance, token.decimals, 4)}</span></span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-xs h-auto p-0 text-cyan-400 hover:text-cyan-300"
+                            onClick={() => handleMax(side)}
+                          >
+                            MAX
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Input
+                        placeholder="0.0"
+                        value={amount}
+                        onChange={(e) => handleAmountChange(side, e.target.value)}
+                        className="flex-1 bg-white/5 border-white/10 text-white font-mono"
+                        type="number"
+                        min="0"
+                        step="any"
+                      />
+                      <TokenDropdown selectedToken={token} onSelect={onSelect} excludeToken={other} />
                     </div>
-                  )}
-                </div>
-                <div className="relative">
-                  <Input
-                    placeholder="0.0"
-                    value={stIotaAmount}
-                    onChange={(e) => handleStIotaChange(e.target.value)}
-                    className="bg-white/5 border-white/10 text-white pr-20 font-mono"
-                    type="number"
-                    min="0"
-                    step="any"
-                  />
-                  <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center gap-2">
-                    <CoinIcon symbol="stIOTA" size={20} />
-                    <span className="text-white font-medium">stIOTA</span>
                   </div>
                 </div>
-              </div>
-              
+              ))}
+
               {/* Pool Share Info */}
               <div className="bg-white/5 rounded-xl p-4 space-y-2">
-                {!poolInfo && iotaAmount && stIotaAmount && (
+                {!poolInfo && amountA && amountB && (
                   <div className="flex items-center gap-2 text-sm text-cyan-400 mb-2">
                     <Info className="w-4 h-4" />
                     <span>You will be the first liquidity provider!</span>
                   </div>
                 )}
+                {zapSide && zapQuote && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-400">Swapped First</span>
+                    <span className="text-white font-mono">
+                      {zapSide === 'A'
+                        ? `${formatBalance(zapQuote.swapAmount, tokenA.decimals, 4)} ${tokenA.symbol} → ${formatBalance(zapQuote.swapOutput, tokenB.decimals, 4)} ${tokenB.symbol}`
+                        : `${formatBalance(zapQuote.swapAmount, tokenB.decimals, 4)} ${tokenB.symbol} → ${formatBalance(zapQuote.swapOutput, tokenA.decimals, 4)} ${tokenA.symbol}`}
+                    </span>
+                  </div>
+                )}
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-gray-400">Pool Share</span>
                   <span className="text-white font-mono">{calculatePoolShare()}%</span>
                 </div>
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-gray-400">LP Tokens</span>
-                  <span className="text-white font-mono">{calculateLPTokens()}</span>
+                  <span className="text-white font-mono">{formatBalance(calculateLPAmount().toString(), LP_DECIMALS, 4)}</span>
                 </div>
               </div>
-              
+
               {/* Add Button */}
               <Button
                 className="w-full bg-gradient-to-r from-cyan-500 to-blue-500 hover:from-cyan-600 hover:to-blue-600 text-white font-semibold py-6 text-lg"
                 onClick={handleAddLiquidity}
-                disabled={!isConnected || isAdding || !iotaAmount || !stIotaAmount}
+                disabled={!isConnected || isAdding || isLoadingPool || (zapSide ? !zapQuote : !amountA || !amountB)}
               >
                 {isAdding ? (
                   <>
@@ -527,14 +563,14 @@ export function PoolInterface() {
                   poolInfo ? 'Add Liquidity' : 'Create Pool'
                 )}
               </Button>
-              
+
               {!isConnected && (
                 <p className="text-center text-sm text-gray-400">
                   Connect your wallet to add liquidity
                 </p>
               )}
             </TabsContent>
-            
+
             <TabsContent value="remove" className="space-y-4 mt-6">
               {!isConnected ? (
                 <div className="text-center py-8">
@@ -545,76 +581,136 @@ export function PoolInterface() {
                   <Loader2 className="w-6 h-6 animate-spin mx-auto mb-2 text-cyan-400" />
                   <p className="text-gray-400">Loading your LP positions...</p>
                 </div>
-              ) : lpTokens.length === 0 ? (
+              ) : !position ? (
                 <div className="text-center py-8">
                   <p className="text-gray-400">You don't have any LP tokens for this pool</p>
                   <p className="text-sm text-gray-500 mt-2">Add liquidity first to receive LP tokens</p>
                 </div>
               ) : (
                 <>
-                  {/* LP Token Selection */}
+                  {/* Position */}
+                  <div className="bg-white/5 rounded-xl p-4 space-y-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-400">Your Position</span>
+                      <span className="text-white font-mono">
+                        {formatBalance(position.amount, LP_DECIMALS, 4)} {tokenA.symbol}/{tokenB.symbol} LP
+                      </span>
+                    </div>
+                    {position.tokens.length > 1 && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-gray-500">Held as {position.tokens.length} LP tokens</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 text-xs text-cyan-400 hover:text-cyan-300"
+                          onClick={() => mergeLPTokens(position)}
+                          disabled={isManagingLP}
+                        >
+                          {isManagingLP ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Merge into one'}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  {/* LP Amount */}
                   <div className="space-y-2">
-                    <label className="text-sm text-gray-400">Select LP Token</label>
-                    <select
-                      value={selectedLPToken}
-                      onChange={(e) => setSelectedLPToken(e.target.value)}
-                      className="w-full bg-white/5 border border-white/10 text-white rounded-lg p-3"
-                    >
-                      <option value="" className="bg-black">Select an LP token</option>
-                      {lpTokens.map((token) => (
-                        <option key={token.id} value={token.id} className="bg-black">
-                          LP Token - {formatBalance(token.amount, 9, 4)} LP
-                        </option>
+                    <label className="text-sm text-gray-400">Amount</label>
+                    <Input
+                      type="number"
+                      placeholder="0.0"
+                      value={removeAmount}
+                      onChange={(e) => setRemoveAmount(e.target.value)}
+                      className="bg-white/5 border-white/10 text-white font-mono"
+                    />
+                    <div className="grid grid-cols-4 gap-2">
+                      {REMOVE_PERCENTAGES.map(percentage => (
+                        <Button
+                          key={percentage}
+                          variant="ghost"
+                          size="sm"
+                          className="bg-white/5 text-gray-400 hover:text-cyan-400"
+                          onClick={() => handleRemovePercentage(percentage)}
+                        >
+                          {percentage === 100 ? 'MAX' : `${percentage}%`}
+                        </Button>
                       ))}
-                    </select>
+                    </div>
+                    {removeLPAmount > positionAmount && (
+                      <p className="text-xs text-red-400">Amount exceeds your position</p>
+                    )}
+                  </div>
+
+                  {/* Withdrawal Mode */}
+                  <div className="grid grid-cols-3 gap-2">
+                    {sideOptions.map(({ side, label }) => (
+                      <Button
+                        key={label}
+                        variant="ghost"
+                        size="sm"
+                        className={receiveSide === side ? 'bg-cyan-500/20 text-cyan-400' : 'bg-white/5 text-gray-400'}
+                        onClick={() => setReceiveSide(side)}
+                      >
+                        {label}
+                      </Button>
+                    ))}
                   </div>
-                  
-                  {selectedLPToken && (
+
+                  {isRemoveAmountValid && (
                     <>
                       {/* Expected Output */}
                       <div className="bg-white/5 rounded-xl p-4 space-y-2">
-                        <h4 className="text-sm text-gray-400 mb-3">You will receive (entire LP token will be removed)</h4>
+                        <h4 className="text-sm text-gray-400 mb-3">You will receive</h4>
                         {(() => {
-                          const lpToken = lpTokens.find(t => t.id === selectedLPToken);
-                          if (!lpToken || !poolInfo || poolInfo.lpSupply === BigInt(0)) return null;
-                          
-                          const lpAmount = BigInt(lpToken.amount);
-                          const totalLpSupply = poolInfo.lpSupply;
-                          const expectedIota = (lpAmount * poolInfo.reserveA) / totalLpSupply;
-                          const expectedStIota = (lpAmount * poolInfo.reserveB) / totalLpSupply;
-                          
-                          return (
-                            <>
+                          if (!poolInfo || poolInfo.lpSupply === 0n) return null;
+
+                          const lpAmount = removeLPAmount;
+
+                          if (receiveSide) {
+                            const token = receiveSide === 'A' ? tokenA : tokenB;
+                            let expected: bigint;
+                            try {
+                              expected = PoolService.calculateZapOutQuote(poolInfo, token.type, lpAmount).amountOut;
+                            } catch (error) {
+                              return <p className="text-sm text-yellow-400">{error instanceof Error ? error.message : 'Cannot withdraw to a single token'}</p>;
+                            }
+
+                            return (
                               <div className="flex items-center justify-between">
                                 <div className="flex items-center gap-2">
-                                  <CoinIcon symbol="IOTA" size={20} />
-                                  <span className="text-white">IOTA</span>
+                                  <CoinIcon symbol={token.symbol} iconUrl={token.iconUrl ?? null} size={20} />
+                                  <span className="text-white">{token.symbol}</span>
                                 </div>
                                 <span className="text-white font-mono">
-                                  {formatBalance(expectedIota.toString(), 9, 4)}
+                                  ~{formatBalance(expected.toString(), token.decimals, 4)}
                                 </span>
                               </div>
-                              <div className="flex items-center justify-between">
-                                <div className="flex items-center gap-2">
-                                  <CoinIcon symbol="stIOTA" size={20} />
-                                  <span className="text-white">stIOTA</span>
-                                </div>
-                                <span className="text-white font-mono">
-                                  {formatBalance(expectedStIota.toString(), 9, 4)}
-                                </span>
+                            );
+                          }
+
+                          return [
+                            { token: tokenA, expected: (lpAmount * reserveA) / poolInfo.lpSupply },
+                            { token: tokenB, expected: (lpAmount * reserveB) / poolInfo.lpSupply },
+                          ].map(({ token, expected }) => (
+                            <div key={token.type} className="flex items-center justify-between">
+                              <div className="flex items-center gap-2">
+                                <CoinIcon symbol={token.symbol} iconUrl={token.iconUrl ?? null} size={20} />
+                                <span className="text-white">{token.symbol}</span>
                               </div>
-                            </>
-                          );
+                              <span className="text-white font-mono">
+                                {formatBalance(expected.toString(), token.decimals, 4)}
+                              </span>
+                            </div>
+                          ));
                         })()}
                       </div>
                     </>
                   )}
-                  
+
                   {/* Remove Button */}
                   <Button
                     className="w-full bg-red-500 hover:bg-red-400 text-white font-semibold py-6 text-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                     onClick={handleRemoveLiquidity}
-                    disabled={!selectedLPToken || isRemoving}
+                    disabled={!isRemoveAmountValid || isRemoving}
                   >
                     {isRemoving ? (
                       <>
@@ -625,6 +721,24 @@ export function PoolInterface() {
                       'Remove Liquidity'
                     )}
                   </Button>
+
+                  {/* Transfer */}
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Or transfer this amount to 0x..."
+                      value={recipient}
+                      onChange={(e) => setRecipient(e.target.value)}
+                      className="bg-white/5 border-white/10 text-white font-mono text-sm"
+                    />
+                    <Button
+                      variant="outline"
+                      className="border-white/10 text-gray-300"
+                      onClick={handleTransferLP}
+                      disabled={!isRemoveAmountValid || !recipient || isManagingLP}
+                    >
+                      Transfer
+                    </Button>
+                  </div>
                 </>
               )}
             </TabsContent>
@@ -633,4 +747,4 @@ export function PoolInterface() {
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -8,10 +8,15 @@ import { Card, CardContent } from '@/components/ui/card';
 import { SUPPORTED_COINS } from '@/config/iota.config';
 import { usePoolInfo } from '@/hooks/use-pool-info';
 import { usePoolTVL } from '@/hooks/use-pool-tvl';
-import { useTokenPrice } from '@/hooks/use-token-price';
+import { useTokenPrices } from '@/hooks/use-token-price';
+import { getPriceForType } from '@/lib/services/price-feed';
+import { usePoolStats, PoolWindowYield } from '@/hooks/use-pool-stats';
 import { formatNumber } from '@/lib/utils/format';
 import { PoolInterface } from './pool-interface';
 import { CoinIcon } from '@/components/coin-icon';
+import { getTokenBySymbol, getTokenByType } from '@/lib/services/token-registry';
+import { PoolInfo } from '@/lib/services/pool-service';
+import { StatsWindow } from '@/lib/services/pool-stats-service';
 
 interface PoolData {
   rank: number;
@@ -21,14 +26,17 @@ interface PoolData {
   tokenBSymbol?: string;
   tvl: number;
   volume24h: number;
+  volume7d: number;
   volume30d: number;
-  apr: number;
+  apr: number | null; // Fee APR over 7 days, percent
+  apy: number | null;
   fees24h: number;
 }
 
 export function PoolList() {
   const [searchTerm, setSearchTerm] = useState('');
   const [showLiquidityInterface, setShowLiquidityInterface] = useState(false);
+  const [selectedPair, setSelectedPair] = useState<[string, string] | null>(null); // Symbols, null for the default pair
   
   // Get pool info for all pairs
   const { poolInfo: iotaStIotaPool } = usePoolInfo(
@@ -51,68 +59,54 @@ export function PoolList() {
   const iotaVusdTVL = usePoolTVL(iotaVusdPool);
   const stIotaVusdTVL = usePoolTVL(stIotaVusdPool);
   
-  // Get token prices
-  const { price: iotaPriceData } = useTokenPrice('IOTA');
-  const iotaPrice = iotaPriceData?.price || 0.28;
-  
-  // Calculate actual volume from pool data if available
-  const calculateVolume = (pool: any) => {
-    if (!pool || (!pool.totalVolumeA && !pool.totalVolumeB)) return 0;
-    return (Number(pool.totalVolumeA || 0) / 1e9 + Number(pool.totalVolumeB || 0) / 1e9) * iotaPrice;
-  };
-  
-  // Calculate actual fees collected
-  const calculateFees = (pool: any) => {
-    if (!pool || (!pool.feesA && !pool.feesB)) return 0;
-    return (Number(pool.feesA || 0) / 1e9 + Number(pool.feesB || 0) / 1e9) * iotaPrice;
+  // Trailing volume, fees and yield from the pools' fee and volume accumulators
+  const { windows: iotaStIotaStats } = usePoolStats(iotaStIotaPool);
+  const { windows: iotaVusdStats } = usePoolStats(iotaVusdPool);
+  const { windows: stIotaVusdStats } = usePoolStats(stIotaVusdPool);
+
+  // Get token prices, tokens without a price feed count as zero
+  const { prices } = useTokenPrices(['IOTA', 'stIOTA', 'vUSD']);
+
+  // USD value of amounts in the pool's type order
+  const toUsd = (pool: PoolInfo | null, amountA: bigint, amountB: bigint) => {
+    if (!pool) return 0;
+    const value = (type: string, amount: bigint) => {
+      const token = getTokenByType(type);
+      return token ? (Number(amount) / 10 ** token.decimals) * (getPriceForType(prices, type) || 0) : 0;
+    };
+    return value(pool.coinTypeA, amountA) + value(pool.coinTypeB, amountB);
   };
-  
-  // Calculate APR based on fees and TVL
-  const calculateAPR = (fees24h: number, tvl: number): number => {
-    if (tvl === 0) return 0;
-    const dailyReturn = fees24h / tvl;
-    const annualReturn = dailyReturn * 365;
-    return annualReturn * 100; // Convert to percentage
+
+  const toPoolData = (
+    rank: number,
+    [tokenA, tokenB]: [string, string],
+    pool: PoolInfo | null,
+    tvl: number,
+    stats: Record<StatsWindow, PoolWindowYield | null>
+  ): PoolData => {
+    const volume = (window: StatsWindow) => toUsd(pool, stats[window]?.volumeA ?? 0n, stats[window]?.volumeB ?? 0n);
+
+    return {
+      rank,
+      tokenA,
+      tokenB,
+      tokenASymbol: tokenA,
+      tokenBSymbol: tokenB,
+      tvl,
+      volume24h: volume('24h'),
+      volume7d: volume('7d'),
+      volume30d: volume('30d'),
+      apr: stats['7d']?.feeAprPercent ?? null,
+      apy: stats['7d']?.apyPercent ?? null,
+      fees24h: toUsd(pool, stats['24h']?.feesA ?? 0n, stats['24h']?.feesB ?? 0n),
+    };
   };
-  
+
   // Pool data with real-time values
   const pools: PoolData[] = [
-    {
-      rank: 1,
-      tokenA: 'IOTA',
-      tokenB: 'stIOTA',
-      tokenASymbol: 'IOTA',
-      tokenBSymbol: 'stIOTA',
-      tvl: iotaStIotaTVL,
-      volume24h: calculateVolume(iotaStIotaPool),
-      volume30d: calculateVolume(iotaStIotaPool) * 30, // Estimate
-      apr: calculateAPR(calculateFees(iotaStIotaPool), iotaStIotaTVL),
-      fees24h: calculateFees(iotaStIotaPool)
-    },
-    {
-      rank: 2,
-      tokenA: 'stIOTA',
-      tokenB: 'vUSD',
-      tokenASymbol: 'stIOTA',
-      tokenBSymbol: 'vUSD',
-      tvl: stIotaVusdTVL,
-      volume24h: calculateVolume(stIotaVusdPool),
-      volume30d: calculateVolume(stIotaVusdPool) * 30,
-      apr: calculateAPR(calculateFees(stIotaVusdPool), stIotaVusdTVL),
-      fees24h: calculateFees(stIotaVusdPool)
-    },
-    {
-      rank: 3,
-      tokenA: 'IOTA',
-      tokenB: 'vUSD',
-      tokenASymbol: 'IOTA',
-      tokenBSymbol: 'vUSD',
-      tvl: iotaVusdTVL,
-      volume24h: calculateVolume(iotaVusdPool),
-      volume30d: calculateVolume(iotaVusdPool) * 30,
-      apr: calculateAPR(calculateFees(iotaVusdPool), iotaVusdTVL),
-      fees24h: calculateFees(iotaVusdPool)
-    },
+    toPoolData(1, ['IOTA', 'stIOTA'], iotaStIotaPool, iotaStIotaTVL, iotaStIotaStats),
+    toPoolData(2, ['stIOTA', 'vUSD'], stIotaVusdPool, stIotaVusdTVL, stIotaVusdStats),
+    toPoolData(3, ['IOTA', 'vUSD'], iotaVusdPool, iotaVusdTVL, iotaVusdStats),
   ];
 
   const filteredPools = pools.filter(pool => 
@@ -124,7 +118,15 @@ export function PoolList() {
   const totalVolume24h = pools.reduce((sum, pool) => sum + pool.volume24h, 0);
   const totalFees24h = pools.reduce((sum, pool) => sum + pool.fees24h, 0);
 
+  const openLiquidityInterface = (pair: [string, string] | null) => {
+    setSelectedPair(pair);
+    setShowLiquidityInterface(true);
+  };
+
   if (showLiquidityInterface) {
+    const initialTokenA = selectedPair && getTokenBySymbol(selectedPair[0]);
+    const initialTokenB = selectedPair && getTokenBySymbol(selectedPair[1]);
+
     return (
       <div className="min-h-screen pt-16 pb-8 bg-gradient-to-b from-gray-900 via-black to-black">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -135,7 +137,11 @@ export function PoolList() {
           >
             ← Back to Pools
           </Button>
-          <PoolInterface />
+          <PoolInterface
+            key={selectedPair?.join('/') ?? 'default'}
+            {...(initialTokenA && { initialTokenA })}
+            {...(initialTokenB && { initialTokenB })}
+          />
         </div>
       </div>
     );
@@ -200,7 +206,7 @@ export function PoolList() {
         </div>
         <Button 
           className="bg-cyan-500 hover:bg-cyan-400 text-black font-semibold"
-          onClick={() => setShowLiquidityInterface(true)}
+          onClick={() => openLiquidityInterface(null)}
         >
           <Plus className="w-4 h-4 mr-2" />
           Add Liquidity
@@ -225,8 +231,11 @@ export function PoolList() {
                     TVL
                   </div>
                 </th>
-                <th className="p-4 text-right text-gray-400 font-medium">APR</th>
+                <th className="p-4 text-right text-gray-400 font-medium">APR (7d)</th>
+                <th className="p-4 text-right text-gray-400 font-medium">APY</th>
                 <th className="p-4 text-right text-gray-400 font-medium">24h Volume</th>
+                <th className="p-4 text-right text-gray-400 font-medium">7d Volume</th>
+                <th className="p-4 text-right text-gray-400 font-medium">30d Volume</th>
                 <th className="p-4 text-right text-gray-400 font-medium">24h Fees</th>
               </tr>
             </thead>
@@ -235,7 +244,7 @@ export function PoolList() {
                 <tr 
                   key={`${pool.tokenA}-${pool.tokenB}`} 
                   className="border-b border-white/5 hover:bg-white/5 transition-colors cursor-pointer"
-                  onClick={() => setShowLiquidityInterface(true)}
+                  onClick={() => openLiquidityInterface([pool.tokenA, pool.tokenB])}
                 >
                   <td className="p-4 text-gray-500">{pool.rank}</td>
                   <td className="p-4">
@@ -253,13 +262,24 @@ export function PoolList() {
                     ${formatNumber(pool.tvl, 2)}
                   </td>
                   <td className="p-4 text-right">
-                    <span className={pool.apr > 0 ? "text-green-400 font-mono" : "text-gray-400 font-mono"}>
-                      {pool.apr.toFixed(2)}%
+                    <span className={pool.apr ? "text-green-400 font-mono" : "text-gray-400 font-mono"}>
+                      {pool.apr !== null ? `${pool.apr.toFixed(2)}%` : '-'}
+                    </span>
+                  </td>
+                  <td className="p-4 text-right">
+                    <span className={pool.apy ? "text-green-400 font-mono" : "text-gray-400 font-mono"}>
+                      {pool.apy !== null ? `${pool.apy.toFixed(2)}%` : '-'}
                     </span>
                   </td>
                   <td className="p-4 text-right text-white font-mono">
                     ${formatNumber(pool.volume24h, 2)}
                   </td>
+                  <td className="p-4 text-right text-white font-mono">
+                    ${formatNumber(pool.volume7d, 2)}
+                  </td>
+                  <td className="p-4 text-right text-white font-mono">
+                    ${formatNumber(pool.volume30d, 2)}
+                  </td>
                   <td className="p-4 text-right text-white font-mono">
                     ${formatNumber(pool.fees24h, 2)}
                   </td>
@@ -1,12 +1,13 @@
 'use client';
 
 import { useState } from 'react';
-import { ArrowUpDown, Settings, Loader2 } from 'lucide-react';
+import { ArrowUpDown, Settings, Loader2, AlertTriangle } from 'lucide-react';
 import { useCurrentAccount } from '@iota/dapp-kit';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Popover,
   PopoverContent,
@@ -14,11 +15,13 @@ import {
 } from '@/components/ui/popover';
 import { useTokenPrice } from '@/hooks/use-token-price';
 import { useWalletBalance } from '@/hooks/use-wallet-balance';
-import { useSwapCalculation, formatSwapOutput } from '@/hooks/use-swap-calculation';
-import { formatTokenAmount } from '@/lib/utils/format';
+import { useSwapCalculation, formatSwapOutput, TradeType } from '@/hooks/use-swap-calculation';
+import { formatTokenAmount, parseTokenAmount } from '@/lib/utils/format';
+import { getPriceImpactLevel } from '@/lib/utils/swap-math';
 import { SUPPORTED_COINS } from '@/config/iota.config';
 import { toast } from 'sonner';
 import { useSimpleSwapV2 } from '@/hooks/use-simple-swap-v2';
+import { usePoolHealth } from '@/hooks/use-pool-health';
 import { TokenDropdown } from '@/components/token-dropdown';
 import { SwapSuccessModal } from '@/components/swap-success-modal';
 
@@ -36,8 +39,11 @@ export function SwapInterface() {
   const [inputToken, setInputToken] = useState<Token>(SUPPORTED_COINS.IOTA);
   const [outputToken, setOutputToken] = useState<Token>(SUPPORTED_COINS.stIOTA);
   const [inputAmount, setInputAmount] = useState('');
+  const [outputAmount, setOutputAmount] = useState('');
+  const [tradeType, setTradeType] = useState<TradeType>('exactInput');
   const [slippage, setSlippage] = useState(0.5);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
+  const [acknowledgedQuote, setAcknowledgedQuote] = useState<number | null>(null);
   const [swapResult, setSwapResult] = useState<{
     inputAmount: string;
     outputAmount: string;
@@ -59,21 +65,52 @@ export function SwapInterface() {
   const { formatted: inputBalanceFormatted, refetch: refetchInputBalance } = useWalletBalance(inputToken.type);
   const { formatted: outputBalanceFormatted, refetch: refetchOutputBalance } = useWalletBalance(outputToken.type);
 
-  // Calculate swap output using actual pool reserves
+  // Calculate swap output (or required input) using actual pool reserves
   const swapCalculation = useSwapCalculation(
     inputToken,
     outputToken,
-    inputAmount,
-    slippage
+    tradeType === 'exactInput' ? inputAmount : outputAmount,
+    slippage,
+    tradeType
   );
 
+  // Health of the pool the trade enters
+  const { health: poolHealth } = usePoolHealth(swapCalculation.pool);
+  const poolHealthIssues = poolHealth && poolHealth.poolId === swapCalculation.pool?.poolId
+    ? poolHealth.issues.filter(issue => issue.severity !== 'info')
+    : [];
+
+  // The side the user is not editing is recomputed from the quote
+  const isExactOutput = tradeType === 'exactOutput';
+  const enteredAmount = isExactOutput ? outputAmount : inputAmount;
+  const displayInputAmount = isExactOutput
+    ? (swapCalculation.inputAmount !== '0' ? formatSwapOutput(swapCalculation.inputAmount, inputToken.decimals) : '')
+    : inputAmount;
+  const displayOutputAmount = isExactOutput
+    ? outputAmount
+    : (swapCalculation.outputAmount !== '0' ? formatSwapOutput(swapCalculation.outputAmount, outputToken.decimals) : '');
+
+  // High impact trades need an explicit confirmation, given again for every new quote
+  const impactLevel = getPriceImpactLevel(swapCalculation.priceImpact);
+  const needsImpactConfirmation = impactLevel === 'confirm' && acknowledgedQuote !== swapCalculation.issuedAt;
+
+  const handleInputAmountChange = (value: string) => {
+    setTradeType('exactInput');
+    setInputAmount(value);
+  };
+
+  const handleOutputAmountChange = (value: string) => {
+    setTradeType('exactOutput');
+    setOutputAmount(value);
+  };
+
   const handleSwap = async () => {
     if (!isConnected) {
       toast.error('Please connect your wallet');
       return;
     }
 
-    if (!inputAmount || parseFloat(inputAmount) <= 0) {
+    if (!enteredAmount || parseFloat(enteredAmount) <= 0) {
       toast.error('Please enter a valid amount');
       return;
     }
@@ -83,27 +120,51 @@ export function SwapInterface() {
       return;
     }
 
-    if (!swapCalculation.outputAmount || swapCalculation.outputAmount === '0') {
+    if (
+      !swapCalculation.outputAmount ||
+      swapCalculation.outputAmount === '0' ||
+      swapCalculation.issuedAt === null ||
+      swapCalculation.expiresAt === null
+    ) {
       toast.error('Unable to calculate swap output');
       return;
     }
 
+    if (needsImpactConfirmation) {
+      toast.error('Confirm the price impact to continue');
+      return;
+    }
+
 
     const startTime = Date.now();
     const result: any = await executeSwap({
       inputToken,
       outputToken,
-      inputAmount,
+      inputAmount: displayInputAmount,
       minOutputAmount: swapCalculation.minimumReceived.toString(),
       slippage,
+      quote: { issuedAt: swapCalculation.issuedAt, expiresAt: swapCalculation.expiresAt },
+      ...(isExactOutput && {
+        exactOutput: {
+          outputAmount: parseTokenAmount(outputAmount, outputToken.decimals),
+          maxInputAmount: BigInt(swapCalculation.maximumSold),
+        },
+      }),
     });
 
     const executionTime = (Date.now() - startTime) / 1000;
 
+    // Stale or moved quote: nothing was signed, re-quote so the user can review the difference
+    if (result.quoteExpired || result.quoteChanged) {
+      toast.warning(result.error);
+      swapCalculation.refresh();
+      return;
+    }
+
     if (result.success && result.digest) {
       // Show success notification card
       setSwapResult({
-        inputAmount,
+        inputAmount: displayInputAmount,
         outputAmount: swapCalculation.outputAmount || '0',
         txHash: result.digest,
         executionTime,
@@ -113,6 +174,8 @@ export function SwapInterface() {
       
       // Clear input
       setInputAmount('');
+      setOutputAmount('');
+      setTradeType('exactInput');
       
       // Refresh balances after a short delay to ensure blockchain state is updated
       setTimeout(() => {
@@ -126,7 +189,7 @@ export function SwapInterface() {
     } else {
       // Show failure notification card
       setSwapResult({
-        inputAmount,
+        inputAmount: displayInputAmount,
         outputAmount: swapCalculation.outputAmount || '0',
         txHash: '',
         executionTime,
@@ -141,6 +204,8 @@ export function SwapInterface() {
     setInputToken(outputToken);
     setOutputToken(inputToken);
     setInputAmount('');
+    setOutputAmount('');
+    setTradeType('exactInput');
   };
 
   const handleMaxInput = () => {
@@ -154,9 +219,9 @@ export function SwapInterface() {
           toast.error('Insufficient IOTA balance for swap (need gas fees)');
           return;
         }
-        setInputAmount(maxAmount.toFixed(2));
+        handleInputAmountChange(maxAmount.toFixed(2));
       } else {
-        setInputAmount(inputBalanceFormatted);
+        handleInputAmountChange(inputBalanceFormatted);
       }
     }
   };
@@ -185,8 +250,8 @@ export function SwapInterface() {
                 <div className="flex items-center justify-between gap-4">
                   <Input
                     placeholder="0"
-                    value={inputAmount}
-                    onChange={(e) => setInputAmount(e.target.value)}
+                    value={displayInputAmount}
+                    onChange={(e) => handleInputAmountChange(e.target.value)}
                     className="bg-transparent border-none text-2xl font-semibold text-white p-0 h-auto focus:outline-none focus:ring-0 focus-visible:ring-0 focus-visible:ring-offset-0 focus:border-none placeholder:text-gray-600 [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none"
                     type="number"
                     min="0"
@@ -200,9 +265,9 @@ export function SwapInterface() {
                   />
                 </div>
                 
-                {inputAmount && inputPrice && (
+                {displayInputAmount && inputPrice && (
                   <div className="text-sm text-gray-500 mt-2">
-                    ≈ ${formatTokenAmount(parseFloat(inputAmount) * inputPrice.price, 2)}
+                    ≈ ${formatTokenAmount(parseFloat(displayInputAmount) * inputPrice.price, 2)}
                   </div>
                 )}
               </div>
@@ -231,13 +296,19 @@ export function SwapInterface() {
               
               <div className="bg-black rounded-xl p-4 border border-gray-800">
                 <div className="flex items-center justify-between gap-4">
-                  <div className="text-2xl font-semibold text-white">
-                    {swapCalculation.isLoading ? (
-                      <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
-                    ) : (
-                      formatSwapOutput(swapCalculation.outputAmount, outputToken.decimals) || '0'
-                    )}
-                  </div>
+                  {swapCalculation.isLoading && !isExactOutput ? (
+                    <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+                  ) : (
+                    <Input
+                      placeholder="0"
+                      value={displayOutputAmount}
+                      onChange={(e) => handleOutputAmountChange(e.target.value)}
+                      className="bg-transparent border-none text-2xl font-semibold text-white p-0 h-auto focus:outline-none focus:ring-0 focus-visible:ring-0 focus-visible:ring-offset-0 focus:border-none placeholder:text-gray-600 [&::-webkit-inner-spin-button]:appearance-none [&::-webkit-outer-spin-button]:appearance-none"
+                      type="number"
+                      min="0"
+                      step="any"
+                    />
+                  )}
                   
                   <TokenDropdown
                     selectedToken={outputToken}
@@ -255,7 +326,7 @@ export function SwapInterface() {
             </div>
 
             {/* Enter Amount Message or Swap Details */}
-            {(!inputAmount || parseFloat(inputAmount) <= 0) ? (
+            {(!enteredAmount || parseFloat(enteredAmount) <= 0) ? (
               <div className="text-center py-4">
                 <p className="text-gray-500 text-sm">Enter an amount</p>
               </div>
@@ -264,36 +335,129 @@ export function SwapInterface() {
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-gray-500">Rate</span>
                   <span className="text-gray-300">
-                    1 {inputToken.symbol} = {inputAmount && parseFloat(inputAmount) > 0 
-                      ? formatTokenAmount(parseFloat(formatSwapOutput(swapCalculation.outputAmount, outputToken.decimals)) / parseFloat(inputAmount), 4)
+                    1 {inputToken.symbol} = {displayInputAmount && parseFloat(displayInputAmount) > 0 
+                      ? formatTokenAmount(parseFloat(formatSwapOutput(swapCalculation.outputAmount, outputToken.decimals)) / parseFloat(displayInputAmount), 4)
                       : '0'} {outputToken.symbol}
                   </span>
                 </div>
                 
+                {swapCalculation.quoteChange && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-yellow-400">Quote updated</span>
+                    <span className="text-gray-300">
+                      {isExactOutput ? (
+                        <>
+                          {formatSwapOutput(swapCalculation.quoteChange.previous, inputToken.decimals)} → {formatSwapOutput(swapCalculation.quoteChange.current, inputToken.decimals)} {inputToken.symbol}
+                        </>
+                      ) : (
+                        <>
+                          {formatSwapOutput(swapCalculation.quoteChange.previous, outputToken.decimals)} → {formatSwapOutput(swapCalculation.quoteChange.current, outputToken.decimals)} {outputToken.symbol}
+                        </>
+                      )}
+                    </span>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-gray-500">Price Impact</span>
                   <span className={`font-medium ${
-                    swapCalculation.priceImpact > 5 ? "text-red-400" : 
-                    swapCalculation.priceImpact > 3 ? "text-yellow-400" : 
+                    impactLevel === 'confirm' || impactLevel === 'blocked' ? "text-red-400" : 
+                    impactLevel === 'warning' ? "text-yellow-400" : 
                     "text-green-400"
                   }`}>
                     {swapCalculation.priceImpact.toFixed(2)}%
                   </span>
                 </div>
                 
-                <div className="flex items-center justify-between text-sm">
-                  <span className="text-gray-500">Min. received</span>
-                  <span className="text-gray-300">
-                    {formatSwapOutput(swapCalculation.minimumReceived, outputToken.decimals)} {outputToken.symbol}
-                  </span>
-                </div>
+                {swapCalculation.splits.length > 1 ? (
+                  <div className="flex items-start justify-between text-sm">
+                    <span className="text-gray-500">Route</span>
+                    <div className="text-right space-y-0.5">
+                      {swapCalculation.splits.map(split => (
+                        <div key={split.route.join('-')} className="text-gray-300">
+                          <span className="text-gray-400">{split.percentage.toFixed(0)}%</span> {split.route.join(' → ')}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ) : swapCalculation.route.length > 2 && (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-500">Route</span>
+                    <span className="text-gray-300">
+                      {swapCalculation.route.join(' → ')}
+                    </span>
+                  </div>
+                )}
+
+                {isExactOutput ? (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-500">Max. sold</span>
+                    <span className="text-gray-300">
+                      {formatSwapOutput(swapCalculation.maximumSold, inputToken.decimals)} {inputToken.symbol}
+                    </span>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-500">Min. received</span>
+                    <span className="text-gray-300">
+                      {formatSwapOutput(swapCalculation.minimumReceived, outputToken.decimals)} {outputToken.symbol}
+                    </span>
+                  </div>
+                )}
                 
                 <div className="flex items-center justify-between text-sm">
                   <span className="text-gray-500">Fee</span>
                   <span className="text-gray-300">
-                    {((swapCalculation.pool?.feePercentage || 30) / 100).toFixed(2)}%
+                    {swapCalculation.feePercent.toFixed(2)}%
                   </span>
                 </div>
+
+                {impactLevel !== 'low' && (
+                  <div className={`mt-2 rounded-lg border p-3 text-sm ${
+                    impactLevel === 'warning'
+                      ? "border-yellow-500/30 bg-yellow-500/10 text-yellow-300"
+                      : "border-red-500/30 bg-red-500/10 text-red-300"
+                  }`}>
+                    <div className="flex items-start gap-2">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      <span>
+                        {impactLevel === 'warning'
+                          ? `This trade moves the price by ${swapCalculation.priceImpact.toFixed(2)}%.`
+                          : `High price impact: you receive ${swapCalculation.priceImpact.toFixed(2)}% less than the current pool price, on top of fees.`}
+                      </span>
+                    </div>
+                    {impactLevel === 'confirm' && (
+                      <label className="flex items-center gap-2 mt-2 cursor-pointer">
+                        <Checkbox
+                          checked={acknowledgedQuote === swapCalculation.issuedAt}
+                          onCheckedChange={(checked) => setAcknowledgedQuote(checked === true ? swapCalculation.issuedAt : null)}
+                        />
+                        <span>I understand and want to swap anyway</span>
+                      </label>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Pool Health Warning */}
+            {poolHealthIssues.length > 0 && (
+              <div className={`rounded-lg border p-3 text-sm ${
+                poolHealth?.status === 'unhealthy'
+                  ? "border-red-500/30 bg-red-500/10 text-red-300"
+                  : "border-yellow-500/30 bg-yellow-500/10 text-yellow-300"
+              }`}>
+                <div className="flex items-start gap-2">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {poolHealth?.status === 'unhealthy' ? 'This pool looks unhealthy' : 'This pool may be mispriced'}
+                    </p>
+                    {poolHealthIssues.map(issue => (
+                      <p key={issue.code}>{issue.message}</p>
+                    ))}
+                  </div>
+                </div>
               </div>
             )}
 
@@ -302,7 +466,7 @@ export function SwapInterface() {
               <Button
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white py-6 rounded-xl font-semibold text-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed disabled:bg-gray-700"
                 onClick={handleSwap}
-                disabled={isSwapping || !inputAmount || parseFloat(inputAmount) <= 0 || !!swapCalculation.error}
+                disabled={isSwapping || !enteredAmount || parseFloat(enteredAmount) <= 0 || !!swapCalculation.error || needsImpactConfirmation}
               >
                 {isSwapping ? (
                   <>
@@ -311,8 +475,10 @@ export function SwapInterface() {
                   </>
                 ) : swapCalculation.error ? (
                   'Insufficient liquidity'
-                ) : !inputAmount || parseFloat(inputAmount) <= 0 ? (
+                ) : !enteredAmount || parseFloat(enteredAmount) <= 0 ? (
                   'Enter an amount'
+                ) : needsImpactConfirmation ? (
+                  'Confirm price impact'
                 ) : (
                   'Swap'
                 )}
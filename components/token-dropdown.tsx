@@ -1,11 +1,12 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { ChevronDown, Search } from 'lucide-react';
-import { SUPPORTED_COINS } from '@/config/iota.config';
+import { ChevronDown, Search, AlertTriangle } from 'lucide-react';
 import { useAllBalances } from '@/hooks/use-wallet-balance';
+import { useTokens } from '@/hooks/use-tokens';
 import { formatBalance } from '@/lib/utils/format';
 import { useTokenPrices } from '@/hooks/use-token-price';
+import { getPriceForType } from '@/lib/services/price-feed';
 import { CoinIcon } from '@/components/coin-icon';
 import { Input } from '@/components/ui/input';
 
@@ -15,6 +16,7 @@ interface Token {
   decimals: number;
   name: string;
   iconUrl?: string;
+  verification?: 'verified' | 'unverified';
 }
 
 interface TokenDropdownProps {
@@ -28,9 +30,10 @@ export function TokenDropdown({ selectedToken, onSelect, excludeToken }: TokenDr
   const [searchQuery, setSearchQuery] = useState('');
   const dropdownRef = useRef<HTMLDivElement>(null);
   const { balances } = useAllBalances();
+  const { tokens: registeredTokens } = useTokens();
   
-  // Get all supported tokens
-  const tokens = Object.values(SUPPORTED_COINS).filter(
+  // Get all registered tokens
+  const tokens = registeredTokens.filter(
     token => token.type !== excludeToken?.type
   );
   
@@ -60,8 +63,8 @@ export function TokenDropdown({ selectedToken, onSelect, excludeToken }: TokenDr
   };
 
   // Get price for a token
-  const getTokenPrice = (symbol: string) => {
-    return prices[symbol]?.price || 0;
+  const getTokenPrice = (tokenType: string) => {
+    return getPriceForType(prices, tokenType) || 0;
   };
 
   // Filter tokens based on search
@@ -117,7 +120,7 @@ export function TokenDropdown({ selectedToken, onSelect, excludeToken }: TokenDr
             ) : (
               filteredTokens.map((token) => {
                 const balance = getTokenBalance(token.type);
-                const price = getTokenPrice(token.symbol);
+                const price = getTokenPrice(token.type);
                 const isSelected = selectedToken.type === token.type;
 
                 return (
@@ -132,11 +135,19 @@ export function TokenDropdown({ selectedToken, onSelect, excludeToken }: TokenDr
                       <CoinIcon 
                         symbol={token.symbol} 
                         coinType={token.type}
-                        iconUrl={token.iconUrl}
+                        iconUrl={token.iconUrl ?? null}
                         size={32} 
                       />
                       <div className="text-left">
-                        <div className="font-medium text-white">{token.symbol}</div>
+                        <div className="font-medium text-white flex items-center gap-1">
+                          {token.symbol}
+                          {token.verification === 'unverified' && (
+                            <span className="flex items-center gap-0.5 text-[10px] text-yellow-400" title="Found on chain, not on the curated list">
+                              <AlertTriangle className="w-3 h-3" />
+                              Unverified
+                            </span>
+                          )}
+                        </div>
                         <div className="text-xs text-gray-500">{token.name}</div>
                       </div>
                     </div>
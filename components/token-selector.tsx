@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { Search } from 'lucide-react';
+import { useState } from 'react';
+import { Search, AlertTriangle } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -11,10 +11,11 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { SUPPORTED_COINS } from '@/config/iota.config';
 import { useAllBalances } from '@/hooks/use-wallet-balance';
+import { useTokens } from '@/hooks/use-tokens';
 import { formatBalance } from '@/lib/utils/format';
 import { useTokenPrices } from '@/hooks/use-token-price';
+import { getPriceForType } from '@/lib/services/price-feed';
 import { CoinIcon } from '@/components/coin-icon';
 // Removed unused imports
 import { Skeleton } from '@/components/ui/skeleton';
@@ -25,6 +26,7 @@ interface Token {
   decimals: number;
   name: string;
   iconUrl?: string;
+  verification?: 'verified' | 'unverified';
 }
 
 interface TokenSelectorProps {
@@ -36,40 +38,13 @@ interface TokenSelectorProps {
 
 export function TokenSelector({ open, onClose, onSelect, selectedToken }: TokenSelectorProps) {
   const [searchQuery, setSearchQuery] = useState('');
-  const [tokens, setTokens] = useState<Token[]>([]);
-  const [isLoadingMetadata, setIsLoadingMetadata] = useState(false);
+  const { tokens } = useTokens(); // Curated tokens are there right away, discovered ones join as they load
   const { balances, isLoading: isLoadingBalances } = useAllBalances();
   
   // Get symbols for price fetching
   const tokenSymbols = tokens.map(t => t.symbol);
   const { prices } = useTokenPrices(tokenSymbols);
 
-  // Fetch metadata for all coins when balances are loaded
-  useEffect(() => {
-    async function fetchTokenMetadata() {
-      setIsLoadingMetadata(true);
-      try {
-        // Only use supported coins
-        const supportedTokens = Object.values(SUPPORTED_COINS).map(coin => ({
-          symbol: coin.symbol,
-          type: coin.type,
-          decimals: coin.decimals,
-          name: coin.name,
-          iconUrl: coin.iconUrl,
-        }));
-        
-        setTokens(supportedTokens);
-      } catch (error) {
-        console.error('Failed to fetch token metadata:', error);
-        setTokens([]);
-      } finally {
-        setIsLoadingMetadata(false);
-      }
-    }
-
-    fetchTokenMetadata();
-  }, []);
-
   // Get balance for a token
   const getTokenBalance = (tokenType: string) => {
     const balance = balances.find(b => b.coinType === tokenType);
@@ -93,8 +68,8 @@ export function TokenSelector({ open, onClose, onSelect, selectedToken }: TokenS
   });
 
   // Get price for a token
-  const getTokenPrice = (symbol: string) => {
-    return prices[symbol]?.price || 0;
+  const getTokenPrice = (tokenType: string) => {
+    return getPriceForType(prices, tokenType) || 0;
   };
 
   const handleSelect = (token: Token) => {
@@ -125,7 +100,7 @@ export function TokenSelector({ open, onClose, onSelect, selectedToken }: TokenS
 
         <ScrollArea className="h-96 mt-4">
           <div className="space-y-1">
-            {isLoadingBalances || isLoadingMetadata ? (
+            {isLoadingBalances ? (
               // Loading skeleton
               Array.from({ length: 5 }).map((_, i) => (
                 <div key={i} className="flex items-center justify-between p-3">
@@ -149,7 +124,7 @@ export function TokenSelector({ open, onClose, onSelect, selectedToken }: TokenS
             ) : (
               sortedTokens.map((token) => {
               const balance = getTokenBalance(token.type);
-              const price = getTokenPrice(token.symbol);
+              const price = getTokenPrice(token.type);
               const isSelected = selectedToken?.type === token.type;
 
               return (
@@ -170,7 +145,15 @@ export function TokenSelector({ open, onClose, onSelect, selectedToken }: TokenS
                       size={40} 
                     />
                     <div className="text-left">
-                      <div className="font-semibold text-white">{token.symbol}</div>
+                      <div className="font-semibold text-white flex items-center gap-1.5">
+                        {token.symbol}
+                        {token.verification === 'unverified' && (
+                          <span className="flex items-center gap-0.5 text-xs text-yellow-400" title="Found on chain, not on the curated list">
+                            <AlertTriangle className="w-3 h-3" />
+                            Unverified
+                          </span>
+                        )}
+                      </div>
                       <div className="text-sm text-gray-400">{token.name}</div>
                     </div>
                   </div>
@@ -3,11 +3,12 @@
 import { useAllBalances } from '@/hooks/use-wallet-balance';
 import { useCurrentAccount } from '@iota/dapp-kit';
 import { formatBalance } from '@/lib/utils/format';
-import { SUPPORTED_COINS } from '@/config/iota.config';
+import { getTokenByType } from '@/lib/services/token-registry';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Info } from 'lucide-react';
 import { CoinIcon } from '@/components/coin-icon';
 import { useTokenPrices } from '@/hooks/use-token-price';
+import { getPriceForType } from '@/lib/services/price-feed';
 import { useEffect, useState } from 'react';
 
 interface CoinBalance {
@@ -17,10 +18,8 @@ interface CoinBalance {
 }
 
 const getCoinInfo = (coinType: string) => {
-  // Check supported coins
-  const supportedCoin = Object.values(SUPPORTED_COINS).find(
-    coin => coin.type === coinType
-  );
+  // Check registered tokens
+  const supportedCoin = getTokenByType(coinType);
   
   if (supportedCoin) {
     return supportedCoin;
@@ -108,12 +107,12 @@ export function WalletBalances() {
         <div className="space-y-2">
           {balances
             .filter((balance: CoinBalance) => {
-              // Only show supported coins
-              const supportedTypes = Object.values(SUPPORTED_COINS).map(coin => coin.type);
-              return supportedTypes.includes(balance.coinType);
+              // Only show registered tokens
+              return !!getTokenByType(balance.coinType);
             })
             .map((balance: CoinBalance) => {
             const coinInfo = getCoinInfo(balance.coinType);
+            const price = getPriceForType(prices, balance.coinType);
             const formattedBalance = formatBalance(
               balance.totalBalance,
               coinInfo.decimals
@@ -136,8 +135,8 @@ export function WalletBalances() {
                 <div className="text-right">
                   <div className="text-black font-semibold">{formattedBalance}</div>
                   <div className="text-gray-500 text-xs">
-                    {prices[coinInfo.symbol] ? 
-                      `$${(parseFloat(formattedBalance) * prices[coinInfo.symbol].price).toFixed(2)}` : 
+                    {price ? 
+                      `$${(parseFloat(formattedBalance) * price).toFixed(2)}` : 
                       `${balance.coinObjectCount} ${balance.coinObjectCount === 1 ? 'object' : 'objects'}`
                     }
                   </div>
@@ -28,6 +28,14 @@ export const BLITZZ_PACKAGE_ID = {
   devnet: process.env.NEXT_PUBLIC_PACKAGE_ID || '0x0', // Development deployment
 } as const;
 
+// The latest version of the same package after an upgrade (see README). Same as the original
+// until the package is upgraded
+export const BLITZZ_UPGRADED_PACKAGE_ID = {
+  mainnet: BLITZZ_PACKAGE_ID.mainnet,
+  testnet: process.env.NEXT_PUBLIC_UPGRADED_PACKAGE_ID || BLITZZ_PACKAGE_ID.testnet,
+  devnet: process.env.NEXT_PUBLIC_UPGRADED_PACKAGE_ID || BLITZZ_PACKAGE_ID.devnet,
+} as const;
+
 // Registry and pool addresses - All fresh deployments
 export const CONTRACT_ADDRESSES = {
   DEX_REGISTRY: process.env.NEXT_PUBLIC_DEX_POOL_REGISTRY || '0x0',
@@ -94,7 +102,12 @@ export const IOTA_CONFIG = {
   network: DEFAULT_NETWORK,
   networks: IOTA_NETWORKS,
   packages: {
+    // Original publish: Pool, LPToken, OrderBook and every other type and event it defined keep
+    // this ID for good, so type and event filters use it
     core: BLITZZ_PACKAGE_ID[DEFAULT_NETWORK],
+    // Latest version: simple_dex calls, which only run upgraded code through this ID, and the
+    // types and events the upgrade added (PoolCreatedEvent)
+    upgraded: BLITZZ_UPGRADED_PACKAGE_ID[DEFAULT_NETWORK],
   },
   contracts: {
     registries: {
@@ -151,29 +164,21 @@ export const validateConfig = (): boolean => {
   return requiredAddresses.every(addr => addr !== '0x0' && addr.length === 66);
 };
 
-// Helper functions for getting specific configurations
-export const getTokenByType = (type: string) => {
-  return Object.values(SUPPORTED_COINS).find(coin => coin.type === type);
-};
-
-export const getTokenBySymbol = (symbol: string) => {
-  return SUPPORTED_COINS[symbol as keyof typeof SUPPORTED_COINS];
-};
+// Pools pinned through NEXT_PUBLIC_*_POOL_ID, used to seed on-chain discovery
+export const CONFIGURED_POOLS: ReadonlyArray<{ coinTypeA: string; coinTypeB: string; poolId: string }> = [
+  { coinTypeA: SUPPORTED_COINS.IOTA.type, coinTypeB: SUPPORTED_COINS.stIOTA.type, poolId: CONTRACT_ADDRESSES.POOLS.IOTA_STIOTA },
+  { coinTypeA: SUPPORTED_COINS.IOTA.type, coinTypeB: SUPPORTED_COINS.vUSD.type, poolId: CONTRACT_ADDRESSES.POOLS.IOTA_VUSD },
+  { coinTypeA: SUPPORTED_COINS.stIOTA.type, coinTypeB: SUPPORTED_COINS.vUSD.type, poolId: CONTRACT_ADDRESSES.POOLS.STIOTA_VUSD },
+];
 
+// Helper functions for getting specific configurations. Token lookups live in the token registry.
 export const getPoolId = (tokenA: string, tokenB: string): string => {
-  const pools = CONTRACT_ADDRESSES.POOLS;
-  
-  if ((tokenA === 'IOTA' && tokenB === 'stIOTA') || (tokenA === 'stIOTA' && tokenB === 'IOTA')) {
-    return pools.IOTA_STIOTA;
-  }
-  if ((tokenA === 'IOTA' && tokenB === 'vUSD') || (tokenA === 'vUSD' && tokenB === 'IOTA')) {
-    return pools.IOTA_VUSD;
-  }
-  if ((tokenA === 'stIOTA' && tokenB === 'vUSD') || (tokenA === 'vUSD' && tokenB === 'stIOTA')) {
-    return pools.STIOTA_VUSD;
-  }
-  
-  return '0x0';
+  const typeA = SUPPORTED_COINS[tokenA as keyof typeof SUPPORTED_COINS]?.type;
+  const typeB = SUPPORTED_COINS[tokenB as keyof typeof SUPPORTED_COINS]?.type;
+  const pool = CONFIGURED_POOLS.find(({ coinTypeA, coinTypeB }) =>
+    (coinTypeA === typeA && coinTypeB === typeB) || (coinTypeA === typeB && coinTypeB === typeA)
+  );
+  return pool?.poolId || '0x0';
 };
 
 export const getOrderBookId = (tokenA: string, tokenB: string): string => {
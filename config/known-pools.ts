@@ -1,12 +1,18 @@
 // Known pool IDs for quick lookup
-// These are pools that have been created and verified on-chain
+// These are pools that have been created and verified on-chain. Discovery finds the rest.
 
-import { SUPPORTED_COINS } from './iota.config';
+import { IOTA_NETWORKS } from './iota.config';
 
-export const KNOWN_POOLS = {
-  testnet: {
+export interface KnownPool {
+  poolId: string;
+  coinTypeA: string;
+  coinTypeB: string;
+}
+
+export const KNOWN_POOLS: Record<keyof typeof IOTA_NETWORKS, KnownPool[]> = {
+  testnet: [
     // Fresh reset - pools will be discovered from new transactions
-  },
-  mainnet: {},
-  devnet: {},
-};
\ No newline at end of file
+  ],
+  mainnet: [],
+  devnet: [],
+};
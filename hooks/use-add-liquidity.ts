@@ -2,11 +2,17 @@
 
 import { useState, useCallback } from 'react';
 import { useCurrentAccount, useSignAndExecuteTransaction, useIotaClient } from '@iota/dapp-kit';
+import { IotaTransactionBlockResponse } from '@iota/iota-sdk/client';
 import { Transaction } from '@iota/iota-sdk/transactions';
 import { toast } from 'sonner';
-import { parseTokenAmount, formatBalance } from '@/lib/utils/format';
-import { IOTA_CONFIG, SUPPORTED_COINS } from '@/config/iota.config';
+import { getErrorMessage } from '@/lib/errors';
+import { parseTokenAmount } from '@/lib/utils/format';
+import { IOTA_CONFIG } from '@/config/iota.config';
 import { PoolService } from '@/lib/services/pool-service';
+import { useTransactionPreflight } from '@/hooks/use-transaction-preflight';
+import { prepareCoinInput } from '@/lib/iota/coin-selection';
+import { getCreatedPoolId } from '@/lib/services/pool-discovery';
+import { isSameCoinType } from '@/lib/services/token-registry';
 
 interface AddLiquidityParams {
   tokenA: {
@@ -23,6 +29,19 @@ interface AddLiquidityParams {
   amountB: string;
 }
 
+interface ZapInParams {
+  tokenIn: {
+    type: string;
+    decimals: number;
+    symbol: string;
+  };
+  tokenOther: {
+    type: string;
+  };
+  amount: string;
+  slippageTolerance?: number; // Percent
+}
+
 interface AddLiquidityResult {
   success: boolean;
   digest?: string;
@@ -30,12 +49,63 @@ interface AddLiquidityResult {
   poolId?: string;
 }
 
+type Execution = { result: IotaTransactionBlockResponse; error?: never } | { result?: never; error: string };
+
 export function useAddLiquidity() {
   const client = useIotaClient();
   const currentAccount = useCurrentAccount();
   const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { preflight, lastPreflight } = useTransactionPreflight();
   const [isLoading, setIsLoading] = useState(false);
 
+  // Simulate, then sign and execute; failures are toasted here and come back as `error`
+  const execute = useCallback(async (tx: Transaction, sender: string): Promise<Execution> => {
+    const simulation = await preflight(tx, sender);
+    if (!simulation.success) {
+      return { error: simulation.error?.message || 'Transaction simulation failed' };
+    }
+
+    return new Promise((resolve) => {
+      signAndExecuteTransaction(
+        {
+          transaction: tx,
+          options: {
+            showEffects: true,
+            showEvents: true,
+            showObjectChanges: true,
+            showBalanceChanges: true,
+          },
+        },
+        {
+          onSuccess: (result) => {
+            const status = (result.effects as any)?.status?.status || (result.effects as any)?.status;
+            if (status === 'failure' || status === 'failed') {
+              const errorMsg = getErrorMessage((result.effects as any)?.status?.error, 'Transaction failed');
+              toast.error('Add liquidity failed', { description: errorMsg });
+              resolve({ error: errorMsg });
+              return;
+            }
+
+            resolve({ result: result as unknown as IotaTransactionBlockResponse });
+          },
+          onError: (error) => {
+            const errorMessage = getErrorMessage(error, 'Transaction failed');
+            let description = errorMessage;
+
+            if (errorMessage.includes('InsufficientGas')) {
+              description = 'Insufficient gas. Need at least 0.2 IOTA for fees';
+            } else if (errorMessage.includes('InsufficientBalance')) {
+              description = 'Insufficient token balance';
+            }
+
+            toast.error('Add liquidity failed', { description });
+            resolve({ error: errorMessage });
+          },
+        }
+      );
+    });
+  }, [signAndExecuteTransaction, preflight]);
+
   const addLiquidity = useCallback(async (params: AddLiquidityParams): Promise<AddLiquidityResult> => {
     if (!currentAccount?.address) {
       toast.error('Please connect your wallet');
@@ -49,186 +119,136 @@ export function useAddLiquidity() {
       const amountA = parseTokenAmount(params.amountA, params.tokenA.decimals);
       const amountB = parseTokenAmount(params.amountB, params.tokenB.decimals);
       
-      // Since no pools exist yet, we'll create a new pool
-      const pool = null;
+      const pool = await PoolService.findPool(params.tokenA.type, params.tokenB.type);
+
+      // No pool for the pair yet: these deposits create it, with the pair and minimum checks
+      const tx = pool
+        ? new Transaction()
+        : await PoolService.createPool(
+            {
+              coinTypeA: params.tokenA.type,
+              coinTypeB: params.tokenB.type,
+              amountA,
+              amountB,
+            },
+            currentAccount.address
+          );
+
+      if (pool) {
+        const packageId = IOTA_CONFIG.packages.upgraded;
 
-      // Get coins for both tokens
-      const [coinsA, coinsB] = await Promise.all([
-        client.getCoins({
+        // Prepare coins, paying IOTA from coins other than the gas coin where possible
+        const coinA = await prepareCoinInput(client, tx, {
           owner: currentAccount.address,
           coinType: params.tokenA.type,
-        }),
-        client.getCoins({
+          amount: amountA,
+        });
+        const coinB = await prepareCoinInput(client, tx, {
           owner: currentAccount.address,
           coinType: params.tokenB.type,
-        })
-      ]);
+          amount: amountB,
+        });
 
-      // Validate balances
-      if (!coinsA.data?.length) {
-        throw new Error(`No ${params.tokenA.symbol} balance found`);
-      }
-      if (!coinsB.data?.length) {
-        throw new Error(`No ${params.tokenB.symbol} balance found`);
+        // Reorder coins to match pool's type order
+        const isReversed = !isSameCoinType(pool.coinTypeA, params.tokenA.type);
+
+        tx.moveCall({
+          target: `${packageId}::simple_dex::add_liquidity`,
+          typeArguments: [pool.coinTypeA, pool.coinTypeB],
+          arguments: [
+            tx.object(pool.poolId),
+            isReversed ? coinB : coinA,
+            isReversed ? coinA : coinB,
+            tx.pure.u64(0n), // min LP amount
+          ],
+        });
       }
 
-      const totalBalanceA = coinsA.data.reduce((sum, coin) => sum + BigInt(coin.balance), 0n);
-      const totalBalanceB = coinsB.data.reduce((sum, coin) => sum + BigInt(coin.balance), 0n);
+      tx.setGasBudget(100000000); // 0.1 IOTA
 
-      if (totalBalanceA < amountA) {
-        throw new Error(`Insufficient ${params.tokenA.symbol} balance`);
-      }
-      if (totalBalanceB < amountB) {
-        throw new Error(`Insufficient ${params.tokenB.symbol} balance`);
+      const execution = await execute(tx, currentAccount.address);
+      if (!execution.result) {
+        return { success: false, error: execution.error };
       }
 
-      // For IOTA, ensure sufficient gas
-      const MIN_GAS_AMOUNT = 200000000n; // 0.2 IOTA
-      if (params.tokenA.type === SUPPORTED_COINS.IOTA.type && totalBalanceA < amountA + MIN_GAS_AMOUNT) {
-        throw new Error(`Need at least ${formatBalance((amountA + MIN_GAS_AMOUNT).toString(), 9, 4)} IOTA (including gas)`);
-      }
-      if (params.tokenB.type === SUPPORTED_COINS.IOTA.type && totalBalanceB < amountB + MIN_GAS_AMOUNT) {
-        throw new Error(`Need at least ${formatBalance((amountB + MIN_GAS_AMOUNT).toString(), 9, 4)} IOTA (including gas)`);
+      // A new pool is registered so swaps can find it right away
+      let poolId = pool?.poolId;
+      if (!pool) {
+        poolId = getCreatedPoolId(execution.result) ?? undefined;
+        if (poolId) {
+          PoolService.registerPool(poolId, params.tokenA.type, params.tokenB.type);
+        }
       }
 
-      // Build transaction
-      const tx = new Transaction();
-      const packageId = IOTA_CONFIG.packages.core;
+      // Clear pool cache to refresh with new data
+      PoolService.clearCache();
 
-      // Prepare coins
-      let coinA, coinB;
+      toast.success('Liquidity added successfully!', {
+        description: `Transaction: ${execution.result.digest.slice(0, 10)}...`,
+      });
 
-      // Handle token A
-      if (params.tokenA.type === SUPPORTED_COINS.IOTA.type) {
-        [coinA] = tx.splitCoins(tx.gas, [amountA]);
-      } else {
-        const coinRefsA = coinsA.data.map(coin => tx.object(coin.coinObjectId));
-        if (coinRefsA.length > 1) {
-          tx.mergeCoins(coinRefsA[0], coinRefsA.slice(1));
-        }
-        [coinA] = tx.splitCoins(coinRefsA[0], [amountA]);
-      }
+      return {
+        success: true,
+        digest: execution.result.digest,
+        ...(poolId && { poolId }),
+      };
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Unknown error');
+      toast.error('Add liquidity failed', { description: errorMessage });
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentAccount, client, execute]);
 
-      // Handle token B
-      if (params.tokenB.type === SUPPORTED_COINS.IOTA.type) {
-        [coinB] = tx.splitCoins(tx.gas, [amountB]);
-      } else {
-        const coinRefsB = coinsB.data.map(coin => tx.object(coin.coinObjectId));
-        if (coinRefsB.length > 1) {
-          tx.mergeCoins(coinRefsB[0], coinRefsB.slice(1));
-        }
-        [coinB] = tx.splitCoins(coinRefsB[0], [amountB]);
-      }
+  /**
+   * Deposit a single token: part of it is swapped for the other side of the pool in the same
+   * transaction and the dust is returned. Needs a pool that already has liquidity.
+   */
+  const zapIn = useCallback(async (params: ZapInParams): Promise<AddLiquidityResult> => {
+    if (!currentAccount?.address) {
+      toast.error('Please connect your wallet');
+      return { success: false, error: 'Wallet not connected' };
+    }
 
-      // Add move call
-      if (pool) {
-        // Add liquidity to existing pool
-        const typeArguments = [pool.coinTypeA, pool.coinTypeB];
-        let orderedCoinA = coinA;
-        let orderedCoinB = coinB;
-        
-        // Reorder coins to match pool's type order
-        if (pool.coinTypeA !== params.tokenA.type) {
-          orderedCoinA = coinB;
-          orderedCoinB = coinA;
-        }
-        
-        tx.moveCall({
-          target: `${packageId}::simple_dex::add_liquidity`,
-          typeArguments,
-          arguments: [
-            tx.object(pool.poolId),
-            orderedCoinA,
-            orderedCoinB,
-            tx.pure.u64(0n), // min LP amount
-          ],
-        });
-      } else {
-        // Create new pool
-        tx.moveCall({
-          target: `${packageId}::simple_dex::create_pool`,
-          typeArguments: [params.tokenA.type, params.tokenB.type],
-          arguments: [coinA, coinB, tx.object('0x6')], // 0x6 is the Clock object
-        });
+    setIsLoading(true);
+
+    try {
+      const tx = await PoolService.zapIn(
+        {
+          coinTypeIn: params.tokenIn.type,
+          coinTypeOther: params.tokenOther.type,
+          amountIn: parseTokenAmount(params.amount, params.tokenIn.decimals),
+          ...(params.slippageTolerance !== undefined && { slippageTolerance: params.slippageTolerance }),
+        },
+        currentAccount.address
+      );
+
+      const execution = await execute(tx, currentAccount.address);
+      if (!execution.result) {
+        return { success: false, error: execution.error };
       }
 
-      tx.setGasBudget(100000000); // 0.1 IOTA
+      PoolService.clearCache();
 
-      // Execute transaction
-      return new Promise((resolve) => {
-        signAndExecuteTransaction(
-          {
-            transaction: tx,
-            options: {
-              showEffects: true,
-              showEvents: true,
-              showObjectChanges: true,
-              showBalanceChanges: true,
-            },
-          },
-          {
-            onSuccess: (result) => {
-              const status = (result.effects as any)?.status?.status || (result.effects as any)?.status;
-              if (status === 'failure' || status === 'failed') {
-                const errorMsg = (result.effects as any)?.status?.error || 'Transaction failed';
-                toast.error('Add liquidity failed', { description: errorMsg });
-                resolve({ success: false, error: errorMsg });
-                return;
-              }
-
-              // Clear pool cache to refresh with new pool
-              let poolId = pool?.poolId;
-              if (!pool && (result as any).objectChanges) {
-                const createdPool = (result as any).objectChanges.find(
-                  (change: any) => change.type === 'created' && 
-                  change.objectType?.includes('::simple_dex::Pool')
-                );
-                
-                if (createdPool && createdPool.objectId) {
-                  poolId = createdPool.objectId;
-                }
-              }
-
-              // Clear pool cache to refresh with new data
-              PoolService.clearCache();
-
-              toast.success('Liquidity added successfully!', {
-                description: `Transaction: ${result.digest.slice(0, 10)}...`,
-              });
-
-              resolve({
-                success: true,
-                digest: result.digest,
-                poolId,
-              });
-            },
-            onError: (error) => {
-              const errorMessage = error?.message || 'Transaction failed';
-              let description = errorMessage;
-
-              if (errorMessage.includes('InsufficientGas')) {
-                description = 'Insufficient gas. Need at least 0.2 IOTA for fees';
-              } else if (errorMessage.includes('InsufficientBalance')) {
-                description = 'Insufficient token balance';
-              }
-
-              toast.error('Add liquidity failed', { description });
-              resolve({ success: false, error: errorMessage });
-            },
-          }
-        );
+      toast.success(`Zapped ${params.amount} ${params.tokenIn.symbol} into the pool`, {
+        description: `Transaction: ${execution.result.digest.slice(0, 10)}...`,
       });
+
+      return { success: true, digest: execution.result.digest };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorMessage = getErrorMessage(error, 'Unknown error');
       toast.error('Add liquidity failed', { description: errorMessage });
       return { success: false, error: errorMessage };
     } finally {
       setIsLoading(false);
     }
-  }, [currentAccount, signAndExecuteTransaction, client]);
+  }, [currentAccount, execute]);
 
   return {
     addLiquidity,
+    zapIn,
     isLoading,
+    lastPreflight,
   };
 }
\ No newline at end of file
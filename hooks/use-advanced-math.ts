@@ -1,6 +1,7 @@
 'use client';
 
 import { useCallback } from 'react';
+import { quoteExactInput } from '@/lib/utils/swap-math';
 
 interface FixedPoint {
   value: string; // Raw value as string to handle large numbers
@@ -48,13 +49,13 @@ export function useAdvancedMath() {
     return { value: result.toString() };
   }, []);
 
-  // Newton's method for square root
+  // Newton's method for square root, sqrt(x * PRECISION) keeps the result at PRECISION scale
   const sqrt = useCallback((x: FixedPoint): FixedPoint => {
-    const bigX = BigInt(x.value);
+    const bigX = BigInt(x.value) * PRECISION;
     if (bigX === 0n) return { value: '0' };
 
     let z = bigX;
-    let y = (z + PRECISION) / 2n;
+    let y = (z + 1n) / 2n;
 
     while (y < z) {
       z = y;
@@ -91,7 +92,8 @@ export function useAdvancedMath() {
   ): FixedPoint => {
     const principalFp = fromU64(principal);
     const rateFp = fromU64(Math.floor(rate * 1000000)); // Convert to fixed point with 6 decimals
-    const ratePerPeriod = div(rateFp, fromU64(periodsPerYear * 1000000));
+    // Percent to a fraction per period: rate / 100 / periodsPerYear, undoing the 6 decimals
+    const ratePerPeriod = div(rateFp, fromU64(periodsPerYear * 100 * 1000000));
     const onePlusRate = add(fromU64(1), ratePerPeriod);
     const totalPeriods = periodsPerYear * years;
     const compoundFactor = pow(onePlusRate, totalPeriods);
@@ -100,19 +102,20 @@ export function useAdvancedMath() {
   }, [fromU64, div, add, pow, mul]);
 
   const calculateImpermanentLoss = useCallback((priceRatio: number): number => {
-    // IL = 2 * sqrt(ratio) / (1 + ratio) - 1
-    const ratio = fromU64(Math.floor(priceRatio * 1000000));
+    // IL = 2 * sqrt(ratio) / (1 + ratio) - 1, never positive
+    const ratio = div(fromU64(Math.floor(priceRatio * 1000000)), fromU64(1000000));
     const sqrtRatio = sqrt(ratio);
-    const two = fromU64(2000000);
-    const one = fromU64(1000000);
+    const two = fromU64(2);
+    const one = fromU64(1);
     
     const numerator = mul(two, sqrtRatio);
     const denominator = add(one, ratio);
     const fraction = div(numerator, denominator);
-    const result = sub(fraction, one);
+    // fraction <= 1 up to rounding, so take the loss as 1 - fraction to stay unsigned
+    const loss = BigInt(fraction.value) < BigInt(one.value) ? sub(one, fraction) : fromRaw('0');
     
-    return parseFloat(toU64(result)) / 1000000;
-  }, [fromU64, sqrt, mul, add, div, sub, toU64]);
+    return -Number(BigInt(loss.value) * 1000000n / PRECISION) / 1000000;
+  }, [fromU64, fromRaw, sqrt, mul, add, div, sub]);
 
   const calculateSlippage = useCallback((
     inputAmount: string,
@@ -132,21 +135,14 @@ export function useAdvancedMath() {
     reserveOut: string,
     amountIn: string
   ): number => {
-    const rIn = parseFloat(reserveIn);
-    const rOut = parseFloat(reserveOut);
-    const aIn = parseFloat(amountIn);
+    // Smallest-unit amounts, quoted with the on-chain swap math
+    const rIn = BigInt(reserveIn);
+    const rOut = BigInt(reserveOut);
+    const aIn = BigInt(amountIn);
     
-    if (rIn === 0 || rOut === 0) return 0;
+    if (rIn === 0n || rOut === 0n) return 0;
     
-    // Price before trade
-    const priceBefore = rOut / rIn;
-    
-    // Price after trade (with 0.3% fee)
-    const newReserveIn = rIn + (aIn * 0.997);
-    const newReserveOut = (rIn * rOut) / newReserveIn;
-    const priceAfter = newReserveOut / newReserveIn;
-    
-    return ((priceBefore - priceAfter) / priceBefore) * 100;
+    return quoteExactInput(aIn, rIn, rOut).priceImpact;
   }, []);
 
   const calculateLPTokenValue = useCallback((
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useCurrentAccount, useSignAndExecuteTransaction } from '@iota/dapp-kit';
+import { toast } from 'sonner';
+import { getErrorMessage } from '@/lib/errors';
+import { parseTokenAmount } from '@/lib/utils/format';
+import { PoolService } from '@/lib/services/pool-service';
+import { getCreatedPoolId } from '@/lib/services/pool-discovery';
+import { useTransactionPreflight } from '@/hooks/use-transaction-preflight';
+
+interface CreatePoolToken {
+  type: string;
+  decimals: number;
+  symbol: string;
+}
+
+interface CreatePoolParams {
+  tokenA: CreatePoolToken;
+  tokenB: CreatePoolToken;
+  amountA: string;
+  amountB: string;
+}
+
+interface CreatePoolResult {
+  success: boolean;
+  digest?: string;
+  error?: string;
+  poolId?: string;
+}
+
+export function useCreatePool() {
+  const currentAccount = useCurrentAccount();
+  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { preflight, lastPreflight } = useTransactionPreflight();
+  const [isCreating, setIsCreating] = useState(false);
+
+  const createPool = useCallback(async (params: CreatePoolParams): Promise<CreatePoolResult> => {
+    if (!currentAccount?.address) {
+      toast.error('Please connect your wallet');
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    setIsCreating(true);
+
+    try {
+      // Checks the pair, the minimum liquidity and the balances before anything is signed
+      const tx = await PoolService.createPool(
+        {
+          coinTypeA: params.tokenA.type,
+          coinTypeB: params.tokenB.type,
+          amountA: parseTokenAmount(params.amountA, params.tokenA.decimals),
+          amountB: parseTokenAmount(params.amountB, params.tokenB.decimals),
+        },
+        currentAccount.address
+      );
+
+      // Simulate before the wallet prompt
+      const simulation = await preflight(tx, currentAccount.address);
+      if (!simulation.success) {
+        return { success: false, error: simulation.error?.message || 'Transaction simulation failed' };
+      }
+
+      return new Promise((resolve) => {
+        signAndExecuteTransaction(
+          {
+            transaction: tx,
+            options: {
+              showEffects: true,
+              showObjectChanges: true,
+            },
+          },
+          {
+            onSuccess: (result) => {
+              const status = (result.effects as any)?.status?.status || (result.effects as any)?.status;
+              if (status === 'failure' || status === 'failed') {
+                const errorMsg = getErrorMessage((result.effects as any)?.status?.error, 'Transaction failed');
+                toast.error('Pool creation failed', { description: errorMsg });
+                resolve({ success: false, error: errorMsg });
+                return;
+              }
+
+              const poolId = getCreatedPoolId(result as any);
+              if (poolId) {
+                PoolService.registerPool(poolId, params.tokenA.type, params.tokenB.type);
+              }
+
+              toast.success(`${params.tokenA.symbol}/${params.tokenB.symbol} pool created!`, {
+                description: poolId
+                  ? `Pool: ${poolId.slice(0, 10)}...`
+                  : `Transaction: ${result.digest.slice(0, 10)}...`,
+              });
+
+              resolve({
+                success: true,
+                digest: result.digest,
+                ...(poolId && { poolId }),
+              });
+            },
+            onError: (error) => {
+              const errorMessage = getErrorMessage(error, 'Transaction failed');
+              toast.error('Pool creation failed', { description: errorMessage });
+              resolve({ success: false, error: errorMessage });
+            },
+          }
+        );
+      });
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Unknown error');
+      toast.error('Pool creation failed', { description: errorMessage });
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsCreating(false);
+    }
+  }, [currentAccount, signAndExecuteTransaction, preflight]);
+
+  return {
+    createPool,
+    isCreating,
+    lastPreflight,
+  };
+}
@@ -6,6 +6,7 @@ import { useCurrentAccount, useSignAndExecuteTransaction, useIotaClient } from '
 import { DCAService, DCAStrategy, CreateDCAParams, DCAExecutionEvent } from '@/lib/services/dca-service';
 import { PoolService } from '@/lib/services/pool-service';
 import { toast } from 'sonner';
+import { getErrorMessage } from '@/lib/errors';
 
 interface UseDCAV2Result {
   strategies: DCAStrategy[];
@@ -83,13 +84,8 @@ export function useDCAV2(): UseDCAV2Result {
       const pool = await PoolService.findPool(params.sourceTokenType, params.targetTokenType);
       if (!pool) throw new Error('No pool found for this token pair');
 
-      // Create transaction
-      const tx = await DCAService.createDCAStrategy(client, {
-        ...params,
-        poolId: pool.poolId,
-      });
-
-      tx.setGasBudget(200000000); // 0.2 IOTA for strategy creation
+      // Funded from the sender's coins, with the gas budget they were selected against
+      const tx = await DCAService.createStrategy(params, currentAccount.address);
 
       return new Promise<{ success: boolean; error?: string }>((resolve) => {
         signAndExecuteTransaction(
@@ -107,7 +103,7 @@ export function useDCAV2(): UseDCAV2Result {
               const status = (result.effects as any)?.status?.status || (result.effects as any)?.status;
               
               if (status === 'failure' || status === 'failed') {
-                const errorMsg = (result.effects as any)?.status?.error || 'Transaction failed on chain';
+                const errorMsg = getErrorMessage((result.effects as any)?.status?.error, 'Transaction failed on chain');
                 console.error('❌ DCA transaction failed:', errorMsg);
                 resolve({ success: false, error: errorMsg });
                 return;
@@ -120,7 +116,7 @@ export function useDCAV2(): UseDCAV2Result {
             },
             onError: (error) => {
               console.error('❌ Transaction error:', error?.message);
-              const errorMsg = error?.message || 'Failed to create DCA strategy';
+              const errorMsg = getErrorMessage(error, 'Failed to create DCA strategy');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -164,7 +160,7 @@ export function useDCAV2(): UseDCAV2Result {
               resolve(true);
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to execute DCA order';
+              const errorMsg = getErrorMessage(error, 'Failed to execute DCA order');
               toast.error(errorMsg);
               resolve(false);
             },
@@ -203,7 +199,7 @@ export function useDCAV2(): UseDCAV2Result {
               const status = (result.effects as any)?.status?.status || (result.effects as any)?.status;
               
               if (status === 'failure' || status === 'failed') {
-                const errorMsg = (result.effects as any)?.status?.error || 'Registry creation failed on chain';
+                const errorMsg = getErrorMessage((result.effects as any)?.status?.error, 'Registry creation failed on chain');
                 console.error('❌ Registry creation failed:', errorMsg);
                 resolve({ success: false, error: errorMsg });
                 return;
@@ -303,7 +299,7 @@ export function useDCAV2(): UseDCAV2Result {
             },
             onError: (error) => {
               console.error('❌ Registry creation error:', error?.message);
-              const errorMsg = error?.message || 'Failed to create DCA registry';
+              const errorMsg = getErrorMessage(error, 'Failed to create DCA registry');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -311,7 +307,7 @@ export function useDCAV2(): UseDCAV2Result {
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to create registry';
+      const errorMsg = getErrorMessage(error, 'Failed to create registry');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -325,7 +321,7 @@ export function useDCAV2(): UseDCAV2Result {
       const result = await createStrategyMutation.mutateAsync(params);
       return result;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to create strategy';
+      const errorMsg = getErrorMessage(error, 'Failed to create strategy');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -338,7 +334,7 @@ export function useDCAV2(): UseDCAV2Result {
       const success = await executeOrderMutation.mutateAsync(strategy);
       return { success };
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to execute order';
+      const errorMsg = getErrorMessage(error, 'Failed to execute order');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -376,7 +372,7 @@ export function useDCAV2(): UseDCAV2Result {
               resolve({ success: true });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to pause strategy';
+              const errorMsg = getErrorMessage(error, 'Failed to pause strategy');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -384,7 +380,7 @@ export function useDCAV2(): UseDCAV2Result {
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to pause strategy';
+      const errorMsg = getErrorMessage(error, 'Failed to pause strategy');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -421,7 +417,7 @@ export function useDCAV2(): UseDCAV2Result {
               resolve({ success: true });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to resume strategy';
+              const errorMsg = getErrorMessage(error, 'Failed to resume strategy');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -429,7 +425,7 @@ export function useDCAV2(): UseDCAV2Result {
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to resume strategy';
+      const errorMsg = getErrorMessage(error, 'Failed to resume strategy');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -466,7 +462,7 @@ export function useDCAV2(): UseDCAV2Result {
               resolve({ success: true });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to cancel strategy';
+              const errorMsg = getErrorMessage(error, 'Failed to cancel strategy');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -474,7 +470,7 @@ export function useDCAV2(): UseDCAV2Result {
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to cancel strategy';
+      const errorMsg = getErrorMessage(error, 'Failed to cancel strategy');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -7,6 +7,7 @@ import { DCAService, DCAStrategy, CreateDCAParams } from '@/lib/services/dca-ser
 import { PoolService } from '@/lib/services/pool-service';
 import { parseTokenAmount } from '@/lib/utils/format';
 import { toast } from 'sonner';
+import { getErrorMessage } from '@/lib/errors';
 
 interface UseDCAResult {
   strategies: DCAStrategy[];
@@ -74,14 +75,8 @@ export function useDCA(): UseDCAResult {
         return { success: false, error: 'No pool found for this token pair' };
       }
 
-      // Create the transaction
-      const tx = await DCAService.createDCAStrategy(client, {
-        ...params,
-        poolId: pool.poolId,
-      });
-
-      // Set gas budget
-      tx.setGasBudget(100000000); // 0.1 IOTA
+      // Funded from the sender's coins, with the gas budget they were selected against
+      const tx = await DCAService.createStrategy(params, currentAccount.address);
 
       return new Promise((resolve) => {
         signAndExecuteTransaction(
@@ -110,7 +105,7 @@ export function useDCA(): UseDCAResult {
               resolve({ success: true, strategyId });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to create DCA strategy';
+              const errorMsg = getErrorMessage(error, 'Failed to create DCA strategy');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -118,7 +113,7 @@ export function useDCA(): UseDCAResult {
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to create DCA strategy';
+      const errorMsg = getErrorMessage(error, 'Failed to create DCA strategy');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -169,7 +164,7 @@ export function useDCA(): UseDCAResult {
               resolve({ success: true });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to execute DCA order';
+              const errorMsg = getErrorMessage(error, 'Failed to execute DCA order');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -177,7 +172,7 @@ export function useDCA(): UseDCAResult {
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to execute DCA order';
+      const errorMsg = getErrorMessage(error, 'Failed to execute DCA order');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -218,7 +213,7 @@ export function useDCA(): UseDCAResult {
               resolve({ success: true });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to pause DCA strategy';
+              const errorMsg = getErrorMessage(error, 'Failed to pause DCA strategy');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -226,7 +221,7 @@ export function useDCA(): UseDCAResult {
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to pause DCA strategy';
+      const errorMsg = getErrorMessage(error, 'Failed to pause DCA strategy');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -267,7 +262,7 @@ export function useDCA(): UseDCAResult {
               resolve({ success: true });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to resume DCA strategy';
+              const errorMsg = getErrorMessage(error, 'Failed to resume DCA strategy');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -275,7 +270,7 @@ export function useDCA(): UseDCAResult {
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to resume DCA strategy';
+      const errorMsg = getErrorMessage(error, 'Failed to resume DCA strategy');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -316,7 +311,7 @@ export function useDCA(): UseDCAResult {
               resolve({ success: true });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to cancel DCA strategy';
+              const errorMsg = getErrorMessage(error, 'Failed to cancel DCA strategy');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -324,7 +319,7 @@ export function useDCA(): UseDCAResult {
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to cancel DCA strategy';
+      const errorMsg = getErrorMessage(error, 'Failed to cancel DCA strategy');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -136,14 +136,14 @@ export function useFlashLoan() {
         onBorrowed: (tx, borrowedCoin) => {
           // Step 1: Swap on Pool A
           const [receivedTokens] = tx.moveCall({
-            target: `${IOTA_CONFIG.packages.core}::simple_dex::swap_a_to_b`,
+            target: `${IOTA_CONFIG.packages.upgraded}::simple_dex::swap_a_to_b`,
             typeArguments: [tokenIn, tokenOut],
             arguments: [tx.object(poolA), borrowedCoin],
           });
 
           // Step 2: Swap back on Pool B 
           const [finalTokens] = tx.moveCall({
-            target: `${IOTA_CONFIG.packages.core}::simple_dex::swap_b_to_a`,
+            target: `${IOTA_CONFIG.packages.upgraded}::simple_dex::swap_b_to_a`,
             typeArguments: [tokenOut, tokenIn],
             arguments: [tx.object(poolB), receivedTokens],
           });
@@ -186,7 +186,7 @@ export function useFlashLoan() {
 
           // Step 2: Swap collateral to debt token to repay flash loan
           const [swappedTokens] = tx.moveCall({
-            target: `${IOTA_CONFIG.packages.core}::simple_dex::swap_a_to_b`,
+            target: `${IOTA_CONFIG.packages.upgraded}::simple_dex::swap_a_to_b`,
             typeArguments: [collateralToken, debtToken],
             arguments: [tx.object('COLLATERAL_TO_DEBT_POOL'), unlockedCollateral],
           });
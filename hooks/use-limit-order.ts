@@ -2,14 +2,18 @@
 
 import { useState } from 'react';
 import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
-import { useCurrentAccount, useSignAndExecuteTransaction, useIotaClient } from '@iota/dapp-kit';
+import { useCurrentAccount, useSignAndExecuteTransaction } from '@iota/dapp-kit';
 import { 
   LimitOrderService, 
   LimitOrder, 
-  CreateLimitOrderParams,
-  LimitOrderEvent 
+  CreateLimitOrderParams
 } from '@/lib/services/limit-order-service';
+import { OrderHistoryService } from '@/lib/services/order-history-service';
+import { isSameCoinType } from '@/lib/services/token-registry';
 import { toast } from 'sonner';
+import { getErrorMessage } from '@/lib/errors';
+import { useTransactionPreflight } from '@/hooks/use-transaction-preflight';
+import { PreflightResult } from '@/lib/iota/preflight';
 
 interface UseLimitOrderResult {
   orders: LimitOrder[];
@@ -18,20 +22,23 @@ interface UseLimitOrderResult {
   
   // Order management
   placeLimitOrder: (params: CreateLimitOrderParams) => Promise<{ success: boolean; error?: string }>;
-  cancelOrder: (orderId: string, orderBookId: string, sourceTokenType: string, targetTokenType: string) => Promise<{ success: boolean; error?: string }>;
+  cancelOrder: (order: LimitOrder) => Promise<{ success: boolean; error?: string }>;
   
   // Data queries
   refetch: () => void;
+
+  // Dry-run outcome of the last order transaction
+  lastPreflight: PreflightResult | null;
 }
 
 export function useLimitOrder(
   sourceTokenType?: string,
   targetTokenType?: string
 ): UseLimitOrderResult {
-  const client = useIotaClient();
   const currentAccount = useCurrentAccount();
   const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
   const queryClient = useQueryClient();
+  const { preflight, lastPreflight } = useTransactionPreflight();
   const [isExecuting, setIsExecuting] = useState(false);
 
   // Fetch user limit orders
@@ -44,7 +51,15 @@ export function useLimitOrder(
     queryKey: ['limit-orders', currentAccount?.address, sourceTokenType, targetTokenType],
     queryFn: async () => {
       if (!currentAccount?.address || !sourceTokenType || !targetTokenType) return [];
-      return LimitOrderService.getUserOrders(client, currentAccount.address, sourceTokenType, targetTokenType);
+      const { orders } = await OrderHistoryService.getOrderHistory(currentAccount.address, {
+        filter: 'open',
+        pageSize: Number.MAX_SAFE_INTEGER, // Every open order on one page
+      });
+      // The pair's book may list it either way round
+      return orders.filter(order =>
+        (isSameCoinType(order.baseTokenType, sourceTokenType) && isSameCoinType(order.quoteTokenType, targetTokenType)) ||
+        (isSameCoinType(order.baseTokenType, targetTokenType) && isSameCoinType(order.quoteTokenType, sourceTokenType))
+      );
     },
     enabled: !!currentAccount?.address && !!sourceTokenType && !!targetTokenType,
     refetchInterval: 30000, // Refetch every 30 seconds
@@ -56,7 +71,14 @@ export function useLimitOrder(
     mutationFn: async (params: CreateLimitOrderParams) => {
       if (!currentAccount) throw new Error('Wallet not connected');
 
-      const tx = await LimitOrderService.placeLimitOrder(client, params);
+      // Fails before the wallet prompt when the sender's coins can't fund the order
+      const tx = await LimitOrderService.createOrder(params, currentAccount.address);
+
+      // Simulate before the wallet prompt
+      const simulation = await preflight(tx, currentAccount.address);
+      if (!simulation.success) {
+        return { success: false, error: simulation.error?.message || 'Transaction simulation failed' };
+      }
 
       return new Promise<{ success: boolean; error?: string }>((resolve) => {
         signAndExecuteTransaction(
@@ -73,21 +95,21 @@ export function useLimitOrder(
               const status = (result.effects as any)?.status?.status || (result.effects as any)?.status;
               
               if (status === 'failure' || status === 'failed') {
-                const errorMsg = (result.effects as any)?.status?.error || 'Transaction failed on chain';
+                const errorMsg = getErrorMessage((result.effects as any)?.status?.error, 'Transaction failed on chain');
                 console.error('❌ Limit order placement failed:', errorMsg);
                 resolve({ success: false, error: errorMsg });
                 return;
               }
 
               console.log('✅ Limit order placed successfully');
-              const orderType = params.isBuy ? 'buy' : 'sell';
-              toast.success(`${orderType} order placed successfully!`);
+              toast.success(`${params.orderType} order placed successfully!`);
               queryClient.invalidateQueries({ queryKey: ['limit-orders'] });
+              queryClient.invalidateQueries({ queryKey: ['order-history'] });
               resolve({ success: true });
             },
             onError: (error) => {
               console.error('❌ Limit order error:', error?.message);
-              const errorMsg = error?.message || 'Failed to place limit order';
+              const errorMsg = getErrorMessage(error, 'Failed to place limit order');
               toast.error(errorMsg);
               resolve({ success: false, error: errorMsg });
             },
@@ -99,23 +121,18 @@ export function useLimitOrder(
 
   // Cancel order mutation
   const cancelOrderMutation = useMutation({
-    mutationFn: async ({ orderId, orderBookId, sourceTokenType, targetTokenType }: {
-      orderId: string;
-      orderBookId: string;
-      sourceTokenType: string;
-      targetTokenType: string;
-    }) => {
+    mutationFn: async (order: LimitOrder) => {
       if (!currentAccount) throw new Error('Wallet not connected');
 
-      const tx = await LimitOrderService.cancelLimitOrder(
-        client,
-        orderBookId,
-        orderId,
-        sourceTokenType,
-        targetTokenType
-      );
+      // Cancelled on the order's book, by its ID
+      const tx = await LimitOrderService.cancelOrder(order);
 
-      return new Promise<boolean>((resolve) => {
+      const simulation = await preflight(tx, currentAccount.address);
+      if (!simulation.success) {
+        return { success: false, error: simulation.error?.message || 'Transaction simulation failed' };
+      }
+
+      return new Promise<{ success: boolean; error?: string }>((resolve) => {
         signAndExecuteTransaction(
           {
             transaction: tx,
@@ -126,14 +143,24 @@ export function useLimitOrder(
           },
           {
             onSuccess: (result) => {
+              const status = (result.effects as any)?.status?.status || (result.effects as any)?.status;
+
+              if (status === 'failure' || status === 'failed') {
+                const errorMsg = getErrorMessage((result.effects as any)?.status?.error, 'Transaction failed on chain');
+                toast.error(errorMsg);
+                resolve({ success: false, error: errorMsg });
+                return;
+              }
+
               toast.success('Order cancelled successfully');
               queryClient.invalidateQueries({ queryKey: ['limit-orders'] });
-              resolve(true);
+              queryClient.invalidateQueries({ queryKey: ['order-history'] });
+              resolve({ success: true });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Failed to cancel order';
+              const errorMsg = getErrorMessage(error, 'Failed to cancel order');
               toast.error(errorMsg);
-              resolve(false);
+              resolve({ success: false, error: errorMsg });
             },
           }
         );
@@ -148,30 +175,19 @@ export function useLimitOrder(
       const result = await placeLimitOrderMutation.mutateAsync(params);
       return result;
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to place limit order';
+      const errorMsg = getErrorMessage(error, 'Failed to place limit order');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
     }
   };
 
-  const cancelOrder = async (
-    orderId: string, 
-    orderBookId: string, 
-    sourceTokenType: string, 
-    targetTokenType: string
-  ): Promise<{ success: boolean; error?: string }> => {
+  const cancelOrder = async (order: LimitOrder): Promise<{ success: boolean; error?: string }> => {
     try {
       setIsExecuting(true);
-      const success = await cancelOrderMutation.mutateAsync({
-        orderId,
-        orderBookId,
-        sourceTokenType,
-        targetTokenType,
-      });
-      return { success };
+      return await cancelOrderMutation.mutateAsync(order);
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Failed to cancel order';
+      const errorMsg = getErrorMessage(error, 'Failed to cancel order');
       return { success: false, error: errorMsg };
     } finally {
       setIsExecuting(false);
@@ -187,5 +203,7 @@ export function useLimitOrder(
     cancelOrder,
     
     refetch,
+
+    lastPreflight,
   };
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useCurrentAccount } from '@iota/dapp-kit';
+import { LPPositionService, LPPosition } from '@/lib/services/lp-position-service';
+import { getTokenByType } from '@/lib/services/token-registry';
+import { getPriceForType } from '@/lib/services/price-feed';
+import { useTokenPrices } from '@/hooks/use-token-price';
+import { useAdvancedMath } from '@/hooks/use-advanced-math';
+
+interface PositionToken {
+  type: string;
+  symbol: string;
+  decimals: number;
+  iconUrl?: string;
+}
+
+export interface LPPositionAnalytics extends LPPosition {
+  tokenA: PositionToken;
+  tokenB: PositionToken;
+  valueUsd: number; // Current underlying
+  entryValueUsd: number | null; // The deposited amounts at today's prices, i.e. the HODL value
+  feesEarnedUsd: number;
+  impermanentLoss: number | null; // Fraction, zero or negative
+  pnlVsHodlUsd: number | null; // valueUsd - entryValueUsd, fees included
+}
+
+interface UseLPPositionsResult {
+  positions: LPPositionAnalytics[];
+  totalValueUsd: number;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+// Unknown tokens fall back to the tail of their type and 9 decimals
+const toPositionToken = (type: string): PositionToken => {
+  const token = getTokenByType(type);
+  return token
+    ? { type, symbol: token.symbol, decimals: token.decimals, ...(token.iconUrl && { iconUrl: token.iconUrl }) }
+    : { type, symbol: type.split('::').pop() || 'UNKNOWN', decimals: 9 };
+};
+
+/**
+ * The connected wallet's LP positions with their USD value, fees earned and impermanent loss.
+ * Tokens without a price feed are valued at zero, and so are unverified tokens whatever their symbol.
+ */
+export function useLPPositions(): UseLPPositionsResult {
+  const currentAccount = useCurrentAccount();
+  const { calculateImpermanentLoss } = useAdvancedMath();
+  const [rawPositions, setRawPositions] = useState<LPPosition[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const fetchPositions = useCallback(async () => {
+    if (!currentAccount?.address) {
+      setRawPositions([]);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      setError(null);
+      setRawPositions(await LPPositionService.getPositions(currentAccount.address));
+    } catch (err) {
+      setError(err instanceof Error ? err : new Error('Failed to load LP positions'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentAccount?.address]);
+
+  useEffect(() => {
+    fetchPositions();
+
+    // Listen for pool cache refresh events
+    window.addEventListener('pool-cache-refresh', fetchPositions);
+    return () => window.removeEventListener('pool-cache-refresh', fetchPositions);
+  }, [fetchPositions]);
+
+  const symbols = useMemo(() => {
+    const types = new Set(rawPositions.flatMap(position => [position.coinTypeA, position.coinTypeB]));
+    return [...types].map(type => toPositionToken(type).symbol);
+  }, [rawPositions]);
+  const { prices } = useTokenPrices(symbols);
+
+  const positions = useMemo(() => rawPositions.map((position): LPPositionAnalytics => {
+    const tokenA = toPositionToken(position.coinTypeA);
+    const tokenB = toPositionToken(position.coinTypeB);
+    const toUsd = (amountA: bigint, amountB: bigint) =>
+      (Number(amountA) / 10 ** tokenA.decimals) * (getPriceForType(prices, tokenA.type) || 0) +
+      (Number(amountB) / 10 ** tokenB.decimals) * (getPriceForType(prices, tokenB.type) || 0);
+
+    const valueUsd = toUsd(position.amountA, position.amountB);
+    const entryValueUsd = position.entry ? toUsd(position.entry.amountA, position.entry.amountB) : null;
+
+    return {
+      ...position,
+      tokenA,
+      tokenB,
+      valueUsd,
+      entryValueUsd,
+      feesEarnedUsd: toUsd(position.feesEarnedA, position.feesEarnedB),
+      impermanentLoss: position.priceRatio !== null ? calculateImpermanentLoss(position.priceRatio) : null,
+      pnlVsHodlUsd: entryValueUsd !== null ? valueUsd - entryValueUsd : null,
+    };
+  }), [rawPositions, prices, calculateImpermanentLoss]);
+
+  return {
+    positions,
+    totalValueUsd: positions.reduce((total, position) => total + position.valueUsd, 0),
+    isLoading,
+    error,
+    refetch: fetchPositions,
+  };
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useCurrentAccount, useSignAndExecuteTransaction } from '@iota/dapp-kit';
+import { Transaction } from '@iota/iota-sdk/transactions';
+import { toast } from 'sonner';
+import { getErrorMessage } from '@/lib/errors';
+import { PoolService } from '@/lib/services/pool-service';
+import { useTransactionPreflight } from '@/hooks/use-transaction-preflight';
+import { LPTokenPosition } from '@/hooks/use-lp-tokens';
+
+interface LPTokenActionResult {
+  success: boolean;
+  digest?: string;
+  error?: string;
+}
+
+/**
+ * Consolidate a pool's LP tokens into one, or split an exact LP amount off them for the wallet
+ * itself or another address.
+ */
+export function useLPTokenActions() {
+  const currentAccount = useCurrentAccount();
+  const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { preflight } = useTransactionPreflight();
+  const [isPending, setIsPending] = useState(false);
+
+  const run = useCallback(async (
+    action: string,
+    build: (sender: string) => Transaction
+  ): Promise<LPTokenActionResult> => {
+    if (!currentAccount?.address) {
+      toast.error('Please connect your wallet');
+      return { success: false, error: 'Wallet not connected' };
+    }
+
+    setIsPending(true);
+
+    try {
+      const tx = build(currentAccount.address);
+
+      // Simulate before the wallet prompt
+      const simulation = await preflight(tx, currentAccount.address);
+      if (!simulation.success) {
+        return { success: false, error: simulation.error?.message || 'Transaction simulation failed' };
+      }
+
+      return await new Promise((resolve) => {
+        signAndExecuteTransaction(
+          {
+            transaction: tx,
+            options: {
+              showEffects: true,
+              showObjectChanges: true,
+            },
+          },
+          {
+            onSuccess: (result) => {
+              const status = (result.effects as any)?.status?.status || (result.effects as any)?.status;
+              if (status === 'failure' || status === 'failed') {
+                const errorMsg = getErrorMessage((result.effects as any)?.status?.error, 'Transaction failed');
+                toast.error(`${action} failed`, { description: errorMsg });
+                resolve({ success: false, error: errorMsg });
+                return;
+              }
+
+              // LP token objects changed
+              setTimeout(() => {
+                window.dispatchEvent(new Event('pool-cache-refresh'));
+              }, 1000);
+
+              toast.success(`${action} complete`, {
+                description: `Transaction: ${result.digest.slice(0, 10)}...`,
+              });
+              resolve({ success: true, digest: result.digest });
+            },
+            onError: (error) => {
+              const errorMessage = getErrorMessage(error, 'Transaction failed');
+              toast.error(`${action} failed`, { description: errorMessage });
+              resolve({ success: false, error: errorMessage });
+            },
+          }
+        );
+      });
+    } catch (error) {
+      const errorMessage = getErrorMessage(error, 'Unknown error');
+      toast.error(`${action} failed`, { description: errorMessage });
+      return { success: false, error: errorMessage };
+    } finally {
+      setIsPending(false);
+    }
+  }, [currentAccount, signAndExecuteTransaction, preflight]);
+
+  const mergeLPTokens = useCallback((position: LPTokenPosition) =>
+    run('Merge LP tokens', () => PoolService.mergeLPTokens({
+      lpTokens: position.tokens,
+      coinTypeA: position.coinTypeA,
+      coinTypeB: position.coinTypeB,
+    })), [run]);
+
+  // `amount` is in LP base units
+  const splitLPToken = useCallback((position: LPTokenPosition, amount: bigint, recipient?: string) =>
+    run(recipient ? 'Transfer LP tokens' : 'Split LP token', sender => PoolService.splitLPToken({
+      lpTokens: position.tokens,
+      coinTypeA: position.coinTypeA,
+      coinTypeB: position.coinTypeB,
+      amount,
+      ...(recipient && { recipient }),
+    }, sender)), [run]);
+
+  return {
+    mergeLPTokens,
+    splitLPToken,
+    isPending,
+  };
+}
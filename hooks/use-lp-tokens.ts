@@ -1,8 +1,11 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useCurrentAccount, useIotaClientQuery } from '@iota/dapp-kit';
 import { IOTA_CONFIG, SUPPORTED_COINS } from '@/config/iota.config';
+import { LPTokenRef } from '@/lib/iota/lp-tokens';
+import { LPPoolResolver } from '@/lib/services/lp-pool-resolver';
+import { parsePairTypeArguments } from '@/lib/services/pool-discovery';
 
 interface LPToken {
   id: string;
@@ -14,8 +17,21 @@ interface LPToken {
   symbolB: string;
 }
 
+// Every LP token of one pool, shown and spent as a single position
+export interface LPTokenPosition {
+  poolType: string;
+  poolId: string | null; // Null while resolving or when the pool can't be found
+  coinTypeA: string;
+  coinTypeB: string;
+  symbolA: string;
+  symbolB: string;
+  amount: string; // Sum over the tokens
+  tokens: LPTokenRef[]; // Largest first
+}
+
 interface UseLPTokensResult {
   lpTokens: LPToken[];
+  positions: LPTokenPosition[];
   isLoading: boolean;
   error: Error | null;
   refetch: () => void;
@@ -76,47 +92,99 @@ export function useLPTokens(): UseLPTokensResult {
     return () => window.removeEventListener('pool-cache-refresh', handlePoolRefresh);
   }, [refetch]);
 
-  // Parse LP tokens from owned objects
-  const lpTokens: LPToken[] = [];
-  
-  if (ownedObjects?.data) {
-    for (const obj of ownedObjects.data) {
-      if (obj.data?.content?.dataType === 'moveObject') {
-        const fields = obj.data.content.fields as any;
-        const type = obj.data.type || '';
-        
-        // Extract coin types from LP token type
-        // Format: packageId::simple_dex::LPToken<CoinTypeA, CoinTypeB>
-        const typeMatch = type.match(/<([^,]+),\s*([^>]+)>/);
-        if (typeMatch) {
-          const coinTypeA = typeMatch[1].trim();
-          const coinTypeB = typeMatch[2].trim();
-          const symbolA = getCoinSymbol(coinTypeA);
-          const symbolB = getCoinSymbol(coinTypeB);
-          
-          lpTokens.push({
-            id: obj.data.objectId,
-            amount: fields.amount?.toString() || '0',
-            poolType: type,
-            coinTypeA,
-            coinTypeB,
-            symbolA,
-            symbolB,
-          });
-        }
+  // Parse LP tokens from owned objects, largest first
+  const lpTokens = useMemo(() => {
+    const tokens: LPToken[] = [];
+
+    for (const obj of ownedObjects?.data ?? []) {
+      if (obj.data?.content?.dataType !== 'moveObject') continue;
+
+      const fields = obj.data.content.fields as any;
+      const type = obj.data.type || '';
+
+      // Format: packageId::simple_dex::LPToken<CoinTypeA, CoinTypeB>
+      const typeArguments = parsePairTypeArguments(type);
+      if (!typeArguments) continue;
+
+      const [coinTypeA, coinTypeB] = typeArguments;
+      tokens.push({
+        id: obj.data.objectId,
+        amount: fields.amount?.toString() || '0',
+        poolType: type,
+        coinTypeA,
+        coinTypeB,
+        symbolA: getCoinSymbol(coinTypeA),
+        symbolB: getCoinSymbol(coinTypeB),
+      });
+    }
+
+    return tokens.sort((a, b) => {
+      const amountA = BigInt(a.amount || '0');
+      const amountB = BigInt(b.amount || '0');
+      return amountA > amountB ? -1 : amountA < amountB ? 1 : 0;
+    });
+  }, [ownedObjects]);
+
+  // Group by LP type, one per pool; the sort above puts each position's largest token first
+  const groupedPositions = useMemo(() => {
+    const positions: Omit<LPTokenPosition, 'poolId'>[] = [];
+
+    for (const token of lpTokens) {
+      const ref = { objectId: token.id, amount: BigInt(token.amount) };
+      const position = positions.find(p => p.poolType === token.poolType);
+
+      if (position) {
+        position.tokens.push(ref);
+        position.amount = (BigInt(position.amount) + ref.amount).toString();
+      } else {
+        positions.push({
+          poolType: token.poolType,
+          coinTypeA: token.coinTypeA,
+          coinTypeB: token.coinTypeB,
+          symbolA: token.symbolA,
+          symbolB: token.symbolB,
+          amount: token.amount,
+          tokens: [ref],
+        });
       }
     }
-  }
+    return positions;
+  }, [lpTokens]);
+
+  // Pool IDs by LP type, resolved once per type through the shared resolver
+  const [poolIds, setPoolIds] = useState<Record<string, string | null>>({});
+
+  useEffect(() => {
+    const unresolved = groupedPositions.filter(position => !(position.poolType in poolIds));
+    if (unresolved.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(unresolved.map(async position => {
+      const pool = await LPPoolResolver.resolve({
+        objectId: position.tokens[0]!.objectId,
+        coinTypeA: position.coinTypeA,
+        coinTypeB: position.coinTypeB,
+      }).catch(() => null);
+      return [position.poolType, pool?.poolId ?? null] as const;
+    })).then(resolved => {
+      if (!cancelled) {
+        setPoolIds(previous => ({ ...previous, ...Object.fromEntries(resolved) }));
+      }
+    });
 
-  // Sort LP tokens by amount (descending)
-  lpTokens.sort((a, b) => {
-    const amountA = BigInt(a.amount || '0');
-    const amountB = BigInt(b.amount || '0');
-    return amountA > amountB ? -1 : amountA < amountB ? 1 : 0;
-  });
+    return () => {
+      cancelled = true;
+    };
+  }, [groupedPositions, poolIds]);
+
+  const positions = useMemo(
+    () => groupedPositions.map(position => ({ ...position, poolId: poolIds[position.poolType] ?? null })),
+    [groupedPositions, poolIds]
+  );
 
   return {
     lpTokens,
+    positions,
     isLoading,
     error: error as Error | null,
     refetch,
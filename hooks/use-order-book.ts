@@ -0,0 +1,59 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { LimitOrderService, OrderBookInfo, OrderBookSnapshot } from '@/lib/services/limit-order-service';
+
+interface UseOrderBookResult {
+  info: OrderBookInfo | null; // Carries the book's own base and quote token
+  snapshot: OrderBookSnapshot | null;
+  isLoading: boolean;
+  refetch: () => void;
+}
+
+/**
+ * Live depth of a pair's order book, reloaded whenever an order is placed, filled or cancelled.
+ */
+export function useOrderBook(baseTokenType?: string, quoteTokenType?: string): UseOrderBookResult {
+  const queryClient = useQueryClient();
+  const lastEvent = useRef<string | null | undefined>(undefined);
+
+  const { data, isLoading, refetch } = useQuery({
+    queryKey: ['order-book', baseTokenType, quoteTokenType],
+    queryFn: async () => {
+      const [info, snapshot] = await Promise.all([
+        LimitOrderService.getOrderBookInfo(baseTokenType!, quoteTokenType!),
+        LimitOrderService.getOrderBookSnapshot(baseTokenType!, quoteTokenType!),
+      ]);
+      return { info, snapshot };
+    },
+    enabled: !!baseTokenType && !!quoteTokenType,
+    refetchInterval: 30000,
+    staleTime: 10000,
+  });
+
+  // Order events are polled, the cheap way to notice that depth changed
+  const { data: latestEvent } = useQuery({
+    queryKey: ['order-book-events'],
+    queryFn: () => LimitOrderService.getLatestOrderBookEvent(),
+    enabled: !!baseTokenType && !!quoteTokenType,
+    refetchInterval: 5000,
+  });
+
+  useEffect(() => {
+    if (latestEvent === undefined) return;
+
+    if (lastEvent.current !== undefined && lastEvent.current !== latestEvent) {
+      LimitOrderService.clearOrderBookCache();
+      queryClient.invalidateQueries({ queryKey: ['order-book'] });
+    }
+    lastEvent.current = latestEvent;
+  }, [latestEvent, queryClient]);
+
+  return {
+    info: data?.info ?? null,
+    snapshot: data?.snapshot ?? null,
+    isLoading,
+    refetch,
+  };
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import { useQuery } from '@tanstack/react-query';
+import { useCurrentAccount } from '@iota/dapp-kit';
+import { OrderHistoryService, OrderHistoryEntry, OrderHistoryFilter } from '@/lib/services/order-history-service';
+
+interface UseOrderHistoryResult {
+  orders: OrderHistoryEntry[];
+  total: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+/**
+ * One page of the connected wallet's limit orders, newest first.
+ */
+export function useOrderHistory(filter: OrderHistoryFilter = 'all', page = 0, pageSize = 10): UseOrderHistoryResult {
+  const currentAccount = useCurrentAccount();
+  const address = currentAccount?.address;
+
+  const { data, isLoading, error, refetch } = useQuery({
+    queryKey: ['order-history', address, filter, page, pageSize],
+    queryFn: () => OrderHistoryService.getOrderHistory(address!, { filter, page, pageSize }),
+    enabled: !!address,
+    refetchInterval: 30000,
+    staleTime: 10000,
+  });
+
+  return {
+    orders: data?.orders ?? [],
+    total: data?.total ?? 0,
+    hasMore: data?.hasMore ?? false,
+    isLoading,
+    error: error instanceof Error ? error : null,
+    refetch,
+  };
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PoolInfo } from '@/lib/services/pool-service';
+import { PoolHealthService, PoolHealth } from '@/lib/services/pool-health-service';
+
+interface UsePoolHealthResult {
+  health: PoolHealth | null;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Health of a pool: on-chain health, cached against spot price and spot against the market price.
+ */
+export function usePoolHealth(pool: PoolInfo | null): UsePoolHealthResult {
+  const [health, setHealth] = useState<PoolHealth | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!pool) {
+      setHealth(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    PoolHealthService.getPoolHealth(pool)
+      .then(result => {
+        if (cancelled) return;
+        setHealth(result);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error('Failed to check pool health'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pool]);
+
+  return { health, isLoading, error };
+}
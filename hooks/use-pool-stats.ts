@@ -0,0 +1,80 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { PoolInfo } from '@/lib/services/pool-service';
+import { PoolStatsService, StatsWindow, WindowStats, STATS_WINDOWS } from '@/lib/services/pool-stats-service';
+import { useAdvancedMath } from '@/hooks/use-advanced-math';
+
+export interface PoolWindowYield extends WindowStats {
+  feeAprPercent: number | null;
+  apyPercent: number | null; // Fee APR compounded daily, fees stay in the pool and compound by themselves
+}
+
+interface UsePoolStatsResult {
+  windows: Record<StatsWindow, PoolWindowYield | null>;
+  isLoading: boolean;
+  error: Error | null;
+}
+
+const EMPTY_WINDOWS = { '24h': null, '7d': null, '30d': null };
+
+/**
+ * Trailing 24h/7d/30d volume, fees, fee APR and APY of a pool.
+ */
+export function usePoolStats(pool: PoolInfo | null): UsePoolStatsResult {
+  const { calculateAPY } = useAdvancedMath();
+  const [stats, setStats] = useState<Record<StatsWindow, WindowStats | null>>(EMPTY_WINDOWS);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!pool) {
+      setStats(EMPTY_WINDOWS);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    PoolStatsService.getPoolStats(pool)
+      .then(result => {
+        if (cancelled) return;
+        setStats(result.windows);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err : new Error('Failed to load pool stats'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pool]);
+
+  const windows = useMemo(() => {
+    const result = {} as Record<StatsWindow, PoolWindowYield | null>;
+
+    for (const window of Object.keys(STATS_WINDOWS) as StatsWindow[]) {
+      const windowStats = stats[window];
+      if (!windowStats) {
+        result[window] = null;
+        continue;
+      }
+
+      const feeAprPercent = windowStats.feeApr !== null ? windowStats.feeApr * 100 : null;
+      // Growth of 1 over a year, fixed point with 18 decimals
+      const apy = feeAprPercent !== null ? calculateAPY(1, feeAprPercent, 365) : null;
+
+      result[window] = {
+        ...windowStats,
+        feeAprPercent,
+        apyPercent: apy ? (Number(BigInt(apy.value) / 10n ** 12n) / 1000000 - 1) * 100 : null,
+      };
+    }
+    return result;
+  }, [stats, calculateAPY]);
+
+  return { windows, isLoading, error };
+}
@@ -2,16 +2,20 @@
 
 import { useState, useCallback } from 'react';
 import { useCurrentAccount, useSignAndExecuteTransaction, useIotaClient } from '@iota/dapp-kit';
-import { Transaction } from '@iota/iota-sdk/transactions';
 import { toast } from 'sonner';
-import { IOTA_CONFIG } from '@/config/iota.config';
+import { getErrorMessage } from '@/lib/errors';
 import { PoolService } from '@/lib/services/pool-service';
+import { LPPoolResolver } from '@/lib/services/lp-pool-resolver';
+import { LPTokenRef } from '@/lib/iota/lp-tokens';
+import { useTransactionPreflight } from '@/hooks/use-transaction-preflight';
 
 interface RemoveLiquidityParams {
-  lpTokenId: string;
-  coinTypeA: string;
+  lpTokens: LPTokenRef[]; // Every LP token of the pool, merged in the transaction
+  coinTypeA: string; // The LP token's type arguments
   coinTypeB: string;
-  amount: string;
+  amount: string; // LP amount to burn, up to the tokens' total
+  outputCoinType?: string; // Zap out: receive everything in this token of the pair
+  slippageTolerance?: number; // Percent
 }
 
 interface RemoveLiquidityResult {
@@ -24,6 +28,7 @@ export function useRemoveLiquidityV2() {
   const client = useIotaClient();
   const currentAccount = useCurrentAccount();
   const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { preflight, lastPreflight } = useTransactionPreflight();
   const [isRemoving, setIsRemoving] = useState(false);
 
   const removeLiquidity = useCallback(async (params: RemoveLiquidityParams): Promise<RemoveLiquidityResult> => {
@@ -35,40 +40,37 @@ export function useRemoveLiquidityV2() {
     setIsRemoving(true);
 
     try {
-      // Find the pool for this LP token pair
-      const pool = await PoolService.findPool(
-        params.coinTypeA,
-        params.coinTypeB,
-      );
+      const [lpToken] = params.lpTokens;
+      if (!lpToken) {
+        throw new Error('No LP tokens to remove');
+      }
 
-      if (!pool?.poolId) {
+      // Every token of the position shares the pool, the largest one stands for them
+      const pool = await LPPoolResolver.resolve({
+        objectId: lpToken.objectId,
+        coinTypeA: params.coinTypeA,
+        coinTypeB: params.coinTypeB,
+      });
+      if (!pool) {
         throw new Error('Pool not found for this LP token');
       }
 
-      if (pool.reserveA === 0n || pool.reserveB === 0n) {
-        throw new Error('Pool has no liquidity to remove');
-      }
+      const lpAmount = BigInt(params.amount);
+      const slippage = params.slippageTolerance !== undefined && { slippageTolerance: params.slippageTolerance };
 
       // Build transaction
-      const tx = new Transaction();
-      const packageId = IOTA_CONFIG.packages.core;
-
-      // Ensure coin types match pool order
-      const typeArguments = [pool.coinTypeA, pool.coinTypeB];
-
-      // Remove liquidity
-      tx.moveCall({
-        target: `${packageId}::simple_dex::remove_liquidity`,
-        typeArguments,
-        arguments: [
-          tx.object(pool.poolId),
-          tx.object(params.lpTokenId),
-          tx.pure.u64(0n), // min_a (0 for now)
-          tx.pure.u64(0n), // min_b (0 for now)
-        ],
-      });
-
-      tx.setGasBudget(100000000); // 0.1 IOTA
+      const tx = params.outputCoinType
+        ? await PoolService.zapOut(
+            { pool, lpTokens: params.lpTokens, lpAmount, coinTypeOut: params.outputCoinType, ...slippage },
+            currentAccount.address
+          )
+        : await PoolService.removeLiquidity({ pool, lpTokens: params.lpTokens, lpAmount, ...slippage });
+
+      // Simulate before the wallet prompt
+      const simulation = await preflight(tx, currentAccount.address);
+      if (!simulation.success) {
+        return { success: false, error: simulation.error?.message || 'Transaction simulation failed' };
+      }
 
       // Execute transaction
       return new Promise((resolve) => {
@@ -86,7 +88,7 @@ export function useRemoveLiquidityV2() {
             onSuccess: (result) => {
               const status = (result.effects as any)?.status?.status || (result.effects as any)?.status;
               if (status === 'failure' || status === 'failed') {
-                const errorMsg = (result.effects as any)?.status?.error || 'Transaction failed';
+                const errorMsg = getErrorMessage((result.effects as any)?.status?.error, 'Transaction failed');
                 toast.error('Remove liquidity failed', { description: errorMsg });
                 resolve({ success: false, error: errorMsg });
                 return;
@@ -107,7 +109,7 @@ export function useRemoveLiquidityV2() {
               });
             },
             onError: (error) => {
-              const errorMessage = error?.message || 'Transaction failed';
+              const errorMessage = getErrorMessage(error, 'Transaction failed');
               let description = errorMessage;
 
               if (errorMessage.includes('InsufficientGas')) {
@@ -123,16 +125,17 @@ export function useRemoveLiquidityV2() {
         );
       });
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorMessage = getErrorMessage(error, 'Unknown error');
       toast.error('Remove liquidity failed', { description: errorMessage });
       return { success: false, error: errorMessage };
     } finally {
       setIsRemoving(false);
     }
-  }, [currentAccount, signAndExecuteTransaction, client]);
+  }, [currentAccount, signAndExecuteTransaction, client, preflight]);
 
   return {
     removeLiquidity,
     isRemoving,
+    lastPreflight,
   };
 }
\ No newline at end of file
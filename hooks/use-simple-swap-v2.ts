@@ -3,10 +3,12 @@
 import { useState } from 'react';
 import { useCurrentAccount, useSignAndExecuteTransaction, useIotaClient } from '@iota/dapp-kit';
 import { parseTokenAmount } from '@/lib/utils/format';
-import { PoolService } from '@/lib/services/pool-service';
-import { Transaction } from '@iota/iota-sdk/transactions';
-import { IOTA_CONFIG, SUPPORTED_COINS } from '@/config/iota.config';
+import { SwapRouter, QuoteValidity, isQuoteExpired, getMinimumOutCommand } from '@/lib/services/swap-router';
+import { createQuoteExpiredError, decodeMoveAbort, getErrorMessage } from '@/lib/errors';
+import { Transaction, TransactionObjectArgument } from '@iota/iota-sdk/transactions';
 import { toast } from 'sonner';
+import { useTransactionPreflight } from '@/hooks/use-transaction-preflight';
+import { prepareCoinInput } from '@/lib/iota/coin-selection';
 
 interface SwapParams {
   inputToken: {
@@ -20,14 +22,21 @@ interface SwapParams {
     symbol: string;
   };
   inputAmount: string;
-  minOutputAmount: string;
+  minOutputAmount: string; // Smallest units, the minimum the user agreed to when quoted
   slippage: number;
+  quote: QuoteValidity;
+  // Exact-output trades: receive outputAmount, paying no more than maxInputAmount (smallest units)
+  exactOutput?: {
+    outputAmount: bigint;
+    maxInputAmount: bigint;
+  };
 }
 
 export function useSimpleSwapV2() {
   const client = useIotaClient();
   const currentAccount = useCurrentAccount();
   const { mutate: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+  const { preflight, lastPreflight } = useTransactionPreflight();
   const [isSwapping, setIsSwapping] = useState(false);
 
   const executeSwap = async (params: SwapParams) => {
@@ -36,93 +45,86 @@ export function useSimpleSwapV2() {
       return { success: false, error: 'Wallet not connected' };
     }
 
+    // Never sign against a stale quote, the caller re-quotes and asks again
+    if (isQuoteExpired(params.quote)) {
+      return { success: false, error: createQuoteExpiredError(params.quote.expiresAt).message, quoteExpired: true };
+    }
+
     try {
       setIsSwapping(true);
       const startTime = Date.now();
-      const inputAmount = parseTokenAmount(params.inputAmount, params.inputToken.decimals);
-      
-      // Find pool for swap
-      const pool = await PoolService.findPool(
-        params.inputToken.type,
-        params.outputToken.type,
-      );
-
-      if (!pool) {
-        throw new Error(`No liquidity pool found for ${params.inputToken.symbol} → ${params.outputToken.symbol}. Please create a pool first.`);
-      }
+      const agreedMinimum = BigInt(params.minOutputAmount || '0');
+      let inputAmount: bigint;
+      let appendSwap: (tx: Transaction, coin: TransactionObjectArgument) => void;
+
+      if (params.exactOutput) {
+        // Re-quote the required input and refuse if the price moved past the maximum
+        const route = await SwapRouter.getExactOutputRoute(
+          params.inputToken.type,
+          params.outputToken.type,
+          params.exactOutput.outputAmount,
+          params.slippage,
+        );
 
-      if (!pool.poolId || pool.reserveA === BigInt(0) || pool.reserveB === BigInt(0)) {
-        throw new Error('Pool has no liquidity. Reserves: A=' + pool.reserveA.toString() + ', B=' + pool.reserveB.toString());
-      }
+        if (route.inputAmount > params.exactOutput.maxInputAmount) {
+          return {
+            success: false,
+            error: `Price moved: required ${params.inputToken.symbol} exceeds your maximum input`,
+            quoteChanged: true,
+          };
+        }
 
-      // Determine swap direction
-      const isAToB = pool.coinTypeA === params.inputToken.type;
+        inputAmount = route.inputAmount;
+        appendSwap = (tx, coin) =>
+          SwapRouter.getInstance().appendRouteToTransaction(tx, route, coin, currentAccount.address);
+      } else {
+        inputAmount = parseTokenAmount(params.inputAmount, params.inputToken.decimals);
+
+        // Route through the best paths, split across them when that returns more
+        const splitRoute = await SwapRouter.getSplitRoute(
+          params.inputToken.type,
+          params.outputToken.type,
+          inputAmount,
+          params.slippage,
+        );
 
-      if (!isAToB && pool.coinTypeB !== params.inputToken.type) {
-        throw new Error(`Input token ${params.inputToken.symbol} doesn't match pool tokens`);
-      }
+        // Reserves moved past the agreed minimum since the quote was shown
+        if (splitRoute.outputAmount < agreedMinimum) {
+          return {
+            success: false,
+            error: 'Price moved since your quote, review the updated amount',
+            quoteChanged: true,
+          };
+        }
 
-      // Validate pool has sufficient liquidity for the swap
-      const outputReserve = isAToB ? pool.reserveB : pool.reserveA;
-      if (outputReserve < inputAmount / 10n) { // Conservative check: output reserve should be at least 10x input
-        throw new Error('Insufficient pool liquidity for this swap amount');
+        // Enforce the minimum the user saw, not the fresh quote's
+        const guardedRoute = { ...splitRoute, minimumReceived: agreedMinimum };
+        appendSwap = (tx, coin) =>
+          SwapRouter.getInstance().appendSplitRouteToTransaction(tx, guardedRoute, coin, currentAccount.address);
       }
 
       // Create transaction
       const tx = new Transaction();
-      const packageId = IOTA_CONFIG.packages.core;
-      
-      let coinToSwap;
-      
-      // Special handling for IOTA to avoid gas coin conflicts
-      if (params.inputToken.type === SUPPORTED_COINS.IOTA.type) {
-        // For IOTA swaps, use tx.gas to access the gas coin directly
-        [coinToSwap] = tx.splitCoins(tx.gas, [inputAmount]);
-      } else {
-        // For non-IOTA tokens, get coins normally
-        const coins = await client.getCoins({
-          owner: currentAccount.address,
-          coinType: params.inputToken.type,
-        });
-
-        if (!coins.data || coins.data.length === 0) {
-          throw new Error(`No ${params.inputToken.symbol} balance found`);
-        }
-
-        const totalBalance = coins.data.reduce((sum, coin) => sum + BigInt(coin.balance), BigInt(0));
-        
-        if (totalBalance < inputAmount) {
-          throw new Error(`Insufficient ${params.inputToken.symbol} balance`);
-        }
 
-        // Handle non-IOTA token coins
-        const coinRefs = coins.data.map(c => tx.object(c.coinObjectId));
-        
-        if (coins.data.length === 1 && BigInt(coins.data[0].balance) === inputAmount) {
-          // Use the coin directly if it matches exactly
-          coinToSwap = coinRefs[0];
-        } else {
-          // Merge coins if multiple, then split exact amount
-          if (coinRefs.length > 1) {
-            tx.mergeCoins(coinRefs[0], coinRefs.slice(1));
-          }
-          [coinToSwap] = tx.splitCoins(coinRefs[0], [inputAmount]);
-        }
-      }
-
-      // Execute the swap
-      const typeArgs = [pool.coinTypeA, pool.coinTypeB];
-      const target = `${packageId}::simple_dex::swap_${isAToB ? 'a_to_b' : 'b_to_a'}`;
-      
-      tx.moveCall({
-        target,
-        typeArguments: typeArgs,
-        arguments: [tx.object(pool.poolId), coinToSwap],
+      // Pick the fewest coins covering the input, keeping the gas coin free where possible
+      const coinToSwap = await prepareCoinInput(client, tx, {
+        owner: currentAccount.address,
+        coinType: params.inputToken.type,
+        amount: inputAmount,
       });
 
+      // Execute the swap along the route
+      appendSwap(tx, coinToSwap);
+
       // Set gas budget (reduced since we're using tx.gas more efficiently)
       tx.setGasBudget(100000000); // 0.1 IOTA - should be sufficient with proper gas handling
 
+      // Simulate before the wallet prompt
+      const simulation = await preflight(tx, currentAccount.address);
+      if (!simulation.success) {
+        return { success: false, error: simulation.error?.message || 'Transaction simulation failed' };
+      }
+
       // Execute transaction with proper options
       return new Promise((resolve, reject) => {
         signAndExecuteTransaction(
@@ -142,7 +144,9 @@ export function useSimpleSwapV2() {
               
               // Only fail if we explicitly see failure status, otherwise treat as success
               if (status === 'failure' || status === 'failed') {
-                const errorMsg = (result.effects as any)?.status?.error || 'Transaction failed on chain';
+                const statusError: string | undefined = (result.effects as any)?.status?.error;
+                const abort = statusError ? decodeMoveAbort(statusError, getMinimumOutCommand(tx)) : null;
+                const errorMsg = abort?.message ?? getErrorMessage(statusError, 'Transaction failed on chain');
                 resolve({ success: false, error: errorMsg });
                 return;
               }
@@ -162,19 +166,19 @@ export function useSimpleSwapV2() {
               resolve({ success: true, digest: result.digest, executionTime });
             },
             onError: (error) => {
-              const errorMsg = error?.message || 'Transaction failed';
+              const errorMsg = getErrorMessage(error, 'Transaction failed');
               resolve({ success: false, error: errorMsg });
             },
           }
         );
       });
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      const errorMsg = getErrorMessage(error, 'Unknown error');
       return { success: false, error: errorMsg };
     } finally {
       setIsSwapping(false);
     }
   };
 
-  return { executeSwap, isSwapping };
+  return { executeSwap, isSwapping, lastPreflight };
 }
\ No newline at end of file
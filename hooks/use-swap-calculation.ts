@@ -1,103 +1,168 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useIotaClient } from '@iota/dapp-kit';
-import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { PoolInfo } from '@/lib/services/pool-service';
+import { SwapRouter } from '@/lib/services/swap-router';
+import { getTokenByType } from '@/lib/services/token-registry';
 import { parseTokenAmount, formatBalance } from '@/lib/utils/format';
 
+export type TradeType = 'exactInput' | 'exactOutput';
+
+interface SwapSplit {
+  route: string[];
+  percentage: number;
+}
+
+// The recomputed side of a quote before and after an automatic re-quote (smallest units)
+interface QuoteChange {
+  previous: string;
+  current: string;
+}
+
 interface SwapCalculation {
+  inputAmount: string;
   outputAmount: string;
   minimumReceived: string;
-  priceImpact: number;
+  maximumSold: string;
+  priceImpact: number; // Execution against spot price, fee excluded
+  feePercent: number; // Pool fees on the route
   route: string[];
+  splits: SwapSplit[];
   pool: PoolInfo | null;
+  issuedAt: number | null;
+  expiresAt: number | null;
+  quoteChange: QuoteChange | null;
   isLoading: boolean;
   error: string | null;
   spotPriceBefore?: number;
   spotPriceAfter?: number;
 }
 
+/**
+ * Quote a swap from the amount the user typed: the input amount for exact-input trades, or
+ * the desired output amount for exact-output trades. Quotes are re-requested when they expire;
+ * if the same request then prices differently, `quoteChange` carries the old and new amounts.
+ */
 export function useSwapCalculation(
   inputToken: { type: string; symbol: string; decimals: number },
   outputToken: { type: string; symbol: string; decimals: number },
-  inputAmount: string,
-  slippage: number
+  amount: string,
+  slippage: number,
+  tradeType: TradeType = 'exactInput'
 ) {
   const client = useIotaClient();
   const [calculation, setCalculation] = useState<SwapCalculation>({
+    inputAmount: '0',
     outputAmount: '0',
     minimumReceived: '0',
+    maximumSold: '0',
     priceImpact: 0,
+    feePercent: 0,
     route: [],
+    splits: [],
     pool: null,
+    issuedAt: null,
+    expiresAt: null,
+    quoteChange: null,
     isLoading: false,
     error: null,
   });
+  const [refreshCount, setRefreshCount] = useState(0);
+  const lastQuoteRef = useRef<{ key: string; quoted: string } | null>(null);
+
+  const refresh = useCallback(() => setRefreshCount(count => count + 1), []);
 
   useEffect(() => {
     const calculateSwap = async () => {
-      if (!inputAmount || parseFloat(inputAmount) <= 0) {
+      if (!amount || parseFloat(amount) <= 0) {
         setCalculation(prev => ({
           ...prev,
+          inputAmount: '0',
           outputAmount: '0',
           minimumReceived: '0',
+          maximumSold: '0',
           priceImpact: 0,
+          feePercent: 0,
+          issuedAt: null,
+          expiresAt: null,
+          quoteChange: null,
           error: null,
         }));
+        lastQuoteRef.current = null;
         return;
       }
 
+      const quoteKey = [inputToken.type, outputToken.type, amount, slippage, tradeType].join('|');
+
+      // Same request quoted again with a different result means reserves moved
+      const trackQuoteChange = (quoted: string): QuoteChange | null => {
+        const last = lastQuoteRef.current;
+        lastQuoteRef.current = { key: quoteKey, quoted };
+        return last && last.key === quoteKey && last.quoted !== quoted
+          ? { previous: last.quoted, current: quoted }
+          : null;
+      };
+
       setCalculation(prev => ({ ...prev, isLoading: true, error: null }));
 
       try {
-        // Find the pool for this pair
-        const pool = await PoolService.findPool(
-          inputToken.type,
-          outputToken.type,
-          'testnet'
-        );
-
-        if (!pool) {
-          // Don't throw error, just set state and return
-          setCalculation(prev => ({
-            ...prev,
+        const toSymbols = (path: readonly string[]) => path.map(type => getTokenByType(type)?.symbol || type);
+
+        if (tradeType === 'exactOutput') {
+          // Cheapest route delivering exactly the requested output
+          const route = await SwapRouter.getExactOutputRoute(
+            inputToken.type,
+            outputToken.type,
+            parseTokenAmount(amount, outputToken.decimals),
+            slippage
+          );
+
+          setCalculation({
+            inputAmount: route.inputAmount.toString(),
+            outputAmount: route.outputAmount.toString(),
+            minimumReceived: route.minimumReceived.toString(),
+            maximumSold: route.maximumSold.toString(),
+            priceImpact: route.priceImpact,
+            feePercent: route.feePercent,
+            route: toSymbols(route.path),
+            splits: [],
+            pool: route.hops[0]?.pool ?? null,
+            issuedAt: route.issuedAt,
+            expiresAt: route.expiresAt,
+            quoteChange: trackQuoteChange(route.inputAmount.toString()),
             isLoading: false,
-            error: `No liquidity pool found for ${inputToken.symbol} → ${outputToken.symbol}`,
-            outputAmount: '0',
-            minimumReceived: '0',
-            priceImpact: 0,
-          }));
+            error: null,
+          });
           return;
         }
 
-        // Check if pool has liquidity
-        if (pool.reserveA === 0n || pool.reserveB === 0n) {
-          throw new Error('Pool has no liquidity');
-        }
-
         // Convert input amount to smallest unit
-        const inputAmountBigInt = parseTokenAmount(inputAmount, inputToken.decimals);
-
-        // Determine swap direction
-        const isAToB = pool.coinTypeA === inputToken.type;
+        const inputAmountBigInt = parseTokenAmount(amount, inputToken.decimals);
 
-        // Calculate output amount using AMM formula
-        const swapResult = PoolService.calculateSwapQuote(
-          pool,
+        // Best routes over all pools, direct or multi-hop, split when that returns more
+        const splitRoute = await SwapRouter.getSplitRoute(
+          inputToken.type,
+          outputToken.type,
           inputAmountBigInt,
-          isAToB,
           slippage
         );
 
-        // Use the minimum received from swap quote (already includes slippage)
-        const customMinimumReceived = swapResult.minimumReceived;
+        const mainRoute = splitRoute.legs[0]?.route;
 
         setCalculation({
-          outputAmount: swapResult.outputAmount.toString(),
-          minimumReceived: customMinimumReceived.toString(),
-          priceImpact: swapResult.priceImpact,
-          route: [inputToken.symbol, outputToken.symbol],
-          pool,
+          inputAmount: splitRoute.inputAmount.toString(),
+          outputAmount: splitRoute.outputAmount.toString(),
+          minimumReceived: splitRoute.minimumReceived.toString(),
+          maximumSold: splitRoute.inputAmount.toString(),
+          priceImpact: splitRoute.priceImpact,
+          feePercent: splitRoute.feePercent,
+          route: mainRoute ? toSymbols(mainRoute.path) : [],
+          splits: splitRoute.legs.map(leg => ({ route: toSymbols(leg.route.path), percentage: leg.percentage })),
+          pool: mainRoute?.hops[0]?.pool ?? null,
+          issuedAt: splitRoute.issuedAt,
+          expiresAt: splitRoute.expiresAt,
+          quoteChange: trackQuoteChange(splitRoute.outputAmount.toString()),
           isLoading: false,
           error: null,
         });
@@ -106,17 +171,30 @@ export function useSwapCalculation(
           ...prev,
           isLoading: false,
           error: error instanceof Error ? error.message : 'Failed to calculate swap',
+          inputAmount: '0',
           outputAmount: '0',
           minimumReceived: '0',
+          maximumSold: '0',
           priceImpact: 0,
+          feePercent: 0,
+          issuedAt: null,
+          expiresAt: null,
         }));
       }
     };
 
     calculateSwap();
-  }, [inputToken, outputToken, inputAmount, slippage, client]);
+  }, [inputToken, outputToken, amount, slippage, tradeType, client, refreshCount]);
+
+  // Re-quote automatically once the current quote expires
+  useEffect(() => {
+    if (calculation.expiresAt === null) return;
+
+    const timeout = setTimeout(refresh, Math.max(0, calculation.expiresAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [calculation.expiresAt, refresh]);
 
-  return calculation;
+  return { ...calculation, refresh };
 }
 
 // Helper to format the output for display
@@ -0,0 +1,36 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { TokenRegistry, TokenInfo } from '@/lib/services/token-registry';
+
+/**
+ * Tokens from the registry. Starts with the curated list and refreshes once mounted, so tokens
+ * from newly discovered pools are added as they load.
+ */
+export function useTokens() {
+  const [tokens, setTokens] = useState<TokenInfo[]>(() => TokenRegistry.getTokens());
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubscribe = TokenRegistry.subscribe(() => setTokens(TokenRegistry.getTokens()));
+
+    setIsLoading(true);
+    TokenRegistry.refresh().finally(() => {
+      if (!cancelled) {
+        setTokens(TokenRegistry.getTokens());
+        setIsLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return {
+    tokens,
+    isLoading,
+  };
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useIotaClient } from '@iota/dapp-kit';
+import { Transaction } from '@iota/iota-sdk/transactions';
+import { toast } from 'sonner';
+import { dryRunTransaction, formatPreflightSummary, PreflightResult } from '@/lib/iota/preflight';
+
+/**
+ * Dry-run a built transaction before it reaches the wallet. The outcome is toasted (balance
+ * changes and gas on success, the decoded abort on failure) and kept as `lastPreflight`.
+ */
+export function useTransactionPreflight() {
+  const client = useIotaClient();
+  const [lastPreflight, setLastPreflight] = useState<PreflightResult | null>(null);
+  const [isSimulating, setIsSimulating] = useState(false);
+
+  const preflight = useCallback(async (tx: Transaction, sender: string): Promise<PreflightResult> => {
+    setIsSimulating(true);
+
+    try {
+      const result = await dryRunTransaction(client, tx, sender);
+      setLastPreflight(result);
+
+      if (result.success) {
+        toast.info('Simulation passed, confirm in your wallet', {
+          description: formatPreflightSummary(result),
+        });
+      } else {
+        toast.error('Transaction would fail', {
+          description: result.error?.message,
+        });
+      }
+
+      return result;
+    } finally {
+      setIsSimulating(false);
+    }
+  }, [client]);
+
+  return {
+    preflight,
+    lastPreflight,
+    isSimulating,
+  };
+}
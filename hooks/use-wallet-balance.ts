@@ -3,6 +3,7 @@
 import { useCurrentAccount, useIotaClientQuery } from '@iota/dapp-kit';
 import { formatBalance } from '@/lib/utils/format';
 import { SUPPORTED_COINS } from '@/config/iota.config';
+import { getTokenByType } from '@/lib/services/token-registry';
 
 interface UseWalletBalanceResult {
   balance: string;
@@ -49,7 +50,7 @@ export function useWalletBalance(coinType?: string): UseWalletBalanceResult {
     isLoading,
     error: error as Error | null,
     formatted: balance 
-      ? formatBalance(balance.totalBalance, 9) // Default to 9 decimals for IOTA 
+      ? formatBalance(balance.totalBalance, getTokenByType(coinType || SUPPORTED_COINS.IOTA.type)?.decimals ?? 9)
       : '0',
     refetch,
   };
@@ -63,6 +63,8 @@ class LRUCache<T = any> {
     this.cleanupInterval = setInterval(() => {
       this.cleanup();
     }, 60000);
+    // No-op in browsers; in Node the sweep alone doesn't keep the process running
+    this.cleanupInterval.unref?.();
   }
 
   set(key: string, value: T, ttl?: number): void {
@@ -2,7 +2,7 @@
  * Production-ready configuration management system
  */
 
-import { Network, AppConfig, FeatureFlags, NetworkConfig } from '@/types/api';
+import { Network, AppConfig, FeatureFlags, NetworkConfig, PriceImpactThresholds } from '@/types/api';
 import { ValidationError } from '@/lib/errors';
 
 // Environment variable validation
@@ -17,6 +17,9 @@ const optionalEnvVars = [
   'NEXT_PUBLIC_DEFAULT_SLIPPAGE',
   'NEXT_PUBLIC_MAX_SLIPPAGE',
   'NEXT_PUBLIC_DEFAULT_DEADLINE',
+  'NEXT_PUBLIC_PRICE_IMPACT_WARNING',
+  'NEXT_PUBLIC_PRICE_IMPACT_CONFIRM',
+  'NEXT_PUBLIC_PRICE_IMPACT_MAX',
   'NEXT_PUBLIC_ENABLE_DCA',
   'NEXT_PUBLIC_ENABLE_LIMIT_ORDERS',
   'NEXT_PUBLIC_ENABLE_ADVANCED_CHARTS',
@@ -160,6 +163,18 @@ class ConfigManager {
         ? validateNumber(process.env.NEXT_PUBLIC_DEFAULT_DEADLINE, 60, 3600)
         : 1200; // 20 minutes
 
+      const priceImpact: PriceImpactThresholds = {
+        warning: process.env.NEXT_PUBLIC_PRICE_IMPACT_WARNING
+          ? validateNumber(process.env.NEXT_PUBLIC_PRICE_IMPACT_WARNING, 0, 100)
+          : 1,
+        confirm: process.env.NEXT_PUBLIC_PRICE_IMPACT_CONFIRM
+          ? validateNumber(process.env.NEXT_PUBLIC_PRICE_IMPACT_CONFIRM, 0, 100)
+          : 5,
+        max: process.env.NEXT_PUBLIC_PRICE_IMPACT_MAX
+          ? validateNumber(process.env.NEXT_PUBLIC_PRICE_IMPACT_MAX, 0, 100)
+          : 15,
+      };
+
       // Feature flags
       const featureFlags: FeatureFlags = {
         enableDCA: process.env.NEXT_PUBLIC_ENABLE_DCA
@@ -186,6 +201,12 @@ class ConfigManager {
         );
       }
 
+      if (priceImpact.warning > priceImpact.confirm || priceImpact.confirm > priceImpact.max) {
+        throw new ValidationError(
+          `Price impact thresholds must increase: warning (${priceImpact.warning}) <= confirm (${priceImpact.confirm}) <= max (${priceImpact.max})`
+        );
+      }
+
       // Build final configuration
       this.config = {
         network,
@@ -195,6 +216,7 @@ class ConfigManager {
         defaultSlippage,
         maxSlippage,
         defaultDeadline,
+        priceImpact,
         featureFlags,
       };
 
@@ -218,6 +240,10 @@ class ConfigManager {
     return networkConfigs[targetNetwork];
   }
 
+  getPriceImpactThresholds(): PriceImpactThresholds {
+    return this.getConfig().priceImpact;
+  }
+
   isFeatureEnabled(feature: keyof FeatureFlags): boolean {
     return this.getConfig().featureFlags[feature];
   }
@@ -292,6 +318,7 @@ config.initialize();
 // Export commonly used values
 export const getAppConfig = (): AppConfig => config.getConfig();
 export const getNetworkConfig = (network?: Network): NetworkConfig => config.getNetworkConfig(network);
+export const getPriceImpactThresholds = (): PriceImpactThresholds => config.getPriceImpactThresholds();
 export const isFeatureEnabled = (feature: keyof FeatureFlags): boolean => config.isFeatureEnabled(feature);
 export const isMaintenanceMode = (): boolean => config.isMaintenanceMode();
 export const isDevelopment = (): boolean => config.isDevelopment();
@@ -311,4 +338,4 @@ export const CONFIG_CONSTANTS = {
 } as const;
 
 // Type exports
-export type { AppConfig, FeatureFlags, NetworkConfig };
\ No newline at end of file
+export type { AppConfig, FeatureFlags, NetworkConfig, PriceImpactThresholds };
\ No newline at end of file
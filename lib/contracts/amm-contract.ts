@@ -23,7 +23,7 @@ export class AMMContract {
     coinTypeA: string,
     coinTypeB: string
   ) {
-    const packageId = IOTA_CONFIG.packages.core;
+    const packageId = IOTA_CONFIG.packages.upgraded;
     
     // Create pool through factory
     tx.moveCall({
@@ -32,6 +32,7 @@ export class AMMContract {
       arguments: [
         coinA,
         coinB,
+        tx.object('0x6'), // Clock
       ],
     });
   }
@@ -45,7 +46,7 @@ export class AMMContract {
     coinTypeA: string,
     coinTypeB: string
   ) {
-    const packageId = IOTA_CONFIG.packages.core;
+    const packageId = IOTA_CONFIG.packages.upgraded;
     
     tx.moveCall({
       target: `${packageId}::simple_dex::add_liquidity`,
@@ -67,7 +68,7 @@ export class AMMContract {
     coinTypeA: string,
     coinTypeB: string
   ) {
-    const packageId = IOTA_CONFIG.packages.core;
+    const packageId = IOTA_CONFIG.packages.upgraded;
     
     tx.moveCall({
       target: `${packageId}::simple_dex::swap_a_to_b`,
@@ -88,7 +89,7 @@ export class AMMContract {
     coinTypeA: string,
     coinTypeB: string
   ) {
-    const packageId = IOTA_CONFIG.packages.core;
+    const packageId = IOTA_CONFIG.packages.upgraded;
     
     tx.moveCall({
       target: `${packageId}::simple_dex::swap_b_to_a`,
@@ -110,7 +111,7 @@ export class AMMContract {
     coinTypeA: string,
     coinTypeB: string
   ) {
-    const packageId = IOTA_CONFIG.packages.core;
+    const packageId = IOTA_CONFIG.packages.upgraded;
     
     tx.moveCall({
       target: `${packageId}::simple_dex::remove_liquidity`,
@@ -21,6 +21,7 @@ export enum ErrorCode {
   INSUFFICIENT_LIQUIDITY = 1201,
   POOL_PAUSED = 1202,
   POOL_NOT_INITIALIZED = 1203,
+  POOL_ALREADY_EXISTS = 1204,
   
   // Transaction Errors (1300-1399)
   TRANSACTION_FAILED = 1300,
@@ -28,11 +29,23 @@ export enum ErrorCode {
   GAS_ESTIMATION_FAILED = 1302,
   SLIPPAGE_EXCEEDED = 1303,
   DEADLINE_EXCEEDED = 1304,
+  PRICE_IMPACT_TOO_HIGH = 1305,
   
   // Smart Contract Errors (1400-1499)
   CONTRACT_CALL_FAILED = 1400,
   CONTRACT_NOT_DEPLOYED = 1401,
   INVALID_CONTRACT_STATE = 1402,
+  ORDER_BOOK_FULL = 1403,
+  ORDER_NOT_FOUND = 1404,
+  INVALID_ORDER_PRICE = 1405,
+  INVALID_ORDER_EXPIRY = 1406,
+  INVALID_FEE_RATE = 1407,
+  INVALID_DCA_INTERVAL = 1408,
+  INVALID_ORDER_COUNT = 1409,
+  INVALID_PRICE_RANGE = 1410,
+  STRATEGY_EXPIRED = 1411,
+  STRATEGY_NOT_ACTIVE = 1412,
+  INTERVAL_NOT_ELAPSED = 1413,
   
   // Authentication/Authorization Errors (1500-1599)
   UNAUTHORIZED = 1500,
@@ -75,10 +88,10 @@ export class AppError extends Error {
     this.context = context;
     
     // Maintain proper stack trace
-    Error.captureStackTrace(this, AppError);
+    Error.captureStackTrace(this, new.target);
     
-    // Set the prototype explicitly for proper instanceof checks
-    Object.setPrototypeOf(this, AppError.prototype);
+    // Set the prototype explicitly for proper instanceof checks, of the subclass being constructed
+    Object.setPrototypeOf(this, new.target.prototype);
   }
 
   toJSON() {
@@ -118,6 +131,16 @@ export class TransactionError extends AppError {
   }
 }
 
+export class MoveAbortError extends AppError {
+  public readonly abort: MoveAbortInfo;
+
+  constructor(code: ErrorCode, message: string, abort: MoveAbortInfo) {
+    super(code, message, 400, true, { ...abort });
+    this.abort = abort;
+    Object.setPrototypeOf(this, MoveAbortError.prototype);
+  }
+}
+
 export class RateLimitError extends AppError {
   constructor(message: string = 'Rate limit exceeded', context?: Record<string, any>) {
     super(ErrorCode.RATE_LIMIT_EXCEEDED, message, 429, true, context);
@@ -140,6 +163,14 @@ export const createPoolNotFoundError = (tokenA: string, tokenB: string) => {
   );
 };
 
+export const createPoolAlreadyExistsError = (tokenA: string, tokenB: string, poolId: string) => {
+  return new PoolError(
+    ErrorCode.POOL_ALREADY_EXISTS,
+    `A pool already exists for pair ${tokenA}/${tokenB}`,
+    { tokenA, tokenB, poolId }
+  );
+};
+
 export const createInsufficientBalanceError = (required: string, available: string, token: string) => {
   return new TransactionError(
     ErrorCode.INSUFFICIENT_BALANCE,
@@ -148,6 +179,129 @@ export const createInsufficientBalanceError = (required: string, available: stri
   );
 };
 
+export const createQuoteExpiredError = (expiresAt: number) => {
+  return new TransactionError(
+    ErrorCode.DEADLINE_EXCEEDED,
+    `Quote expired at ${new Date(expiresAt).toISOString()}, request a new quote`,
+    { expiresAt }
+  );
+};
+
+export const createPriceImpactTooHighError = (priceImpact: number, maxPriceImpact: number) => {
+  return new TransactionError(
+    ErrorCode.PRICE_IMPACT_TOO_HIGH,
+    `Price impact too high: ${priceImpact.toFixed(2)}% (max ${maxPriceImpact}%)`,
+    { priceImpact, maxPriceImpact }
+  );
+};
+
+// ==================== MOVE ABORT DECODING ====================
+
+export interface MoveAbortInfo {
+  module: string;
+  abortCode: number;
+  functionName?: string;
+  constant?: string; // Name of the abort constant in the Move source, when known
+}
+
+interface MoveAbortDefinition {
+  constant: string;
+  code: ErrorCode;
+  message: string;
+}
+
+// Mirrors the abort constants in move/arva/sources
+const MOVE_ABORT_CODES: Record<string, Record<number, MoveAbortDefinition>> = {
+  simple_dex: {
+    0: { constant: 'E_ZERO_AMOUNT', code: ErrorCode.INVALID_AMOUNT, message: 'Amount must be greater than zero' },
+    // Zero output or a safe_mul_div overflow, not a minimum-out failure
+    2: { constant: 'E_INSUFFICIENT_OUTPUT_AMOUNT', code: ErrorCode.INVALID_AMOUNT, message: 'Amount is too small to receive anything, or too large for the pool' },
+    3: { constant: 'E_INSUFFICIENT_RESERVES', code: ErrorCode.INSUFFICIENT_LIQUIDITY, message: 'Pool reserves are insufficient for this trade' },
+    5: { constant: 'E_SLIPPAGE_EXCEEDED', code: ErrorCode.SLIPPAGE_EXCEEDED, message: 'Price moved beyond your slippage tolerance' },
+    6: { constant: 'E_INSUFFICIENT_LP_AMOUNT', code: ErrorCode.INVALID_AMOUNT, message: 'Amount must be less than the LP token holds' },
+  },
+  limit_order: {
+    2: { constant: 'EInvalidPrice', code: ErrorCode.INVALID_ORDER_PRICE, message: 'Order price must be greater than zero' },
+    3: { constant: 'EUnauthorized', code: ErrorCode.UNAUTHORIZED, message: 'Only the order owner can do this' },
+    4: { constant: 'EInvalidAmount', code: ErrorCode.INVALID_AMOUNT, message: 'Order amount is invalid' },
+    5: { constant: 'EOrderNotFound', code: ErrorCode.ORDER_NOT_FOUND, message: 'Order not found, it may have been filled or cancelled' },
+    6: { constant: 'EInvalidExpiry', code: ErrorCode.INVALID_ORDER_EXPIRY, message: 'Order expiry is outside the allowed range' },
+    8: { constant: 'EOrderBookFull', code: ErrorCode.ORDER_BOOK_FULL, message: 'The order book is full, try again later' },
+    9: { constant: 'EInvalidFeeRate', code: ErrorCode.INVALID_FEE_RATE, message: 'Fee rate is above the allowed maximum' },
+    10: { constant: 'EOrderNotFilled', code: ErrorCode.INSUFFICIENT_LIQUIDITY, message: 'Fill-or-kill order could not be filled completely, nothing was traded' },
+  },
+  dca: {
+    1: { constant: 'EInvalidInterval', code: ErrorCode.INVALID_DCA_INTERVAL, message: 'DCA interval is outside the allowed range' },
+    2: { constant: 'EInvalidOrderCount', code: ErrorCode.INVALID_ORDER_COUNT, message: 'Number of DCA orders is outside the allowed range' },
+    3: { constant: 'EStrategyExpired', code: ErrorCode.STRATEGY_EXPIRED, message: 'DCA strategy has expired' },
+    4: { constant: 'EUnauthorized', code: ErrorCode.UNAUTHORIZED, message: 'Only the strategy owner can do this' },
+    5: { constant: 'EPriceOutOfRange', code: ErrorCode.INVALID_PRICE_RANGE, message: 'Maximum output must not be below the minimum output' },
+    6: { constant: 'EInvalidAmount', code: ErrorCode.INVALID_AMOUNT, message: 'DCA amount is invalid' },
+    7: { constant: 'EStrategyNotActive', code: ErrorCode.STRATEGY_NOT_ACTIVE, message: 'DCA strategy is not active' },
+    8: { constant: 'EIntervalNotElapsed', code: ErrorCode.INTERVAL_NOT_ELAPSED, message: 'The next DCA order is not due yet' },
+    9: { constant: 'EInsufficientBalance', code: ErrorCode.INSUFFICIENT_BALANCE, message: 'DCA strategy has no balance left to trade' },
+    10: { constant: 'ESlippageExceeded', code: ErrorCode.SLIPPAGE_EXCEEDED, message: 'DCA order exceeded its slippage limit' },
+  },
+  fixed_swap: {
+    1: { constant: 'EInsufficientReserve', code: ErrorCode.INSUFFICIENT_LIQUIDITY, message: 'Swap reserve is insufficient for this amount' },
+    2: { constant: 'EInvalidAmount', code: ErrorCode.INVALID_AMOUNT, message: 'Swap amount is invalid' },
+  },
+  // Not a module: the swap router's minimum-out guard splits the minimum off the output coin,
+  // which fails as InsufficientCoinBalance instead of aborting when the swaps delivered less
+  SplitCoins: {
+    0: { constant: 'InsufficientCoinBalance', code: ErrorCode.SLIPPAGE_EXCEEDED, message: 'Output is below the minimum amount you accepted' },
+  },
+};
+
+// e.g. MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("simple_dex") }, function: 4,
+//      instruction: 30, function_name: Some("swap_a_to_b") }, 5) in command 1
+const MOVE_ABORT_PATTERN = /MoveAbort\(MoveLocation \{.*?name: Identifier\("(\w+)"\)(?:.*?function_name: Some\("(\w+)"\))?.*?\},\s*(\d+)\)/;
+
+// e.g. InsufficientCoinBalance in command 3
+const INSUFFICIENT_COIN_BALANCE_PATTERN = /InsufficientCoinBalance in command (\d+)/;
+
+/**
+ * `minimumOutCommand` is the index of the swap router's minimum-out guard split in the failed
+ * transaction. Only a shortfall in that command is the guard: coin selection's own splits fail
+ * the same way when the input balance is short, at whichever index they were emitted.
+ */
+export const parseMoveAbort = (message: string, minimumOutCommand?: number): MoveAbortInfo | null => {
+  const shortfall = message.match(INSUFFICIENT_COIN_BALANCE_PATTERN);
+  if (shortfall && minimumOutCommand !== undefined && Number(shortfall[1]) === minimumOutCommand) {
+    return { module: 'SplitCoins', abortCode: 0, constant: 'InsufficientCoinBalance' };
+  }
+
+  const match = message.match(MOVE_ABORT_PATTERN);
+  if (!match) return null;
+
+  const [, module = '', functionName, code = ''] = match;
+  const abortCode = Number(code);
+  const constant = MOVE_ABORT_CODES[module]?.[abortCode]?.constant;
+
+  return {
+    module,
+    abortCode,
+    ...(functionName && { functionName }),
+    ...(constant && { constant }),
+  };
+};
+
+export const decodeMoveAbort = (message: string, minimumOutCommand?: number): MoveAbortError | null => {
+  const abort = parseMoveAbort(message, minimumOutCommand);
+  if (!abort) return null;
+
+  const definition = MOVE_ABORT_CODES[abort.module]?.[abort.abortCode];
+  if (!definition) {
+    return new MoveAbortError(
+      ErrorCode.CONTRACT_CALL_FAILED,
+      `${abort.module} aborted with code ${abort.abortCode}`,
+      abort
+    );
+  }
+
+  return new MoveAbortError(definition.code, definition.message, abort);
+};
+
 // Error handler for unhandled promise rejections
 export const handleUncaughtError = (error: Error) => {
   console.error('[UNCAUGHT_ERROR]', {
@@ -168,6 +322,14 @@ export const parseError = (error: unknown): AppError => {
     return error;
   }
   
+  if (error instanceof Error || typeof error === 'string') {
+    const message = typeof error === 'string' ? error : error.message;
+    const moveAbort = decodeMoveAbort(message);
+    if (moveAbort) {
+      return moveAbort;
+    }
+  }
+
   if (error instanceof Error) {
     return new AppError(
       ErrorCode.UNKNOWN_ERROR,
@@ -187,6 +349,17 @@ export const parseError = (error: unknown): AppError => {
   );
 };
 
+// Readable message for UI surfaces, decoding Move aborts from failed transactions
+export const getErrorMessage = (error: unknown, fallback: string = 'Transaction failed'): string => {
+  if (error === undefined || error === null || error === '') {
+    return fallback;
+  }
+  if (typeof error === 'string') {
+    return decodeMoveAbort(error)?.message ?? error;
+  }
+  return parseError(error).message || fallback;
+};
+
 // Type guards for error checking
 export const isValidationError = (error: any): error is ValidationError => {
   return error instanceof ValidationError;
@@ -204,6 +377,10 @@ export const isTransactionError = (error: any): error is TransactionError => {
   return error instanceof TransactionError;
 };
 
+export const isMoveAbortError = (error: any): error is MoveAbortError => {
+  return error instanceof MoveAbortError;
+};
+
 // Error severity levels
 export enum ErrorSeverity {
   LOW = 'low',
@@ -0,0 +1,123 @@
+import { CoinStruct, IotaClient } from '@iota/iota-sdk/client';
+import { Transaction, TransactionObjectArgument } from '@iota/iota-sdk/transactions';
+import { SUPPORTED_COINS } from '@/config/iota.config';
+import { getTokenByType, isSameCoinType } from '@/lib/services/token-registry';
+import { createInsufficientBalanceError } from '@/lib/errors';
+import { log } from '@/lib/logging';
+
+// Coin selection shared by the swap, liquidity, DCA and limit-order transaction builders
+
+// Anything that can list coins: the raw client, the dapp-kit client or the safe client
+export type CoinSource = Pick<IotaClient, 'getCoins'>;
+
+export interface CoinSelection {
+  coins: CoinStruct[];
+  total: bigint; // Sum of the selected coins, at least the requested amount
+}
+
+export interface PrepareCoinParams {
+  owner: string;
+  coinType: string;
+  amount: bigint;
+  gasBudget?: bigint; // IOTA kept aside for gas when the input coin is IOTA
+}
+
+const DEFAULT_GAS_BUDGET = 100000000n; // 0.1 IOTA, the budget the hooks set
+
+const byBalanceDescending = (a: CoinStruct, b: CoinStruct) => {
+  const difference = BigInt(b.balance) - BigInt(a.balance);
+  return difference > 0n ? 1 : difference < 0n ? -1 : 0;
+};
+
+const symbolOf = (coinType: string) => getTokenByType(coinType)?.symbol || coinType;
+
+const sumBalances = (coins: CoinStruct[]) => coins.reduce((sum, coin) => sum + BigInt(coin.balance), 0n);
+
+/**
+ * Every coin object of `coinType` owned by `owner`, following the RPC cursor past the first page.
+ */
+export async function getAllCoins(client: CoinSource, owner: string, coinType: string): Promise<CoinStruct[]> {
+  const coins: CoinStruct[] = [];
+  let cursor: string | null | undefined;
+
+  do {
+    const page = await client.getCoins({ owner, coinType, cursor });
+    coins.push(...page.data);
+    cursor = page.hasNextPage ? page.nextCursor : null;
+  } while (cursor);
+
+  return coins;
+}
+
+/**
+ * Fewest coins covering `amount`: the smallest single coin that is large enough, otherwise the
+ * largest coins until the amount is reached. Returns null when the coins don't add up.
+ */
+export function selectCoins(coins: CoinStruct[], amount: bigint): CoinSelection | null {
+  const sorted = coins.filter(coin => BigInt(coin.balance) > 0n).sort(byBalanceDescending);
+
+  const single = [...sorted].reverse().find(coin => BigInt(coin.balance) >= amount);
+  if (single) {
+    return { coins: [single], total: BigInt(single.balance) };
+  }
+
+  const selected: CoinStruct[] = [];
+  let total = 0n;
+  for (const coin of sorted) {
+    if (total >= amount) break;
+    selected.push(coin);
+    total += BigInt(coin.balance);
+  }
+
+  return total >= amount && selected.length > 0 ? { coins: selected, total } : null;
+}
+
+// Merge the selection into its first coin and split off exactly `amount`
+function mergeAndSplit(tx: Transaction, selection: CoinSelection, amount: bigint): TransactionObjectArgument {
+  const [primary, ...rest] = selection.coins.map(coin => tx.object(coin.coinObjectId));
+
+  if (rest.length > 0) {
+    tx.mergeCoins(primary!, rest);
+  }
+  if (selection.total === amount) {
+    return primary!;
+  }
+  return tx.splitCoins(primary!, [amount])[0]!;
+}
+
+/**
+ * Add a coin of exactly `amount` to `tx` from the owner's balance. IOTA inputs come from coins
+ * other than the largest one, which is left for gas; the gas coin is only split when those
+ * don't cover the amount. Throws an insufficient balance error when the owner can't pay.
+ */
+export async function prepareCoinInput(
+  client: CoinSource,
+  tx: Transaction,
+  { owner, coinType, amount, gasBudget = DEFAULT_GAS_BUDGET }: PrepareCoinParams
+): Promise<TransactionObjectArgument> {
+  const coins = await getAllCoins(client, owner, coinType);
+  const available = sumBalances(coins);
+
+  if (!isSameCoinType(coinType, SUPPORTED_COINS.IOTA.type)) {
+    const selection = selectCoins(coins, amount);
+    if (!selection) {
+      throw createInsufficientBalanceError(amount.toString(), available.toString(), symbolOf(coinType));
+    }
+    log.debug('Selected input coins', { coinType, count: selection.coins.length, amount: amount.toString() });
+    return mergeAndSplit(tx, selection, amount);
+  }
+
+  const [gasCoin, ...spendable] = [...coins].sort(byBalanceDescending);
+  if (gasCoin && BigInt(gasCoin.balance) >= gasBudget) {
+    const selection = selectCoins(spendable, amount);
+    if (selection) {
+      log.debug('Selected IOTA input coins outside the gas coin', { count: selection.coins.length });
+      return mergeAndSplit(tx, selection, amount);
+    }
+  }
+
+  if (available < amount + gasBudget) {
+    throw createInsufficientBalanceError((amount + gasBudget).toString(), available.toString(), symbolOf(coinType));
+  }
+  return tx.splitCoins(tx.gas, [amount])[0]!;
+}
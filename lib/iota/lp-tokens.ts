@@ -0,0 +1,76 @@
+import { Transaction, TransactionObjectArgument } from '@iota/iota-sdk/transactions';
+import { IOTA_CONFIG, MODULE_NAMES } from '@/config/iota.config';
+import { ValidationError, createInsufficientBalanceError } from '@/lib/errors';
+
+// LPToken handling shared by the remove liquidity, zap out and position management builders
+
+// An LPToken object and the LP amount it holds
+export interface LPTokenRef {
+  objectId: string;
+  amount: bigint;
+}
+
+// The pool's type arguments, which are also the LP token's
+export type LPTokenTypeArguments = [coinTypeA: string, coinTypeB: string];
+
+const byAmountDescending = (a: LPTokenRef, b: LPTokenRef) =>
+  a.amount === b.amount ? 0 : a.amount > b.amount ? -1 : 1;
+
+export const sumLPTokens = (tokens: LPTokenRef[]): bigint =>
+  tokens.reduce((sum, token) => sum + token.amount, 0n);
+
+/**
+ * Join every token into the largest one with simple_dex::join_lp_token and return it. The merged
+ * token keeps the largest token's ID and stays with its owner unless a later call consumes it.
+ */
+export function mergeLPTokens(
+  tx: Transaction,
+  typeArguments: LPTokenTypeArguments,
+  tokens: LPTokenRef[]
+): TransactionObjectArgument {
+  const [primary, ...rest] = [...tokens].sort(byAmountDescending).map(token => tx.object(token.objectId));
+  if (!primary) {
+    throw new ValidationError('No LP tokens to merge');
+  }
+
+  for (const token of rest) {
+    tx.moveCall({
+      target: `${IOTA_CONFIG.packages.upgraded}::${MODULE_NAMES.DEX}::join_lp_token`,
+      typeArguments,
+      arguments: [primary, token],
+    });
+  }
+  return primary;
+}
+
+/**
+ * Add an LP token of exactly `amount` to `tx` from `tokens`: they are merged into one and the
+ * amount is split off unless it is everything, so whatever is left stays with the owner as a
+ * single token. Throws an insufficient balance error when the tokens don't add up.
+ */
+export function prepareLPTokenInput(
+  tx: Transaction,
+  typeArguments: LPTokenTypeArguments,
+  tokens: LPTokenRef[],
+  amount: bigint
+): TransactionObjectArgument {
+  const available = sumLPTokens(tokens);
+  if (amount <= 0n) {
+    throw new ValidationError('LP amount must be greater than zero', { amount: amount.toString() });
+  }
+  if (amount > available) {
+    throw createInsufficientBalanceError(amount.toString(), available.toString(), 'LP');
+  }
+
+  const merged = mergeLPTokens(tx, typeArguments, tokens);
+  if (amount === available) {
+    return merged;
+  }
+
+  const [split] = tx.moveCall({
+    target: `${IOTA_CONFIG.packages.upgraded}::${MODULE_NAMES.DEX}::split_lp_token`,
+    typeArguments,
+    arguments: [merged, tx.pure.u64(amount)],
+  });
+  return split!;
+}
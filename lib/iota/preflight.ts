@@ -0,0 +1,102 @@
+'use client';
+
+import { IotaClient } from '@iota/iota-sdk/client';
+import { Transaction } from '@iota/iota-sdk/transactions';
+import { getTokenByType } from '@/lib/services/token-registry';
+import { getMinimumOutCommand } from '@/lib/services/swap-router';
+import { AppError, ErrorCode, TransactionError, decodeMoveAbort, parseError } from '@/lib/errors';
+import { formatBalance } from '@/lib/utils/format';
+import { log, measurePerformance } from '@/lib/logging';
+
+// Dry-run pre-flight shared by every hook that asks the wallet to sign
+
+export interface PreflightBalanceChange {
+  coinType: string;
+  symbol: string;
+  decimals: number;
+  amount: bigint; // Negative when spent
+}
+
+export interface PreflightResult {
+  success: boolean;
+  balanceChanges: PreflightBalanceChange[];
+  gasEstimate: bigint; // Computation plus storage, net of rebates
+  error: AppError | null;
+}
+
+const toPreflightError = (message: string, minimumOutCommand?: number): AppError => {
+  const moveAbort = decodeMoveAbort(message, minimumOutCommand);
+  if (moveAbort) {
+    return moveAbort;
+  }
+
+  if (message.includes('InsufficientGas')) {
+    return new TransactionError(ErrorCode.GAS_ESTIMATION_FAILED, 'Insufficient gas for this transaction', { raw: message });
+  }
+  if (message.includes('InsufficientCoinBalance')) {
+    return new TransactionError(ErrorCode.INSUFFICIENT_BALANCE, 'Insufficient balance for this transaction', { raw: message });
+  }
+  return new TransactionError(ErrorCode.TRANSACTION_FAILED, message, { raw: message });
+};
+
+/**
+ * Build the transaction for `sender` and dry-run it. Never throws: build or RPC failures come
+ * back as an unsuccessful result so callers can stop before the wallet prompt.
+ */
+export async function dryRunTransaction(
+  client: IotaClient,
+  tx: Transaction,
+  sender: string
+): Promise<PreflightResult> {
+  const timer = measurePerformance('Preflight.dryRunTransaction');
+
+  try {
+    tx.setSenderIfNotSet(sender);
+    const transactionBlock = await tx.build({ client });
+    const result = await client.dryRunTransactionBlock({ transactionBlock });
+
+    const { gasUsed, status } = result.effects;
+    const gasEstimate =
+      BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+
+    const balanceChanges = result.balanceChanges
+      .filter(change => typeof change.owner === 'object' && 'AddressOwner' in change.owner && change.owner.AddressOwner === sender)
+      .map(change => {
+        const token = getTokenByType(change.coinType);
+        return {
+          coinType: change.coinType,
+          symbol: token?.symbol || change.coinType.split('::').pop() || change.coinType,
+          decimals: token?.decimals ?? 9,
+          amount: BigInt(change.amount),
+        };
+      });
+
+    if (status.status === 'failure') {
+      const error = toPreflightError(status.error || 'Transaction simulation failed', getMinimumOutCommand(tx));
+      log.warn('Transaction dry run failed', { sender, error: error.message, code: error.code });
+      return { success: false, balanceChanges, gasEstimate, error };
+    }
+
+    log.debug('Transaction dry run succeeded', { sender, gasEstimate: gasEstimate.toString() });
+    return { success: true, balanceChanges, gasEstimate, error: null };
+  } catch (error) {
+    // Building dry-runs too, so aborts can surface here as thrown messages
+    const appError = error instanceof Error ? toPreflightError(error.message, getMinimumOutCommand(tx)) : parseError(error);
+    log.warn('Transaction pre-flight failed', { sender, error: appError.message });
+    return { success: false, balanceChanges: [], gasEstimate: 0n, error: appError };
+  } finally {
+    timer.end();
+  }
+}
+
+// One-line summary for toasts, e.g. "-1.00 IOTA, +0.2800 vUSD · gas ~0.0030 IOTA"
+export function formatPreflightSummary(result: PreflightResult): string {
+  const changes = result.balanceChanges.map(change => {
+    const sign = change.amount < 0n ? '-' : '+';
+    const magnitude = change.amount < 0n ? -change.amount : change.amount;
+    return `${sign}${formatBalance(magnitude, change.decimals, 4)} ${change.symbol}`;
+  });
+  const gas = result.gasEstimate > 0n ? result.gasEstimate : 0n;
+
+  return [changes.join(', ') || 'No balance changes', `gas ~${formatBalance(gas, 9, 4)} IOTA`].join(' · ');
+}
@@ -106,6 +106,8 @@ class FileTransport implements LogTransport {
   constructor() {
     // Flush buffer every 5 seconds or when it reaches max size
     this.flushInterval = setInterval(() => this.flush(), 5000);
+    // Server-side only: a pending flush shouldn't keep the process alive
+    this.flushInterval.unref?.();
   }
 
   log(entry: LogEntry): void {
@@ -131,6 +131,8 @@ export class RateLimiter {
     this.cleanupInterval = setInterval(() => {
       this.cleanup();
     }, 60000);
+    // Let API route processes (and node test runs) exit with the sweep pending
+    this.cleanupInterval.unref?.();
   }
 
   static getInstance(): RateLimiter {
@@ -201,6 +203,11 @@ export class RateLimiter {
     expiredKeys.forEach(key => this.records.delete(key));
   }
 
+  // Forget every window, e.g. between test cases sharing one identifier
+  reset(): void {
+    this.records.clear();
+  }
+
   destroy(): void {
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
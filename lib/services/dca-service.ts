@@ -6,8 +6,11 @@
 
 import { IotaClient } from '@iota/iota-sdk/client';
 import { Transaction } from '@iota/iota-sdk/transactions';
-import { IOTA_CONFIG, getTokenByType, MODULE_NAMES } from '@/config/iota.config';
+import { IOTA_CONFIG, MODULE_NAMES } from '@/config/iota.config';
+import { getTokenByType } from '@/lib/services/token-registry';
 import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { prepareCoinInput } from '@/lib/iota/coin-selection';
+import { parseTokenAmount as toBaseUnits } from '@/lib/utils/format';
 import { log, measurePerformance } from '@/lib/logging';
 import { dcaCache, withCache } from '@/lib/cache';
 import { 
@@ -200,12 +203,13 @@ export class DCAService {
   }
 
   private parseTokenAmount(amount: string, decimals: number): string {
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) {
+    // Exact: a float product can come out a unit above the balance it was typed from
+    const trimmed = amount.trim();
+    if (!/^(\d+\.?\d*|\.\d+)$/.test(trimmed) || /^[0.]*$/.test(trimmed)) {
       throw new ValidationError(`Invalid amount: ${amount}`);
     }
     
-    return Math.floor(amountNum * Math.pow(10, decimals)).toString();
+    return toBaseUnits(trimmed, decimals).toString();
   }
 
   // ==================== REGISTRY OPERATIONS ====================
@@ -286,7 +290,7 @@ export class DCAService {
 
   // ==================== STRATEGY OPERATIONS ====================
   
-  async createStrategy(params: CreateDCAParams): Promise<Transaction> {
+  async createStrategy(params: CreateDCAParams, sender: string): Promise<Transaction> {
     const timer = measurePerformance('DCAService.createStrategy');
     
     try {
@@ -304,10 +308,13 @@ export class DCAService {
       
       const tx = new Transaction();
       
-      // Split source token from gas for strategy funding
-      const sourceCoin = params.sourceTokenType === '0x2::iota::IOTA' 
-        ? tx.splitCoins(tx.gas, [totalAmount])
-        : tx.gas; // TODO: Handle other tokens when available
+      // Fund the strategy from the sender's source token coins
+      const sourceCoin = await prepareCoinInput(this.client, tx, {
+        owner: sender,
+        coinType: params.sourceTokenType,
+        amount: BigInt(totalAmount),
+        gasBudget: 20_000_000n,
+      });
       
       if (this.registryId && this.registryId !== '0x0') {
         // Use registry-based approach
@@ -531,10 +538,8 @@ export class DCAService {
 
   // ==================== STATIC CONVENIENCE METHODS ====================
   
-  static getInstance = () => DCAService.getInstance();
-  
-  static async createStrategy(params: CreateDCAParams): Promise<Transaction> {
-    return DCAService.getInstance().createStrategy(params);
+  static async createStrategy(params: CreateDCAParams, sender: string): Promise<Transaction> {
+    return DCAService.getInstance().createStrategy(params, sender);
   }
   
   static async executeStrategy(strategyId: string): Promise<Transaction> {
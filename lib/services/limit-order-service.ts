@@ -6,10 +6,14 @@
 
 import { IotaClient } from '@iota/iota-sdk/client';
 import { Transaction } from '@iota/iota-sdk/transactions';
-import { IOTA_CONFIG, getTokenByType, getOrderBookId, MODULE_NAMES } from '@/config/iota.config';
+import { IOTA_CONFIG, getOrderBookId, MODULE_NAMES } from '@/config/iota.config';
+import { getTokenByType, isSameCoinType, TokenInfo } from '@/lib/services/token-registry';
+import { parsePairTypeArguments } from '@/lib/services/pool-discovery';
 import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { prepareCoinInput } from '@/lib/iota/coin-selection';
+import { parseTokenAmount } from '@/lib/utils/format';
 import { log, measurePerformance } from '@/lib/logging';
-import { poolCache, withCache } from '@/lib/cache';
+import { poolCache, withCache, invalidateCache } from '@/lib/cache';
 import { 
   ValidationError, 
   NetworkError, 
@@ -53,6 +57,18 @@ export interface LimitOrder {
   readonly tags?: readonly string[];
 }
 
+/**
+ * How long an order may rest:
+ * - 'gtc' rests until filled, cancelled or expired
+ * - 'ioc' (immediate-or-cancel) goes through place_*_order_ioc, which fills what crosses and
+ *   refunds the rest in the same call
+ * - 'fok' (fill-or-kill) goes through the same entries, which abort unless it fills completely
+ * - 'post-only' is rejected before signing if any of it would fill on placement
+ * IOC and FOK orders are also checked against the live book before signing, so one with nothing
+ * to fill, or a FOK the book can't cover, never reaches the wallet.
+ */
+export type TimeInForce = 'gtc' | 'ioc' | 'fok' | 'post-only';
+
 export interface CreateLimitOrderParams {
   readonly baseTokenType: string;
   readonly quoteTokenType: string;
@@ -60,10 +76,20 @@ export interface CreateLimitOrderParams {
   readonly amount: string; // Amount of base token
   readonly price: string; // Price per base token in quote token
   readonly expiryDuration: number; // Duration in milliseconds
+  readonly timeInForce?: TimeInForce; // Defaults to 'gtc'
   readonly clientOrderId?: string;
   readonly tags?: readonly string[];
 }
 
+// The order to cancel and the book holding it, base and quote in the book's orientation
+export type CancelOrderParams = Pick<LimitOrder, 'id' | 'orderBookId' | 'baseTokenType' | 'quoteTokenType'>;
+
+// What createOrder would place now, amounts in the params' base token
+export interface OrderPreview {
+  readonly amount: bigint;
+  readonly fillable: bigint; // Fills on placement at the current book, IOC and FOK refund the rest
+}
+
 export interface OrderBookInfo {
   readonly orderBookId: string;
   readonly baseTokenType: string;
@@ -88,25 +114,69 @@ export interface OrderFillEvent {
 }
 
 export interface OrderBookSnapshot {
-  readonly bids: readonly { price: string; amount: string; orders: number }[];
-  readonly asks: readonly { price: string; amount: string; orders: number }[];
+  readonly bids: readonly OrderBookLevel[]; // Best (highest) price first
+  readonly asks: readonly OrderBookLevel[]; // Best (lowest) price first
   readonly spread: string;
   readonly lastPrice: string;
   readonly timestamp: number;
 }
 
+export interface OrderBookLevel {
+  readonly price: string;
+  readonly amount: string;
+  readonly orders: number;
+}
+
+// A LimitOrder resting in OrderBook<A, B>, amounts in base units of A
+export interface RestingOrder {
+  readonly price: bigint; // B base units per A base unit, 6 decimals
+  readonly amount: bigint;
+  readonly filledAmount: bigint;
+  readonly expireAt: number;
+}
+
+interface OrderBookDepth {
+  orderBookId: string;
+  baseTokenType: string;
+  quoteTokenType: string;
+  snapshot: OrderBookSnapshot;
+  buyOrders: RestingOrder[]; // In book order, best price first
+  sellOrders: RestingOrder[];
+}
+
+interface PreparedOrder {
+  book: OrderBookDepth;
+  order: BookOrder;
+  fillable: bigint; // In the book's base token
+  isFlipped: boolean; // The book has the pair the other way round
+  baseToken: TokenInfo;
+  quoteToken: TokenInfo;
+}
+
+// An order as place_buy_order and place_sell_order take it, in the book's orientation
+export interface BookOrder {
+  readonly isBuy: boolean;
+  readonly amount: bigint; // Base units of the book's base token
+  readonly price: bigint; // Quote base units per base unit, 6 decimals
+}
+
+const PRICE_DECIMALS = 6; // PRICE_PRECISION in limit_order.move is 10^6
+const PRICE_PRECISION = 10n ** BigInt(PRICE_DECIMALS);
+
 export class LimitOrderService {
   private static instance: LimitOrderService | null = null;
   private readonly client: IotaClient;
   private readonly packageId: string;
+  private readonly upgradedPackageId: string; // Adds the immediate-or-cancel entries
   
   private constructor() {
-    this.client = getSafeIotaClient();
-    this.packageId = IOTA_CONFIG.packages.core;
-    
-    if (!this.client) {
+    const safeClient = getSafeIotaClient();
+    if (!safeClient) {
       throw new NetworkError('Failed to initialize IOTA client');
     }
+    this.client = safeClient.getRawClient();
+    this.packageId = IOTA_CONFIG.packages.core;
+    this.upgradedPackageId = IOTA_CONFIG.packages.upgraded;
     
     if (!this.packageId || this.packageId === '0x0') {
       throw new Error('Limit Order package ID not configured. Please deploy contracts first.');
@@ -153,7 +223,7 @@ export class LimitOrderService {
     }
     
     // Convert to smallest units for validation
-    const amountInSmallestUnits = BigInt(Math.floor(amountNum * Math.pow(10, baseToken.decimals)));
+    const amountInSmallestUnits = parseOrderAmount(amount, baseToken.decimals);
     if (amountInSmallestUnits < IOTA_CONFIG.limits.minOrderSize) {
       const minAmount = Number(IOTA_CONFIG.limits.minOrderSize) / Math.pow(10, baseToken.decimals);
       throw new ValidationError(`Order amount too small. Minimum: ${minAmount} ${baseToken.symbol}`);
@@ -180,25 +250,6 @@ export class LimitOrderService {
     }
   }
 
-  private parseTokenAmount(amount: string, decimals: number): string {
-    const amountNum = parseFloat(amount);
-    if (isNaN(amountNum) || amountNum <= 0) {
-      throw new ValidationError(`Invalid amount: ${amount}`);
-    }
-    
-    return Math.floor(amountNum * Math.pow(10, decimals)).toString();
-  }
-
-  private parsePrice(price: string, baseDecimals: number, quoteDecimals: number): string {
-    const priceNum = parseFloat(price);
-    if (isNaN(priceNum) || priceNum <= 0) {
-      throw new ValidationError(`Invalid price: ${price}`);
-    }
-    
-    // Price is stored with 6 decimal precision
-    return Math.floor(priceNum * 1000000).toString();
-  }
-
   // ==================== ORDER BOOK OPERATIONS ====================
   
   async createOrderBook(baseTokenType: string, quoteTokenType: string): Promise<Transaction> {
@@ -246,47 +297,26 @@ export class LimitOrderService {
     const timer = measurePerformance('LimitOrderService.getOrderBookInfo');
     
     try {
-      const orderBookId = getOrderBookId(
-        getTokenByType(baseTokenType)?.symbol || '',
-        getTokenByType(quoteTokenType)?.symbol || ''
-      );
-      
-      if (!orderBookId || orderBookId === '0x0') {
+      const orderBook = await this.getOrderBookDepth(baseTokenType, quoteTokenType);
+      if (!orderBook) {
         return null;
       }
-      
-      const cacheKey = `order-book:${orderBookId}`;
-      
-      return await withCache(
-        poolCache,
-        cacheKey,
-        async () => {
-          const orderBookObject = await this.client.getObject({
-            id: orderBookId,
-            options: { showContent: true },
-          });
 
-          if (!orderBookObject.data?.content || orderBookObject.data.content.dataType !== 'moveObject') {
-            return null;
-          }
+      const { snapshot } = orderBook;
+      const totalOrders = [...snapshot.bids, ...snapshot.asks].reduce((sum, level) => sum + level.orders, 0);
 
-          const fields = orderBookObject.data.content.fields as any;
-          
-          return {
-            orderBookId,
-            baseTokenType,
-            quoteTokenType,
-            totalOrders: parseInt(fields.total_orders || '0'),
-            totalVolume: fields.total_volume || '0',
-            bestBid: fields.best_bid || '0',
-            bestAsk: fields.best_ask || '0',
-            spread: fields.spread || '0',
-            lastPrice: fields.last_price || '0',
-            volume24h: fields.volume_24h || '0',
-          };
-        },
-        30000 // 30 second cache
-      );
+      return {
+        orderBookId: orderBook.orderBookId,
+        baseTokenType: orderBook.baseTokenType,
+        quoteTokenType: orderBook.quoteTokenType,
+        totalOrders,
+        totalVolume: '0', // The book keeps no trade totals
+        bestBid: snapshot.bids[0]?.price ?? '0',
+        bestAsk: snapshot.asks[0]?.price ?? '0',
+        spread: snapshot.spread,
+        lastPrice: snapshot.lastPrice,
+        volume24h: '0',
+      };
       
     } catch (error) {
       log.error('Failed to get order book info', { baseTokenType, quoteTokenType }, error instanceof Error ? error : undefined);
@@ -296,63 +326,189 @@ export class LimitOrderService {
     }
   }
 
+  /**
+   * Live depth of the pair's order book: resting orders aggregated by price level, expired ones
+   * left out. Prices are quote per base in whole tokens, amounts the unfilled base amount.
+   */
+  async getOrderBookSnapshot(baseTokenType: string, quoteTokenType: string): Promise<OrderBookSnapshot | null> {
+    const timer = measurePerformance('LimitOrderService.getOrderBookSnapshot');
+
+    try {
+      const orderBook = await this.getOrderBookDepth(baseTokenType, quoteTokenType);
+      return orderBook?.snapshot ?? null;
+    } catch (error) {
+      log.error('Failed to get order book snapshot', { baseTokenType, quoteTokenType }, error instanceof Error ? error : undefined);
+      return null;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Id of the newest limit_order event, for noticing when depth changed: every order placed,
+   * filled or cancelled emits one. The events don't name their order book, so activity on any book
+   * moves it.
+   */
+  async getLatestOrderBookEvent(): Promise<string | null> {
+    const page = await this.client.queryEvents({
+      query: { MoveEventModule: { package: this.packageId, module: MODULE_NAMES.LIMIT_ORDER } },
+      limit: 1,
+      order: 'descending',
+    });
+
+    const event = page.data[0];
+    return event ? `${event.id.txDigest}:${event.id.eventSeq}` : null;
+  }
+
+  /**
+   * Reads the OrderBook<A, B> object. The book's own type arguments decide which token is the
+   * base, whichever order the pair was asked for in.
+   */
+  private async getOrderBookDepth(baseTokenType: string, quoteTokenType: string): Promise<OrderBookDepth | null> {
+    const orderBookId = getOrderBookId(
+      getTokenByType(baseTokenType)?.symbol || '',
+      getTokenByType(quoteTokenType)?.symbol || ''
+    );
+
+    if (!orderBookId || orderBookId === '0x0') {
+      return null;
+    }
+
+    return withCache(
+      poolCache,
+      `order-book:${orderBookId}`,
+      async () => {
+        const orderBookObject = await this.client.getObject({
+          id: orderBookId,
+          options: { showContent: true, showType: true },
+        });
+
+        const content = orderBookObject.data?.content;
+        if (!content || content.dataType !== 'moveObject') {
+          return null;
+        }
+
+        const [bookBaseType, bookQuoteType] = parsePairTypeArguments(content.type) ?? [baseTokenType, quoteTokenType];
+        const baseToken = getTokenByType(bookBaseType);
+        const quoteToken = getTokenByType(bookQuoteType);
+        if (!baseToken || !quoteToken) {
+          return null;
+        }
+
+        const fields = content.fields as any;
+        const buyOrders = parseRestingOrders(fields.buy_orders);
+        const sellOrders = parseRestingOrders(fields.sell_orders);
+        const snapshot = buildOrderBookSnapshot(buyOrders, sellOrders, baseToken.decimals, quoteToken.decimals, Date.now());
+
+        return { orderBookId, baseTokenType: bookBaseType, quoteTokenType: bookQuoteType, snapshot, buyOrders, sellOrders };
+      },
+      10000 // 10 second cache
+    );
+  }
+
   // ==================== ORDER OPERATIONS ====================
   
-  async createOrder(params: CreateLimitOrderParams): Promise<Transaction> {
+  /**
+   * The order as createOrder would place it right now and how much of it the current book fills,
+   * for showing before signing
+   */
+  async previewOrder(params: CreateLimitOrderParams): Promise<OrderPreview> {
+    const { order, fillable, isFlipped } = await this.prepareOrder(params);
+
+    return isFlipped
+      ? { amount: invertOrder(order).amount, fillable: invertOrder({ ...order, amount: fillable }).amount }
+      : { amount: order.amount, fillable };
+  }
+
+  /**
+   * Validate the params and put the order onto its book: flipped when the book has the pair the
+   * other way round, and rejected when its time in force can't be met against the live book.
+   */
+  private async prepareOrder(params: CreateLimitOrderParams): Promise<PreparedOrder> {
+    this.validateCreateOrderParams(params);
+
+    const baseToken = getTokenByType(params.baseTokenType)!;
+    const quoteToken = getTokenByType(params.quoteTokenType)!;
+
+    // Time in force is checked against the book as it is now, not as last cached
+    const timeInForce = params.timeInForce ?? 'gtc';
+    if (timeInForce !== 'gtc') {
+      LimitOrderService.clearOrderBookCache();
+    }
+
+    // The book fixes which token is the base, an order for the reversed pair is flipped onto it
+    const book = await this.getOrderBookDepth(params.baseTokenType, params.quoteTokenType);
+    if (!book) {
+      throw new ValidationError(`No order book for ${baseToken.symbol}/${quoteToken.symbol}`);
+    }
+
+    let order: BookOrder = {
+      isBuy: params.orderType === 'buy',
+      amount: parseOrderAmount(params.amount, baseToken.decimals),
+      price: toOrderPrice(params.price, baseToken.decimals, quoteToken.decimals),
+    };
+    const isFlipped = !isSameCoinType(book.baseTokenType, params.baseTokenType);
+    if (isFlipped) {
+      order = invertOrder(order);
+    }
+    if (order.price <= 0n || order.amount <= 0n) {
+      throw new ValidationError("Price or amount is below the order book's precision");
+    }
+
+    const fillable = simulateMatch(order, order.isBuy ? book.sellOrders : book.buyOrders, Date.now());
+    checkTimeInForce(order, timeInForce, fillable);
+
+    return { book, order, fillable, isFlipped, baseToken, quoteToken };
+  }
+
+  async createOrder(params: CreateLimitOrderParams, sender: string): Promise<Transaction> {
     const timer = measurePerformance('LimitOrderService.createOrder');
     
     try {
-      // Validate parameters
-      this.validateCreateOrderParams(params);
-      
-      const baseToken = getTokenByType(params.baseTokenType)!;
-      const quoteToken = getTokenByType(params.quoteTokenType)!;
-      
-      // Parse amounts and price
-      const amount = this.parseTokenAmount(params.amount, baseToken.decimals);
-      const price = this.parsePrice(params.price, baseToken.decimals, quoteToken.decimals);
-      const expiresAt = Date.now() + params.expiryDuration;
-      
-      // Calculate required token amount based on order type
-      const isBuyOrder = params.orderType === 'buy';
-      const requiredTokenType = isBuyOrder ? params.quoteTokenType : params.baseTokenType;
-      const requiredAmount = isBuyOrder 
-        ? this.parseTokenAmount((parseFloat(params.amount) * parseFloat(params.price)).toString(), quoteToken.decimals)
-        : amount;
-      
+      const { book, order, baseToken, quoteToken } = await this.prepareOrder(params);
+      const timeInForce = params.timeInForce ?? 'gtc';
+
       const tx = new Transaction();
-      
-      // Split required token from gas
-      const requiredCoin = requiredTokenType === '0x2::iota::IOTA' 
-        ? tx.splitCoins(tx.gas, [requiredAmount])
-        : tx.gas; // TODO: Handle other tokens
-      
-      // Get or create order book ID
-      const orderBookId = getOrderBookId(baseToken.symbol, quoteToken.symbol);
-      if (!orderBookId || orderBookId === '0x0') {
-        // If no order book exists, create one first
+
+      // A buy locks the quote it pays, a sell the base it sells, in either orientation. Any coin
+      // type is merged and split from the sender's coins, failing here when they can't cover it
+      const fundingCoin = await prepareCoinInput(this.client, tx, {
+        owner: sender,
+        coinType: params.orderType === 'buy' ? params.quoteTokenType : params.baseTokenType,
+        amount: getOrderFunding(order.isBuy, order.amount, order.price),
+        gasBudget: 15_000_000n,
+      });
+
+      const placeFunction = order.isBuy ? 'place_buy_order' : 'place_sell_order';
+      if (timeInForce === 'ioc' || timeInForce === 'fok') {
+        // Matched and refunded in the one call, a FOK aborts the transaction unless it fills
+        tx.moveCall({
+          target: `${this.upgradedPackageId}::${MODULE_NAMES.LIMIT_ORDER}::${placeFunction}_ioc`,
+          typeArguments: [book.baseTokenType, book.quoteTokenType],
+          arguments: [
+            tx.object(book.orderBookId),
+            fundingCoin,
+            tx.pure.u64(order.price),
+            tx.pure.u64(order.amount),
+            tx.pure.bool(timeInForce === 'fok'),
+            tx.object('0x6'), // Clock
+          ],
+        });
+      } else {
         tx.moveCall({
-          target: `${this.packageId}::${MODULE_NAMES.LIMIT_ORDER}::create_order_book`,
-          typeArguments: [params.baseTokenType, params.quoteTokenType],
-          arguments: [],
+          target: `${this.packageId}::${MODULE_NAMES.LIMIT_ORDER}::${placeFunction}`,
+          typeArguments: [book.baseTokenType, book.quoteTokenType],
+          arguments: [
+            tx.object(book.orderBookId),
+            fundingCoin,
+            tx.pure.u64(order.price),
+            tx.pure.u64(order.amount),
+            tx.pure.u64(params.expiryDuration),
+            tx.object('0x6'), // Clock
+          ],
         });
       }
       
-      // Create the limit order
-      tx.moveCall({
-        target: `${this.packageId}::${MODULE_NAMES.LIMIT_ORDER}::create_order`,
-        typeArguments: [params.baseTokenType, params.quoteTokenType],
-        arguments: [
-          orderBookId !== '0x0' ? tx.object(orderBookId) : tx.object('0x0'), // Will use created order book if needed
-          requiredCoin,
-          tx.pure.bool(isBuyOrder),
-          tx.pure.u64(amount),
-          tx.pure.u64(price),
-          tx.pure.u64(expiresAt),
-          tx.pure.string(params.clientOrderId || ''),
-        ],
-      });
-      
       tx.setGasBudget(15_000_000); // 0.015 IOTA
       
       log.business('Limit order creation transaction built', {
@@ -362,6 +518,7 @@ export class LimitOrderService {
         amount: params.amount,
         price: params.price,
         expiryDuration: params.expiryDuration,
+        timeInForce,
       });
       
       return tx;
@@ -374,31 +531,42 @@ export class LimitOrderService {
     }
   }
 
-  async cancelOrder(orderId: string): Promise<Transaction> {
+  /**
+   * Orders live inside their book, their UID is deleted at placement, so the book is what's passed
+   * in and the order is named by its ID. `order` is an OrderHistoryService entry, whose types are
+   * in the book's orientation.
+   */
+  async cancelOrder(order: CancelOrderParams): Promise<Transaction> {
     const timer = measurePerformance('LimitOrderService.cancelOrder');
+    const orderId = order.id;
     
     try {
       if (!orderId || orderId === '0x0') {
         throw new ValidationError('Invalid order ID');
       }
+      if (!order.orderBookId || order.orderBookId === '0x0') {
+        throw new ValidationError('Invalid order book ID');
+      }
       
       const tx = new Transaction();
       
       tx.moveCall({
         target: `${this.packageId}::${MODULE_NAMES.LIMIT_ORDER}::cancel_order`,
+        typeArguments: [order.baseTokenType, order.quoteTokenType],
         arguments: [
-          tx.object(orderId),
+          tx.object(order.orderBookId),
+          tx.pure.id(orderId),
         ],
       });
       
       tx.setGasBudget(10_000_000); // 0.01 IOTA
       
-      log.business('Order cancellation transaction built', { orderId });
+      log.business('Order cancellation transaction built', { orderId, orderBookId: order.orderBookId });
       
       return tx;
       
     } catch (error) {
-      log.error('Failed to create order cancellation transaction', { orderId }, error instanceof Error ? error : undefined);
+      log.error('Failed to create order cancellation transaction', { orderId, orderBookId: order.orderBookId }, error instanceof Error ? error : undefined);
       throw error;
     } finally {
       timer.end();
@@ -489,14 +657,16 @@ export class LimitOrderService {
 
   // ==================== STATIC CONVENIENCE METHODS ====================
   
-  static getInstance = () => LimitOrderService.getInstance();
-  
-  static async createOrder(params: CreateLimitOrderParams): Promise<Transaction> {
-    return LimitOrderService.getInstance().createOrder(params);
+  static async previewOrder(params: CreateLimitOrderParams): Promise<OrderPreview> {
+    return LimitOrderService.getInstance().previewOrder(params);
+  }
+
+  static async createOrder(params: CreateLimitOrderParams, sender: string): Promise<Transaction> {
+    return LimitOrderService.getInstance().createOrder(params, sender);
   }
   
-  static async cancelOrder(orderId: string): Promise<Transaction> {
-    return LimitOrderService.getInstance().cancelOrder(orderId);
+  static async cancelOrder(order: CancelOrderParams): Promise<Transaction> {
+    return LimitOrderService.getInstance().cancelOrder(order);
   }
   
   static async getOrder(orderId: string): Promise<LimitOrder | null> {
@@ -506,4 +676,189 @@ export class LimitOrderService {
   static async getOrderBookInfo(baseTokenType: string, quoteTokenType: string): Promise<OrderBookInfo | null> {
     return LimitOrderService.getInstance().getOrderBookInfo(baseTokenType, quoteTokenType);
   }
-}
\ No newline at end of file
+
+  static async getOrderBookSnapshot(baseTokenType: string, quoteTokenType: string): Promise<OrderBookSnapshot | null> {
+    return LimitOrderService.getInstance().getOrderBookSnapshot(baseTokenType, quoteTokenType);
+  }
+
+  static async getLatestOrderBookEvent(): Promise<string | null> {
+    return LimitOrderService.getInstance().getLatestOrderBookEvent();
+  }
+
+  static clearOrderBookCache(): void {
+    invalidateCache(poolCache, 'order-book:');
+  }
+}
+
+// ==================== ORDER BOOK DEPTH ====================
+
+const formatUnits = (value: bigint, decimals: number): string => {
+  const divisor = 10n ** BigInt(decimals);
+  const fraction = (value % divisor).toString().padStart(decimals, '0').replace(/0+$/, '');
+  return fraction ? `${value / divisor}.${fraction}` : (value / divisor).toString();
+};
+
+/**
+ * A Move order price as quote tokens per whole base token. On chain it is quote base units per
+ * base unit with 6 decimals, so the token decimals shift it too.
+ */
+export const formatOrderPrice = (price: bigint, baseDecimals: number, quoteDecimals: number): string =>
+  formatUnits(price * 10n ** BigInt(baseDecimals), quoteDecimals + PRICE_DECIMALS);
+
+const parseRestingOrders = (orders: any[] | undefined): RestingOrder[] =>
+  (orders ?? []).map(order => {
+    const fields = order.fields ?? order;
+    return {
+      price: BigInt(fields.price ?? 0),
+      amount: BigInt(fields.amount ?? 0),
+      filledAmount: BigInt(fields.filled_amount ?? 0),
+      expireAt: Number(fields.expire_at ?? 0),
+    };
+  });
+
+const aggregateLevels = (
+  orders: readonly RestingOrder[],
+  now: number,
+  bestFirst: (a: bigint, b: bigint) => number,
+  baseDecimals: number,
+  quoteDecimals: number
+): { prices: bigint[]; levels: OrderBookLevel[] } => {
+  const levels = new Map<bigint, { amount: bigint; orders: number }>();
+
+  for (const order of orders) {
+    const remaining = order.amount - order.filledAmount;
+    // Expired orders stay in the vectors until the next order placed on the book sweeps them
+    if (remaining <= 0n || order.expireAt <= now) continue;
+
+    const level = levels.get(order.price) ?? { amount: 0n, orders: 0 };
+    levels.set(order.price, { amount: level.amount + remaining, orders: level.orders + 1 });
+  }
+
+  const prices = [...levels.keys()].sort(bestFirst);
+  return {
+    prices,
+    levels: prices.map(price => ({
+      price: formatOrderPrice(price, baseDecimals, quoteDecimals),
+      amount: formatUnits(levels.get(price)!.amount, baseDecimals),
+      orders: levels.get(price)!.orders,
+    })),
+  };
+};
+
+/**
+ * Depth from the raw buy_orders and sell_orders vectors. The spread is zero while either side is
+ * empty; the book keeps no trade history, so there is no last price either.
+ */
+export function buildOrderBookSnapshot(
+  buyOrders: readonly RestingOrder[],
+  sellOrders: readonly RestingOrder[],
+  baseDecimals: number,
+  quoteDecimals: number,
+  now: number
+): OrderBookSnapshot {
+  const bids = aggregateLevels(buyOrders, now, (a, b) => (a > b ? -1 : a < b ? 1 : 0), baseDecimals, quoteDecimals);
+  const asks = aggregateLevels(sellOrders, now, (a, b) => (a < b ? -1 : a > b ? 1 : 0), baseDecimals, quoteDecimals);
+
+  const bestBid = bids.prices[0];
+  const bestAsk = asks.prices[0];
+  const spread = bestBid !== undefined && bestAsk !== undefined && bestAsk > bestBid ? bestAsk - bestBid : 0n;
+
+  return {
+    bids: bids.levels,
+    asks: asks.levels,
+    spread: formatOrderPrice(spread, baseDecimals, quoteDecimals),
+    lastPrice: '0',
+    timestamp: now,
+  };
+}
+
+// ==================== ORDER FUNDING ====================
+
+/**
+ * A decimal token amount in base units, parsed exactly; digits beyond `decimals` are dropped.
+ */
+export const parseOrderAmount = (amount: string, decimals: number): bigint => {
+  const trimmed = amount.trim();
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(trimmed)) {
+    throw new ValidationError(`Invalid amount: ${amount}`);
+  }
+  return parseTokenAmount(trimmed, decimals);
+};
+
+/**
+ * Quote tokens per whole base token as a Move order price, the inverse of formatOrderPrice.
+ * Anything finer than the on-chain precision is dropped.
+ */
+export const toOrderPrice = (price: string, baseDecimals: number, quoteDecimals: number): bigint =>
+  parseOrderAmount(price, quoteDecimals + PRICE_DECIMALS) / 10n ** BigInt(baseDecimals);
+
+/**
+ * The coin amount the order locks, rounded as limit_order rounds it: a buy's quote cost, a sell's
+ * base amount.
+ */
+export const getOrderFunding = (isBuy: boolean, amount: bigint, price: bigint): bigint =>
+  isBuy ? (amount * price) / PRICE_PRECISION : amount;
+
+/**
+ * The same order on a book that lists the pair the other way round: buying the base is selling
+ * the quote, for the quote amount it would have cost, at the inverse price.
+ */
+export const invertOrder = (order: BookOrder): BookOrder => ({
+  isBuy: !order.isBuy,
+  amount: (order.amount * order.price) / PRICE_PRECISION,
+  price: order.price > 0n ? (PRICE_PRECISION * PRICE_PRECISION) / order.price : 0n,
+});
+
+// ==================== TIME IN FORCE ====================
+
+/**
+ * How much of `order` match_order would fill on placement. It walks the opposite side in book
+ * order once expired orders are dropped, filling against each maker while the prices cross and
+ * stopping at the first that doesn't.
+ */
+export const simulateMatch = (order: BookOrder, makers: readonly RestingOrder[], now: number): bigint => {
+  let filled = 0n;
+
+  for (const maker of makers) {
+    if (filled >= order.amount) break;
+    if (maker.expireAt <= now) continue;
+
+    const crosses = order.isBuy ? order.price >= maker.price : order.price <= maker.price;
+    if (!crosses) break;
+
+    const makerRemaining = maker.amount - maker.filledAmount;
+    const remaining = order.amount - filled;
+    filled += remaining < makerRemaining ? remaining : makerRemaining;
+  }
+
+  return filled;
+};
+
+/**
+ * Reject an order whose time in force can't be met, given how much of it would fill now. The
+ * chain enforces IOC and FOK again at execution; this stops them before signing.
+ */
+export const checkTimeInForce = (order: BookOrder, timeInForce: TimeInForce, fillable: bigint): void => {
+  switch (timeInForce) {
+    case 'post-only':
+      if (fillable > 0n) {
+        throw new ValidationError('Post-only order would cross the book and fill on placement');
+      }
+      return;
+
+    case 'fok':
+      if (fillable < order.amount) {
+        throw new ValidationError('Fill-or-kill order cannot be filled completely at this price');
+      }
+      return;
+
+    case 'ioc':
+      if (fillable === 0n) {
+        throw new ValidationError('Immediate-or-cancel order has nothing to fill at this price');
+      }
+      return;
+
+    default:
+      return;
+  }
+};
@@ -0,0 +1,105 @@
+/**
+ * Which simple_dex pool an LPToken belongs to, worked out from the chain alone: the token's type
+ * parameters name the pair, which pool discovery maps to its pool, and when discovery doesn't know
+ * the pair the transaction that minted the token names the pool in its object changes
+ */
+
+'use client';
+
+import { IotaClient } from '@iota/iota-sdk/client';
+import { normalizeStructTag } from '@iota/iota-sdk/utils';
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { IOTA_CONFIG, MODULE_NAMES } from '@/config/iota.config';
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { isSameCoinType } from '@/lib/services/token-registry';
+import { log, measurePerformance } from '@/lib/logging';
+import { transactionCache, withCache } from '@/lib/cache';
+import { NetworkError } from '@/lib/errors';
+
+export interface LPTokenObject {
+  objectId: string;
+  coinTypeA: string; // The LPToken<A, B> type arguments, which are the pool's
+  coinTypeB: string;
+}
+
+export class LPPoolResolver {
+  private static instance: LPPoolResolver | null = null;
+  private readonly client: IotaClient;
+  private readonly packageId: string; // Original publish, which LPToken and Pool keep as their type origin
+
+  private constructor() {
+    const safeClient = getSafeIotaClient();
+    if (!safeClient) {
+      throw new NetworkError('Failed to initialize IOTA client');
+    }
+    this.client = safeClient.getRawClient();
+    this.packageId = IOTA_CONFIG.packages.core;
+  }
+
+  static getInstance(): LPPoolResolver {
+    if (!LPPoolResolver.instance) {
+      LPPoolResolver.instance = new LPPoolResolver();
+    }
+    return LPPoolResolver.instance;
+  }
+
+  /**
+   * The LP token's pool, or null when neither discovery nor its minting transaction knows it. A
+   * pool found through the minting transaction is registered with discovery for its pair.
+   */
+  async resolve(lpToken: LPTokenObject): Promise<PoolInfo | null> {
+    const timer = measurePerformance('LPPoolResolver.resolve');
+    const { objectId, coinTypeA, coinTypeB } = lpToken;
+
+    try {
+      // The pool's type order has to match the token's, LPToken<A, B> only comes from Pool<A, B>
+      const pool = await PoolService.findPool(coinTypeA, coinTypeB);
+      if (pool && isSameCoinType(pool.coinTypeA, coinTypeA)) {
+        return pool;
+      }
+
+      const poolId = await this.getMintingPoolId(lpToken);
+      if (!poolId) {
+        log.warn('Could not resolve the pool of LP token', { lpTokenId: objectId, coinTypeA, coinTypeB });
+        return null;
+      }
+
+      PoolService.registerPool(poolId, coinTypeA, coinTypeB);
+      return await PoolService.getPoolInfo(poolId, coinTypeA, coinTypeB);
+
+    } catch (error) {
+      log.error('Failed to resolve LP token pool', { lpTokenId: objectId }, error instanceof Error ? error : undefined);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * The Pool<A, B> changed by the first transaction that touched the token: its add_liquidity,
+   * create_pool or zap. History doesn't change, so the answer is cached, including a miss for a
+   * token that was split off another.
+   */
+  async getMintingPoolId({ objectId, coinTypeA, coinTypeB }: LPTokenObject): Promise<string | null> {
+    return withCache(transactionCache, `lp-pool:${objectId}`, async () => {
+      const page = await this.client.queryTransactionBlocks({
+        filter: { ChangedObject: objectId },
+        options: { showObjectChanges: true },
+        limit: 1,
+        order: 'ascending',
+      });
+
+      const poolType = normalizeStructTag(`${this.packageId}::${MODULE_NAMES.DEX}::Pool<${coinTypeA}, ${coinTypeB}>`);
+      const change = page.data[0]?.objectChanges?.find(
+        change => (change.type === 'mutated' || change.type === 'created') && normalizeStructTag(change.objectType) === poolType
+      );
+
+      return change && 'objectId' in change ? change.objectId : null;
+    });
+  }
+
+  // Static convenience methods
+  static async resolve(lpToken: LPTokenObject): Promise<PoolInfo | null> {
+    return LPPoolResolver.getInstance().resolve(lpToken);
+  }
+}
@@ -0,0 +1,374 @@
+/**
+ * LP position analytics: what the owner's simple_dex LP tokens are worth now, what they were worth
+ * when deposited, and how much of the difference is swap fees
+ */
+
+'use client';
+
+import { IotaClient, IotaObjectChange, IotaObjectResponse, IotaTransactionBlockResponse } from '@iota/iota-sdk/client';
+import { normalizeIotaObjectId, normalizeStructTag } from '@iota/iota-sdk/utils';
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { IOTA_CONFIG, MODULE_NAMES } from '@/config/iota.config';
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { LPPoolResolver } from '@/lib/services/lp-pool-resolver';
+import { parsePairTypeArguments } from '@/lib/services/pool-discovery';
+import { log, measurePerformance } from '@/lib/logging';
+import { transactionCache, withCache } from '@/lib/cache';
+import { NetworkError } from '@/lib/errors';
+
+// Token amounts are in base units and in the pool's type order
+export interface PositionEntry {
+  digest: string; // The (first) deposit transaction
+  timestampMs: number | null;
+  lpAmount: bigint; // LP minted by the deposit, or still held for a combined entry
+  amountA: bigint; // Underlying right after the deposit
+  amountB: bigint;
+  reserveA: bigint; // Pool reserves right after the deposit, for the entry price; combined, the deposited sums
+  reserveB: bigint;
+  feesA: bigint; // Pool fee accumulators (fee_data) at entry
+  feesB: bigint;
+}
+
+export interface LPPosition {
+  lpTokenIds: string[]; // Every LPToken of the pool the owner holds, largest first
+  poolId: string;
+  coinTypeA: string;
+  coinTypeB: string;
+  lpAmount: bigint;
+  lpSupply: bigint;
+  share: number; // Fraction of the pool, 0 to 1
+  amountA: bigint; // Current underlying, fees included
+  amountB: bigint;
+  feesEarnedA: bigint; // Fees accrued to this position since entry
+  feesEarnedB: bigint;
+  priceRatio: number | null; // Current price of A in B over the entry price, for impermanent loss
+  entry: PositionEntry | null; // Null when none of the deposits behind the tokens can be read back
+}
+
+interface OwnedLPToken {
+  objectId: string;
+  lpAmount: bigint;
+  pool: PoolInfo;
+  previousTransaction: string | null; // The transaction that last wrote the token
+}
+
+const PAGE_SIZE = 50;
+
+export class LPPositionService {
+  private static instance: LPPositionService | null = null;
+  private readonly client: IotaClient;
+  private readonly packageId: string; // Original publish, which LPToken and Pool keep as their type origin
+
+  private constructor() {
+    const safeClient = getSafeIotaClient();
+    if (!safeClient) {
+      throw new NetworkError('Failed to initialize IOTA client');
+    }
+    this.client = safeClient.getRawClient();
+    this.packageId = IOTA_CONFIG.packages.core;
+  }
+
+  static getInstance(): LPPositionService {
+    if (!LPPositionService.instance) {
+      LPPositionService.instance = new LPPositionService();
+    }
+    return LPPositionService.instance;
+  }
+
+  /**
+   * The owner's LP tokens valued against the current pool state, one position per pool however
+   * many LPToken objects it is spread over. Tokens whose pool can't be found are skipped.
+   *
+   * LP tokens are split and joined freely, so the entry isn't read off the tokens: it is rebuilt
+   * from the deposits the tokens descend from and applies to everything the owner holds there.
+   */
+  async getPositions(owner: string): Promise<LPPosition[]> {
+    const timer = measurePerformance('LPPositionService.getPositions');
+
+    try {
+      const lpObjects = await this.getOwnedLPTokens(owner);
+      const tokens = await Promise.all(lpObjects.map(object => this.resolveToken(object)));
+
+      const byPool = new Map<string, OwnedLPToken[]>();
+      for (const token of tokens) {
+        if (!token) continue;
+        byPool.set(token.pool.poolId, [...(byPool.get(token.pool.poolId) ?? []), token]);
+      }
+      if (byPool.size === 0) return [];
+
+      return Promise.all([...byPool.values()].map(async poolTokens => {
+        const sorted = [...poolTokens].sort((a, b) => (a.lpAmount === b.lpAmount ? 0 : a.lpAmount > b.lpAmount ? -1 : 1));
+        const pool = sorted[0]!.pool;
+        const lpAmount = sorted.reduce((total, token) => total + token.lpAmount, 0n);
+
+        const transactions = await this.getLineage(
+          sorted.flatMap(token => (token.previousTransaction ? [token.previousTransaction] : [])),
+          pool
+        );
+        const deposits = await Promise.all(transactions.map(transaction => this.getDeposit(transaction, pool)));
+        const entry = combineDeposits(deposits.filter((deposit): deposit is PositionEntry => deposit !== null), lpAmount);
+
+        return {
+          lpTokenIds: sorted.map(token => token.objectId),
+          ...calculatePosition(pool, lpAmount, entry),
+        };
+      }));
+    } catch (error) {
+      log.error('Failed to load LP positions', { owner }, error instanceof Error ? error : undefined);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * The deposit a transaction made into the pool, or null if it made none. A deposit (add_liquidity,
+   * zap or create_pool) changes the pool and mints LP tokens of its type in the same transaction;
+   * split_lp_token mints without touching the pool and remove_liquidity touches it without minting.
+   * The pool version the deposit produced gives its entry state. Deposits never change, so they are
+   * cached.
+   */
+  async getDeposit(transaction: IotaTransactionBlockResponse, pool: PoolInfo): Promise<PositionEntry | null> {
+    const changes = transaction.objectChanges ?? [];
+    const normalizedPoolId = normalizeIotaObjectId(pool.poolId);
+    const poolChange = changes.find(
+      change => (change.type === 'mutated' || change.type === 'created') && normalizeIotaObjectId(change.objectId) === normalizedPoolId
+    );
+    const lpType = this.getLPType(pool);
+    const minted = changes.filter(
+      (change): change is Extract<IotaObjectChange, { type: 'created' }> =>
+        change.type === 'created' && normalizeStructTag(change.objectType) === lpType
+    );
+
+    if (!poolChange || !('version' in poolChange) || minted.length === 0) return null;
+
+    return withCache(transactionCache, `lp-deposit:${transaction.digest}:${normalizedPoolId}`, async () => {
+      try {
+        const [poolAtDeposit, ...lpAmounts] = await Promise.all([
+          PoolService.getPoolInfoAt(pool.poolId, String(poolChange.version)),
+          ...minted.map(change => this.getLPAmountAt(change.objectId, String(change.version))),
+        ]);
+        if (!poolAtDeposit || poolAtDeposit.lpSupply === 0n || lpAmounts.some(amount => amount === null)) return null;
+
+        const lpAmount = lpAmounts.reduce<bigint>((total, amount) => total + (amount ?? 0n), 0n);
+        return {
+          digest: transaction.digest,
+          timestampMs: transaction.timestampMs ? Number(transaction.timestampMs) : null,
+          lpAmount,
+          amountA: (lpAmount * poolAtDeposit.reserveA) / poolAtDeposit.lpSupply,
+          amountB: (lpAmount * poolAtDeposit.reserveB) / poolAtDeposit.lpSupply,
+          reserveA: poolAtDeposit.reserveA,
+          reserveB: poolAtDeposit.reserveB,
+          feesA: poolAtDeposit.feesA ?? 0n,
+          feesB: poolAtDeposit.feesB ?? 0n,
+        };
+      } catch (error) {
+        log.warn('Failed to read LP deposit', {
+          digest: transaction.digest,
+          poolId: pool.poolId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    });
+  }
+
+  private async getLPAmountAt(lpTokenId: string, version: string): Promise<bigint | null> {
+    const pastObject = await this.client.tryGetPastObject({
+      id: lpTokenId,
+      version: Number(version),
+      options: { showContent: true },
+    });
+    if (pastObject.status !== 'VersionFound' || pastObject.details.content?.dataType !== 'moveObject') return null;
+
+    return BigInt((pastObject.details.content.fields as any).amount ?? 0);
+  }
+
+  /**
+   * The transactions the LP tokens descend from: the ones that last wrote them, then back through
+   * every LP token of the pool each of those consumed (joined, split or partly removed), until the
+   * deposits that minted them. Transactions never change, so each is fetched and walked once.
+   */
+  private async getLineage(digests: readonly string[], pool: PoolInfo): Promise<IotaTransactionBlockResponse[]> {
+    const transactions: IotaTransactionBlockResponse[] = [];
+    const seen = new Set<string>();
+    let pending = [...new Set(digests)];
+
+    while (pending.length > 0) {
+      pending.forEach(digest => seen.add(digest));
+      const batch = await Promise.all(pending.map(digest => this.getTransaction(digest)));
+      transactions.push(...batch);
+
+      const parents = await Promise.all(batch.map(transaction => this.getConsumedLPSources(transaction, pool)));
+      pending = [...new Set(parents.flat())].filter(digest => !seen.has(digest));
+    }
+
+    return transactions;
+  }
+
+  private getTransaction(digest: string): Promise<IotaTransactionBlockResponse> {
+    return withCache(transactionCache, `lp-transaction:${digest}`, () =>
+      this.client.getTransactionBlock({ digest, options: { showInput: true, showObjectChanges: true } })
+    );
+  }
+
+  // The transactions that wrote the pool's LP tokens `transaction` took as inputs, at the versions it took
+  private getConsumedLPSources(transaction: IotaTransactionBlockResponse, pool: PoolInfo): Promise<string[]> {
+    return withCache(transactionCache, `lp-sources:${transaction.digest}:${normalizeIotaObjectId(pool.poolId)}`, async () => {
+      const lpType = this.getLPType(pool);
+      const consumed = new Set(
+        (transaction.objectChanges ?? []).flatMap(change =>
+          (change.type === 'mutated' || change.type === 'deleted') && normalizeStructTag(change.objectType) === lpType
+            ? [normalizeIotaObjectId(change.objectId)]
+            : []
+        )
+      );
+      if (consumed.size === 0) return [];
+
+      const kind = transaction.transaction?.data.transaction;
+      const inputs = kind?.kind === 'ProgrammableTransaction' ? kind.inputs : [];
+      const sources = await Promise.all(inputs.map(async input => {
+        if (input.type !== 'object' || input.objectType !== 'immOrOwnedObject') return null;
+        if (!consumed.has(normalizeIotaObjectId(input.objectId))) return null;
+
+        const pastObject = await this.client.tryGetPastObject({
+          id: input.objectId,
+          version: Number(input.version),
+          options: { showPreviousTransaction: true },
+        });
+        return pastObject.status === 'VersionFound' ? pastObject.details.previousTransaction ?? null : null;
+      }));
+
+      return sources.filter((digest): digest is string => digest !== null);
+    });
+  }
+
+  private getLPType(pool: PoolInfo): string {
+    return normalizeStructTag(`${this.packageId}::${MODULE_NAMES.DEX}::LPToken<${pool.coinTypeA}, ${pool.coinTypeB}>`);
+  }
+
+  private async getOwnedLPTokens(owner: string): Promise<IotaObjectResponse[]> {
+    const objects: IotaObjectResponse[] = [];
+    let cursor: string | null | undefined = null;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+      const page = await this.client.getOwnedObjects({
+        owner,
+        filter: { StructType: `${this.packageId}::${MODULE_NAMES.DEX}::LPToken` },
+        options: { showContent: true, showType: true, showPreviousTransaction: true },
+        cursor,
+        limit: PAGE_SIZE,
+      });
+
+      objects.push(...page.data);
+      cursor = page.nextCursor;
+      hasNextPage = page.hasNextPage;
+    }
+
+    return objects;
+  }
+
+  private async resolveToken(object: IotaObjectResponse): Promise<OwnedLPToken | null> {
+    const data = object.data;
+    if (!data?.content || data.content.dataType !== 'moveObject') return null;
+
+    const typeArguments = parsePairTypeArguments(data.type || data.content.type);
+    if (!typeArguments) return null;
+
+    const pool = await LPPoolResolver.resolve({
+      objectId: data.objectId,
+      coinTypeA: typeArguments[0],
+      coinTypeB: typeArguments[1],
+    });
+    if (!pool) {
+      log.warn('No pool for LP token', { lpTokenId: data.objectId, type: data.type });
+      return null;
+    }
+
+    return {
+      objectId: data.objectId,
+      lpAmount: BigInt((data.content.fields as any).amount ?? 0),
+      pool,
+      previousTransaction: data.previousTransaction ?? null,
+    };
+  }
+
+  // Static convenience methods
+  static async getPositions(owner: string): Promise<LPPosition[]> {
+    return LPPositionService.getInstance().getPositions(owner);
+  }
+}
+
+/**
+ * Value a position against the pool. Fees stay in the reserves, so they are already part of the
+ * underlying amounts; the position's part of the fee_data growth since entry is estimated at its
+ * current share.
+ */
+export function calculatePosition(
+  pool: PoolInfo,
+  lpAmount: bigint,
+  entry: PositionEntry | null
+): Omit<LPPosition, 'lpTokenIds'> {
+  const hasSupply = pool.lpSupply > 0n;
+  const feeGrowth = (current: bigint | undefined, atEntry: bigint) =>
+    entry && hasSupply && (current ?? 0n) > atEntry ? (((current ?? 0n) - atEntry) * lpAmount) / pool.lpSupply : 0n;
+
+  const canPrice = entry && entry.reserveA > 0n && entry.reserveB > 0n && pool.reserveA > 0n && pool.reserveB > 0n;
+
+  return {
+    poolId: pool.poolId,
+    coinTypeA: pool.coinTypeA,
+    coinTypeB: pool.coinTypeB,
+    lpAmount,
+    lpSupply: pool.lpSupply,
+    share: hasSupply ? Number((lpAmount * 1000000n) / pool.lpSupply) / 1000000 : 0,
+    amountA: hasSupply ? (lpAmount * pool.reserveA) / pool.lpSupply : 0n,
+    amountB: hasSupply ? (lpAmount * pool.reserveB) / pool.lpSupply : 0n,
+    feesEarnedA: feeGrowth(pool.feesA, entry?.feesA ?? 0n),
+    feesEarnedB: feeGrowth(pool.feesB, entry?.feesB ?? 0n),
+    // (reserveB / reserveA) now over (reserveB / reserveA) at entry; decimals cancel out
+    priceRatio: canPrice
+      ? Number(pool.reserveB * entry.reserveA) / Number(pool.reserveA * entry.reserveB)
+      : null,
+    entry,
+  };
+}
+
+/**
+ * One entry for the LP still held, from the deposits it descends from. Withdrawals are taken
+ * pro rata, so the deposited amounts are scaled to the LP still held. The fee baseline is the
+ * deposits' accumulators averaged by LP minted, and the entry price is the average price the
+ * deposits went in at, carried as their summed amounts in place of reserves.
+ */
+export function combineDeposits(deposits: PositionEntry[], lpAmount: bigint): PositionEntry | null {
+  const minted = deposits.reduce((total, deposit) => total + deposit.lpAmount, 0n);
+  const [first] = [...deposits].sort((a, b) => (a.timestampMs ?? Infinity) - (b.timestampMs ?? Infinity));
+  if (!first || minted === 0n) return null;
+  if (deposits.length === 1) {
+    return {
+      ...first,
+      lpAmount,
+      amountA: (first.amountA * lpAmount) / minted,
+      amountB: (first.amountB * lpAmount) / minted,
+    };
+  }
+
+  const sum = (field: 'amountA' | 'amountB') => deposits.reduce((total, deposit) => total + deposit[field], 0n);
+  const averageFees = (field: 'feesA' | 'feesB') =>
+    deposits.reduce((total, deposit) => total + deposit[field] * deposit.lpAmount, 0n) / minted;
+  const depositedA = sum('amountA');
+  const depositedB = sum('amountB');
+
+  return {
+    digest: first.digest,
+    timestampMs: first.timestampMs,
+    lpAmount,
+    amountA: (depositedA * lpAmount) / minted,
+    amountB: (depositedB * lpAmount) / minted,
+    reserveA: depositedA,
+    reserveB: depositedB,
+    feesA: averageFees('feesA'),
+    feesB: averageFees('feesB'),
+  };
+}
@@ -0,0 +1,336 @@
+/**
+ * Limit order history rebuilt from limit_order events. Orders live inside the shared OrderBook
+ * and are gone from it once filled, cancelled or expired, so the events are their only lasting
+ * record
+ */
+
+'use client';
+
+import { EventId, IotaClient, IotaEvent } from '@iota/iota-sdk/client';
+import { normalizeIotaAddress } from '@iota/iota-sdk/utils';
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { IOTA_CONFIG, MODULE_NAMES } from '@/config/iota.config';
+import { LimitOrder, OrderFillEvent } from '@/lib/services/limit-order-service';
+import { parsePairTypeArguments } from '@/lib/services/pool-discovery';
+import { log, measurePerformance } from '@/lib/logging';
+import { poolCache, transactionCache, withCache } from '@/lib/cache';
+import { NetworkError } from '@/lib/errors';
+
+// limit_order events in emission order, amounts in base units and prices with 6 decimals
+export type OrderEvent =
+  | { kind: 'placed'; digest: string; timestampMs: number; orderId: string; owner: string; isBuy: boolean; price: bigint; amount: bigint; expireAt: number }
+  | { kind: 'filled'; digest: string; timestampMs: number; orderId: string; amount: bigint; price: bigint }
+  | { kind: 'cancelled'; digest: string; timestampMs: number; orderId: string }
+  | { kind: 'trade'; digest: string; timestampMs: number; buyOrderId: string; sellOrderId: string };
+
+// The OrderBook<A, B> an order was placed on
+export interface OrderBookRef {
+  orderBookId: string;
+  baseTokenType: string;
+  quoteTokenType: string;
+  feeRate: number; // Basis points
+}
+
+export interface OrderHistoryEntry extends LimitOrder {
+  readonly fills: readonly OrderFillEvent[];
+}
+
+export type OrderHistoryFilter = 'open' | 'closed' | 'all';
+
+export interface OrderHistoryOptions {
+  filter?: OrderHistoryFilter;
+  page?: number; // From 0
+  pageSize?: number;
+}
+
+export interface OrderHistoryPage {
+  orders: OrderHistoryEntry[]; // Newest first
+  total: number; // Orders matching the filter
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+}
+
+const PAGE_SIZE = 50;
+const EVENTS_CACHE_KEY = 'limit-order:events';
+const EVENTS_TTL = 15000;
+const PRICE_PRECISION = 1_000_000n;
+
+export class OrderHistoryService {
+  private static instance: OrderHistoryService | null = null;
+  private readonly client: IotaClient;
+  private readonly packageId: string;
+  private readonly events: OrderEvent[] = [];
+  // Scans resume where the previous one stopped
+  private eventCursor: EventId | null = null;
+  private scanning: Promise<OrderEvent[]> | null = null;
+
+  private constructor() {
+    const safeClient = getSafeIotaClient();
+    if (!safeClient) {
+      throw new NetworkError('Failed to initialize IOTA client');
+    }
+    this.client = safeClient.getRawClient();
+    this.packageId = IOTA_CONFIG.packages.core;
+  }
+
+  static getInstance(): OrderHistoryService {
+    if (!OrderHistoryService.instance) {
+      OrderHistoryService.instance = new OrderHistoryService();
+    }
+    return OrderHistoryService.instance;
+  }
+
+  /**
+   * The orders `owner` placed, newest first, with their fills and current status.
+   */
+  async getOrderHistory(owner: string, options: OrderHistoryOptions = {}): Promise<OrderHistoryPage> {
+    const timer = measurePerformance('OrderHistoryService.getOrderHistory');
+    const { filter = 'all', page = 0, pageSize = 20 } = options;
+
+    try {
+      const events: OrderEvent[] = await withCache(poolCache, EVENTS_CACHE_KEY, () => this.scanEvents(), EVENTS_TTL);
+
+      const normalizedOwner = normalizeIotaAddress(owner);
+      const placements = events.filter(
+        (event): event is Extract<OrderEvent, { kind: 'placed' }> => event.kind === 'placed' && event.owner === normalizedOwner
+      );
+      const digests = [...new Set(placements.map(placement => placement.digest))];
+      const refs = await Promise.all(digests.map(digest => this.getOrderBook(digest)));
+      const books = new Map<string, OrderBookRef>();
+      digests.forEach((digest, index) => {
+        const book = refs[index];
+        if (book) books.set(digest, book);
+      });
+
+      const orders = buildOrderHistory(events, normalizedOwner, books, Date.now())
+        .filter(order => filter === 'all' || (filter === 'open') === order.isActive);
+
+      return {
+        orders: orders.slice(page * pageSize, (page + 1) * pageSize),
+        total: orders.length,
+        page,
+        pageSize,
+        hasMore: (page + 1) * pageSize < orders.length,
+      };
+    } catch (error) {
+      log.error('Failed to load order history', { owner }, error instanceof Error ? error : undefined);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Every limit_order event since the last scan, appended in emission order. Events of all owners
+   * are kept: a maker's fills are emitted by the taker's transaction. Concurrent callers share one
+   * scan, two started from the same cursor would append the same events twice.
+   */
+  private scanEvents(): Promise<OrderEvent[]> {
+    if (!this.scanning) {
+      this.scanning = this.readNewEvents().finally(() => {
+        this.scanning = null;
+      });
+    }
+    return this.scanning;
+  }
+
+  private async readNewEvents(): Promise<OrderEvent[]> {
+    let hasNextPage = true;
+    while (hasNextPage) {
+      const page = await this.client.queryEvents({
+        query: { MoveEventModule: { package: this.packageId, module: MODULE_NAMES.LIMIT_ORDER } },
+        cursor: this.eventCursor,
+        limit: PAGE_SIZE,
+        order: 'ascending',
+      });
+
+      for (const event of page.data) {
+        const parsed = parseOrderEvent(event);
+        if (parsed) this.events.push(parsed);
+      }
+
+      this.eventCursor = page.nextCursor ?? this.eventCursor;
+      hasNextPage = page.hasNextPage;
+    }
+    return this.events;
+  }
+
+  /**
+   * The order book the placing transaction changed. Placement events don't name their book, the
+   * transaction's object changes do; neither the book's type nor its fee rate ever change.
+   */
+  private async getOrderBook(digest: string): Promise<OrderBookRef | null> {
+    return withCache(transactionCache, `order-book-of:${digest}`, async () => {
+      const transaction = await this.client.getTransactionBlock({ digest, options: { showObjectChanges: true } });
+      const change = transaction.objectChanges?.find(
+        change => change.type === 'mutated' && change.objectType.includes(`::${MODULE_NAMES.LIMIT_ORDER}::OrderBook<`)
+      );
+      if (!change || change.type !== 'mutated') return null;
+
+      const typeArguments = parsePairTypeArguments(change.objectType);
+      if (!typeArguments) return null;
+
+      const book = await this.client.getObject({ id: change.objectId, options: { showContent: true } });
+      const fields = book.data?.content?.dataType === 'moveObject' ? (book.data.content.fields as any) : null;
+
+      return {
+        orderBookId: change.objectId,
+        baseTokenType: typeArguments[0],
+        quoteTokenType: typeArguments[1],
+        feeRate: Number(fields?.fee_rate ?? 0),
+      };
+    });
+  }
+
+  // Static convenience methods
+  static async getOrderHistory(owner: string, options?: OrderHistoryOptions): Promise<OrderHistoryPage> {
+    return OrderHistoryService.getInstance().getOrderHistory(owner, options);
+  }
+}
+
+const parseOrderEvent = (event: IotaEvent): OrderEvent | null => {
+  const json = event.parsedJson as Record<string, any>;
+  const base = { digest: event.id.txDigest, timestampMs: Number(event.timestampMs ?? 0) };
+
+  switch (event.type.split('::').pop()) {
+    case 'OrderPlacedEvent':
+      return {
+        ...base,
+        kind: 'placed',
+        orderId: json.order_id,
+        owner: normalizeIotaAddress(json.owner),
+        isBuy: json.is_buy,
+        price: BigInt(json.price),
+        amount: BigInt(json.amount),
+        expireAt: Number(json.expire_at),
+      };
+    case 'OrderFilledEvent':
+      return { ...base, kind: 'filled', orderId: json.order_id, amount: BigInt(json.filled_amount), price: BigInt(json.execution_price) };
+    case 'OrderCancelledEvent':
+      return { ...base, kind: 'cancelled', orderId: json.order_id };
+    case 'TradeExecutedEvent':
+      return { ...base, kind: 'trade', buyOrderId: json.buy_order_id, sellOrderId: json.sell_order_id };
+    default:
+      return null;
+  }
+};
+
+interface OrderState {
+  placed: Extract<OrderEvent, { kind: 'placed' }>;
+  filledAmount: bigint;
+  fillValue: bigint; // Quote base units
+  feePaid: bigint;
+  fills: OrderFillEvent[];
+  cancelledAt?: number;
+}
+
+// The order's latest fill is the one a TradeExecutedEvent just reported
+const attachCounterparty = (order: OrderState | undefined, counterpartyOrderId: string) => {
+  const index = (order?.fills.length ?? 0) - 1;
+  const fill = order?.fills[index];
+  if (order && fill && !fill.counterpartyOrderId) {
+    order.fills[index] = { ...fill, counterpartyOrderId };
+  }
+};
+
+/**
+ * Folds events into `owner`'s orders, newest first. Each fill's OrderFilledEvent carries the
+ * amount and the maker's price; the TradeExecutedEvent after it names the counterparty order. The
+ * fee is in the token the order receives: base for a buy, quote for a sell. Orders on a book that
+ * couldn't be read are left out.
+ */
+export function buildOrderHistory(
+  events: readonly OrderEvent[],
+  owner: string,
+  books: ReadonlyMap<string, OrderBookRef>, // By placing transaction digest
+  now: number
+): OrderHistoryEntry[] {
+  const orders = new Map<string, OrderState>();
+
+  for (const event of events) {
+    switch (event.kind) {
+      case 'placed':
+        if (event.owner === owner && books.has(event.digest)) {
+          orders.set(event.orderId, { placed: event, filledAmount: 0n, fillValue: 0n, feePaid: 0n, fills: [] });
+        }
+        break;
+
+      case 'filled': {
+        const order = orders.get(event.orderId);
+        if (!order) break;
+
+        const value = (event.amount * event.price) / PRICE_PRECISION;
+        const fee = ((order.placed.isBuy ? event.amount : value) * BigInt(books.get(order.placed.digest)!.feeRate)) / 10000n;
+        order.filledAmount += event.amount;
+        order.fillValue += value;
+        order.feePaid += fee;
+        order.fills.push({
+          orderId: event.orderId,
+          fillAmount: event.amount.toString(),
+          fillPrice: event.price.toString(),
+          fillValue: value.toString(),
+          fee: fee.toString(),
+          timestamp: event.timestampMs,
+        });
+        break;
+      }
+
+      case 'trade':
+        attachCounterparty(orders.get(event.buyOrderId), event.sellOrderId);
+        attachCounterparty(orders.get(event.sellOrderId), event.buyOrderId);
+        break;
+
+      case 'cancelled': {
+        const order = orders.get(event.orderId);
+        if (order) order.cancelledAt = event.timestampMs;
+        break;
+      }
+    }
+  }
+
+  return [...orders.values()]
+    .map(order => toHistoryEntry(order, books.get(order.placed.digest)!, now))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+const toHistoryEntry = (order: OrderState, book: OrderBookRef, now: number): OrderHistoryEntry => {
+  const { placed, filledAmount, fillValue, fills } = order;
+  const remaining = placed.amount > filledAmount ? placed.amount - filledAmount : 0n;
+
+  // Expired orders leave the book without an event, only the clock tells
+  let status: LimitOrder['status'] = 'pending';
+  if (remaining === 0n) {
+    status = 'filled';
+  } else if (order.cancelledAt !== undefined) {
+    status = 'cancelled';
+  } else if (now >= placed.expireAt) {
+    status = 'expired';
+  } else if (filledAmount > 0n) {
+    status = 'partial';
+  }
+
+  const lastFill = fills[fills.length - 1]?.timestamp;
+  return {
+    id: placed.orderId,
+    owner: placed.owner,
+    orderBookId: book.orderBookId,
+    baseTokenType: book.baseTokenType,
+    quoteTokenType: book.quoteTokenType,
+    orderType: placed.isBuy ? 'buy' : 'sell',
+    amount: placed.amount.toString(),
+    price: placed.price.toString(),
+    filledAmount: filledAmount.toString(),
+    remainingAmount: remaining.toString(),
+    status,
+    isActive: status === 'pending' || status === 'partial',
+    createdAt: placed.timestampMs,
+    expiresAt: placed.expireAt,
+    lastUpdated: Math.max(placed.timestampMs, lastFill ?? 0, order.cancelledAt ?? 0),
+    ...(status === 'filled' && lastFill !== undefined && { filledAt: lastFill }),
+    totalValue: ((placed.amount * placed.price) / PRICE_PRECISION).toString(),
+    avgFillPrice: filledAmount > 0n ? ((fillValue * PRICE_PRECISION) / filledAmount).toString() : '0',
+    feePaid: order.feePaid.toString(),
+    fills,
+  };
+};
@@ -0,0 +1,254 @@
+/**
+ * On-chain discovery of simple_dex pools, so pairs created after a deploy show up without
+ * new NEXT_PUBLIC_*_POOL_ID variables
+ */
+
+'use client';
+
+import { EventId, IotaClient, IotaTransactionBlockResponse } from '@iota/iota-sdk/client';
+import { normalizeStructTag } from '@iota/iota-sdk/utils';
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { IOTA_CONFIG, CONFIGURED_POOLS, DEFAULT_NETWORK, MODULE_NAMES } from '@/config/iota.config';
+import { KNOWN_POOLS } from '@/config/known-pools';
+import { log, measurePerformance } from '@/lib/logging';
+import { poolCache, withCache } from '@/lib/cache';
+import { NetworkError } from '@/lib/errors';
+
+export type PoolSource = 'config' | 'event' | 'transaction' | 'registered';
+
+export interface DiscoveredPool {
+  poolId: string;
+  coinTypeA: string;
+  coinTypeB: string;
+  source: PoolSource;
+}
+
+interface PoolCreatedEventJson {
+  pool_id: string;
+  coin_type_a: string; // type_name strings, without the 0x prefix
+  coin_type_b: string;
+}
+
+const DISCOVERY_CACHE_KEY = 'pools:discovered';
+const DISCOVERY_TTL = 60000; // New pools show up within a minute
+const PAGE_SIZE = 50;
+
+// Same key for <A, B> and <B, A> whatever the address format, a pair has at most one pool
+export const getPairKey = (coinTypeA: string, coinTypeB: string) =>
+  [normalizeStructTag(coinTypeA), normalizeStructTag(coinTypeB)].sort().join('|');
+
+// Extract the two type arguments from a `simple_dex::Pool<A, B>` (or `LPToken<A, B>`) type string
+export const parsePairTypeArguments = (type: string): [string, string] | null => {
+  const inner = type.match(/<(.+)>$/)?.[1];
+  if (!inner) return null;
+
+  // Split on the top-level comma only, nested generics stay intact
+  let depth = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (char === '<') depth++;
+    else if (char === '>') depth--;
+    else if (char === ',' && depth === 0) {
+      return [inner.slice(0, i).trim(), inner.slice(i + 1).trim()];
+    }
+  }
+  return null;
+};
+
+const isPoolType = (objectType: string) => objectType.includes(`::${MODULE_NAMES.DEX}::Pool<`);
+
+/**
+ * ID of the shared `simple_dex::Pool` created by a create_pool transaction. Reads objectChanges
+ * when the response has them and falls back to the shared object in the effects otherwise.
+ */
+export const getCreatedPoolId = (response: IotaTransactionBlockResponse): string | null => {
+  const created = response.objectChanges?.find(
+    change => change.type === 'created' && isPoolType(change.objectType)
+  );
+  if (created?.type === 'created') {
+    return created.objectId;
+  }
+
+  const shared = response.effects?.created?.find(
+    ref => typeof ref.owner === 'object' && 'Shared' in ref.owner
+  );
+  return shared?.reference.objectId ?? null;
+};
+
+// The pool a create_pool transaction made, with its type arguments, or null for other transactions
+export const getCreatedPool = (response: IotaTransactionBlockResponse): Omit<DiscoveredPool, 'source'> | null => {
+  for (const change of response.objectChanges ?? []) {
+    if (change.type !== 'created' || !isPoolType(change.objectType)) continue;
+
+    const typeArguments = parsePairTypeArguments(change.objectType);
+    if (typeArguments) {
+      return { poolId: change.objectId, coinTypeA: typeArguments[0], coinTypeB: typeArguments[1] };
+    }
+  }
+  return null;
+};
+
+export class PoolDiscoveryService {
+  private static instance: PoolDiscoveryService | null = null;
+  private readonly client: IotaClient;
+  private readonly packageId: string;
+  private readonly upgradedPackageId: string; // Defines PoolCreatedEvent
+  private readonly pools = new Map<string, DiscoveredPool>(); // By pair key
+  // Scans resume where the previous one stopped
+  private eventCursor: EventId | null = null;
+  private transactionCursor: string | null = null;
+
+  private constructor() {
+    const safeClient = getSafeIotaClient();
+    if (!safeClient) {
+      throw new NetworkError('Failed to initialize IOTA client');
+    }
+    this.client = safeClient.getRawClient();
+    this.packageId = IOTA_CONFIG.packages.core;
+    this.upgradedPackageId = IOTA_CONFIG.packages.upgraded;
+
+    this.seedConfiguredPools();
+  }
+
+  static getInstance(): PoolDiscoveryService {
+    if (!PoolDiscoveryService.instance) {
+      PoolDiscoveryService.instance = new PoolDiscoveryService();
+    }
+    return PoolDiscoveryService.instance;
+  }
+
+  /**
+   * Every known pool, after scanning the package for pools created since the last scan. Scans are
+   * cached for a minute; a source that fails to load is skipped rather than failing the rest.
+   */
+  async discoverPools(): Promise<DiscoveredPool[]> {
+    return withCache(poolCache, DISCOVERY_CACHE_KEY, () => this.scan(), DISCOVERY_TTL);
+  }
+
+  async findPool(coinTypeA: string, coinTypeB: string): Promise<DiscoveredPool | null> {
+    const key = getPairKey(coinTypeA, coinTypeB);
+    if (!this.pools.has(key)) {
+      await this.discoverPools();
+    }
+    return this.pools.get(key) ?? null;
+  }
+
+  // Record a pool the app just created, ahead of the next scan
+  register(poolId: string, coinTypeA: string, coinTypeB: string): void {
+    this.addPool({ poolId, coinTypeA, coinTypeB, source: 'registered' });
+    poolCache.delete(DISCOVERY_CACHE_KEY);
+  }
+
+  private async scan(): Promise<DiscoveredPool[]> {
+    const timer = measurePerformance('PoolDiscoveryService.scan');
+
+    try {
+      if (this.packageId && this.packageId !== '0x0') {
+        await this.scanEvents();
+        await this.scanTransactions();
+      }
+
+      const pools = [...this.pools.values()];
+      log.info('Discovered pools', { count: pools.length });
+      return pools;
+    } finally {
+      timer.end();
+    }
+  }
+
+  // PoolCreatedEvent, emitted by create_pool since the upgrade that added it. The event type
+  // carries the upgraded package's ID, not the original one Pool keeps
+  private async scanEvents(): Promise<void> {
+    try {
+      let hasNextPage = true;
+      while (hasNextPage) {
+        const page = await this.client.queryEvents({
+          query: { MoveEventType: `${this.upgradedPackageId}::${MODULE_NAMES.DEX}::PoolCreatedEvent` },
+          cursor: this.eventCursor,
+          limit: PAGE_SIZE,
+          order: 'ascending',
+        });
+
+        for (const event of page.data) {
+          const { pool_id, coin_type_a, coin_type_b } = event.parsedJson as PoolCreatedEventJson;
+          this.addPool({
+            poolId: pool_id,
+            coinTypeA: normalizeStructTag(coin_type_a),
+            coinTypeB: normalizeStructTag(coin_type_b),
+            source: 'event',
+          });
+        }
+
+        this.eventCursor = page.nextCursor ?? this.eventCursor;
+        hasNextPage = page.hasNextPage;
+      }
+    } catch (error) {
+      log.warn('Pool event scan failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // create_pool calls through the original package, which covers pools made before the event
+  // existed
+  private async scanTransactions(): Promise<void> {
+    try {
+      let hasNextPage = true;
+      while (hasNextPage) {
+        const page = await this.client.queryTransactionBlocks({
+          filter: {
+            MoveFunction: { package: this.packageId, module: MODULE_NAMES.DEX, function: 'create_pool' },
+          },
+          options: { showObjectChanges: true },
+          cursor: this.transactionCursor,
+          limit: PAGE_SIZE,
+          order: 'ascending',
+        });
+
+        for (const transaction of page.data) {
+          const pool = getCreatedPool(transaction);
+          if (pool) {
+            this.addPool({ ...pool, source: 'transaction' });
+          }
+        }
+
+        this.transactionCursor = page.nextCursor ?? this.transactionCursor;
+        hasNextPage = page.hasNextPage;
+      }
+    } catch (error) {
+      log.warn('Pool transaction scan failed', { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private seedConfiguredPools(): void {
+    for (const { coinTypeA, coinTypeB, poolId } of CONFIGURED_POOLS) {
+      if (poolId && poolId !== '0x0') {
+        this.addPool({ poolId, coinTypeA, coinTypeB, source: 'config' });
+      }
+    }
+
+    for (const pool of KNOWN_POOLS[DEFAULT_NETWORK]) {
+      this.addPool({ ...pool, source: 'config' });
+    }
+  }
+
+  // The first pool seen for a pair is kept: configured pools, then the oldest on chain
+  private addPool(pool: DiscoveredPool): void {
+    const key = getPairKey(pool.coinTypeA, pool.coinTypeB);
+    if (!this.pools.has(key)) {
+      this.pools.set(key, pool);
+      log.debug('Added pool to discovery', { poolId: pool.poolId, source: pool.source });
+    }
+  }
+
+  // Static convenience methods
+  static async discoverPools(): Promise<DiscoveredPool[]> {
+    return PoolDiscoveryService.getInstance().discoverPools();
+  }
+
+  static async findPool(coinTypeA: string, coinTypeB: string): Promise<DiscoveredPool | null> {
+    return PoolDiscoveryService.getInstance().findPool(coinTypeA, coinTypeB);
+  }
+
+  static register(poolId: string, coinTypeA: string, coinTypeB: string): void {
+    PoolDiscoveryService.getInstance().register(poolId, coinTypeA, coinTypeB);
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Pool health from simple_dex's own getters: is_pool_healthy, get_spot_price and
+ * get_cached_prices, read together through one dev-inspected transaction, and checked against the
+ * external price feed
+ */
+
+'use client';
+
+import { IotaClient } from '@iota/iota-sdk/client';
+import { Transaction } from '@iota/iota-sdk/transactions';
+import { bcs } from '@iota/iota-sdk/bcs';
+import { normalizeIotaAddress } from '@iota/iota-sdk/utils';
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { IOTA_CONFIG, MODULE_NAMES } from '@/config/iota.config';
+import { PoolInfo } from '@/lib/services/pool-service';
+import { getTokenByType } from '@/lib/services/token-registry';
+import { getMultipleTokenPrices, getPriceForType } from '@/lib/services/price-feed';
+import { log, measurePerformance } from '@/lib/logging';
+import { poolCache, withCache } from '@/lib/cache';
+import { NetworkError, PoolError, ErrorCode } from '@/lib/errors';
+
+const PRICE_SCALE = 1_000_000; // simple_dex prices carry 6 decimals
+const HOUR = 60 * 60 * 1000;
+
+// Relative differences, fractions
+const HEALTH_THRESHOLDS = {
+  cachedPriceDivergence: 0.01,
+  externalPriceWarning: 0.05,
+  externalPriceCritical: 0.2,
+  imbalanceWarning: 0.1,
+  imbalanceCritical: 0.3,
+  staleAfterMs: 24 * HOUR,
+};
+
+const HEALTH_TTL = 30 * 1000;
+const INSPECT_SENDER = normalizeIotaAddress('0x0');
+
+// Raw getter results
+export interface PoolHealthReadings {
+  isHealthy: boolean; // is_pool_healthy: both reserves and the LP supply are non-zero
+  spotPrice: bigint; // get_spot_price: A per B in base units, 6 decimals
+  cachedPriceA: bigint; // get_cached_prices: A per B as of the last swap, 6 decimals
+  cachedPriceB: bigint; // B per A
+  lastUpdateMs: number;
+}
+
+export type PoolHealthSeverity = 'info' | 'warning' | 'critical';
+export type PoolHealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface PoolHealthIssue {
+  code: 'empty-pool' | 'reserve-imbalance' | 'stale-price' | 'cached-price-divergence' | 'external-price-divergence';
+  severity: PoolHealthSeverity;
+  message: string;
+}
+
+// Prices are A per B in base units
+export interface PoolHealth {
+  poolId: string;
+  status: PoolHealthStatus;
+  isHealthy: boolean;
+  spotPrice: number;
+  cachedPrice: number;
+  lastUpdateMs: number;
+  stalenessMs: number;
+  cachedPriceDivergence: number | null;
+  externalPrice: number | null; // From USD prices, null when either token has none
+  externalPriceDivergence: number | null;
+  reserveImbalance: number | null; // 0 when both reserves are worth the same at external prices, 1 when one is empty
+  issues: PoolHealthIssue[];
+  checkedAt: number;
+}
+
+export class PoolHealthService {
+  private static instance: PoolHealthService | null = null;
+  private readonly client: IotaClient;
+  private readonly packageId: string;
+
+  private constructor() {
+    const safeClient = getSafeIotaClient();
+    if (!safeClient) {
+      throw new NetworkError('Failed to initialize IOTA client');
+    }
+    this.client = safeClient.getRawClient();
+    this.packageId = IOTA_CONFIG.packages.upgraded;
+  }
+
+  static getInstance(): PoolHealthService {
+    if (!PoolHealthService.instance) {
+      PoolHealthService.instance = new PoolHealthService();
+    }
+    return PoolHealthService.instance;
+  }
+
+  /**
+   * Health of `pool`. Reserves come from the caller's PoolInfo, the rest from the chain and the
+   * price feed; a missing external price only drops the checks that need it.
+   */
+  async getPoolHealth(pool: PoolInfo): Promise<PoolHealth> {
+    return withCache(poolCache, `pool-health:${pool.poolId}`, async () => {
+      const timer = measurePerformance('PoolHealthService.getPoolHealth');
+
+      try {
+        const [readings, externalPrice] = await Promise.all([
+          this.getReadings(pool),
+          this.getExternalPrice(pool),
+        ]);
+        return assessPoolHealth(pool, readings, externalPrice, Date.now());
+      } catch (error) {
+        log.error('Failed to check pool health', { poolId: pool.poolId }, error instanceof Error ? error : undefined);
+        throw error;
+      } finally {
+        timer.end();
+      }
+    }, HEALTH_TTL);
+  }
+
+  /**
+   * The getters' return values. They only read the pool, so a dev-inspect runs them without a
+   * signature or gas.
+   */
+  async getReadings(pool: PoolInfo): Promise<PoolHealthReadings> {
+    const tx = new Transaction();
+    const typeArguments = [pool.coinTypeA, pool.coinTypeB];
+    for (const getter of ['is_pool_healthy', 'get_spot_price', 'get_cached_prices']) {
+      tx.moveCall({
+        target: `${this.packageId}::${MODULE_NAMES.DEX}::${getter}`,
+        typeArguments,
+        arguments: [tx.object(pool.poolId)],
+      });
+    }
+
+    const result = await this.client.devInspectTransactionBlock({ sender: INSPECT_SENDER, transactionBlock: tx });
+    const [healthy, spot, cached] = result.results ?? [];
+    if (result.error || !healthy?.returnValues || !spot?.returnValues || cached?.returnValues?.length !== 3) {
+      throw new PoolError(ErrorCode.POOL_NOT_FOUND, 'Could not read pool health', {
+        poolId: pool.poolId,
+        error: result.error,
+      });
+    }
+
+    const u64 = ([bytes]: [number[], string]) => BigInt(bcs.u64().parse(Uint8Array.from(bytes)));
+    const [priceA, priceB, lastUpdate] = cached.returnValues;
+    return {
+      isHealthy: bcs.bool().parse(Uint8Array.from(healthy.returnValues[0]![0])),
+      spotPrice: u64(spot.returnValues[0]!),
+      cachedPriceA: u64(priceA!),
+      cachedPriceB: u64(priceB!),
+      lastUpdateMs: Number(u64(lastUpdate!)),
+    };
+  }
+
+  /**
+   * The feed's price of B in A, in base units, or null when the feed lacks either token's price or
+   * either token is unverified.
+   */
+  private async getExternalPrice(pool: PoolInfo): Promise<number | null> {
+    const tokenA = getTokenByType(pool.coinTypeA);
+    const tokenB = getTokenByType(pool.coinTypeB);
+    if (!tokenA || !tokenB) return null;
+
+    try {
+      const prices = await getMultipleTokenPrices([tokenA.symbol, tokenB.symbol]);
+      const priceA = getPriceForType(prices, pool.coinTypeA);
+      const priceB = getPriceForType(prices, pool.coinTypeB);
+      if (!priceA || !priceB) return null;
+
+      return (priceB / priceA) * 10 ** (tokenA.decimals - tokenB.decimals);
+    } catch (error) {
+      log.warn('External prices unavailable for pool health', { poolId: pool.poolId }, error instanceof Error ? error : undefined);
+      return null;
+    }
+  }
+
+  // Static convenience methods
+  static async getPoolHealth(pool: PoolInfo): Promise<PoolHealth> {
+    return PoolHealthService.getInstance().getPoolHealth(pool);
+  }
+}
+
+const relativeDifference = (value: number, reference: number): number | null =>
+  reference > 0 ? Math.abs(value - reference) / reference : null;
+
+const percent = (fraction: number) => `${(fraction * 100).toFixed(1)}%`;
+
+/**
+ * Turns getter readings into metrics and issues. `externalPrice` is B in A, in base units.
+ *
+ * Swaps rewrite the cached prices but take no Clock, so last_update is when the pool was created:
+ * its age is reported for information only.
+ */
+export function assessPoolHealth(
+  pool: PoolInfo,
+  readings: PoolHealthReadings,
+  externalPrice: number | null,
+  now: number
+): PoolHealth {
+  const issues: PoolHealthIssue[] = [];
+  const spotPrice = Number(readings.spotPrice) / PRICE_SCALE;
+  const cachedPrice = Number(readings.cachedPriceA) / PRICE_SCALE;
+  const stalenessMs = Math.max(now - readings.lastUpdateMs, 0);
+
+  if (!readings.isHealthy) {
+    issues.push({ code: 'empty-pool', severity: 'critical', message: 'The pool has an empty reserve or no liquidity' });
+  }
+
+  const cachedPriceDivergence = readings.isHealthy ? relativeDifference(cachedPrice, spotPrice) : null;
+  if (cachedPriceDivergence !== null && cachedPriceDivergence > HEALTH_THRESHOLDS.cachedPriceDivergence) {
+    issues.push({
+      code: 'cached-price-divergence',
+      severity: 'warning',
+      message: `The pool's cached price is ${percent(cachedPriceDivergence)} away from its spot price`,
+    });
+  }
+
+  if (stalenessMs > HEALTH_THRESHOLDS.staleAfterMs) {
+    issues.push({
+      code: 'stale-price',
+      severity: 'info',
+      message: `Cached prices were last timestamped ${Math.floor(stalenessMs / HOUR)}h ago`,
+    });
+  }
+
+  const hasReserves = pool.reserveA > 0n && pool.reserveB > 0n;
+  const externalPriceDivergence = externalPrice && readings.isHealthy ? relativeDifference(spotPrice, externalPrice) : null;
+  if (externalPriceDivergence !== null && externalPriceDivergence > HEALTH_THRESHOLDS.externalPriceWarning) {
+    issues.push({
+      code: 'external-price-divergence',
+      severity: externalPriceDivergence > HEALTH_THRESHOLDS.externalPriceCritical ? 'critical' : 'warning',
+      message: `The pool price is ${percent(externalPriceDivergence)} away from the market price`,
+    });
+  }
+
+  // Value of each reserve in A base units at the external price
+  let reserveImbalance: number | null = null;
+  if (externalPrice && hasReserves) {
+    const valueA = Number(pool.reserveA);
+    const valueB = Number(pool.reserveB) * externalPrice;
+    reserveImbalance = Math.abs(valueA - valueB) / (valueA + valueB);
+  }
+  if (reserveImbalance !== null && reserveImbalance > HEALTH_THRESHOLDS.imbalanceWarning) {
+    issues.push({
+      code: 'reserve-imbalance',
+      severity: reserveImbalance > HEALTH_THRESHOLDS.imbalanceCritical ? 'critical' : 'warning',
+      message: `${percent((1 + reserveImbalance) / 2)} of the pool's value sits in one token at market prices`,
+    });
+  }
+
+  const status: PoolHealthStatus = issues.some(issue => issue.severity === 'critical')
+    ? 'unhealthy'
+    : issues.some(issue => issue.severity === 'warning') ? 'degraded' : 'healthy';
+
+  return {
+    poolId: pool.poolId,
+    status,
+    isHealthy: readings.isHealthy,
+    spotPrice,
+    cachedPrice,
+    lastUpdateMs: readings.lastUpdateMs,
+    stalenessMs,
+    cachedPriceDivergence,
+    externalPrice,
+    externalPriceDivergence,
+    reserveImbalance,
+    issues,
+    checkedAt: now,
+  };
+}
@@ -1,10 +1,36 @@
 'use client';
 
+import { IotaObjectData } from '@iota/iota-sdk/client';
+import { Transaction } from '@iota/iota-sdk/transactions';
 import { getSafeIotaClient } from '@/lib/iota/safe-client';
-import { IOTA_CONFIG, getPoolId, getTokenByType, MODULE_NAMES } from '@/config/iota.config';
+import { prepareCoinInput } from '@/lib/iota/coin-selection';
+import { LPTokenRef, mergeLPTokens, prepareLPTokenInput } from '@/lib/iota/lp-tokens';
+import { AMMContract } from '@/lib/contracts/amm-contract';
+import { PoolDiscoveryService, parsePairTypeArguments } from '@/lib/services/pool-discovery';
+import { IOTA_CONFIG, SUPPORTED_COINS, MODULE_NAMES } from '@/config/iota.config';
+import { TokenRegistry, isSameCoinType } from '@/lib/services/token-registry';
 import { log, measurePerformance } from '@/lib/logging';
 import { poolCache, withCache } from '@/lib/cache';
-import { NetworkError, PoolError, ErrorCode, createPoolNotFoundError } from '@/lib/errors';
+import {
+  NetworkError,
+  PoolError,
+  ValidationError,
+  ErrorCode,
+  createPoolAlreadyExistsError,
+  createPriceImpactTooHighError,
+} from '@/lib/errors';
+import { getPriceImpactThresholds } from '@/lib/config';
+import {
+  quoteExactInput,
+  quoteExactOutput,
+  quoteZapIn,
+  quoteZapOut,
+  applySlippage,
+  applyMaxSlippage,
+  fitsInitialDeposit,
+  ZapInQuote,
+  ZapOutQuote,
+} from '@/lib/utils/swap-math';
 
 export interface PoolInfo {
   poolId: string;
@@ -22,10 +48,65 @@ export interface PoolInfo {
 
 export interface SwapQuote {
   outputAmount: bigint;
-  priceImpact: number;
+  priceImpact: number; // Execution against spot price, fee excluded
+  feeAmount: bigint; // Pool fee, in input token units
+  feePercent: number;
   minimumReceived: bigint;
 }
 
+export interface ExactOutputQuote {
+  inputAmount: bigint;
+  outputAmount: bigint;
+  priceImpact: number;
+  feeAmount: bigint;
+  feePercent: number;
+  maximumSold: bigint;
+}
+
+export interface CreatePoolParams {
+  coinTypeA: string;
+  coinTypeB: string;
+  amountA: bigint; // Initial reserves, in base units
+  amountB: bigint;
+}
+
+export interface ZapInParams {
+  coinTypeIn: string; // The token deposited, one side of the pool
+  coinTypeOther: string;
+  amountIn: bigint;
+  slippageTolerance?: number; // Percent, bounds the LP minted
+}
+
+export interface ZapOutParams {
+  pool: PoolInfo; // The LP tokens' pool, see LPPoolResolver
+  lpTokens: LPTokenRef[]; // The pool's LP token objects, merged and split down to lpAmount
+  lpAmount: bigint;
+  coinTypeOut: string; // The token received, one side of the pool
+  slippageTolerance?: number; // Percent, bounds the amount received
+}
+
+export interface RemoveLiquidityParams {
+  pool: PoolInfo; // The LP tokens' pool, see LPPoolResolver
+  lpTokens: LPTokenRef[]; // The pool's LP token objects, merged and split down to lpAmount
+  lpAmount: bigint;
+  slippageTolerance?: number; // Percent, bounds both amounts received
+}
+
+export interface LPTokenParams {
+  lpTokens: LPTokenRef[];
+  coinTypeA: string; // In the LP token's type order
+  coinTypeB: string;
+}
+
+export interface SplitLPTokenParams extends LPTokenParams {
+  amount: bigint;
+  recipient?: string; // Defaults to the sender
+}
+
+const CREATE_POOL_GAS_BUDGET = 100000000n; // 0.1 IOTA
+const ZAP_GAS_BUDGET = 100000000n;
+const REMOVE_LIQUIDITY_GAS_BUDGET = 100000000n;
+
 export class PoolService {
   private static instance: PoolService | null = null;
   private readonly client;
@@ -33,7 +114,7 @@ export class PoolService {
 
   private constructor() {
     this.client = getSafeIotaClient();
-    this.packageId = IOTA_CONFIG.packages.core;
+    this.packageId = IOTA_CONFIG.packages.upgraded;
     
     if (!this.client) {
       throw new NetworkError('Failed to initialize IOTA client');
@@ -55,33 +136,15 @@ export class PoolService {
     const timer = measurePerformance('PoolService.findPool');
     
     try {
-      // Get token information
-      const tokenA = getTokenByType(coinTypeA);
-      const tokenB = getTokenByType(coinTypeB);
+      // Configured, discovered on chain or just created from this app
+      const pool = await PoolDiscoveryService.findPool(coinTypeA, coinTypeB);
       
-      if (!tokenA || !tokenB) {
-        throw createPoolNotFoundError(coinTypeA, coinTypeB);
-      }
-
-      // Get pool ID from configuration
-      const poolId = getPoolId(tokenA.symbol, tokenB.symbol);
-      
-      if (!poolId || poolId === '0x0') {
-        log.warn('Pool not found in configuration', { 
-          tokenA: tokenA.symbol, 
-          tokenB: tokenB.symbol 
-        });
+      if (!pool) {
+        log.warn('No pool found for pair', { coinTypeA, coinTypeB });
         return null;
       }
 
-      // Use cache for pool info
-      const cacheKey = `pool:${poolId}`;
-      return await withCache(
-        poolCache,
-        cacheKey,
-        () => this.fetchPoolInfo(poolId, coinTypeA, coinTypeB),
-        30000 // 30 second TTL for pool data
-      );
+      return await this.getPoolInfo(pool.poolId, pool.coinTypeA, pool.coinTypeB);
 
     } catch (error) {
       log.error('Failed to find pool', { coinTypeA, coinTypeB }, error instanceof Error ? error : undefined);
@@ -91,55 +154,28 @@ export class PoolService {
     }
   }
 
+  // A pool by ID, with its coin types in the pool's order
+  async getPoolInfo(poolId: string, coinTypeA: string, coinTypeB: string): Promise<PoolInfo> {
+    return withCache(
+      poolCache,
+      `pool:${poolId}`,
+      () => this.fetchPoolInfo(poolId, coinTypeA, coinTypeB),
+      30000 // 30 second TTL for pool data
+    );
+  }
+
   private async fetchPoolInfo(poolId: string, coinTypeA: string, coinTypeB: string): Promise<PoolInfo> {
     try {
       const poolObject = await this.client!.getObject({
         id: poolId,
-        options: { showContent: true },
+        options: { showContent: true, showType: true },
       });
 
-      if (!poolObject.data?.content || poolObject.data.content.dataType !== 'moveObject') {
+      if (!poolObject?.data) {
         throw new PoolError(ErrorCode.POOL_NOT_FOUND, `Pool object not found: ${poolId}`);
       }
 
-      const fields = poolObject.data.content.fields as any;
-      
-      // Validate pool structure
-      if (!fields.reserve_a || !fields.reserve_b || !fields.lp_supply) {
-        throw new PoolError(ErrorCode.INVALID_CONTRACT_STATE, 'Invalid pool structure');
-      }
-
-      const reserveA = BigInt(fields.reserve_a?.fields?.value || fields.reserve_a || '0');
-      const reserveB = BigInt(fields.reserve_b?.fields?.value || fields.reserve_b || '0');
-      const lpSupply = BigInt(fields.lp_supply || '0');
-
-      // Extract fee and volume data from packed fields
-      const feeData = fields.fee_data || '0';
-      const volumeData = fields.volume_data || '0';
-
-      const poolInfo: PoolInfo = {
-        poolId,
-        coinTypeA,
-        coinTypeB,
-        reserveA,
-        reserveB,
-        lpSupply,
-        feePercentage: IOTA_CONFIG.fees.swap, // 1.8%
-        totalVolumeA: this.unpackHighU64(BigInt(volumeData)),
-        totalVolumeB: this.unpackLowU64(BigInt(volumeData)),
-        feesA: this.unpackHighU64(BigInt(feeData)),
-        feesB: this.unpackLowU64(BigInt(feeData)),
-      };
-
-      log.debug('Pool info fetched', { 
-        poolId, 
-        reserveA: reserveA.toString(), 
-        reserveB: reserveB.toString(),
-        lpSupply: lpSupply.toString()
-      });
-
-      return poolInfo;
-      
+      return this.toPoolInfo(poolId, poolObject.data, coinTypeA, coinTypeB);
     } catch (error) {
       if (error instanceof PoolError) {
         throw error;
@@ -150,6 +186,81 @@ export class PoolService {
     }
   }
 
+  /**
+   * Pool state as of an earlier object version, e.g. right after a deposit. Returns null when the
+   * node no longer has that version.
+   */
+  async getPoolInfoAt(poolId: string, version: string): Promise<PoolInfo | null> {
+    const timer = measurePerformance('PoolService.getPoolInfoAt');
+
+    try {
+      const pastObject = await this.client!.getRawClient().tryGetPastObject({
+        id: poolId,
+        version: Number(version),
+        options: { showContent: true, showType: true },
+      });
+
+      if (pastObject.status !== 'VersionFound') {
+        log.warn('Pool version not available', { poolId, version, status: pastObject.status });
+        return null;
+      }
+
+      return this.toPoolInfo(poolId, pastObject.details, '', '');
+    } finally {
+      timer.end();
+    }
+  }
+
+  private toPoolInfo(poolId: string, data: IotaObjectData, coinTypeA: string, coinTypeB: string): PoolInfo {
+    if (!data.content || data.content.dataType !== 'moveObject') {
+      throw new PoolError(ErrorCode.POOL_NOT_FOUND, `Pool object not found: ${poolId}`);
+    }
+
+    const fields = data.content.fields as any;
+
+    // The on-chain type order wins over the caller's guess, pools may be created as <B, A>
+    const typeArguments = parsePairTypeArguments(data.type || data.content.type);
+    if (typeArguments) {
+      [coinTypeA, coinTypeB] = typeArguments;
+    }
+    
+    // Validate pool structure
+    if (!fields.reserve_a || !fields.reserve_b || !fields.lp_supply) {
+      throw new PoolError(ErrorCode.INVALID_CONTRACT_STATE, 'Invalid pool structure');
+    }
+
+    const reserveA = BigInt(fields.reserve_a?.fields?.value || fields.reserve_a || '0');
+    const reserveB = BigInt(fields.reserve_b?.fields?.value || fields.reserve_b || '0');
+    const lpSupply = BigInt(fields.lp_supply || '0');
+
+    // Extract fee and volume data from packed fields
+    const feeData = fields.fee_data || '0';
+    const volumeData = fields.volume_data || '0';
+
+    const poolInfo: PoolInfo = {
+      poolId,
+      coinTypeA,
+      coinTypeB,
+      reserveA,
+      reserveB,
+      lpSupply,
+      feePercentage: IOTA_CONFIG.fees.swap, // 1.8%
+      totalVolumeA: this.unpackHighU64(BigInt(volumeData)),
+      totalVolumeB: this.unpackLowU64(BigInt(volumeData)),
+      feesA: this.unpackHighU64(BigInt(feeData)),
+      feesB: this.unpackLowU64(BigInt(feeData)),
+    };
+
+    log.debug('Pool info fetched', { 
+      poolId, 
+      reserveA: reserveA.toString(), 
+      reserveB: reserveB.toString(),
+      lpSupply: lpSupply.toString()
+    });
+
+    return poolInfo;
+  }
+
   // Utility methods for packed data
   private unpackHighU64(packed: bigint): bigint {
     return packed >> 64n;
@@ -169,9 +280,6 @@ export class PoolService {
       throw new Error('Input amount must be greater than zero');
     }
 
-    const FEE_DENOMINATOR = BigInt(1000);
-    const FEE_NUMERATOR = BigInt(pool.feePercentage);
-    
     const reserveIn = isAToB ? pool.reserveA : pool.reserveB;
     const reserveOut = isAToB ? pool.reserveB : pool.reserveA;
     
@@ -180,36 +288,68 @@ export class PoolService {
       throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Pool has no liquidity');
     }
 
-    // Prevent excessive price impact
-    const maxInputPercent = reserveIn / 10n; // Max 10% of reserve
-    if (inputAmount > maxInputPercent) {
-      throw new Error('Input amount too large, would cause excessive price impact');
-    }
-
-    // Calculate fee
-    const feeAmount = (inputAmount * FEE_NUMERATOR) / FEE_DENOMINATOR;
-    const inputAfterFee = inputAmount - feeAmount;
-    
-    // Calculate output using constant product formula
-    const outputAmount = (inputAfterFee * reserveOut) / (reserveIn + inputAfterFee);
+    // Same integer math as the on-chain swap
+    const { amountOut: outputAmount, priceImpact, feeAmount, feePercent } = quoteExactInput(
+      inputAmount,
+      reserveIn,
+      reserveOut,
+      BigInt(pool.feePercentage)
+    );
     
     if (outputAmount <= 0n) {
       throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Insufficient output amount');
     }
-
-    // Calculate price impact
-    const priceImpact = Number(inputAmount) / Number(reserveIn) * 100;
     
-    // Validate price impact
-    if (priceImpact > 5) {
-      throw new Error(`Price impact too high: ${priceImpact.toFixed(2)}%`);
+    // Refuse trades past the configured maximum impact
+    const { max } = getPriceImpactThresholds();
+    if (priceImpact > max) {
+      throw createPriceImpactTooHighError(priceImpact, max);
     }
 
-    // Calculate minimum received with slippage
-    const slippageMultiplier = BigInt(Math.floor((100 - slippageTolerance) * 100));
-    const minimumReceived = (outputAmount * slippageMultiplier) / BigInt(10000);
+    const minimumReceived = applySlippage(outputAmount, slippageTolerance);
     
-    return { outputAmount, priceImpact, minimumReceived };
+    return { outputAmount, priceImpact, feeAmount, feePercent, minimumReceived };
+  }
+
+  /**
+   * Quote the input needed to receive exactly `outputAmount`, the smallest amount the on-chain
+   * swap turns into at least that much. `maximumSold` bounds the input by the slippage tolerance.
+   */
+  calculateExactOutputQuote(
+    pool: PoolInfo,
+    outputAmount: bigint,
+    isAToB: boolean,
+    slippageTolerance: number = 0.5
+  ): ExactOutputQuote {
+    if (outputAmount <= 0n) {
+      throw new Error('Output amount must be greater than zero');
+    }
+
+    const reserveIn = isAToB ? pool.reserveA : pool.reserveB;
+    const reserveOut = isAToB ? pool.reserveB : pool.reserveA;
+
+    // Validate reserves
+    if (reserveIn <= 0n || reserveOut <= 0n) {
+      throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Pool has no liquidity');
+    }
+
+    // Smallest input the on-chain swap turns into at least outputAmount
+    const { amountIn: inputAmount, priceImpact, feeAmount, feePercent } = quoteExactOutput(
+      outputAmount,
+      reserveIn,
+      reserveOut,
+      BigInt(pool.feePercentage)
+    );
+
+    // Same impact limit as exact-input quotes
+    const { max } = getPriceImpactThresholds();
+    if (priceImpact > max) {
+      throw createPriceImpactTooHighError(priceImpact, max);
+    }
+
+    const maximumSold = applyMaxSlippage(inputAmount, slippageTolerance);
+
+    return { inputAmount, outputAmount, priceImpact, feeAmount, feePercent, maximumSold };
   }
 
   async getAllPools(): Promise<PoolInfo[]> {
@@ -217,34 +357,21 @@ export class PoolService {
     
     try {
       const pools: PoolInfo[] = [];
-      const tokens = Object.values(IOTA_CONFIG.tokens);
+      const discovered = await PoolDiscoveryService.discoverPools();
       
-      // Check all configured pool pairs
-      for (let i = 0; i < tokens.length; i++) {
-        for (let j = i + 1; j < tokens.length; j++) {
-          try {
-            const tokenA = tokens[i];
-            const tokenB = tokens[j];
-            
-            // Get pool ID from configuration
-            const poolId = getPoolId(tokenA.symbol, tokenB.symbol);
-            
-            if (!poolId || poolId === '0x0') {
-              continue; // Skip if no pool configured
-            }
-
-            // Fetch pool info directly without using findPool to avoid recursion
-            const pool = await this.fetchPoolInfo(poolId, tokenA.type, tokenB.type);
-            if (pool) {
-              pools.push(pool);
-            }
-          } catch (error) {
-            // Continue with other pools if one fails
-            log.warn('Failed to fetch pool', { 
-              tokenA: tokens[i].symbol, 
-              tokenB: tokens[j].symbol 
-            });
-          }
+      for (const { poolId, coinTypeA, coinTypeB } of discovered) {
+        try {
+          // Fetch pool info directly without using findPool to avoid recursion
+          const pool = await withCache(
+            poolCache,
+            `pool:${poolId}`,
+            () => this.fetchPoolInfo(poolId, coinTypeA, coinTypeB),
+            30000
+          );
+          pools.push(pool);
+        } catch (error) {
+          // Continue with other pools if one fails
+          log.warn('Failed to fetch pool', { poolId });
         }
       }
       
@@ -259,23 +386,332 @@ export class PoolService {
     }
   }
 
-  async createPool(
-    coinTypeA: string,
-    coinTypeB: string,
-    amountA: bigint,
-    amountB: bigint
-  ) {
-    // This would be implemented when pool creation is needed
-    // For now, pools are pre-configured
-    throw new Error('Pool creation not implemented. Use pre-configured pools.');
+  /**
+   * Build the create_pool transaction for a new pair. Rejects pairs that already have a pool and
+   * initial reserves below `minPoolLiquidity`, which is set in IOTA units and scaled to each
+   * token's decimals.
+   */
+  async createPool(params: CreatePoolParams, sender: string): Promise<Transaction> {
+    const timer = measurePerformance('PoolService.createPool');
+    const { coinTypeA, coinTypeB, amountA, amountB } = params;
+
+    try {
+      if (coinTypeA === coinTypeB) {
+        throw new ValidationError('A pool needs two different tokens', { coinTypeA, coinTypeB });
+      }
+
+      // Tokens outside the curated list need on-chain metadata for their decimals
+      const [tokenA, tokenB] = await Promise.all([
+        TokenRegistry.loadToken(coinTypeA),
+        TokenRegistry.loadToken(coinTypeB),
+      ]);
+      if (!tokenA || !tokenB) {
+        throw new ValidationError('Pools can only be created for tokens with coin metadata', { coinTypeA, coinTypeB });
+      }
+
+      const existing = await this.findPool(coinTypeA, coinTypeB);
+      if (existing) {
+        throw createPoolAlreadyExistsError(tokenA.symbol, tokenB.symbol, existing.poolId);
+      }
+
+      for (const [token, amount] of [[tokenA, amountA], [tokenB, amountB]] as const) {
+        const minimum = this.getMinimumLiquidity(token.decimals);
+        if (amount < minimum) {
+          throw new PoolError(
+            ErrorCode.INSUFFICIENT_LIQUIDITY,
+            `Initial ${token.symbol} liquidity is below the minimum of ${minimum} base units`,
+            { token: token.symbol, amount: amount.toString(), minimum: minimum.toString() }
+          );
+        }
+      }
+
+      if (!fitsInitialDeposit(amountA, amountB)) {
+        throw new ValidationError(
+          `Initial ${tokenA.symbol} and ${tokenB.symbol} amounts are too large: their product in base units must fit in a u64`,
+          { amountA: amountA.toString(), amountB: amountB.toString() }
+        );
+      }
+
+      const tx = new Transaction();
+      const coinSource = this.client!.getRawClient();
+      const coinA = await prepareCoinInput(coinSource, tx, {
+        owner: sender,
+        coinType: coinTypeA,
+        amount: amountA,
+        gasBudget: CREATE_POOL_GAS_BUDGET,
+      });
+      const coinB = await prepareCoinInput(coinSource, tx, {
+        owner: sender,
+        coinType: coinTypeB,
+        amount: amountB,
+        gasBudget: CREATE_POOL_GAS_BUDGET,
+      });
+
+      await AMMContract.createPool(tx, coinA, coinB, coinTypeA, coinTypeB);
+      tx.setGasBudget(CREATE_POOL_GAS_BUDGET);
+
+      log.info('Built create pool transaction', { tokenA: tokenA.symbol, tokenB: tokenB.symbol });
+      return tx;
+
+    } catch (error) {
+      log.error('Failed to build create pool transaction', { coinTypeA, coinTypeB }, error instanceof Error ? error : undefined);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  // Zap quotes for `pool`, whichever side the token is on
+  calculateZapInQuote(pool: PoolInfo, coinTypeIn: string, amountIn: bigint): ZapInQuote {
+    return isSameCoinType(pool.coinTypeA, coinTypeIn)
+      ? quoteZapIn(amountIn, pool.reserveA, pool.reserveB, pool.lpSupply)
+      : quoteZapIn(amountIn, pool.reserveB, pool.reserveA, pool.lpSupply);
+  }
+
+  calculateZapOutQuote(pool: PoolInfo, coinTypeOut: string, lpAmount: bigint): ZapOutQuote {
+    return isSameCoinType(pool.coinTypeA, coinTypeOut)
+      ? quoteZapOut(lpAmount, pool.reserveA, pool.reserveB, pool.lpSupply)
+      : quoteZapOut(lpAmount, pool.reserveB, pool.reserveA, pool.lpSupply);
+  }
+
+  /**
+   * Single-token deposit in one transaction: swap part of the input for the other token, then
+   * deposit both with add_liquidity_internal, which returns the LP token and the dust left over
+   * after matching the pool ratio. The swap uses swap_*_internal because the entry swaps send
+   * their output to the sender instead of handing it to the next call.
+   */
+  async zapIn(params: ZapInParams, sender: string): Promise<Transaction> {
+    const timer = measurePerformance('PoolService.zapIn');
+    const { coinTypeIn, coinTypeOther, amountIn, slippageTolerance = IOTA_CONFIG.defaults.slippage } = params;
+
+    try {
+      const pool = await this.findPool(coinTypeIn, coinTypeOther);
+      if (!pool || pool.lpSupply === 0n) {
+        throw new PoolError(ErrorCode.POOL_NOT_FOUND, 'Zaps need a pool that already has liquidity', { coinTypeIn, coinTypeOther });
+      }
+
+      const quote = this.calculateZapInQuote(pool, coinTypeIn, amountIn);
+      if (quote.swapAmount === 0n || quote.swapOutput === 0n || quote.lpAmount === 0n) {
+        throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Zap amount is too small for this pool', {
+          amountIn: amountIn.toString(),
+        });
+      }
+
+      const isAIn = isSameCoinType(pool.coinTypeA, coinTypeIn);
+      const typeArguments = [pool.coinTypeA, pool.coinTypeB];
+      const tx = new Transaction();
+
+      const coinIn = await prepareCoinInput(this.client!.getRawClient(), tx, {
+        owner: sender,
+        coinType: coinTypeIn,
+        amount: amountIn,
+        gasBudget: ZAP_GAS_BUDGET,
+      });
+      const swapCoin = tx.splitCoins(coinIn, [quote.swapAmount])[0]!;
+
+      const swapped = tx.moveCall({
+        target: `${this.packageId}::${MODULE_NAMES.DEX}::swap_${isAIn ? 'a_to_b' : 'b_to_a'}_internal`,
+        typeArguments,
+        arguments: [tx.object(pool.poolId), swapCoin],
+      });
+
+      const [lpToken, dustA, dustB] = tx.moveCall({
+        target: `${this.packageId}::${MODULE_NAMES.DEX}::add_liquidity_internal`,
+        typeArguments,
+        arguments: [
+          tx.object(pool.poolId),
+          isAIn ? coinIn : swapped,
+          isAIn ? swapped : coinIn,
+          tx.pure.u64(applySlippage(quote.lpAmount, slippageTolerance)),
+        ],
+      });
+      tx.transferObjects([lpToken!, dustA!, dustB!], sender);
+      tx.setGasBudget(ZAP_GAS_BUDGET);
+
+      log.info('Built zap in transaction', {
+        poolId: pool.poolId,
+        amountIn: amountIn.toString(),
+        swapAmount: quote.swapAmount.toString(),
+      });
+      return tx;
+
+    } catch (error) {
+      log.error('Failed to build zap in transaction', { coinTypeIn, coinTypeOther }, error instanceof Error ? error : undefined);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Withdraw to a single token in one transaction: remove_liquidity_internal returns both sides,
+   * the other side is swapped into the target, and splitting the minimum off the result aborts
+   * the transaction if the zap delivers less.
+   */
+  async zapOut(params: ZapOutParams, sender: string): Promise<Transaction> {
+    const timer = measurePerformance('PoolService.zapOut');
+    const { pool, lpTokens, lpAmount, coinTypeOut, slippageTolerance = IOTA_CONFIG.defaults.slippage } = params;
+
+    try {
+      const quote = this.calculateZapOutQuote(pool, coinTypeOut, lpAmount);
+      if (quote.swapAmount > 0n && quote.swapOutput === 0n) {
+        throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Position is too small to zap out', {
+          lpAmount: lpAmount.toString(),
+        });
+      }
+
+      const isAOut = isSameCoinType(pool.coinTypeA, coinTypeOut);
+      const typeArguments: [string, string] = [pool.coinTypeA, pool.coinTypeB];
+      const tx = new Transaction();
+
+      const lpToken = prepareLPTokenInput(tx, typeArguments, lpTokens, lpAmount);
+      const [coinA, coinB] = tx.moveCall({
+        target: `${this.packageId}::${MODULE_NAMES.DEX}::remove_liquidity_internal`,
+        typeArguments,
+        arguments: [tx.object(pool.poolId), lpToken, tx.pure.u64(0n), tx.pure.u64(0n)],
+      });
+      const coinOut = (isAOut ? coinA : coinB)!;
+      const coinOther = (isAOut ? coinB : coinA)!;
+
+      if (quote.swapAmount > 0n) {
+        const swapped = tx.moveCall({
+          target: `${this.packageId}::${MODULE_NAMES.DEX}::swap_${isAOut ? 'b_to_a' : 'a_to_b'}_internal`,
+          typeArguments,
+          arguments: [tx.object(pool.poolId), coinOther],
+        });
+        tx.mergeCoins(coinOut, [swapped]);
+      } else {
+        tx.moveCall({
+          target: '0x2::coin::destroy_zero',
+          typeArguments: [isAOut ? pool.coinTypeB : pool.coinTypeA],
+          arguments: [coinOther],
+        });
+      }
+
+      const minimumOut = tx.splitCoins(coinOut, [applySlippage(quote.amountOut, slippageTolerance)])[0]!;
+      tx.mergeCoins(coinOut, [minimumOut]);
+      tx.transferObjects([coinOut], sender);
+      tx.setGasBudget(ZAP_GAS_BUDGET);
+
+      log.info('Built zap out transaction', {
+        poolId: pool.poolId,
+        lpAmount: lpAmount.toString(),
+        amountOut: quote.amountOut.toString(),
+      });
+      return tx;
+
+    } catch (error) {
+      log.error('Failed to build zap out transaction', { lpAmount: lpAmount.toString(), coinTypeOut }, error instanceof Error ? error : undefined);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  /**
+   * Withdraw `lpAmount` across any number of LP token objects in one transaction: they are merged,
+   * the amount is split off and burned, and the rest stays with the sender as a single token.
+   */
+  async removeLiquidity(params: RemoveLiquidityParams): Promise<Transaction> {
+    const timer = measurePerformance('PoolService.removeLiquidity');
+    const { pool, lpTokens, lpAmount, slippageTolerance = IOTA_CONFIG.defaults.slippage } = params;
+
+    try {
+      if (pool.lpSupply === 0n || lpAmount > pool.lpSupply) {
+        throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Pool has no liquidity to remove', {
+          poolId: pool.poolId,
+          lpAmount: lpAmount.toString(),
+        });
+      }
+
+      // Same rounding as remove_liquidity_internal
+      const isEverything = lpAmount === pool.lpSupply;
+      const amountA = isEverything ? pool.reserveA : (pool.reserveA * lpAmount) / pool.lpSupply;
+      const amountB = isEverything ? pool.reserveB : (pool.reserveB * lpAmount) / pool.lpSupply;
+
+      const typeArguments: [string, string] = [pool.coinTypeA, pool.coinTypeB];
+      const tx = new Transaction();
+
+      const lpToken = prepareLPTokenInput(tx, typeArguments, lpTokens, lpAmount);
+      tx.moveCall({
+        target: `${this.packageId}::${MODULE_NAMES.DEX}::remove_liquidity`,
+        typeArguments,
+        arguments: [
+          tx.object(pool.poolId),
+          lpToken,
+          tx.pure.u64(applySlippage(amountA, slippageTolerance)),
+          tx.pure.u64(applySlippage(amountB, slippageTolerance)),
+        ],
+      });
+      tx.setGasBudget(REMOVE_LIQUIDITY_GAS_BUDGET);
+
+      log.info('Built remove liquidity transaction', {
+        poolId: pool.poolId,
+        lpAmount: lpAmount.toString(),
+        lpTokens: lpTokens.length,
+      });
+      return tx;
+
+    } catch (error) {
+      log.error('Failed to build remove liquidity transaction', { poolId: pool.poolId }, error instanceof Error ? error : undefined);
+      throw error;
+    } finally {
+      timer.end();
+    }
+  }
+
+  // Consolidate a pool's LP token objects into one
+  mergeLPTokens(params: LPTokenParams): Transaction {
+    if (params.lpTokens.length < 2) {
+      throw new ValidationError('Merging needs at least two LP tokens', { count: params.lpTokens.length });
+    }
+
+    const tx = new Transaction();
+    mergeLPTokens(tx, [params.coinTypeA, params.coinTypeB], params.lpTokens);
+
+    log.info('Built LP token merge transaction', { count: params.lpTokens.length });
+    return tx;
+  }
+
+  // Split an exact amount off a pool's LP tokens into a new token for the recipient
+  splitLPToken(params: SplitLPTokenParams, sender: string): Transaction {
+    const tx = new Transaction();
+    const lpToken = prepareLPTokenInput(tx, [params.coinTypeA, params.coinTypeB], params.lpTokens, params.amount);
+    tx.transferObjects([lpToken], params.recipient ?? sender);
+
+    log.info('Built LP token split transaction', { amount: params.amount.toString(), recipient: params.recipient ?? sender });
+    return tx;
+  }
+
+  // Make a newly created pool visible to findPool and getAllPools before discovery picks it up
+  registerPool(poolId: string, coinTypeA: string, coinTypeB: string): void {
+    PoolDiscoveryService.register(poolId, coinTypeA, coinTypeB);
+    poolCache.delete(`pool:${poolId}`);
+    log.info('Registered pool', { poolId, coinTypeA, coinTypeB });
+  }
+
+  // minPoolLiquidity is in IOTA base units, the same whole-token amount applies to every token
+  private getMinimumLiquidity(decimals: number): bigint {
+    const minimum = IOTA_CONFIG.limits.minPoolLiquidity;
+    const iotaDecimals = SUPPORTED_COINS.IOTA.decimals;
+    if (decimals >= iotaDecimals) {
+      return minimum * 10n ** BigInt(decimals - iotaDecimals);
+    }
+    return minimum / 10n ** BigInt(iotaDecimals - decimals);
   }
 
   // Static convenience methods
-  static getInstance = () => PoolService.getInstance();
-  
   static async findPool(coinTypeA: string, coinTypeB: string): Promise<PoolInfo | null> {
     return PoolService.getInstance().findPool(coinTypeA, coinTypeB);
   }
+
+  static async getPoolInfo(poolId: string, coinTypeA: string, coinTypeB: string): Promise<PoolInfo> {
+    return PoolService.getInstance().getPoolInfo(poolId, coinTypeA, coinTypeB);
+  }
+
+  static async getPoolInfoAt(poolId: string, version: string): Promise<PoolInfo | null> {
+    return PoolService.getInstance().getPoolInfoAt(poolId, version);
+  }
   
   static calculateSwapQuote(
     pool: PoolInfo,
@@ -285,10 +721,55 @@ export class PoolService {
   ): SwapQuote {
     return PoolService.getInstance().calculateSwapQuote(pool, inputAmount, isAToB, slippageTolerance);
   }
+
+  static calculateExactOutputQuote(
+    pool: PoolInfo,
+    outputAmount: bigint,
+    isAToB: boolean,
+    slippageTolerance?: number
+  ): ExactOutputQuote {
+    return PoolService.getInstance().calculateExactOutputQuote(pool, outputAmount, isAToB, slippageTolerance);
+  }
   
   static async getAllPools(): Promise<PoolInfo[]> {
     return PoolService.getInstance().getAllPools();
   }
+
+  static async createPool(params: CreatePoolParams, sender: string): Promise<Transaction> {
+    return PoolService.getInstance().createPool(params, sender);
+  }
+
+  static calculateZapInQuote(pool: PoolInfo, coinTypeIn: string, amountIn: bigint): ZapInQuote {
+    return PoolService.getInstance().calculateZapInQuote(pool, coinTypeIn, amountIn);
+  }
+
+  static calculateZapOutQuote(pool: PoolInfo, coinTypeOut: string, lpAmount: bigint): ZapOutQuote {
+    return PoolService.getInstance().calculateZapOutQuote(pool, coinTypeOut, lpAmount);
+  }
+
+  static async zapIn(params: ZapInParams, sender: string): Promise<Transaction> {
+    return PoolService.getInstance().zapIn(params, sender);
+  }
+
+  static async zapOut(params: ZapOutParams, sender: string): Promise<Transaction> {
+    return PoolService.getInstance().zapOut(params, sender);
+  }
+
+  static async removeLiquidity(params: RemoveLiquidityParams): Promise<Transaction> {
+    return PoolService.getInstance().removeLiquidity(params);
+  }
+
+  static mergeLPTokens(params: LPTokenParams): Transaction {
+    return PoolService.getInstance().mergeLPTokens(params);
+  }
+
+  static splitLPToken(params: SplitLPTokenParams, sender: string): Transaction {
+    return PoolService.getInstance().splitLPToken(params, sender);
+  }
+
+  static registerPool(poolId: string, coinTypeA: string, coinTypeB: string): void {
+    PoolService.getInstance().registerPool(poolId, coinTypeA, coinTypeB);
+  }
   
   static clearCache(): void {
     poolCache.clear();
@@ -0,0 +1,204 @@
+/**
+ * Pool volume, fees and fee APR over trailing windows. simple_dex only keeps running totals in
+ * fee_data and volume_data, so each window is the difference between the current pool and the
+ * pool object version that was current when the window started.
+ */
+
+'use client';
+
+import { IotaClient, IotaTransactionBlockResponse } from '@iota/iota-sdk/client';
+import { normalizeIotaObjectId } from '@iota/iota-sdk/utils';
+import { getSafeIotaClient } from '@/lib/iota/safe-client';
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { log, measurePerformance } from '@/lib/logging';
+import { poolCache, withCache } from '@/lib/cache';
+import { NetworkError } from '@/lib/errors';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const YEAR = 365 * DAY;
+
+export const STATS_WINDOWS = {
+  '24h': DAY,
+  '7d': 7 * DAY,
+  '30d': 30 * DAY,
+} as const;
+
+export type StatsWindow = keyof typeof STATS_WINDOWS;
+
+// Pool accumulators as of one object version
+export interface PoolSnapshot {
+  version: string;
+  timestampMs: number; // When the transaction that produced the version ran
+  reserveA: bigint;
+  reserveB: bigint;
+  volumeA: bigint;
+  volumeB: bigint;
+  feesA: bigint;
+  feesB: bigint;
+}
+
+// Amounts are in base units and in the pool's type order
+export interface WindowStats {
+  volumeA: bigint;
+  volumeB: bigint;
+  feesA: bigint;
+  feesB: bigint;
+  durationMs: number; // Time covered, shorter than the window for a young pool
+  feeApr: number | null; // Fees over the pool's value, annualized; a fraction
+}
+
+export interface PoolStats {
+  poolId: string;
+  updatedAt: number;
+  windows: Record<StatsWindow, WindowStats | null>; // Null when no earlier version could be read
+}
+
+const PAGE_SIZE = 50;
+const MAX_PAGES = 20; // Busy pools: the oldest transaction reached bounds the window instead
+const STATS_TTL = 5 * 60 * 1000;
+
+export class PoolStatsService {
+  private static instance: PoolStatsService | null = null;
+  private readonly client: IotaClient;
+
+  private constructor() {
+    const safeClient = getSafeIotaClient();
+    if (!safeClient) {
+      throw new NetworkError('Failed to initialize IOTA client');
+    }
+    this.client = safeClient.getRawClient();
+  }
+
+  static getInstance(): PoolStatsService {
+    if (!PoolStatsService.instance) {
+      PoolStatsService.instance = new PoolStatsService();
+    }
+    return PoolStatsService.instance;
+  }
+
+  /**
+   * Volume, fees and fee APR for every window, measured against `pool`.
+   */
+  async getPoolStats(pool: PoolInfo): Promise<PoolStats> {
+    return withCache(poolCache, `pool-stats:${pool.poolId}`, async () => {
+      const timer = measurePerformance('PoolStatsService.getPoolStats');
+
+      try {
+        const now = Date.now();
+        const snapshots = await this.getWindowSnapshots(pool.poolId, now);
+
+        const windows = {} as Record<StatsWindow, WindowStats | null>;
+        for (const window of Object.keys(STATS_WINDOWS) as StatsWindow[]) {
+          const snapshot = snapshots[window];
+          windows[window] = snapshot ? calculateWindowStats(pool, snapshot, now) : null;
+        }
+
+        return { poolId: pool.poolId, updatedAt: now, windows };
+      } catch (error) {
+        log.error('Failed to load pool stats', { poolId: pool.poolId }, error instanceof Error ? error : undefined);
+        throw error;
+      } finally {
+        timer.end();
+      }
+    }, STATS_TTL);
+  }
+
+  /**
+   * The pool as it was at the start of each window. One walk back through the transactions that
+   * changed the pool finds, per window, the newest one that ran before the window started; the
+   * version it produced is the pool's state at that moment. A window reaching past the oldest
+   * transaction seen starts at that transaction instead.
+   */
+  async getWindowSnapshots(poolId: string, now: number): Promise<Record<StatsWindow, PoolSnapshot | null>> {
+    const windows = Object.keys(STATS_WINDOWS) as StatsWindow[];
+    const starts = new Map<StatsWindow, IotaTransactionBlockResponse>();
+    let oldest: IotaTransactionBlockResponse | undefined;
+    let cursor: string | null | undefined = null;
+
+    for (let page = 0; page < MAX_PAGES && starts.size < windows.length; page++) {
+      const result = await this.client.queryTransactionBlocks({
+        filter: { ChangedObject: poolId },
+        options: { showEffects: true },
+        cursor,
+        limit: PAGE_SIZE,
+        order: 'descending',
+      });
+
+      for (const transaction of result.data) {
+        const timestampMs = Number(transaction.timestampMs ?? 0);
+        oldest = transaction;
+        for (const window of windows) {
+          if (!starts.has(window) && timestampMs <= now - STATS_WINDOWS[window]) {
+            starts.set(window, transaction);
+          }
+        }
+      }
+
+      if (!result.hasNextPage) break;
+      cursor = result.nextCursor;
+    }
+
+    const snapshots = {} as Record<StatsWindow, PoolSnapshot | null>;
+    for (const window of windows) {
+      const transaction = starts.get(window) ?? oldest;
+      snapshots[window] = transaction ? await this.getSnapshot(poolId, transaction) : null;
+    }
+    return snapshots;
+  }
+
+  private async getSnapshot(poolId: string, transaction: IotaTransactionBlockResponse): Promise<PoolSnapshot | null> {
+    const normalizedPoolId = normalizeIotaObjectId(poolId);
+    const poolRef = [...(transaction.effects?.mutated ?? []), ...(transaction.effects?.created ?? [])].find(
+      change => normalizeIotaObjectId(change.reference.objectId) === normalizedPoolId
+    );
+    if (!poolRef) return null;
+
+    const version = String(poolRef.reference.version);
+    const pool = await PoolService.getPoolInfoAt(poolId, version);
+    if (!pool) return null;
+
+    return {
+      version,
+      timestampMs: Number(transaction.timestampMs ?? 0),
+      reserveA: pool.reserveA,
+      reserveB: pool.reserveB,
+      volumeA: pool.totalVolumeA ?? 0n,
+      volumeB: pool.totalVolumeB ?? 0n,
+      feesA: pool.feesA ?? 0n,
+      feesB: pool.feesB ?? 0n,
+    };
+  }
+
+  // Static convenience methods
+  static async getPoolStats(pool: PoolInfo): Promise<PoolStats> {
+    return PoolStatsService.getInstance().getPoolStats(pool);
+  }
+}
+
+/**
+ * Accumulator growth from `snapshot` to `pool`. Fee APR values both sides in token A at the
+ * current reserve ratio, so it needs no price feed: fees over the pool's value, scaled from the
+ * time covered to a year.
+ */
+export function calculateWindowStats(pool: PoolInfo, snapshot: PoolSnapshot, now: number): WindowStats {
+  const growth = (current: bigint | undefined, start: bigint) =>
+    (current ?? 0n) > start ? (current ?? 0n) - start : 0n;
+
+  const feesA = growth(pool.feesA, snapshot.feesA);
+  const feesB = growth(pool.feesB, snapshot.feesB);
+  const durationMs = Math.max(now - snapshot.timestampMs, 0);
+
+  const canValue = pool.reserveA > 0n && pool.reserveB > 0n && durationMs > 0;
+  const feesInA = canValue ? Number(feesA) + (Number(feesB) * Number(pool.reserveA)) / Number(pool.reserveB) : 0;
+  const valueInA = Number(pool.reserveA) * 2;
+
+  return {
+    volumeA: growth(pool.totalVolumeA, snapshot.volumeA),
+    volumeB: growth(pool.totalVolumeB, snapshot.volumeB),
+    feesA,
+    feesB,
+    durationMs,
+    feeApr: canValue ? (feesInA / valueInA) * (YEAR / durationMs) : null,
+  };
+}
@@ -1,4 +1,7 @@
-interface TokenPrice {
+import { quoteExactInput } from '@/lib/utils/swap-math';
+import { getTokenBySymbol, getTokenByType } from '@/lib/services/token-registry';
+
+export interface TokenPrice {
   symbol: string;
   price: number;
   change24h: number;
@@ -24,19 +27,20 @@ const pendingRequests = new Map<string, Promise<TokenPrice | null>>();
 // CoinGecko API for real prices
 const COINGECKO_API = 'https://api.coingecko.com/api/v3';
 
-// Token ID mapping for CoinGecko - ONLY 3 SUPPORTED TOKENS
-const TOKEN_MAPPINGS: Record<string, string> = {
-  'IOTA': 'iota',
-  'stIOTA': 'iota', // Use IOTA price for stIOTA
-  'vUSD': 'usd-coin', // vUSD is pegged to USD
-};
+// CoinGecko IDs come from the token registry, only curated tokens carry one
+const getCoingeckoId = (symbol: string) => getTokenBySymbol(symbol)?.coingeckoId;
+
+const isSupportedToken = (symbol: string) => !!getTokenBySymbol(symbol);
 
-// Supported tokens only
-const SUPPORTED_TOKENS = ['IOTA', 'stIOTA', 'vUSD'];
+// Prices are keyed by symbol, which any unverified token can copy, so only verified tokens read them
+export function getPriceForType(prices: Record<string, TokenPrice>, coinType: string): number | undefined {
+  const token = getTokenByType(coinType);
+  return token?.verification === 'verified' ? prices[token.symbol]?.price : undefined;
+}
 
 export async function getTokenPrice(symbol: string): Promise<TokenPrice | null> {
-  // Only support our 3 tokens
-  if (!SUPPORTED_TOKENS.includes(symbol)) {
+  // Only tokens in the registry
+  if (!isSupportedToken(symbol)) {
     console.warn(`Unsupported token: ${symbol}`);
     return null;
   }
@@ -72,7 +76,7 @@ export async function getTokenPrice(symbol: string): Promise<TokenPrice | null>
       return fallbackPrices[symbol];
     }
 
-    const coinId = TOKEN_MAPPINGS[symbol];
+    const coinId = getCoingeckoId(symbol);
     if (!coinId) {
       return fallbackPrices[symbol];
     }
@@ -172,7 +176,7 @@ export async function getTokenPrice(symbol: string): Promise<TokenPrice | null>
 
 export async function getMultipleTokenPrices(symbols: string[]): Promise<Record<string, TokenPrice>> {
   // Filter to only supported tokens
-  const validSymbols = symbols.filter(s => SUPPORTED_TOKENS.includes(s));
+  const validSymbols = symbols.filter(isSupportedToken);
   
   if (validSymbols.length === 0) {
     return {};
@@ -224,7 +228,7 @@ export async function getMultipleTokenPrices(symbols: string[]): Promise<Record<
   }
 }
 
-// Calculate swap output amount using real DEX formula
+// Calculate swap output amount using the shared on-chain swap math
 export function calculateSwapOutput(
   inputAmount: number,
   inputPrice: number,
@@ -243,22 +247,10 @@ export function calculateSwapOutput(
   const reserveInBig = BigInt(Math.floor(reserveIn));
   const reserveOutBig = BigInt(Math.floor(reserveOut));
   
-  // Use real DEX formula from smart contract: calculate_output_amount
-  // Fee: 1.8% (18/1000)
-  const FEE_NUMERATOR = 18n;
-  const FEE_DENOMINATOR = 1000n;
-  
-  // Calculate fee and amount after fee
-  const feeAmount = (amountIn * FEE_NUMERATOR) / FEE_DENOMINATOR;
-  const amountInAfterFee = amountIn - feeAmount;
-  
-  // Constant product formula: (amount_in_after_fee * reserve_out) / (reserve_in + amount_in_after_fee)
-  const outputAmountBig = (amountInAfterFee * reserveOutBig) / (reserveInBig + amountInAfterFee);
-  const outputAmount = Number(outputAmountBig) / Math.pow(10, 9);
-  
-  // Calculate real price impact
-  const inputValue = Number(amountIn) / Math.pow(10, 9);
-  const priceImpact = (inputValue / Number(reserveInBig)) * 100;
+  // Same integer math as the on-chain swap
+  const quote = quoteExactInput(amountIn, reserveInBig, reserveOutBig);
+  const outputAmount = Number(quote.amountOut) / Math.pow(10, 9);
+  const priceImpact = quote.priceImpact;
   
   // Calculate minimum received with slippage
   const minimumReceived = outputAmount * (1 - slippage / 100);
@@ -273,8 +265,8 @@ export function calculateSwapOutput(
 
 // Get pool liquidity info from real IOTA blockchain
 export async function getPoolInfo(tokenA: string, tokenB: string) {
-  // Only support our token pairs
-  if (!SUPPORTED_TOKENS.includes(tokenA) || !SUPPORTED_TOKENS.includes(tokenB)) {
+  // Only pairs of registered tokens
+  if (!isSupportedToken(tokenA) || !isSupportedToken(tokenB)) {
     return {
       tvl: 0,
       volume24h: 0,
@@ -0,0 +1,574 @@
+/**
+ * Multi-hop swap routing across the configured simple_dex pools
+ */
+
+'use client';
+
+import { Transaction, TransactionObjectArgument } from '@iota/iota-sdk/transactions';
+import { IOTA_CONFIG, MODULE_NAMES } from '@/config/iota.config';
+import { PoolService, PoolInfo } from '@/lib/services/pool-service';
+import { isSameCoinType } from '@/lib/services/token-registry';
+import { log, measurePerformance } from '@/lib/logging';
+import { PoolError, ErrorCode, createPoolNotFoundError } from '@/lib/errors';
+import { applySlippage, applyMaxSlippage } from '@/lib/utils/swap-math';
+import { getPriceImpactThresholds } from '@/lib/config';
+
+export interface RouteHop {
+  readonly pool: PoolInfo;
+  readonly tokenIn: string;
+  readonly tokenOut: string;
+  readonly isAToB: boolean;
+  readonly amountIn: bigint;
+  readonly amountOut: bigint;
+}
+
+export interface QuoteValidity {
+  readonly issuedAt: number; // Epoch ms the quote was computed at
+  readonly expiresAt: number; // Quotes are not signed past this point
+}
+
+export interface SwapRoute extends QuoteValidity {
+  readonly path: readonly string[]; // Token types from input to output
+  readonly hops: readonly RouteHop[];
+  readonly inputAmount: bigint;
+  readonly outputAmount: bigint;
+  readonly minimumReceived: bigint;
+  readonly priceImpact: number; // Compounded over the hops, fees excluded
+  readonly feePercent: number; // Pool fees compounded over the hops
+}
+
+export interface ExactOutputRoute extends SwapRoute {
+  readonly maximumSold: bigint; // Input bound including slippage
+}
+
+export interface SplitLeg {
+  readonly route: SwapRoute;
+  readonly percentage: number; // Share of the input sent down this route
+}
+
+export interface SplitRoute extends QuoteValidity {
+  readonly legs: readonly SplitLeg[];
+  readonly inputAmount: bigint;
+  readonly outputAmount: bigint;
+  readonly minimumReceived: bigint;
+  readonly priceImpact: number;
+  readonly feePercent: number;
+}
+
+interface PathStep {
+  readonly pool: PoolInfo;
+  readonly tokenIn: string;
+  readonly tokenOut: string;
+}
+
+interface QuotedPath {
+  readonly hops: RouteHop[];
+  readonly outputAmount: bigint;
+  readonly priceImpact: number;
+  readonly feePercent: number;
+}
+
+// Quotes live as long as the configured transaction deadline
+export const QUOTE_TTL_MS = IOTA_CONFIG.defaults.deadline * 60 * 1000;
+
+export const createQuoteValidity = (issuedAt: number = Date.now()): QuoteValidity => ({
+  issuedAt,
+  expiresAt: issuedAt + QUOTE_TTL_MS,
+});
+
+export const isQuoteExpired = (quote: Pick<QuoteValidity, 'expiresAt'>, now: number = Date.now()): boolean =>
+  now >= quote.expiresAt;
+
+// Command index of each transaction's minimum-out guard split, so its failure can be told apart
+// from a short input split
+const minimumOutCommands = new WeakMap<Transaction, number>();
+
+export const getMinimumOutCommand = (tx: Transaction): number | undefined => minimumOutCommands.get(tx);
+
+const DEFAULT_MAX_HOPS = 2;
+const SPLIT_STEPS = 20; // Input is allocated in 5% chunks
+const MAX_SPLIT_LEGS = 3;
+
+// Depth-first enumeration of simple paths, a pool or token is never visited twice
+const enumeratePaths = (
+  pools: readonly PoolInfo[],
+  tokenIn: string,
+  tokenOut: string,
+  maxHops: number
+): PathStep[][] => {
+  const paths: PathStep[][] = [];
+
+  // Coin types compare by their normalized form, so short and long addresses meet
+  const visit = (current: string, steps: PathStep[], visitedTokens: readonly string[]) => {
+    if (steps.length >= maxHops) return;
+
+    for (const pool of pools) {
+      if (steps.some(step => step.pool.poolId === pool.poolId)) continue;
+
+      const next = isSameCoinType(pool.coinTypeA, current) ? pool.coinTypeB
+        : isSameCoinType(pool.coinTypeB, current) ? pool.coinTypeA
+        : null;
+      if (!next || visitedTokens.some(token => isSameCoinType(token, next))) continue;
+
+      const path = [...steps, { pool, tokenIn: current, tokenOut: next }];
+      if (isSameCoinType(next, tokenOut)) {
+        paths.push(path);
+      } else {
+        visit(next, path, [...visitedTokens, next]);
+      }
+    }
+  };
+
+  visit(tokenIn, [], [tokenIn]);
+  return paths;
+};
+
+const toRoute = (
+  tokenIn: string,
+  inputAmount: bigint,
+  quoted: QuotedPath,
+  slippageTolerance: number,
+  validity: QuoteValidity
+): SwapRoute => ({
+  ...validity,
+  path: [tokenIn, ...quoted.hops.map(hop => hop.tokenOut)],
+  hops: quoted.hops,
+  inputAmount,
+  outputAmount: quoted.outputAmount,
+  minimumReceived: applySlippage(quoted.outputAmount, slippageTolerance),
+  priceImpact: quoted.priceImpact,
+  feePercent: quoted.feePercent,
+});
+
+export class SwapRouter {
+  private static instance: SwapRouter | null = null;
+  private readonly packageId: string;
+
+  private constructor() {
+    this.packageId = IOTA_CONFIG.packages.upgraded;
+
+    if (!this.packageId || this.packageId === '0x0') {
+      throw new Error('Core package ID not configured. Please deploy contracts first.');
+    }
+  }
+
+  static getInstance(): SwapRouter {
+    if (!SwapRouter.instance) {
+      SwapRouter.instance = new SwapRouter();
+    }
+    return SwapRouter.instance;
+  }
+
+  // ==================== QUOTING ====================
+
+  private async getLiquidPools(): Promise<PoolInfo[]> {
+    return (await PoolService.getAllPools()).filter(pool => pool.reserveA > 0n && pool.reserveB > 0n);
+  }
+
+  /**
+   * Quote a path hop by hop. Each hop goes through PoolService.calculateSwapQuote so the
+   * same fee math and price impact limit apply as for a direct swap; returns null when any
+   * hop is not executable.
+   */
+  private quotePath(steps: readonly PathStep[], inputAmount: bigint): QuotedPath | null {
+    const poolService = PoolService.getInstance();
+    const hops: RouteHop[] = [];
+    let amountIn = inputAmount;
+    let retained = 1;
+    let afterFees = 1;
+
+    for (const step of steps) {
+      const isAToB = isSameCoinType(step.pool.coinTypeA, step.tokenIn);
+
+      try {
+        const quote = poolService.calculateSwapQuote(step.pool, amountIn, isAToB, 0);
+        hops.push({ ...step, isAToB, amountIn, amountOut: quote.outputAmount });
+        retained *= 1 - quote.priceImpact / 100;
+        afterFees *= 1 - quote.feePercent / 100;
+        amountIn = quote.outputAmount;
+      } catch (error) {
+        log.debug('Route hop not executable', {
+          poolId: step.pool.poolId,
+          amountIn: amountIn.toString(),
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    }
+
+    // Hops can each stay under the limit while the whole path does not
+    const priceImpact = (1 - retained) * 100;
+    if (priceImpact > getPriceImpactThresholds().max) {
+      log.debug('Route exceeds the price impact limit', { priceImpact });
+      return null;
+    }
+
+    return { hops, outputAmount: amountIn, priceImpact, feePercent: (1 - afterFees) * 100 };
+  }
+
+  /**
+   * Enumerate every path between two tokens over the known pools and quote each one,
+   * best output first.
+   */
+  async getRoutes(
+    tokenIn: string,
+    tokenOut: string,
+    inputAmount: bigint,
+    slippageTolerance: number = IOTA_CONFIG.defaults.slippage,
+    maxHops: number = DEFAULT_MAX_HOPS
+  ): Promise<SwapRoute[]> {
+    const timer = measurePerformance('SwapRouter.getRoutes');
+
+    try {
+      if (inputAmount <= 0n) {
+        throw new Error('Input amount must be greater than zero');
+      }
+
+      const pools = await this.getLiquidPools();
+      const validity = createQuoteValidity();
+
+      const routes: SwapRoute[] = [];
+      for (const steps of enumeratePaths(pools, tokenIn, tokenOut, maxHops)) {
+        const quoted = this.quotePath(steps, inputAmount);
+        if (quoted) {
+          routes.push(toRoute(tokenIn, inputAmount, quoted, slippageTolerance, validity));
+        }
+      }
+
+      routes.sort((a, b) => (a.outputAmount === b.outputAmount ? 0 : a.outputAmount > b.outputAmount ? -1 : 1));
+
+      log.debug('Swap routes quoted', {
+        tokenIn,
+        tokenOut,
+        inputAmount: inputAmount.toString(),
+        routes: routes.length,
+      });
+
+      return routes;
+    } finally {
+      timer.end();
+    }
+  }
+
+  async getBestRoute(
+    tokenIn: string,
+    tokenOut: string,
+    inputAmount: bigint,
+    slippageTolerance?: number
+  ): Promise<SwapRoute> {
+    const [bestRoute] = await this.getRoutes(tokenIn, tokenOut, inputAmount, slippageTolerance);
+
+    if (!bestRoute) {
+      throw createPoolNotFoundError(tokenIn, tokenOut);
+    }
+
+    return bestRoute;
+  }
+
+  // Walk a path backwards from the desired output to the input it requires
+  private quotePathInput(steps: readonly PathStep[], outputAmount: bigint): bigint | null {
+    const poolService = PoolService.getInstance();
+    let amountOut = outputAmount;
+
+    for (const step of [...steps].reverse()) {
+      const isAToB = isSameCoinType(step.pool.coinTypeA, step.tokenIn);
+
+      try {
+        amountOut = poolService.calculateExactOutputQuote(step.pool, amountOut, isAToB, 0).inputAmount;
+      } catch (error) {
+        log.debug('Route hop not executable', {
+          poolId: step.pool.poolId,
+          amountOut: amountOut.toString(),
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        return null;
+      }
+    }
+
+    return amountOut;
+  }
+
+  /**
+   * Cheapest route that delivers at least `outputAmount`. The required input is derived hop
+   * by hop with the inverse formula, then re-quoted forwards so the hops hold the amounts the
+   * chain will actually see. `minimumReceived` is the requested output.
+   */
+  async getExactOutputRoute(
+    tokenIn: string,
+    tokenOut: string,
+    outputAmount: bigint,
+    slippageTolerance: number = IOTA_CONFIG.defaults.slippage,
+    maxHops: number = DEFAULT_MAX_HOPS
+  ): Promise<ExactOutputRoute> {
+    const timer = measurePerformance('SwapRouter.getExactOutputRoute');
+
+    try {
+      if (outputAmount <= 0n) {
+        throw new Error('Output amount must be greater than zero');
+      }
+
+      const pools = await this.getLiquidPools();
+      const validity = createQuoteValidity();
+
+      let best: ExactOutputRoute | null = null;
+      for (const steps of enumeratePaths(pools, tokenIn, tokenOut, maxHops)) {
+        const inputAmount = this.quotePathInput(steps, outputAmount);
+        if (inputAmount === null || (best && inputAmount >= best.inputAmount)) continue;
+
+        const quoted = this.quotePath(steps, inputAmount);
+        if (!quoted || quoted.outputAmount < outputAmount) continue;
+
+        best = {
+          ...toRoute(tokenIn, inputAmount, quoted, slippageTolerance, validity),
+          minimumReceived: outputAmount,
+          maximumSold: applyMaxSlippage(inputAmount, slippageTolerance),
+        };
+      }
+
+      if (!best) {
+        throw createPoolNotFoundError(tokenIn, tokenOut);
+      }
+
+      log.debug('Exact output route quoted', {
+        tokenIn,
+        tokenOut,
+        outputAmount: outputAmount.toString(),
+        inputAmount: best.inputAmount.toString(),
+      });
+
+      return best;
+    } finally {
+      timer.end();
+    }
+  }
+
+  // ==================== SPLIT ROUTING ====================
+
+  /**
+   * Divide one trade across pool-disjoint paths (typically the direct pool and a two-hop
+   * path) to maximize total output. The input is handed out chunk by chunk to whichever
+   * path adds the most output for it; with constant-product pools the marginal output of a
+   * path only decreases, so this greedy allocation is optimal at the chunk granularity.
+   * Trades past the price impact limit on any single path can still fill across several.
+   */
+  async getSplitRoute(
+    tokenIn: string,
+    tokenOut: string,
+    inputAmount: bigint,
+    slippageTolerance: number = IOTA_CONFIG.defaults.slippage,
+    maxHops: number = DEFAULT_MAX_HOPS
+  ): Promise<SplitRoute> {
+    const timer = measurePerformance('SwapRouter.getSplitRoute');
+
+    try {
+      if (inputAmount <= 0n) {
+        throw new Error('Input amount must be greater than zero');
+      }
+
+      const pools = await this.getLiquidPools();
+      const validity = createQuoteValidity();
+      const paths = enumeratePaths(pools, tokenIn, tokenOut, maxHops);
+      if (paths.length === 0) {
+        throw createPoolNotFoundError(tokenIn, tokenOut);
+      }
+
+      // Rank paths by what they return for a single chunk, then keep the best pool-disjoint ones
+      const probeAmount = inputAmount / BigInt(SPLIT_STEPS) || inputAmount;
+      const ranked = paths
+        .map(steps => ({ steps, probe: this.quotePath(steps, probeAmount) }))
+        .filter((entry): entry is { steps: PathStep[]; probe: QuotedPath } => entry.probe !== null)
+        .sort((a, b) => (a.probe.outputAmount === b.probe.outputAmount ? 0 : a.probe.outputAmount > b.probe.outputAmount ? -1 : 1));
+
+      const usedPools = new Set<string>();
+      const legs: { steps: PathStep[]; amountIn: bigint; quoted: QuotedPath | null }[] = [];
+      for (const { steps } of ranked) {
+        if (legs.length >= MAX_SPLIT_LEGS) break;
+        if (steps.some(step => usedPools.has(step.pool.poolId))) continue;
+        steps.forEach(step => usedPools.add(step.pool.poolId));
+        legs.push({ steps, amountIn: 0n, quoted: null });
+      }
+
+      for (let step = 0; step < SPLIT_STEPS; step++) {
+        const chunk =
+          (inputAmount * BigInt(step + 1)) / BigInt(SPLIT_STEPS) - (inputAmount * BigInt(step)) / BigInt(SPLIT_STEPS);
+        if (chunk === 0n) continue;
+
+        let best: { leg: (typeof legs)[number]; quoted: QuotedPath; gain: bigint } | null = null;
+        for (const leg of legs) {
+          const quoted = this.quotePath(leg.steps, leg.amountIn + chunk);
+          if (!quoted) continue;
+
+          const gain = quoted.outputAmount - (leg.quoted?.outputAmount ?? 0n);
+          if (!best || gain > best.gain) {
+            best = { leg, quoted, gain };
+          }
+        }
+
+        if (!best) {
+          throw new PoolError(
+            ErrorCode.INSUFFICIENT_LIQUIDITY,
+            'Not enough liquidity across available routes for this trade size',
+            { tokenIn, tokenOut, inputAmount: inputAmount.toString() }
+          );
+        }
+
+        best.leg.amountIn += chunk;
+        best.leg.quoted = best.quoted;
+      }
+
+      const splitLegs: SplitLeg[] = [];
+      for (const leg of legs) {
+        if (!leg.quoted || leg.amountIn === 0n) continue;
+        splitLegs.push({
+          route: toRoute(tokenIn, leg.amountIn, leg.quoted, slippageTolerance, validity),
+          percentage: Number((leg.amountIn * 10000n) / inputAmount) / 100,
+        });
+      }
+      splitLegs.sort((a, b) => b.percentage - a.percentage);
+
+      const outputAmount = splitLegs.reduce((sum, leg) => sum + leg.route.outputAmount, 0n);
+      const priceImpact = splitLegs.reduce((sum, leg) => sum + (leg.route.priceImpact * leg.percentage) / 100, 0);
+      const feePercent = splitLegs.reduce((sum, leg) => sum + (leg.route.feePercent * leg.percentage) / 100, 0);
+
+      log.debug('Split route quoted', {
+        tokenIn,
+        tokenOut,
+        inputAmount: inputAmount.toString(),
+        legs: splitLegs.map(leg => `${leg.percentage}%:${leg.route.path.length - 1} hop(s)`),
+      });
+
+      return {
+        ...validity,
+        legs: splitLegs,
+        inputAmount,
+        outputAmount,
+        minimumReceived: applySlippage(outputAmount, slippageTolerance),
+        priceImpact,
+        feePercent,
+      };
+    } finally {
+      timer.end();
+    }
+  }
+
+  // ==================== TRANSACTION BUILDING ====================
+
+  // Chain the coin-returning `_internal` swap calls along the hops, returning the output coin
+  private appendHops(
+    tx: Transaction,
+    hops: readonly RouteHop[],
+    coinIn: TransactionObjectArgument
+  ): TransactionObjectArgument {
+    let coin = coinIn;
+    for (const hop of hops) {
+      coin = tx.moveCall({
+        target: `${this.packageId}::${MODULE_NAMES.DEX}::swap_${hop.isAToB ? 'a_to_b' : 'b_to_a'}_internal`,
+        typeArguments: [hop.pool.coinTypeA, hop.pool.coinTypeB],
+        arguments: [tx.object(hop.pool.poolId), coin],
+      });
+    }
+    return coin;
+  }
+
+  // Splitting `minimumReceived` off the output aborts the whole transaction if it falls short
+  private appendMinimumOutCheck(
+    tx: Transaction,
+    coin: TransactionObjectArgument,
+    minimumReceived: bigint,
+    recipient: string
+  ): void {
+    minimumOutCommands.set(tx, tx.getData().commands.length);
+    const minimumOut = tx.splitCoins(coin, [minimumReceived])[0]!;
+    tx.mergeCoins(coin, [minimumOut]);
+    tx.transferObjects([coin], recipient);
+  }
+
+  /**
+   * Append the swap calls for a route to a transaction, consuming `coinIn`.
+   *
+   * Routes of any length chain the coin-returning `_internal` swaps and finish with an
+   * end-to-end minimum-out check: splitting `minimumReceived` off the final coin aborts the
+   * whole transaction if the route delivered less. The `swap_a_to_b`/`swap_b_to_a` entry
+   * functions take no minimum, so even direct routes don't use them.
+   */
+  appendRouteToTransaction(
+    tx: Transaction,
+    route: SwapRoute,
+    coinIn: TransactionObjectArgument,
+    recipient: string
+  ): void {
+    if (route.hops.length === 0) {
+      throw new PoolError(ErrorCode.POOL_NOT_FOUND, 'Route has no hops');
+    }
+
+    const coin = this.appendHops(tx, route.hops, coinIn);
+    this.appendMinimumOutCheck(tx, coin, route.minimumReceived, recipient);
+  }
+
+  /**
+   * Append a split route, consuming `coinIn` which must hold exactly `split.inputAmount`.
+   * Each leg but the last gets its exact share split off, the last leg consumes the rest;
+   * leg outputs are merged and checked against the combined `minimumReceived`.
+   */
+  appendSplitRouteToTransaction(
+    tx: Transaction,
+    split: SplitRoute,
+    coinIn: TransactionObjectArgument,
+    recipient: string
+  ): void {
+    const [firstLeg, ...otherLegs] = split.legs;
+    if (!firstLeg) {
+      throw new PoolError(ErrorCode.POOL_NOT_FOUND, 'Split route has no legs');
+    }
+
+    if (otherLegs.length === 0) {
+      this.appendRouteToTransaction(tx, firstLeg.route, coinIn, recipient);
+      return;
+    }
+
+    const legCoins = tx.splitCoins(coinIn, otherLegs.map(leg => leg.route.inputAmount));
+    const output = this.appendHops(tx, firstLeg.route.hops, coinIn);
+    const otherOutputs = otherLegs.map((leg, index) => this.appendHops(tx, leg.route.hops, legCoins[index]!));
+
+    tx.mergeCoins(output, otherOutputs);
+    this.appendMinimumOutCheck(tx, output, split.minimumReceived, recipient);
+  }
+
+  // ==================== STATIC CONVENIENCE METHODS ====================
+
+  static async getRoutes(
+    tokenIn: string,
+    tokenOut: string,
+    inputAmount: bigint,
+    slippageTolerance?: number
+  ): Promise<SwapRoute[]> {
+    return SwapRouter.getInstance().getRoutes(tokenIn, tokenOut, inputAmount, slippageTolerance);
+  }
+
+  static async getBestRoute(
+    tokenIn: string,
+    tokenOut: string,
+    inputAmount: bigint,
+    slippageTolerance?: number
+  ): Promise<SwapRoute> {
+    return SwapRouter.getInstance().getBestRoute(tokenIn, tokenOut, inputAmount, slippageTolerance);
+  }
+
+  static async getSplitRoute(
+    tokenIn: string,
+    tokenOut: string,
+    inputAmount: bigint,
+    slippageTolerance?: number
+  ): Promise<SplitRoute> {
+    return SwapRouter.getInstance().getSplitRoute(tokenIn, tokenOut, inputAmount, slippageTolerance);
+  }
+
+  static async getExactOutputRoute(
+    tokenIn: string,
+    tokenOut: string,
+    outputAmount: bigint,
+    slippageTolerance?: number
+  ): Promise<ExactOutputRoute> {
+    return SwapRouter.getInstance().getExactOutputRoute(tokenIn, tokenOut, outputAmount, slippageTolerance);
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Token registry: the curated tokens from the config, merged with tokens found on chain through
+ * coin metadata and discovered pools
+ */
+
+'use client';
+
+import { normalizeStructTag } from '@iota/iota-sdk/utils';
+import { SUPPORTED_COINS } from '@/config/iota.config';
+import { getCoinMetadata } from '@/lib/services/coin-metadata';
+import { PoolDiscoveryService } from '@/lib/services/pool-discovery';
+import { log, measurePerformance } from '@/lib/logging';
+
+// Curated tokens are verified; anything found on chain is shown with a warning
+export type TokenVerification = 'verified' | 'unverified';
+
+export type TokenSource = 'curated' | 'metadata' | 'pool';
+
+export interface TokenInfo {
+  type: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  iconUrl?: string;
+  coingeckoId?: string; // Only curated tokens are priced
+  verification: TokenVerification;
+  source: TokenSource;
+}
+
+// Registry key for a coin type, or null when the string is not a struct tag
+const toKey = (type: string): string | null => {
+  try {
+    return normalizeStructTag(type);
+  } catch {
+    return null;
+  }
+};
+
+// Whether two type strings name the same coin, e.g. `0x2::iota::IOTA` and its long form
+export const isSameCoinType = (a: string, b: string): boolean => {
+  const keyA = toKey(a);
+  return keyA !== null && keyA === toKey(b);
+};
+
+export class TokenRegistry {
+  private static instance: TokenRegistry | null = null;
+  private readonly tokens = new Map<string, TokenInfo>(); // By normalized type
+  private readonly listeners = new Set<() => void>();
+  private refreshing: Promise<TokenInfo[]> | null = null;
+
+  private constructor() {
+    for (const coin of Object.values(SUPPORTED_COINS)) {
+      this.add({ ...coin, verification: 'verified', source: 'curated' });
+    }
+  }
+
+  static getInstance(): TokenRegistry {
+    if (!TokenRegistry.instance) {
+      TokenRegistry.instance = new TokenRegistry();
+    }
+    return TokenRegistry.instance;
+  }
+
+  getToken(type: string): TokenInfo | undefined {
+    const key = toKey(type);
+    return key ? this.tokens.get(key) : undefined;
+  }
+
+  // Symbols are not unique on chain, a verified token wins over an unverified namesake
+  getTokenBySymbol(symbol: string): TokenInfo | undefined {
+    const matches = this.getTokens().filter(token => token.symbol === symbol);
+    return matches.find(token => token.verification === 'verified') ?? matches[0];
+  }
+
+  // Verified tokens first, in config order, then the rest by symbol
+  getTokens(): TokenInfo[] {
+    const tokens = [...this.tokens.values()];
+    return [
+      ...tokens.filter(token => token.verification === 'verified'),
+      ...tokens
+        .filter(token => token.verification !== 'verified')
+        .sort((a, b) => a.symbol.localeCompare(b.symbol)),
+    ];
+  }
+
+  /**
+   * Look up a coin type, reading its on-chain metadata the first time it is seen. Returns null
+   * when the type is malformed or has no metadata.
+   */
+  async loadToken(type: string, source: TokenSource = 'metadata'): Promise<TokenInfo | null> {
+    const known = this.getToken(type);
+    if (known) return known;
+    if (!toKey(type)) return null;
+
+    const metadata = await getCoinMetadata(type);
+    if (!metadata) {
+      log.warn('No coin metadata for token', { type });
+      return null;
+    }
+
+    const token: TokenInfo = {
+      type,
+      symbol: metadata.symbol,
+      name: metadata.name,
+      decimals: metadata.decimals,
+      ...(metadata.iconUrl && { iconUrl: metadata.iconUrl }),
+      verification: 'unverified',
+      source,
+    };
+    this.add(token);
+    this.notify();
+    return token;
+  }
+
+  /**
+   * Add the tokens of every discovered pool. Concurrent callers share one refresh.
+   */
+  async refresh(): Promise<TokenInfo[]> {
+    if (!this.refreshing) {
+      this.refreshing = this.loadPoolTokens().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // Called whenever a token is added, returns the unsubscribe function
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async loadPoolTokens(): Promise<TokenInfo[]> {
+    const timer = measurePerformance('TokenRegistry.refresh');
+
+    try {
+      const pools = await PoolDiscoveryService.discoverPools();
+      const types = new Set(pools.flatMap(pool => [pool.coinTypeA, pool.coinTypeB]));
+
+      await Promise.all([...types].map(type => this.loadToken(type, 'pool')));
+
+      log.info('Token registry refreshed', { count: this.tokens.size });
+      return this.getTokens();
+    } catch (error) {
+      log.warn('Token registry refresh failed', { error: error instanceof Error ? error.message : String(error) });
+      return this.getTokens();
+    } finally {
+      timer.end();
+    }
+  }
+
+  private add(token: TokenInfo): void {
+    const key = toKey(token.type);
+    if (key && !this.tokens.has(key)) {
+      this.tokens.set(key, token);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+
+  // Static convenience methods
+  static getTokens(): TokenInfo[] {
+    return TokenRegistry.getInstance().getTokens();
+  }
+
+  static async loadToken(type: string): Promise<TokenInfo | null> {
+    return TokenRegistry.getInstance().loadToken(type);
+  }
+
+  static async refresh(): Promise<TokenInfo[]> {
+    return TokenRegistry.getInstance().refresh();
+  }
+
+  static subscribe(listener: () => void): () => void {
+    return TokenRegistry.getInstance().subscribe(listener);
+  }
+}
+
+export const getTokenByType = (type: string): TokenInfo | undefined => {
+  return TokenRegistry.getInstance().getToken(type);
+};
+
+export const getTokenBySymbol = (symbol: string): TokenInfo | undefined => {
+  return TokenRegistry.getInstance().getTokenBySymbol(symbol);
+};
@@ -4,119 +4,11 @@
 
 import React, { ReactElement } from 'react';
 import { render, RenderOptions } from '@testing-library/react';
-import { NextRequest } from 'next/server';
 import { AppError, ErrorCode } from '@/lib/errors';
 
-// Mock data generators
-export const mockTokens = {
-  IOTA: {
-    symbol: 'IOTA',
-    name: 'IOTA',
-    type: '0x2::iota::IOTA',
-    decimals: 9,
-    iconUrl: '/icons/iota.png',
-  },
-  stIOTA: {
-    symbol: 'stIOTA',
-    name: 'Staked IOTA',
-    type: '0x2::stiota::STIOTA',
-    decimals: 9,
-    iconUrl: '/icons/stiota.png',
-  },
-  vUSD: {
-    symbol: 'vUSD',
-    name: 'Virtual USD',
-    type: '0x2::vusd::VUSD',
-    decimals: 6,
-    iconUrl: '/icons/vusd.png',
-  },
-};
-
-export const mockPools = {
-  'IOTA-stIOTA': {
-    id: '0x1111111111111111111111111111111111111111111111111111111111111111',
-    coinTypeA: mockTokens.IOTA.type,
-    coinTypeB: mockTokens.stIOTA.type,
-    feeRate: 18, // 1.8%
-  },
-  'IOTA-vUSD': {
-    id: '0x2222222222222222222222222222222222222222222222222222222222222222',
-    coinTypeA: mockTokens.IOTA.type,
-    coinTypeB: mockTokens.vUSD.type,
-    feeRate: 18,
-  },
-};
-
-export const mockPrices = {
-  IOTA: {
-    symbol: 'IOTA',
-    price: 0.2847,
-    change24h: 2.34,
-    volume24h: 15234567,
-    marketCap: 897654321,
-  },
-  stIOTA: {
-    symbol: 'stIOTA',
-    price: 0.2847,
-    change24h: 2.34,
-    volume24h: 15234567,
-    marketCap: 897654321,
-  },
-  vUSD: {
-    symbol: 'vUSD',
-    price: 1.0,
-    change24h: 0,
-    volume24h: 1234567890,
-    marketCap: 25678901234,
-  },
-};
+import { mockTokens, mockPrices } from '@/lib/testing/api-test-utils';
 
-export const mockPoolReserves = {
-  reserveA: BigInt('1000000000000000'), // 1,000,000 IOTA
-  reserveB: BigInt('990000000000000'),  // 990,000 stIOTA
-  lpSupply: BigInt('995000000000000'),
-  feeData: '0',
-  volumeData: '0',
-};
-
-// API testing utilities
-export const createMockRequest = (
-  method: 'GET' | 'POST' | 'PUT' | 'DELETE',
-  body?: any,
-  headers?: Record<string, string>
-): NextRequest => {
-  const url = 'http://localhost:3000/api/test';
-  const requestInit: RequestInit = {
-    method,
-    headers: {
-      'Content-Type': 'application/json',
-      ...headers,
-    },
-  };
-
-  if (body && method !== 'GET') {
-    requestInit.body = JSON.stringify(body);
-  }
-
-  return new NextRequest(url, requestInit);
-};
-
-export const expectApiResponse = (response: Response) => ({
-  toHaveStatus: (status: number) => {
-    expect(response.status).toBe(status);
-  },
-  
-  toHaveSuccessfulResponse: () => {
-    expect(response.status).toBe(200);
-  },
-  
-  toHaveErrorResponse: (errorCode?: ErrorCode) => {
-    expect(response.status).toBeGreaterThanOrEqual(400);
-    if (errorCode) {
-      // Would need to parse response body to check error code
-    }
-  },
-});
+export * from '@/lib/testing/api-test-utils';
 
 // Component testing utilities
 interface CustomRenderOptions extends Omit<RenderOptions, 'queries'> {
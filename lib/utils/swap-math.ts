@@ -0,0 +1,258 @@
+import { PoolError, ErrorCode } from '@/lib/errors';
+import { getPriceImpactThresholds, PriceImpactThresholds } from '@/lib/config';
+
+// Constant product quoting that reproduces simple_dex's integer math exactly. Every
+// client-side quote (pool service, router, price feed, hooks) goes through here.
+
+export const FEE_NUMERATOR = 18n; // simple_dex::FEE_NUMERATOR, 1.8%
+export const FEE_DENOMINATOR = 1000n; // simple_dex::FEE_DENOMINATOR
+
+const U64_MAX = 0xFFFFFFFFFFFFFFFFn;
+
+export interface AmmQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint; // Charged on the input, in input token units
+  feePercent: number; // feeAmount as a percent of amountIn
+  priceImpact: number; // Percent, execution price against spot price, excluding the fee
+}
+
+export type PriceImpactLevel = 'low' | 'warning' | 'confirm' | 'blocked';
+
+const assertU64 = (value: bigint, name: string) => {
+  if (value < 0n || value > U64_MAX) {
+    throw new RangeError(`${name} does not fit in a u64: ${value}`);
+  }
+};
+
+// fee_amount = amount_in * FEE_NUMERATOR / FEE_DENOMINATOR, rounded down
+export function getFeeAmount(amountIn: bigint, feeNumerator: bigint = FEE_NUMERATOR): bigint {
+  return (amountIn * feeNumerator) / FEE_DENOMINATOR;
+}
+
+/**
+ * Output of swapping `amountIn`, as swap_a_to_b_internal / swap_b_to_a_internal compute it:
+ * the fee is taken off the input first, then out = in_after_fee * reserve_out / (reserve_in + in_after_fee).
+ */
+export function getAmountOut(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: bigint = FEE_NUMERATOR
+): bigint {
+  assertU64(amountIn, 'amountIn');
+  assertU64(reserveIn, 'reserveIn');
+  assertU64(reserveOut, 'reserveOut');
+
+  const amountInAfterFee = amountIn - getFeeAmount(amountIn, feeNumerator);
+  // Aborts on chain when the new reserve overflows
+  assertU64(reserveIn + amountInAfterFee, 'reserveIn + amountIn');
+
+  return (amountInAfterFee * reserveOut) / (reserveIn + amountInAfterFee);
+}
+
+/**
+ * Smallest input for which getAmountOut returns at least `amountOut`. Starts from Move
+ * math::get_amount_in and walks down, since that formula rounds the fee differently and can
+ * overshoot by a unit or two.
+ */
+export function getAmountIn(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: bigint = FEE_NUMERATOR
+): bigint {
+  if (amountOut >= reserveOut) {
+    throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Output amount exceeds pool reserves');
+  }
+
+  const numerator = reserveIn * amountOut * FEE_DENOMINATOR;
+  const denominator = (reserveOut - amountOut) * (FEE_DENOMINATOR - feeNumerator);
+  let amountIn = numerator / denominator + 1n;
+
+  while (amountIn > 1n && getAmountOut(amountIn - 1n, reserveIn, reserveOut, feeNumerator) >= amountOut) {
+    amountIn -= 1n;
+  }
+  while (getAmountOut(amountIn, reserveIn, reserveOut, feeNumerator) < amountOut) {
+    amountIn += 1n;
+  }
+
+  return amountIn;
+}
+
+/**
+ * How far the execution price falls short of the pool's spot price, in percent. The fee is
+ * left out so it can be shown on its own: only the reserve curve counts as impact.
+ */
+export function getPriceImpact(
+  amountIn: bigint,
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: bigint = FEE_NUMERATOR
+): number {
+  const amountInAfterFee = amountIn - getFeeAmount(amountIn, feeNumerator);
+  if (amountInAfterFee <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0;
+
+  // out / in_after_fee against reserve_out / reserve_in, in parts per million
+  const PRECISION = 1000000n;
+  const ratio = (amountOut * reserveIn * PRECISION) / (amountInAfterFee * reserveOut);
+  return Math.max(0, (1 - Number(ratio) / Number(PRECISION)) * 100);
+}
+
+const getFeePercent = (amountIn: bigint, feeAmount: bigint) =>
+  amountIn > 0n ? (Number(feeAmount) / Number(amountIn)) * 100 : 0;
+
+export function quoteExactInput(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: bigint = FEE_NUMERATOR
+): AmmQuote {
+  const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, feeNumerator);
+  const feeAmount = getFeeAmount(amountIn, feeNumerator);
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    feePercent: getFeePercent(amountIn, feeAmount),
+    priceImpact: getPriceImpact(amountIn, amountOut, reserveIn, reserveOut, feeNumerator),
+  };
+}
+
+export function quoteExactOutput(
+  amountOut: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeNumerator: bigint = FEE_NUMERATOR
+): AmmQuote {
+  const amountIn = getAmountIn(amountOut, reserveIn, reserveOut, feeNumerator);
+  const feeAmount = getFeeAmount(amountIn, feeNumerator);
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    feePercent: getFeePercent(amountIn, feeAmount),
+    priceImpact: getPriceImpact(amountIn, amountOut, reserveIn, reserveOut, feeNumerator),
+  };
+}
+
+// Lowest output accepted at `slippageTolerance` percent
+export function applySlippage(amount: bigint, slippageTolerance: number): bigint {
+  const slippageMultiplier = BigInt(Math.floor((100 - slippageTolerance) * 100));
+  return (amount * slippageMultiplier) / 10000n;
+}
+
+// Highest input accepted at `slippageTolerance` percent
+export function applyMaxSlippage(amount: bigint, slippageTolerance: number): bigint {
+  const slippageMultiplier = BigInt(Math.floor((100 + slippageTolerance) * 100));
+  return (amount * slippageMultiplier) / 10000n;
+}
+
+// Which warning tier a price impact falls in under the configured thresholds
+export function getPriceImpactLevel(
+  priceImpact: number,
+  thresholds: PriceImpactThresholds = getPriceImpactThresholds()
+): PriceImpactLevel {
+  if (priceImpact > thresholds.max) return 'blocked';
+  if (priceImpact > thresholds.confirm) return 'confirm';
+  if (priceImpact > thresholds.warning) return 'warning';
+  return 'low';
+}
+
+/**
+ * Deposit of the other token that matches `amount` at the current reserve ratio. Rounded up, so
+ * add_liquidity mints LP from the side that was typed: min(a * supply / reserve_a, b * supply / reserve_b).
+ */
+export function getPairedLiquidityAmount(amount: bigint, reserveIn: bigint, reserveOut: bigint): bigint {
+  if (reserveIn === 0n || reserveOut === 0n) {
+    throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Pool has no reserves');
+  }
+  return (amount * reserveOut + reserveIn - 1n) / reserveIn;
+}
+
+/**
+ * create_pool mints sqrt(safe_mul_div(amount_a, amount_b, 1)) LP for the first deposit, which aborts
+ * with E_INSUFFICIENT_OUTPUT_AMOUNT once the product of the two amounts leaves u64.
+ */
+export function fitsInitialDeposit(amountA: bigint, amountB: bigint): boolean {
+  return amountA * amountB <= U64_MAX;
+}
+
+export interface ZapInQuote {
+  swapAmount: bigint; // Input swapped for the other token
+  swapOutput: bigint;
+  lpAmount: bigint; // LP minted by add_liquidity_internal, dust aside
+}
+
+export interface ZapOutQuote {
+  amountOut: bigint; // The target side of the withdrawal plus the other side swapped into it
+  swapAmount: bigint; // The other side of the withdrawal, swapped
+  swapOutput: bigint;
+}
+
+// Integer square root rounded down, exact at any size, as simple_dex::sqrt computes it
+export const sqrt = (n: bigint): bigint => {
+  if (n < 2n) return n;
+  let x = n;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + n / x) / 2n;
+  }
+  return x;
+};
+
+/**
+ * Part of a single-token deposit to swap first, so that the rest and the swap output match the
+ * pool ratio after the swap. The swap adds the whole input, fee included, to the reserve, which
+ * gives s = (sqrt(r² (2 - f)² + 4 (1 - f) r x) - r (2 - f)) / (2 (1 - f)) for fee rate f.
+ */
+export function getZapSwapAmount(amountIn: bigint, reserveIn: bigint, feeNumerator: bigint = FEE_NUMERATOR): bigint {
+  const twoMinusFee = 2n * FEE_DENOMINATOR - feeNumerator;
+  const oneMinusFee = FEE_DENOMINATOR - feeNumerator;
+  const root = sqrt(reserveIn * reserveIn * twoMinusFee * twoMinusFee + 4n * oneMinusFee * FEE_DENOMINATOR * reserveIn * amountIn);
+  return (root - reserveIn * twoMinusFee) / (2n * oneMinusFee);
+}
+
+// Swap part of `amountIn` for the other token, then deposit both into a pool with liquidity
+export function quoteZapIn(
+  amountIn: bigint,
+  reserveIn: bigint,
+  reserveOut: bigint,
+  lpSupply: bigint,
+  feeNumerator: bigint = FEE_NUMERATOR
+): ZapInQuote {
+  if (reserveIn === 0n || reserveOut === 0n || lpSupply === 0n) {
+    throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Pool has no reserves');
+  }
+
+  const swapAmount = getZapSwapAmount(amountIn, reserveIn, feeNumerator);
+  const swapOutput = getAmountOut(swapAmount, reserveIn, reserveOut, feeNumerator);
+  const lpFromIn = ((amountIn - swapAmount) * lpSupply) / (reserveIn + swapAmount);
+  const lpFromOut = (swapOutput * lpSupply) / (reserveOut - swapOutput);
+
+  return { swapAmount, swapOutput, lpAmount: lpFromIn < lpFromOut ? lpFromIn : lpFromOut };
+}
+
+// Withdraw `lpAmount`, then swap the other side into the target token at the reserves left behind
+export function quoteZapOut(
+  lpAmount: bigint,
+  reserveTarget: bigint,
+  reserveOther: bigint,
+  lpSupply: bigint,
+  feeNumerator: bigint = FEE_NUMERATOR
+): ZapOutQuote {
+  // Burning the whole supply empties the pool, leaving nothing to swap against
+  if (lpAmount >= lpSupply) {
+    throw new PoolError(ErrorCode.INSUFFICIENT_LIQUIDITY, 'Cannot zap out of the last liquidity in a pool');
+  }
+
+  const withdrawnTarget = (reserveTarget * lpAmount) / lpSupply;
+  const swapAmount = (reserveOther * lpAmount) / lpSupply;
+  const swapOutput = swapAmount > 0n
+    ? getAmountOut(swapAmount, reserveOther - swapAmount, reserveTarget - withdrawnTarget, feeNumerator)
+    : 0n;
+
+  return { amountOut: withdrawnTarget + swapOutput, swapAmount, swapOutput };
+}
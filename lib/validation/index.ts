@@ -3,7 +3,7 @@
  */
 
 import { ValidationError, createValidationError } from '@/lib/errors';
-import { SUPPORTED_COINS } from '@/config/iota.config';
+import { getTokenByType } from '@/lib/services/token-registry';
 
 // Type definitions for validation schemas
 export interface ValidationRule<T = any> {
@@ -145,9 +145,8 @@ export class Validator {
 export const isValidTokenType = (tokenType: string): boolean => {
   if (!tokenType || typeof tokenType !== 'string') return false;
   
-  // Check if it's a supported coin
-  const supportedTypes = Object.values(SUPPORTED_COINS).map(coin => coin.type);
-  if (supportedTypes.includes(tokenType)) return true;
+  // Check if it's a registered token
+  if (getTokenByType(tokenType)) return true;
   
   // Check if it matches Move address pattern
   const moveAddressPattern = /^0x[a-fA-F0-9]{1,64}::[a-zA-Z_][a-zA-Z0-9_]*::[a-zA-Z_][a-zA-Z0-9_]*$/;
@@ -165,6 +164,11 @@ export const isValidAmount = (amount: string, decimals: number = 9): boolean =>
   return amountNum <= maxSafeAmount;
 };
 
+// Amounts in base units, as BigInt takes them: digits only, no sign, decimal point or exponent
+export const isValidBaseUnitAmount = (amount: unknown): amount is string => {
+  return typeof amount === 'string' && /^\d+$/.test(amount);
+};
+
 export const isValidSlippage = (slippage: number): boolean => {
   return typeof slippage === 'number' && 
          slippage >= 0.01 && // Minimum 0.01%
@@ -181,6 +185,13 @@ export const isValidPoolId = (poolId: string): boolean => {
   return objectIdPattern.test(poolId);
 };
 
+export const isValidAddress = (address: string): boolean => {
+  if (!address || typeof address !== 'string') return false;
+
+  // IOTA account addresses share the object ID format
+  return /^0x[a-fA-F0-9]{64}$/.test(address);
+};
+
 // Sanitization utilities
 export const sanitizeAmount = (amount: string): string => {
   if (typeof amount !== 'string') return '0';
@@ -239,6 +250,40 @@ export const swapValidationSchema: ValidationSchema = {
   },
 };
 
+export const swapExactOutputValidationSchema: ValidationSchema = {
+  inputToken: {
+    required: true,
+    type: 'string',
+    custom: isValidTokenType,
+    sanitize: sanitizeTokenType,
+  },
+  outputToken: {
+    required: true,
+    type: 'string',
+    custom: isValidTokenType,
+    sanitize: sanitizeTokenType,
+  },
+  outputAmount: {
+    required: true,
+    type: 'string',
+    custom: (value: string) => isValidAmount(value),
+    sanitize: sanitizeAmount,
+  },
+  slippage: {
+    required: false,
+    type: 'number',
+    custom: isValidSlippage,
+    min: 0.01,
+    max: 50,
+  },
+  deadline: {
+    required: false,
+    type: 'number',
+    min: Date.now(),
+    max: Date.now() + 24 * 60 * 60 * 1000, // Max 24 hours
+  },
+};
+
 export const poolValidationSchema: ValidationSchema = {
   poolId: {
     required: true,
@@ -316,6 +361,11 @@ export const validateSwapRequest = (data: any): ValidationResult => {
   return validator.validate(data);
 };
 
+export const validateSwapExactOutputRequest = (data: any): ValidationResult => {
+  const validator = new Validator(swapExactOutputValidationSchema);
+  return validator.validate(data);
+};
+
 export const validatePoolRequest = (data: any): ValidationResult => {
   const validator = new Validator(poolValidationSchema);
   return validator.validate(data);
@@ -358,6 +408,7 @@ export const validateDCARequest = (data: any): ValidationResult => {
 // Export commonly used validators
 export const validators = {
   swap: new Validator(swapValidationSchema),
+  swapExactOutput: new Validator(swapExactOutputValidationSchema),
   pool: new Validator(poolValidationSchema),
   dca: new Validator(dcaValidationSchema),
 };
\ No newline at end of file
@@ -15,6 +15,7 @@ module Blitz::limit_order {
     const EInvalidExpiry: u64 = 6;
     const EOrderBookFull: u64 = 8;
     const EInvalidFeeRate: u64 = 9;
+    const EOrderNotFilled: u64 = 10;
 
     public struct OrderBook<phantom CoinA, phantom CoinB> has key {
         id: object::UID,
@@ -99,17 +100,46 @@ module Blitz::limit_order {
 
     public entry fun place_buy_order<CoinA, CoinB>(
         order_book: &mut OrderBook<CoinA, CoinB>,
-        mut coin_b: Coin<CoinB>,
+        coin_b: Coin<CoinB>,
         price: u64,
         amount: u64,
         expire_duration: u64,
         clock: &Clock,
         ctx: &mut tx_context::TxContext
     ) {
+        assert!(expire_duration >= MIN_EXPIRY_DURATION && expire_duration <= MAX_EXPIRY_DURATION, EInvalidExpiry);
+
+        let order = new_buy_order(coin_b, price, amount, expire_duration, clock, ctx);
+        match_order(order_book, order, clock, ctx);
+    }
+
+    // Immediate-or-cancel buy: fills what crosses the book now and refunds the rest to the sender in
+    // the same call, nothing rests. With fill_or_kill it aborts unless the whole amount fills.
+    public entry fun place_buy_order_ioc<CoinA, CoinB>(
+        order_book: &mut OrderBook<CoinA, CoinB>,
+        coin_b: Coin<CoinB>,
+        price: u64,
+        amount: u64,
+        fill_or_kill: bool,
+        clock: &Clock,
+        ctx: &mut tx_context::TxContext
+    ) {
+        let order = new_buy_order(coin_b, price, amount, 0, clock, ctx);
+        fill_immediately(order_book, order, fill_or_kill, clock, ctx);
+    }
+
+    // Escrows the quote a buy pays and returns the change to the sender
+    fun new_buy_order<CoinA, CoinB>(
+        mut coin_b: Coin<CoinB>,
+        price: u64,
+        amount: u64,
+        expire_duration: u64,
+        clock: &Clock,
+        ctx: &mut tx_context::TxContext
+    ): LimitOrder<CoinA, CoinB> {
         // Input validation
         assert!(price > 0, EInvalidPrice);
         assert!(amount >= MIN_ORDER_SIZE, EInvalidAmount);
-        assert!(expire_duration >= MIN_EXPIRY_DURATION && expire_duration <= MAX_EXPIRY_DURATION, EInvalidExpiry);
         
         let order_id = object::new(ctx);
         let owner = tx_context::sender(ctx);
@@ -154,23 +184,50 @@ module Blitz::limit_order {
         });
 
         object::delete(order_id);
-        
-        match_order(order_book, order, clock, ctx);
+        order
     }
 
     public entry fun place_sell_order<CoinA, CoinB>(
         order_book: &mut OrderBook<CoinA, CoinB>,
-        mut coin_a: Coin<CoinA>,
+        coin_a: Coin<CoinA>,
         price: u64,
         amount: u64,
         expire_duration: u64,
         clock: &Clock,
         ctx: &mut tx_context::TxContext
     ) {
+        assert!(expire_duration >= MIN_EXPIRY_DURATION && expire_duration <= MAX_EXPIRY_DURATION, EInvalidExpiry);
+
+        let order = new_sell_order(coin_a, price, amount, expire_duration, clock, ctx);
+        match_order(order_book, order, clock, ctx);
+    }
+
+    // Immediate-or-cancel sell, see place_buy_order_ioc
+    public entry fun place_sell_order_ioc<CoinA, CoinB>(
+        order_book: &mut OrderBook<CoinA, CoinB>,
+        coin_a: Coin<CoinA>,
+        price: u64,
+        amount: u64,
+        fill_or_kill: bool,
+        clock: &Clock,
+        ctx: &mut tx_context::TxContext
+    ) {
+        let order = new_sell_order(coin_a, price, amount, 0, clock, ctx);
+        fill_immediately(order_book, order, fill_or_kill, clock, ctx);
+    }
+
+    // Escrows the base a sell offers and returns the change to the sender
+    fun new_sell_order<CoinA, CoinB>(
+        mut coin_a: Coin<CoinA>,
+        price: u64,
+        amount: u64,
+        expire_duration: u64,
+        clock: &Clock,
+        ctx: &mut tx_context::TxContext
+    ): LimitOrder<CoinA, CoinB> {
         // Input validation
         assert!(price > 0, EInvalidPrice);
         assert!(amount >= MIN_ORDER_SIZE, EInvalidAmount);
-        assert!(expire_duration >= MIN_EXPIRY_DURATION && expire_duration <= MAX_EXPIRY_DURATION, EInvalidExpiry);
         
         let coin_a_value = coin::value(&coin_a);
         assert!(coin_a_value >= amount, EInvalidAmount);
@@ -213,8 +270,7 @@ module Blitz::limit_order {
         });
 
         object::delete(order_id);
-        
-        match_order(order_book, order, clock, ctx);
+        order
     }
 
     fun match_order<CoinA, CoinB>(
@@ -231,10 +287,48 @@ module Blitz::limit_order {
             return
         };
 
-        let (matching_orders, same_side_orders) = if (new_order.is_buy) {
-            (&mut order_book.sell_orders, &mut order_book.buy_orders)
+        fill_from_book(order_book, &mut new_order, current_time, ctx);
+
+        let same_side_orders = if (new_order.is_buy) {
+            &mut order_book.buy_orders
         } else {
-            (&mut order_book.buy_orders, &mut order_book.sell_orders)
+            &mut order_book.sell_orders
+        };
+
+        if (new_order.filled_amount < new_order.amount && new_order.expire_at > current_time) {
+            // Check order book capacity before adding new order
+            assert!(vector::length(same_side_orders) < MAX_ORDERS_PER_SIDE, EOrderBookFull);
+            insert_order(same_side_orders, new_order);
+        } else {
+            finalize_order(new_order, ctx);
+        }
+    }
+
+    // Matches like match_order but never rests: the fills and the unfilled escrow go back to the owner
+    fun fill_immediately<CoinA, CoinB>(
+        order_book: &mut OrderBook<CoinA, CoinB>,
+        mut new_order: LimitOrder<CoinA, CoinB>,
+        fill_or_kill: bool,
+        clock: &Clock,
+        ctx: &mut tx_context::TxContext
+    ) {
+        fill_from_book(order_book, &mut new_order, clock::timestamp_ms(clock), ctx);
+        assert!(!fill_or_kill || new_order.filled_amount == new_order.amount, EOrderNotFilled);
+        finalize_order(new_order, ctx);
+    }
+
+    // Fills `new_order` against the opposite side at the makers' prices, best first, until it is
+    // filled or a maker no longer crosses
+    fun fill_from_book<CoinA, CoinB>(
+        order_book: &mut OrderBook<CoinA, CoinB>,
+        new_order: &mut LimitOrder<CoinA, CoinB>,
+        current_time: u64,
+        ctx: &mut tx_context::TxContext
+    ) {
+        let matching_orders = if (new_order.is_buy) {
+            &mut order_book.sell_orders
+        } else {
+            &mut order_book.buy_orders
         };
 
         // Remove expired orders first
@@ -258,7 +352,7 @@ module Blitz::limit_order {
                 };
 
                 execute_trade(
-                    &mut new_order, 
+                    new_order, 
                     counter_order, 
                     fill_amount, 
                     order_book.fee_rate,
@@ -277,14 +371,6 @@ module Blitz::limit_order {
                 break // Orders are sorted by price, no need to check further
             }
         };
-
-        if (new_order.filled_amount < new_order.amount && new_order.expire_at > current_time) {
-            // Check order book capacity before adding new order
-            assert!(vector::length(same_side_orders) < MAX_ORDERS_PER_SIDE, EOrderBookFull);
-            insert_order(same_side_orders, new_order);
-        } else {
-            finalize_order(new_order, ctx);
-        }
     }
 
     fun execute_trade<CoinA, CoinB>(
@@ -7,12 +7,15 @@ module Blitz::simple_dex {
     use iota::object;
     use iota::transfer;
     use iota::tx_context;
+    use iota::event;
+    use std::type_name;
 
     // Error codes
     const E_ZERO_AMOUNT: u64 = 0;
     const E_INSUFFICIENT_OUTPUT_AMOUNT: u64 = 2;
     const E_INSUFFICIENT_RESERVES: u64 = 3;
     const E_SLIPPAGE_EXCEEDED: u64 = 5;
+    const E_INSUFFICIENT_LP_AMOUNT: u64 = 6;
 
     // Constants
     const FEE_NUMERATOR: u64 = 18; // 1.8% fee
@@ -72,12 +75,19 @@ module Blitz::simple_dex {
         (result as u64)
     }
 
+    // safe_mul_div rounded up
+    fun safe_mul_div_up(a: u64, b: u64, c: u64): u64 {
+        let result = ((a as u128) * (b as u128) + (c as u128) - 1) / (c as u128);
+        assert!(result <= (0xFFFFFFFFFFFFFFFF as u128), E_INSUFFICIENT_OUTPUT_AMOUNT);
+        (result as u64)
+    }
+
     // Safe price calculation to avoid overflow
     fun calculate_price(amount_a: u64, amount_b: u64): u64 {
         if (amount_b == 0) return 0;
         
-        // Use smaller precision factor to avoid overflow with large amounts
-        let precision = 1000u64; // 3 decimal precision instead of 6
+        // 6 decimals, the scale swaps cache prices at and get_spot_price reports
+        let precision = 1000000u64;
         
         // Check if multiplication would overflow
         let max_safe_amount = 0xFFFFFFFFFFFFFFFFu128 / (precision as u128);
@@ -116,6 +126,17 @@ module Blitz::simple_dex {
         amount: u64,
     }
 
+    // Lets clients discover pools without knowing their IDs up front
+    public struct PoolCreatedEvent has copy, drop {
+        pool_id: object::ID,
+        coin_type_a: std::ascii::String,
+        coin_type_b: std::ascii::String,
+        creator: address,
+        amount_a: u64,
+        amount_b: u64,
+        lp_supply: u64,
+    }
+
     public entry fun create_pool<CoinA, CoinB>(
         coin_a: Coin<CoinA>,
         coin_b: Coin<CoinB>,
@@ -150,6 +171,16 @@ module Blitz::simple_dex {
             amount: initial_lp_supply,
         };
         
+        event::emit(PoolCreatedEvent {
+            pool_id: object::id(&pool),
+            coin_type_a: type_name::into_string(type_name::get<CoinA>()),
+            coin_type_b: type_name::into_string(type_name::get<CoinB>()),
+            creator: tx_context::sender(ctx),
+            amount_a,
+            amount_b,
+            lp_supply: initial_lp_supply,
+        });
+
         transfer::share_object(pool);
         transfer::public_transfer(lp_token, tx_context::sender(ctx));
     }
@@ -195,14 +226,49 @@ module Blitz::simple_dex {
         coin_b
     }
 
-    // Calculate expected output amount without performing the swap
+    // Reverse-direction counterpart of swap_a_to_b_internal, returning the output coin so
+    // programmable transactions can chain it into further swaps (multi-hop routing)
+    public fun swap_b_to_a_internal<CoinA, CoinB>(
+        pool: &mut Pool<CoinA, CoinB>,
+        coin_b: Coin<CoinB>,
+        ctx: &mut tx_context::TxContext
+    ): Coin<CoinA> {
+        let amount_in = coin::value(&coin_b);
+        assert!(amount_in > 0, E_ZERO_AMOUNT);
+
+        let reserve_a = balance::value(&pool.reserve_a);
+        let reserve_b = balance::value(&pool.reserve_b);
+
+        let fee_amount = safe_mul_div(amount_in, FEE_NUMERATOR, FEE_DENOMINATOR);
+        let amount_in_after_fee = amount_in - fee_amount;
+
+        let amount_out = safe_mul_div(amount_in_after_fee, reserve_a, reserve_b + amount_in_after_fee);
+
+        assert!(amount_out > 0, E_INSUFFICIENT_OUTPUT_AMOUNT);
+        assert!(reserve_a >= amount_out, E_INSUFFICIENT_RESERVES);
+
+        balance::join(&mut pool.reserve_b, coin::into_balance(coin_b));
+        let coin_a = coin::take(&mut pool.reserve_a, amount_out, ctx);
+
+        let (current_fees_a, current_fees_b) = unpack_u64_pair(pool.fee_data);
+        let (current_volume_a, current_volume_b) = unpack_u64_pair(pool.volume_data);
+
+        pool.fee_data = pack_u64_pair(current_fees_a, current_fees_b + fee_amount);
+        pool.volume_data = pack_u64_pair(current_volume_a, current_volume_b + amount_in);
+
+        pool.last_price_a = safe_mul_div(reserve_a - amount_out, 1000000, reserve_b + amount_in_after_fee);
+        pool.last_price_b = safe_mul_div(reserve_b + amount_in_after_fee, 1000000, reserve_a - amount_out);
+
+        coin_a
+    }
+
+    // Calculate expected output amount without performing the swap, with the same u128
+    // intermediate math as the swaps so quotes match execution for any reserve size
     public fun calculate_output_amount(amount_in: u64, reserve_in: u64, reserve_out: u64): u64 {
-        // Calculate fee
-        let fee_amount = (amount_in * FEE_NUMERATOR) / FEE_DENOMINATOR;
+        let fee_amount = safe_mul_div(amount_in, FEE_NUMERATOR, FEE_DENOMINATOR);
         let amount_in_after_fee = amount_in - fee_amount;
         
-        // Calculate output using constant product formula
-        (amount_in_after_fee * reserve_out) / (reserve_in + amount_in_after_fee)
+        safe_mul_div(amount_in_after_fee, reserve_out, reserve_in + amount_in_after_fee)
     }
 
     public entry fun swap_a_to_b<CoinA, CoinB>(
@@ -219,34 +285,7 @@ module Blitz::simple_dex {
         coin_b: Coin<CoinB>,
         ctx: &mut tx_context::TxContext
     ) {
-        let amount_in = coin::value(&coin_b);
-        let reserve_a = balance::value(&pool.reserve_a);
-        let reserve_b = balance::value(&pool.reserve_b);
-        
-        // Calculate fee
-        let fee_amount = (amount_in * FEE_NUMERATOR) / FEE_DENOMINATOR;
-        let amount_in_after_fee = amount_in - fee_amount;
-        
-        // Calculate output using constant product formula (x * y = k)
-        // After swap: (reserve_b + amount_in_after_fee) * (reserve_a - amount_out) = reserve_a * reserve_b
-        // Solving for amount_out: amount_out = (amount_in_after_fee * reserve_a) / (reserve_b + amount_in_after_fee)
-        let amount_out = (amount_in_after_fee * reserve_a) / (reserve_b + amount_in_after_fee);
-        
-        // Ensure pool has enough reserves
-        assert!(amount_out > 0, E_INSUFFICIENT_OUTPUT_AMOUNT);
-        assert!(reserve_a >= amount_out, E_INSUFFICIENT_RESERVES);
-        
-        // Update pool state
-        balance::join(&mut pool.reserve_b, coin::into_balance(coin_b));
-        let coin_a = coin::take(&mut pool.reserve_a, amount_out, ctx);
-        
-        // Record fees and volume using packed data
-        let (current_fees_a, current_fees_b) = unpack_u64_pair(pool.fee_data);
-        let (current_volume_a, current_volume_b) = unpack_u64_pair(pool.volume_data);
-        
-        pool.fee_data = pack_u64_pair(current_fees_a, current_fees_b + fee_amount);
-        pool.volume_data = pack_u64_pair(current_volume_a, current_volume_b + amount_in);
-        
+        let coin_a = swap_b_to_a_internal(pool, coin_b, ctx);
         transfer::public_transfer(coin_a, tx_context::sender(ctx));
     }
     
@@ -297,6 +336,50 @@ module Blitz::simple_dex {
         
         transfer::public_transfer(lp_token, tx_context::sender(ctx));
     }
+
+    // Deposits as much of coin_a and coin_b as matches the pool ratio and hands back the LP token
+    // with the unused remainders, so programmable transactions (zaps) can return the dust.
+    // Only for pools that already have liquidity; the first deposit goes through add_liquidity.
+    public fun add_liquidity_internal<CoinA, CoinB>(
+        pool: &mut Pool<CoinA, CoinB>,
+        mut coin_a: Coin<CoinA>,
+        mut coin_b: Coin<CoinB>,
+        min_lp_amount: u64,
+        ctx: &mut tx_context::TxContext
+    ): (LPToken<CoinA, CoinB>, Coin<CoinA>, Coin<CoinB>) {
+        let amount_a = coin::value(&coin_a);
+        let amount_b = coin::value(&coin_b);
+
+        assert!(amount_a > 0 && amount_b > 0, E_ZERO_AMOUNT);
+        assert!(pool.lp_supply > 0, E_INSUFFICIENT_RESERVES);
+
+        let reserve_a = balance::value(&pool.reserve_a);
+        let reserve_b = balance::value(&pool.reserve_b);
+
+        let lp_from_a = safe_mul_div(amount_a, pool.lp_supply, reserve_a);
+        let lp_from_b = safe_mul_div(amount_b, pool.lp_supply, reserve_b);
+        let lp_amount = if (lp_from_a < lp_from_b) { lp_from_a } else { lp_from_b };
+
+        assert!(lp_amount > 0, E_INSUFFICIENT_OUTPUT_AMOUNT);
+        assert!(lp_amount >= min_lp_amount, E_SLIPPAGE_EXCEEDED);
+
+        // What lp_amount is worth, rounded up so existing LPs are never diluted; never more
+        // than the coin holds since lp_amount was rounded down from it
+        let used_a = safe_mul_div_up(lp_amount, reserve_a, pool.lp_supply);
+        let used_b = safe_mul_div_up(lp_amount, reserve_b, pool.lp_supply);
+
+        balance::join(&mut pool.reserve_a, coin::into_balance(coin::split(&mut coin_a, used_a, ctx)));
+        balance::join(&mut pool.reserve_b, coin::into_balance(coin::split(&mut coin_b, used_b, ctx)));
+
+        pool.lp_supply = pool.lp_supply + lp_amount;
+
+        let lp_token = LPToken<CoinA, CoinB> {
+            id: object::new(ctx),
+            amount: lp_amount,
+        };
+
+        (lp_token, coin_a, coin_b)
+    }
     
     public entry fun remove_liquidity<CoinA, CoinB>(
         pool: &mut Pool<CoinA, CoinB>,
@@ -305,6 +388,31 @@ module Blitz::simple_dex {
         min_amount_b: u64,
         ctx: &mut tx_context::TxContext
     ) {
+        let (coin_a, coin_b) = remove_liquidity_internal(pool, lp_token, min_amount_a, min_amount_b, ctx);
+
+        // Return coins to user only if amounts are greater than 0
+        if (coin::value(&coin_a) > 0) {
+            transfer::public_transfer(coin_a, tx_context::sender(ctx));
+        } else {
+            coin::destroy_zero(coin_a);
+        };
+
+        if (coin::value(&coin_b) > 0) {
+            transfer::public_transfer(coin_b, tx_context::sender(ctx));
+        } else {
+            coin::destroy_zero(coin_b);
+        };
+    }
+
+    // Burns the LP token and returns its share of the reserves, so programmable transactions can
+    // swap one side into the other (zap out)
+    public fun remove_liquidity_internal<CoinA, CoinB>(
+        pool: &mut Pool<CoinA, CoinB>,
+        lp_token: LPToken<CoinA, CoinB>,
+        min_amount_a: u64,
+        min_amount_b: u64,
+        ctx: &mut tx_context::TxContext
+    ): (Coin<CoinA>, Coin<CoinB>) {
         let lp_amount = lp_token.amount;
         let reserve_a = balance::value(&pool.reserve_a);
         let reserve_b = balance::value(&pool.reserve_b);
@@ -339,18 +447,40 @@ module Blitz::simple_dex {
         let LPToken { id, amount: _ } = lp_token;
         object::delete(id);
         
-        // Return coins to user only if amounts are greater than 0
-        if (amount_a > 0) {
-            let coin_a = coin::take(&mut pool.reserve_a, amount_a, ctx);
-            transfer::public_transfer(coin_a, tx_context::sender(ctx));
-        };
-        
-        if (amount_b > 0) {
-            let coin_b = coin::take(&mut pool.reserve_b, amount_b, ctx);
-            transfer::public_transfer(coin_b, tx_context::sender(ctx));
-        };
+        (coin::take(&mut pool.reserve_a, amount_a, ctx), coin::take(&mut pool.reserve_b, amount_b, ctx))
     }
     
+    // Folds `other` into `lp_token`, so deposits made over time become a single position
+    public fun join_lp_token<CoinA, CoinB>(
+        lp_token: &mut LPToken<CoinA, CoinB>,
+        other: LPToken<CoinA, CoinB>
+    ) {
+        let LPToken { id, amount } = other;
+        object::delete(id);
+        lp_token.amount = lp_token.amount + amount;
+    }
+
+    // Splits `amount` off into a new LP token, for partial removal or transfer. Splitting the
+    // whole amount is rejected, it would leave an empty token behind
+    public fun split_lp_token<CoinA, CoinB>(
+        lp_token: &mut LPToken<CoinA, CoinB>,
+        amount: u64,
+        ctx: &mut tx_context::TxContext
+    ): LPToken<CoinA, CoinB> {
+        assert!(amount > 0, E_ZERO_AMOUNT);
+        assert!(amount < lp_token.amount, E_INSUFFICIENT_LP_AMOUNT);
+
+        lp_token.amount = lp_token.amount - amount;
+        LPToken<CoinA, CoinB> {
+            id: object::new(ctx),
+            amount,
+        }
+    }
+
+    public fun lp_token_amount<CoinA, CoinB>(lp_token: &LPToken<CoinA, CoinB>): u64 {
+        lp_token.amount
+    }
+
     // High-performance getter functions optimized for gas efficiency
     public fun get_reserves<CoinA, CoinB>(pool: &Pool<CoinA, CoinB>): (u64, u64) {
         (balance::value(&pool.reserve_a), balance::value(&pool.reserve_b))
@@ -389,4 +519,9 @@ module Blitz::simple_dex {
         let reserve_b = balance::value(&pool.reserve_b);
         reserve_a > 0 && reserve_b > 0 && pool.lp_supply > 0
     }
-}
\ No newline at end of file
+
+    #[test_only]
+    public fun safe_mul_div_up_for_testing(a: u64, b: u64, c: u64): u64 {
+        safe_mul_div_up(a, b, c)
+    }
+}
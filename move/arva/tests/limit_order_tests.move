@@ -0,0 +1,90 @@
+#[test_only]
+module Blitz::limit_order_tests {
+    use iota::coin::{Self, Coin};
+    use iota::clock;
+    use iota::test_scenario::{Self as ts, Scenario};
+    use Blitz::limit_order::{Self, OrderBook};
+
+    public struct COIN_A has drop {}
+    public struct COIN_B has drop {}
+
+    const ADMIN: address = @0xA;
+    const MAKER: address = @0xB;
+    const TAKER: address = @0xC;
+
+    const PRICE: u64 = 2_000_000; // 2 COIN_B per COIN_A at 6 decimals
+
+    // Shares a fee-free COIN_A/COIN_B book with MAKER's sell of `amount` resting on it at PRICE
+    fun create_book_with_ask(scenario: &mut Scenario, amount: u64) {
+        ts::next_tx(scenario, ADMIN);
+        limit_order::create_order_book<COIN_A, COIN_B>(0, ts::ctx(scenario));
+
+        ts::next_tx(scenario, MAKER);
+        let mut book = ts::take_shared<OrderBook<COIN_A, COIN_B>>(scenario);
+        let clock = clock::create_for_testing(ts::ctx(scenario));
+        let coin_a = coin::mint_for_testing<COIN_A>(amount, ts::ctx(scenario));
+        limit_order::place_sell_order(&mut book, coin_a, PRICE, amount, 60_000, &clock, ts::ctx(scenario));
+        clock::destroy_for_testing(clock);
+        ts::return_shared(book);
+    }
+
+    // TAKER's immediate buy of `amount` at PRICE, paid with exactly its cost
+    fun buy_immediately(scenario: &mut Scenario, amount: u64, fill_or_kill: bool) {
+        ts::next_tx(scenario, TAKER);
+        let mut book = ts::take_shared<OrderBook<COIN_A, COIN_B>>(scenario);
+        let clock = clock::create_for_testing(ts::ctx(scenario));
+        let coin_b = coin::mint_for_testing<COIN_B>(amount * 2, ts::ctx(scenario));
+        limit_order::place_buy_order_ioc(&mut book, coin_b, PRICE, amount, fill_or_kill, &clock, ts::ctx(scenario));
+        clock::destroy_for_testing(clock);
+        ts::return_shared(book);
+    }
+
+    #[test]
+    fun ioc_fills_what_crosses_and_refunds_the_rest() {
+        let mut scenario = ts::begin(ADMIN);
+        create_book_with_ask(&mut scenario, 1_000_000);
+        buy_immediately(&mut scenario, 3_000_000, false);
+
+        ts::next_tx(&mut scenario, TAKER);
+        let coin_a = ts::take_from_sender<Coin<COIN_A>>(&scenario);
+        let coin_b = ts::take_from_sender<Coin<COIN_B>>(&scenario);
+        assert!(coin::value(&coin_a) == 1_000_000, 0);
+        // 6000000 escrowed, 2000000 paid for the fill
+        assert!(coin::value(&coin_b) == 4_000_000, 1);
+
+        // Neither the filled ask nor the IOC's remainder is left on the book
+        let book = ts::take_shared<OrderBook<COIN_A, COIN_B>>(&scenario);
+        let (buy_orders, sell_orders, _, _, _) = limit_order::get_order_book_info(&book);
+        assert!(buy_orders == 0 && sell_orders == 0, 2);
+
+        ts::return_shared(book);
+        ts::return_to_sender(&scenario, coin_a);
+        ts::return_to_sender(&scenario, coin_b);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun fok_fills_when_the_book_covers_the_whole_amount() {
+        let mut scenario = ts::begin(ADMIN);
+        create_book_with_ask(&mut scenario, 3_000_000);
+        buy_immediately(&mut scenario, 3_000_000, true);
+
+        ts::next_tx(&mut scenario, TAKER);
+        let coin_a = ts::take_from_sender<Coin<COIN_A>>(&scenario);
+        assert!(coin::value(&coin_a) == 3_000_000, 0);
+        assert!(!ts::has_most_recent_for_sender<Coin<COIN_B>>(&scenario), 1);
+
+        ts::return_to_sender(&scenario, coin_a);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 10, location = Blitz::limit_order)]
+    fun fok_aborts_unless_the_whole_amount_fills() {
+        let mut scenario = ts::begin(ADMIN);
+        create_book_with_ask(&mut scenario, 1_000_000);
+        buy_immediately(&mut scenario, 3_000_000, true);
+
+        ts::end(scenario);
+    }
+}
@@ -0,0 +1,216 @@
+#[test_only]
+module Blitz::simple_dex_tests {
+    use iota::coin;
+    use iota::clock;
+    use iota::transfer;
+    use iota::test_scenario::{Self as ts, Scenario};
+    use Blitz::simple_dex::{Self, Pool, LPToken};
+
+    public struct COIN_A has drop {}
+    public struct COIN_B has drop {}
+
+    const CREATOR: address = @0xA;
+    const TRADER: address = @0xB;
+
+    // Shares a COIN_A/COIN_B pool and leaves its LP token with CREATOR
+    fun create_pool(scenario: &mut Scenario, amount_a: u64, amount_b: u64) {
+        ts::next_tx(scenario, CREATOR);
+        let ctx = ts::ctx(scenario);
+        let clock = clock::create_for_testing(ctx);
+        simple_dex::create_pool(
+            coin::mint_for_testing<COIN_A>(amount_a, ctx),
+            coin::mint_for_testing<COIN_B>(amount_b, ctx),
+            &clock,
+            ctx,
+        );
+        clock::destroy_for_testing(clock);
+    }
+
+    #[test]
+    fun swap_b_to_a_internal_returns_the_quoted_output() {
+        let mut scenario = ts::begin(CREATOR);
+        create_pool(&mut scenario, 1_000_000_000, 1_000_000_000);
+
+        ts::next_tx(&mut scenario, TRADER);
+        let mut pool = ts::take_shared<Pool<COIN_A, COIN_B>>(&scenario);
+        let coin_b = coin::mint_for_testing<COIN_B>(1_000_000, ts::ctx(&mut scenario));
+        let coin_a = simple_dex::swap_b_to_a_internal(&mut pool, coin_b, ts::ctx(&mut scenario));
+
+        // 1.8% fee taken from the input, 982000 swapped against equal reserves
+        assert!(coin::value(&coin_a) == 981_036, 0);
+        assert!(coin::value(&coin_a) == simple_dex::calculate_output_amount(1_000_000, 1_000_000_000, 1_000_000_000), 1);
+
+        let (reserve_a, reserve_b) = simple_dex::get_reserves(&pool);
+        assert!(reserve_a == 1_000_000_000 - 981_036, 2);
+        assert!(reserve_b == 1_001_000_000, 3);
+        let (fees_a, fees_b) = simple_dex::get_fees(&pool);
+        assert!(fees_a == 0 && fees_b == 18_000, 4);
+
+        coin::burn_for_testing(coin_a);
+        ts::return_shared(pool);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 0, location = Blitz::simple_dex)]
+    fun swap_b_to_a_internal_rejects_an_empty_coin() {
+        let mut scenario = ts::begin(CREATOR);
+        create_pool(&mut scenario, 1_000_000_000, 1_000_000_000);
+
+        ts::next_tx(&mut scenario, TRADER);
+        let mut pool = ts::take_shared<Pool<COIN_A, COIN_B>>(&scenario);
+        let coin_b = coin::mint_for_testing<COIN_B>(0, ts::ctx(&mut scenario));
+        let coin_a = simple_dex::swap_b_to_a_internal(&mut pool, coin_b, ts::ctx(&mut scenario));
+
+        coin::burn_for_testing(coin_a);
+        ts::return_shared(pool);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun add_liquidity_internal_deposits_at_the_pool_ratio_and_returns_the_rest() {
+        let mut scenario = ts::begin(CREATOR);
+        create_pool(&mut scenario, 1_000_000_000, 4_000_000_000);
+
+        ts::next_tx(&mut scenario, TRADER);
+        let mut pool = ts::take_shared<Pool<COIN_A, COIN_B>>(&scenario);
+        let supply = simple_dex::get_lp_supply(&pool);
+        let coin_a = coin::mint_for_testing<COIN_A>(1_000, ts::ctx(&mut scenario));
+        let coin_b = coin::mint_for_testing<COIN_B>(5_000, ts::ctx(&mut scenario));
+
+        let (lp_token, rest_a, rest_b) = simple_dex::add_liquidity_internal(&mut pool, coin_a, coin_b, 0, ts::ctx(&mut scenario));
+
+        // A is the limiting side: 1000 A buys its share of the supply and needs 4000 B with it
+        let lp_amount = simple_dex::lp_token_amount(&lp_token);
+        assert!(lp_amount == 1_000 * supply / 1_000_000_000, 0);
+        assert!(coin::value(&rest_a) == 0, 1);
+        assert!(coin::value(&rest_b) == 1_000, 2);
+        assert!(simple_dex::get_lp_supply(&pool) == supply + lp_amount, 3);
+        let (reserve_a, reserve_b) = simple_dex::get_reserves(&pool);
+        assert!(reserve_a == 1_000_001_000 && reserve_b == 4_000_004_000, 4);
+
+        coin::burn_for_testing(rest_a);
+        coin::burn_for_testing(rest_b);
+        transfer::public_transfer(lp_token, TRADER);
+        ts::return_shared(pool);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 5, location = Blitz::simple_dex)]
+    fun add_liquidity_internal_enforces_the_minimum_lp_amount() {
+        let mut scenario = ts::begin(CREATOR);
+        create_pool(&mut scenario, 1_000_000_000, 4_000_000_000);
+
+        ts::next_tx(&mut scenario, TRADER);
+        let mut pool = ts::take_shared<Pool<COIN_A, COIN_B>>(&scenario);
+        let coin_a = coin::mint_for_testing<COIN_A>(1_000, ts::ctx(&mut scenario));
+        let coin_b = coin::mint_for_testing<COIN_B>(4_000, ts::ctx(&mut scenario));
+
+        let (lp_token, rest_a, rest_b) = simple_dex::add_liquidity_internal(&mut pool, coin_a, coin_b, 1_000_000_000, ts::ctx(&mut scenario));
+
+        coin::burn_for_testing(rest_a);
+        coin::burn_for_testing(rest_b);
+        transfer::public_transfer(lp_token, TRADER);
+        ts::return_shared(pool);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun remove_liquidity_internal_returns_the_token_share_of_the_reserves() {
+        let mut scenario = ts::begin(CREATOR);
+        create_pool(&mut scenario, 1_000_000_000, 4_000_000_000);
+
+        ts::next_tx(&mut scenario, CREATOR);
+        let mut pool = ts::take_shared<Pool<COIN_A, COIN_B>>(&scenario);
+        let mut lp_token = ts::take_from_sender<LPToken<COIN_A, COIN_B>>(&scenario);
+        let supply = simple_dex::get_lp_supply(&pool);
+        let quarter = simple_dex::split_lp_token(&mut lp_token, supply / 4, ts::ctx(&mut scenario));
+
+        let (coin_a, coin_b) = simple_dex::remove_liquidity_internal(&mut pool, quarter, 250_000_000, 1_000_000_000, ts::ctx(&mut scenario));
+
+        assert!(coin::value(&coin_a) == 250_000_000, 0);
+        assert!(coin::value(&coin_b) == 1_000_000_000, 1);
+        assert!(simple_dex::get_lp_supply(&pool) == supply - supply / 4, 2);
+        let (reserve_a, reserve_b) = simple_dex::get_reserves(&pool);
+        assert!(reserve_a == 750_000_000 && reserve_b == 3_000_000_000, 3);
+
+        coin::burn_for_testing(coin_a);
+        coin::burn_for_testing(coin_b);
+        ts::return_to_sender(&scenario, lp_token);
+        ts::return_shared(pool);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 5, location = Blitz::simple_dex)]
+    fun remove_liquidity_internal_enforces_the_minimum_amounts() {
+        let mut scenario = ts::begin(CREATOR);
+        create_pool(&mut scenario, 1_000_000_000, 4_000_000_000);
+
+        ts::next_tx(&mut scenario, CREATOR);
+        let mut pool = ts::take_shared<Pool<COIN_A, COIN_B>>(&scenario);
+        let mut lp_token = ts::take_from_sender<LPToken<COIN_A, COIN_B>>(&scenario);
+        let supply = simple_dex::get_lp_supply(&pool);
+        let quarter = simple_dex::split_lp_token(&mut lp_token, supply / 4, ts::ctx(&mut scenario));
+
+        let (coin_a, coin_b) = simple_dex::remove_liquidity_internal(&mut pool, quarter, 250_000_001, 0, ts::ctx(&mut scenario));
+
+        coin::burn_for_testing(coin_a);
+        coin::burn_for_testing(coin_b);
+        ts::return_to_sender(&scenario, lp_token);
+        ts::return_shared(pool);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun split_and_join_lp_token_keep_the_total_amount() {
+        let mut scenario = ts::begin(CREATOR);
+        create_pool(&mut scenario, 1_000_000_000, 4_000_000_000);
+
+        ts::next_tx(&mut scenario, CREATOR);
+        let mut lp_token = ts::take_from_sender<LPToken<COIN_A, COIN_B>>(&scenario);
+        let total = simple_dex::lp_token_amount(&lp_token);
+
+        let part = simple_dex::split_lp_token(&mut lp_token, 1_000, ts::ctx(&mut scenario));
+        assert!(simple_dex::lp_token_amount(&part) == 1_000, 0);
+        assert!(simple_dex::lp_token_amount(&lp_token) == total - 1_000, 1);
+
+        simple_dex::join_lp_token(&mut lp_token, part);
+        assert!(simple_dex::lp_token_amount(&lp_token) == total, 2);
+
+        ts::return_to_sender(&scenario, lp_token);
+        ts::end(scenario);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 6, location = Blitz::simple_dex)]
+    fun split_lp_token_rejects_splitting_off_everything() {
+        let mut scenario = ts::begin(CREATOR);
+        create_pool(&mut scenario, 1_000_000_000, 4_000_000_000);
+
+        ts::next_tx(&mut scenario, CREATOR);
+        let mut lp_token = ts::take_from_sender<LPToken<COIN_A, COIN_B>>(&scenario);
+        let total = simple_dex::lp_token_amount(&lp_token);
+        let part = simple_dex::split_lp_token(&mut lp_token, total, ts::ctx(&mut scenario));
+
+        transfer::public_transfer(part, CREATOR);
+        ts::return_to_sender(&scenario, lp_token);
+        ts::end(scenario);
+    }
+
+    #[test]
+    fun safe_mul_div_up_rounds_only_inexact_results_up() {
+        assert!(simple_dex::safe_mul_div_up_for_testing(10, 6, 3) == 20, 0);
+        assert!(simple_dex::safe_mul_div_up_for_testing(10, 7, 3) == 24, 1);
+        assert!(simple_dex::safe_mul_div_up_for_testing(0, 7, 3) == 0, 2);
+        // The u128 intermediate holds products past u64
+        assert!(simple_dex::safe_mul_div_up_for_testing(0xFFFFFFFFFFFFFFFF, 2, 4) == 0x8000000000000000, 3);
+    }
+
+    #[test]
+    #[expected_failure(abort_code = 2, location = Blitz::simple_dex)]
+    fun safe_mul_div_up_aborts_when_the_result_exceeds_u64() {
+        simple_dex::safe_mul_div_up_for_testing(0xFFFFFFFFFFFFFFFF, 2, 1);
+    }
+}
@@ -263,9 +263,18 @@ export interface AppConfig {
   readonly defaultSlippage: number;
   readonly maxSlippage: number;
   readonly defaultDeadline: number;
+  readonly priceImpact: PriceImpactThresholds;
   readonly featureFlags: FeatureFlags;
 }
 
+// Price impact percentages: warn above `warning`, ask for confirmation above `confirm`,
+// refuse to quote above `max`
+export interface PriceImpactThresholds {
+  readonly warning: number;
+  readonly confirm: number;
+  readonly max: number;
+}
+
 export interface FeatureFlags {
   readonly enableDCA: boolean;
   readonly enableLimitOrders: boolean;